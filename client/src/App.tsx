@@ -4,13 +4,29 @@ import { Toaster } from "@/components/ui/toaster";
 import { AuthProvider } from "@/hooks/useAuth";
 import { ThemeProvider } from "@/hooks/use-theme";
 import LoginForm from "@/components/auth/LoginForm";
+import FirstLoginPasswordChange from "@/components/auth/FirstLoginPasswordChange";
+import TwoFactorSetupRequired from "@/components/auth/TwoFactorSetupRequired";
+import ForgotPassword from "@/pages/auth/ForgotPassword";
+import ResetPassword from "@/pages/auth/ResetPassword";
+import GuardianAccess from "@/pages/auth/GuardianAccess";
+import MagicLogin from "@/pages/auth/MagicLogin";
+import Profile from "@/pages/profile/Profile";
 import Dashboard from "@/pages/dashboard/Dashboard";
 import DepartmentsList from "@/pages/departments/DepartmentsList";
 import CoursesList from "@/pages/courses/CoursesList";
 import ModulesList from "@/pages/modules/ModulesList";
 import TeachersList from "@/pages/teachers/TeachersList";
 import StudentsList from "@/pages/students/StudentsList";
+import AcademicPeriods from "@/pages/periods/AcademicPeriods";
+import SecuritySettings from "@/pages/security/SecuritySettings";
+import AuditLog from "@/pages/audit/AuditLog";
+import JustificationRequests from "@/pages/justifications/JustificationRequests";
+import AbsenceAlerts from "@/pages/alerts/AbsenceAlerts";
+import StudentPortal from "@/pages/portal/StudentPortal";
+import GuardianPortal from "@/pages/portal/GuardianPortal";
 import StudentGroups from "@/pages/student-groups/StudentGroups";
+import Timetable from "@/pages/timetable/Timetable";
+import RoomsList from "@/pages/rooms/RoomsList";
 import RecordAbsences from "@/pages/absences/RecordAbsences";
 import AbsenceHistory from "@/pages/absences/AbsenceHistory";
 import AbsenceReports from "@/pages/absences/AbsenceReports";
@@ -19,9 +35,10 @@ import NotFound from "@/pages/not-found";
 import { useAuth } from "@/hooks/useAuth";
 import Sidebar from "@/components/layout/Sidebar";
 import Header from "@/components/layout/Header";
+import type { Permission } from "@shared/permissions";
 
-function ProtectedRoute({ children, requiredRoles }: { children: React.ReactNode, requiredRoles?: string[] }) {
-  const { user, isLoading, initialized } = useAuth();
+function ProtectedRoute({ children, requiredPermissions }: { children: React.ReactNode, requiredPermissions?: Permission[] }) {
+  const { user, isLoading, initialized, can } = useAuth();
   const [previouslyAuthenticated, setPreviouslyAuthenticated] = useState(() => {
     // Initialize from localStorage to avoid flash
     return !!localStorage.getItem('SuiviScolaire_user');
@@ -51,8 +68,18 @@ function ProtectedRoute({ children, requiredRoles }: { children: React.ReactNode
     return <LoginForm />;
   }
   
-  // Check role permissions
-  if (requiredRoles && !requiredRoles.includes(user.role)) {
+  // A password set by an administrator must be replaced before anything else
+  if (user.mustChangePassword) {
+    return <FirstLoginPasswordChange />;
+  }
+  
+  // Roles the two-factor policy applies to enroll before using the application
+  if (user.twoFactorSetupRequired) {
+    return <TwoFactorSetupRequired />;
+  }
+  
+  // Check permissions; any one of them opens the page
+  if (requiredPermissions && !can(...requiredPermissions)) {
     return <div className="flex items-center justify-center h-screen">Accès non autorisé</div>;
   }
   
@@ -77,6 +104,13 @@ function AppLayout({ children }: { children: React.ReactNode }) {
   );
 }
 
+// Students and guardians land on their portal, staff on the dashboard
+function Home() {
+  const { can } = useAuth();
+  if (can("portal:view")) return <StudentPortal />;
+  return can("wards:view") ? <GuardianPortal /> : <Dashboard />;
+}
+
 function Router() {
   return (
     <Switch>
@@ -84,25 +118,57 @@ function Router() {
         <LoginForm />
       </Route>
       
+      <Route path="/forgot-password">
+        <ForgotPassword />
+      </Route>
+      
+      <Route path="/reset-password">
+        <ResetPassword />
+      </Route>
+      
+      <Route path="/guardian-access">
+        <GuardianAccess />
+      </Route>
+      
+      <Route path="/magic-login">
+        <MagicLogin />
+      </Route>
+      
       <Route path="/">
         <ProtectedRoute>
           <AppLayout>
-            <Dashboard />
+            <Home />
+          </AppLayout>
+        </ProtectedRoute>
+      </Route>
+      
+      <Route path="/profile">
+        <ProtectedRoute>
+          <AppLayout>
+            <Profile />
           </AppLayout>
         </ProtectedRoute>
       </Route>
       
       {/* Admin Routes */}
       <Route path="/departments">
-        <ProtectedRoute requiredRoles={["admin"]}>
+        <ProtectedRoute requiredPermissions={["structure:manage"]}>
           <AppLayout>
             <DepartmentsList />
           </AppLayout>
         </ProtectedRoute>
       </Route>
       
+      <Route path="/rooms">
+        <ProtectedRoute requiredPermissions={["structure:manage"]}>
+          <AppLayout>
+            <RoomsList />
+          </AppLayout>
+        </ProtectedRoute>
+      </Route>
+      
       <Route path="/courses">
-        <ProtectedRoute requiredRoles={["admin"]}>
+        <ProtectedRoute requiredPermissions={["structure:manage"]}>
           <AppLayout>
             <CoursesList />
           </AppLayout>
@@ -110,7 +176,7 @@ function Router() {
       </Route>
       
       <Route path="/modules">
-        <ProtectedRoute requiredRoles={["admin"]}>
+        <ProtectedRoute requiredPermissions={["structure:manage"]}>
           <AppLayout>
             <ModulesList />
           </AppLayout>
@@ -118,7 +184,7 @@ function Router() {
       </Route>
       
       <Route path="/teachers">
-        <ProtectedRoute requiredRoles={["admin"]}>
+        <ProtectedRoute requiredPermissions={["users:manage"]}>
           <AppLayout>
             <TeachersList />
           </AppLayout>
@@ -126,24 +192,72 @@ function Router() {
       </Route>
       
       <Route path="/students">
-        <ProtectedRoute requiredRoles={["admin"]}>
+        <ProtectedRoute requiredPermissions={["students:manage"]}>
           <AppLayout>
             <StudentsList />
           </AppLayout>
         </ProtectedRoute>
       </Route>
       
+      <Route path="/periods">
+        <ProtectedRoute requiredPermissions={["periods:manage"]}>
+          <AppLayout>
+            <AcademicPeriods />
+          </AppLayout>
+        </ProtectedRoute>
+      </Route>
+      
+      <Route path="/security">
+        <ProtectedRoute requiredPermissions={["security:manage"]}>
+          <AppLayout>
+            <SecuritySettings />
+          </AppLayout>
+        </ProtectedRoute>
+      </Route>
+      
+      <Route path="/audit">
+        <ProtectedRoute requiredPermissions={["audit:view"]}>
+          <AppLayout>
+            <AuditLog />
+          </AppLayout>
+        </ProtectedRoute>
+      </Route>
+      
       {/* Department Head Routes */}
+      <Route path="/justifications">
+        <ProtectedRoute requiredPermissions={["justifications:submit", "justifications:review"]}>
+          <AppLayout>
+            <JustificationRequests />
+          </AppLayout>
+        </ProtectedRoute>
+      </Route>
+      
+      <Route path="/alerts">
+        <ProtectedRoute requiredPermissions={["reports:view", "alerts:manage"]}>
+          <AppLayout>
+            <AbsenceAlerts />
+          </AppLayout>
+        </ProtectedRoute>
+      </Route>
+      
       <Route path="/student-groups">
-        <ProtectedRoute requiredRoles={["admin", "departmentHead"]}>
+        <ProtectedRoute requiredPermissions={["groups:manage"]}>
           <AppLayout>
             <StudentGroups />
           </AppLayout>
         </ProtectedRoute>
       </Route>
       
+      <Route path="/timetable">
+        <ProtectedRoute requiredPermissions={["timetable:manage"]}>
+          <AppLayout>
+            <Timetable />
+          </AppLayout>
+        </ProtectedRoute>
+      </Route>
+      
       <Route path="/absence-reports">
-        <ProtectedRoute requiredRoles={["admin", "departmentHead"]}>
+        <ProtectedRoute requiredPermissions={["reports:view"]}>
           <AppLayout>
             <AbsenceReports />
           </AppLayout>
@@ -152,7 +266,7 @@ function Router() {
       
       {/* Teacher Routes */}
       <Route path="/my-modules">
-        <ProtectedRoute requiredRoles={["admin", "departmentHead", "teacher"]}>
+        <ProtectedRoute requiredPermissions={["sessions:edit:own"]}>
           <AppLayout>
             <TeacherModules />
           </AppLayout>
@@ -160,7 +274,7 @@ function Router() {
       </Route>
       
       <Route path="/record-absences">
-        <ProtectedRoute requiredRoles={["admin", "departmentHead", "teacher"]}>
+        <ProtectedRoute requiredPermissions={["sessions:edit:own", "sessions:edit:any"]}>
           <AppLayout>
             <RecordAbsences />
           </AppLayout>
@@ -168,7 +282,7 @@ function Router() {
       </Route>
       
       <Route path="/absence-history">
-        <ProtectedRoute requiredRoles={["admin", "departmentHead", "teacher"]}>
+        <ProtectedRoute requiredPermissions={["sessions:edit:own", "sessions:edit:any"]}>
           <AppLayout>
             <AbsenceHistory />
           </AppLayout>
@@ -0,0 +1,45 @@
+type AuditRecord = Record<string, unknown> | null;
+
+interface AuditChangesProps {
+  action: string;
+  before: AuditRecord;
+  after: AuditRecord;
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+// Fields of an audit entry: old → new values for updates, the row itself for creates and deletes
+export default function AuditChanges({ action, before, after }: AuditChangesProps) {
+  if (action === "update") {
+    const fields = Object.keys({ ...before, ...after });
+    return (
+      <ul className="space-y-0.5">
+        {fields.map(field => (
+          <li key={field} className="text-xs">
+            <span className="font-medium">{field}</span>{" : "}
+            <span className="text-red-700 line-through">{formatValue(before?.[field])}</span>
+            {" → "}
+            <span className="text-green-700">{formatValue(after?.[field])}</span>
+          </li>
+        ))}
+      </ul>
+    );
+  }
+
+  const record = (action === "delete" ? before : after) ?? {};
+  return (
+    <ul className="space-y-0.5">
+      {Object.entries(record)
+        .filter(([field]) => field !== "id")
+        .map(([field, value]) => (
+          <li key={field} className="text-xs">
+            <span className="font-medium">{field}</span>{" : "}{formatValue(value)}
+          </li>
+        ))}
+    </ul>
+  );
+}
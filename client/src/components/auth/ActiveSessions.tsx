@@ -0,0 +1,114 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { describeUserAgent } from "@/lib/constants";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Monitor } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { fr } from "date-fns/locale";
+
+interface UserSession {
+  id: number;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+const formatDateTime = (value: string) => format(parseISO(value), "dd MMM yyyy 'à' HH:mm", { locale: fr });
+
+// Devices the current user is logged in on, each of which can be logged out from here
+export default function ActiveSessions() {
+  const { logout } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: userSessions, isLoading } = useQuery<UserSession[]>({
+    queryKey: ['/api/auth/sessions'],
+  });
+
+  const showError = (error: Error) => {
+    toast({
+      variant: "destructive",
+      title: "Erreur",
+      description: error.message || "Impossible de fermer la session",
+    });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: async (userSession: UserSession) => {
+      await apiRequest("DELETE", `/api/auth/sessions/${userSession.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/sessions'] });
+      toast({
+        title: "Session fermée",
+        description: "L'appareil a été déconnecté",
+      });
+    },
+    onError: showError,
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", "/api/auth/sessions");
+      return response.json() as Promise<{ revoked: number }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/sessions'] });
+      toast({
+        title: "Sessions fermées",
+        description: `${data.revoked} autre(s) session(s) déconnectée(s)`,
+      });
+    },
+    onError: showError,
+  });
+
+  if (isLoading || !userSessions) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <ul className="divide-y">
+        {userSessions.map(userSession => (
+          <li key={userSession.id} className="flex items-center justify-between gap-4 py-3">
+            <div className="flex items-center gap-3">
+              <Monitor className="h-5 w-5 text-muted-foreground" />
+              <div>
+                <p className="font-medium text-sm flex items-center gap-2">
+                  {describeUserAgent(userSession.userAgent)}
+                  {userSession.current && <Badge variant="secondary">Cet appareil</Badge>}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {userSession.ipAddress ?? "Adresse inconnue"} · Dernière activité le {formatDateTime(userSession.lastSeenAt)}
+                </p>
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => userSession.current ? logout() : revokeMutation.mutate(userSession)}
+              disabled={revokeMutation.isPending}
+            >
+              {userSession.current ? "Se déconnecter" : "Déconnecter"}
+            </Button>
+          </li>
+        ))}
+      </ul>
+      {userSessions.some(userSession => !userSession.current) && (
+        <Button
+          variant="outline"
+          onClick={() => revokeOthersMutation.mutate()}
+          disabled={revokeOthersMutation.isPending}
+        >
+          Déconnecter les autres appareils
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import { ReactNode } from "react";
+import { BookTextIcon } from "../ui/book-text";
+
+interface AuthLayoutProps {
+  subtitle: string;
+  children: ReactNode;
+}
+
+// Full-screen card used by the screens shown outside the application layout (password reset, first login)
+export default function AuthLayout({ subtitle, children }: AuthLayoutProps) {
+  return (
+    <div className="fixed inset-0 bg-muted z-50 flex items-center justify-center p-4">
+      <div className="bg-card rounded-lg shadow-lg w-full max-w-md p-8">
+        <div className="text-center mb-8">
+          <h2 className="text-2xl font-bold text-primary flex items-center justify-center gap-2">
+            <BookTextIcon/>
+            SuiviScolaire
+          </h2>
+          <p className="text-muted-foreground mt-2">{subtitle}</p>
+        </div>
+        {children}
+      </div>
+    </div>
+  );
+}
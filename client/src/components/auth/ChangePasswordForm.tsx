@@ -0,0 +1,148 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import { describePasswordPolicy } from "@/lib/constants";
+import { passwordPolicyViolations, type PasswordPolicy } from "@shared/password-policy";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+
+const formSchema = z.object({
+  currentPassword: z.string().min(1, { message: "Le mot de passe actuel est requis" }),
+  newPassword: z.string().min(1, { message: "Le nouveau mot de passe est requis" }),
+  confirmPassword: z.string(),
+}).refine(values => values.newPassword === values.confirmPassword, {
+  message: "Les mots de passe ne correspondent pas",
+  path: ["confirmPassword"],
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface ChangePasswordFormProps {
+  onSuccess?: () => void;
+}
+
+// Lets the logged-in user replace their password, checking the password policy as they submit
+export default function ChangePasswordForm({ onSuccess }: ChangePasswordFormProps) {
+  const { refresh } = useAuth();
+  const { toast } = useToast();
+
+  const { data: passwordPolicy } = useQuery<PasswordPolicy>({
+    queryKey: ['/api/auth/password-policy'],
+  });
+
+  const passwordHint = passwordPolicy ? describePasswordPolicy(passwordPolicy) : undefined;
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      currentPassword: "",
+      newPassword: "",
+      confirmPassword: "",
+    },
+  });
+
+  const changePasswordMutation = useMutation({
+    mutationFn: async (values: FormValues) => {
+      const response = await apiRequest("POST", "/api/auth/change-password", {
+        currentPassword: values.currentPassword,
+        newPassword: values.newPassword,
+      });
+      return response.json();
+    },
+    onSuccess: async () => {
+      toast({
+        title: "Mot de passe modifié",
+        description: "Votre mot de passe a été modifié avec succès",
+      });
+      form.reset();
+      await refresh();
+      onSuccess?.();
+    },
+    onError: (error: Error) => {
+      if (error instanceof ApiError && error.data?.field === "currentPassword") {
+        form.setError("currentPassword", { message: "Mot de passe incorrect" });
+        return;
+      }
+      if (error instanceof ApiError && error.data?.violations) {
+        form.setError("newPassword", { message: passwordHint ?? "Mot de passe trop faible" });
+        return;
+      }
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: `Erreur lors du changement de mot de passe: ${error.message}`,
+      });
+    },
+  });
+
+  const onSubmit = (values: FormValues) => {
+    if (passwordPolicy && passwordPolicyViolations(values.newPassword, passwordPolicy).length > 0) {
+      form.setError("newPassword", { message: passwordHint });
+      return;
+    }
+    changePasswordMutation.mutate(values);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="currentPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Mot de passe actuel</FormLabel>
+              <FormControl>
+                <Input {...field} type="password" placeholder="••••••••" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="newPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Nouveau mot de passe</FormLabel>
+              <FormControl>
+                <Input {...field} type="password" placeholder="••••••••" />
+              </FormControl>
+              {passwordHint && <FormDescription>{passwordHint}</FormDescription>}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="confirmPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Confirmer le nouveau mot de passe</FormLabel>
+              <FormControl>
+                <Input {...field} type="password" placeholder="••••••••" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={changePasswordMutation.isPending}>
+          {changePasswordMutation.isPending ? "Modification..." : "Changer le mot de passe"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
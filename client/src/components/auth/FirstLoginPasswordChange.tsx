@@ -0,0 +1,22 @@
+import { useAuth } from "@/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import AuthLayout from "./AuthLayout";
+import ChangePasswordForm from "./ChangePasswordForm";
+
+// Shown instead of the application until the user replaces the password chosen by an administrator
+export default function FirstLoginPasswordChange() {
+  const { user, logout } = useAuth();
+
+  return (
+    <AuthLayout subtitle="Choisissez votre mot de passe">
+      <p className="text-sm text-muted-foreground mb-6">
+        Bienvenue {user?.fullName}. Votre mot de passe a été défini par un administrateur :
+        choisissez-en un nouveau pour accéder à l'application.
+      </p>
+      <ChangePasswordForm />
+      <Button variant="link" className="w-full mt-2" onClick={() => logout()}>
+        Se déconnecter
+      </Button>
+    </AuthLayout>
+  );
+}
@@ -2,6 +2,7 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useAuth } from "@/hooks/useAuth";
+import { Link } from "wouter";
 import { BookOpen } from "lucide-react";
 import {
   Form,
@@ -16,6 +17,7 @@ import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { BookTextIcon } from "../ui/book-text";
+import TwoFactorLoginStep from "./TwoFactorLoginStep";
 
 const formSchema = z.object({
   username: z.string().min(1, { message: "Le nom d'utilisateur est requis" }),
@@ -26,7 +28,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 export default function LoginForm() {
-  const { login, isLoading } = useAuth();
+  const { login, isLoading, twoFactorPending } = useAuth();
   const { toast } = useToast();
   
   const form = useForm<FormValues>({
@@ -55,9 +57,12 @@ export default function LoginForm() {
             <BookTextIcon/>
             SuiviScolaire
           </h2>
-          <p className="text-muted-foreground mt-2">Système de gestion des absences</p>
+          <p className="text-muted-foreground mt-2">
+            {twoFactorPending ? "Vérification en deux étapes" : "Système de gestion des absences"}
+          </p>
         </div>
         
+        {twoFactorPending ? <TwoFactorLoginStep /> : (
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
             <FormField
@@ -120,13 +125,12 @@ export default function LoginForm() {
                 )}
               />
               
-              <a
-                href="#"
+              <Link
+                href="/forgot-password"
                 className="text-sm font-medium text-primary hover:text-primary/90"
-                onClick={(e) => e.preventDefault()}
               >
                 Mot de passe oublié?
-              </a>
+              </Link>
             </div>
             
             <Button
@@ -137,6 +141,13 @@ export default function LoginForm() {
               {isLoading ? "Connexion en cours..." : "Se connecter"}
             </Button>
             
+            <p className="text-center text-sm text-muted-foreground">
+              Parent ou tuteur ?{" "}
+              <Link href="/guardian-access" className="font-medium text-primary hover:text-primary/90">
+                Recevoir un lien de connexion
+              </Link>
+            </p>
+            
             <div className="text-center text-sm text-muted-foreground mt-6">
               <p>Utilisateurs de démo :</p>
               <ul className="mt-2 space-y-1">
@@ -147,6 +158,7 @@ export default function LoginForm() {
             </div>
           </form>
         </Form>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import { NOTIFICATION_EVENTS, USER_NOTIFICATION_CHANNELS } from "@/lib/constants";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface NotificationSettingsData {
+  phone: string | null;
+  preferences: Array<{ event: string; channels: string[] }>;
+}
+
+// Channels the current user is notified on for each kind of event, and the phone number text messages go to
+export default function NotificationSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [phone, setPhone] = useState("");
+  const [preferences, setPreferences] = useState<NotificationSettingsData["preferences"]>([]);
+
+  const { data: settings, isLoading } = useQuery<NotificationSettingsData>({
+    queryKey: ['/api/auth/notification-settings'],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setPhone(settings.phone ?? "");
+      setPreferences(settings.preferences);
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/auth/notification-settings", { phone, preferences });
+      return response.json();
+    },
+    onSuccess: (saved: NotificationSettingsData) => {
+      queryClient.setQueryData(['/api/auth/notification-settings'], saved);
+      toast({
+        title: "Préférences enregistrées",
+        description: "Vos notifications suivront ces choix",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: error instanceof ApiError && error.data?.message
+          ? error.data.message
+          : "Impossible d'enregistrer les préférences",
+      });
+    },
+  });
+
+  const toggleChannel = (event: string, channel: string, checked: boolean) => {
+    setPreferences(preferences.map(preference => preference.event !== event ? preference : {
+      event,
+      channels: checked
+        ? [...preference.channels, channel]
+        : preference.channels.filter(current => current !== channel),
+    }));
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        <Label htmlFor="notification-phone">Téléphone pour les SMS</Label>
+        <Input
+          id="notification-phone"
+          type="tel"
+          placeholder="+212 6 00 00 00 00"
+          value={phone}
+          onChange={(e) => setPhone(e.target.value)}
+        />
+      </div>
+      {preferences.map(preference => (
+        <div key={preference.event} className="space-y-2">
+          <p className="text-sm font-medium">{NOTIFICATION_EVENTS[preference.event] ?? preference.event}</p>
+          <div className="flex flex-wrap gap-4">
+            {Object.entries(USER_NOTIFICATION_CHANNELS).map(([channel, label]) => (
+              <label key={channel} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={preference.channels.includes(channel)}
+                  onCheckedChange={(checked) => toggleChannel(preference.event, channel, checked === true)}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+        </div>
+      ))}
+      <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+        Enregistrer
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import TwoFactorCodeInput from "./TwoFactorCodeInput";
+
+// Second step of the login form, once the password has been accepted for an account using two-factor
+// authentication: a code from the authenticator app, or one of the recovery codes
+export default function TwoFactorLoginStep() {
+  const { verifyTwoFactor, cancelTwoFactor, isLoading } = useAuth();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+
+  const submit = async (factor: { code: string } | { recoveryCode: string }) => {
+    try {
+      await verifyTwoFactor(factor);
+    } catch (error) {
+      setCode("");
+      console.error("Two-factor verification error:", error);
+    }
+  };
+
+  if (useRecoveryCode) {
+    return (
+      <form
+        className="space-y-6"
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (recoveryCode.trim()) submit({ recoveryCode: recoveryCode.trim() });
+        }}
+      >
+        <div className="space-y-2">
+          <Label htmlFor="recoveryCode">Code de récupération</Label>
+          <Input
+            id="recoveryCode"
+            value={recoveryCode}
+            onChange={(event) => setRecoveryCode(event.target.value)}
+            placeholder="xxxxx-xxxxx"
+            autoComplete="off"
+            disabled={isLoading}
+            autoFocus
+          />
+          <p className="text-sm text-muted-foreground">
+            Chaque code de récupération ne peut être utilisé qu'une seule fois.
+          </p>
+        </div>
+        <Button type="submit" className="w-full" disabled={isLoading || !recoveryCode.trim()}>
+          {isLoading ? "Vérification..." : "Vérifier"}
+        </Button>
+        <div className="flex justify-between">
+          <Button type="button" variant="link" className="px-0" onClick={() => setUseRecoveryCode(false)}>
+            Utiliser l'application d'authentification
+          </Button>
+          <Button type="button" variant="link" className="px-0" onClick={cancelTwoFactor}>
+            Annuler
+          </Button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <form
+      className="space-y-6"
+      onSubmit={(event) => {
+        event.preventDefault();
+        if (code.length === 6) submit({ code });
+      }}
+    >
+      <p className="text-sm text-muted-foreground text-center">
+        Saisissez le code à 6 chiffres affiché par votre application d'authentification.
+      </p>
+      <TwoFactorCodeInput
+        value={code}
+        onChange={setCode}
+        onComplete={(value) => submit({ code: value })}
+        disabled={isLoading}
+      />
+      <Button type="submit" className="w-full" disabled={isLoading || code.length !== 6}>
+        {isLoading ? "Vérification..." : "Vérifier"}
+      </Button>
+      <div className="flex justify-between">
+        <Button type="button" variant="link" className="px-0" onClick={() => setUseRecoveryCode(true)}>
+          Utiliser un code de récupération
+        </Button>
+        <Button type="button" variant="link" className="px-0" onClick={cancelTwoFactor}>
+          Annuler
+        </Button>
+      </div>
+    </form>
+  );
+}
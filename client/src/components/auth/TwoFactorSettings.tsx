@@ -0,0 +1,251 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, ApiError } from "@/lib/queryClient";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import TwoFactorCodeInput from "./TwoFactorCodeInput";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+  qrCode: string;
+}
+
+// Enrollment in two-factor authentication: scan the QR code, confirm a first code, then keep the
+// recovery codes. Once enabled, the recovery codes can be renewed and the second factor removed.
+export default function TwoFactorSettings() {
+  const { refresh } = useAuth();
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [passwordAction, setPasswordAction] = useState<"disable" | "regenerate" | null>(null);
+  const [password, setPassword] = useState("");
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ['/api/auth/2fa/status'],
+  });
+
+  const showError = (error: Error) => {
+    toast({
+      variant: "destructive",
+      title: "Erreur",
+      description: error.message || "Une erreur s'est produite",
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/2fa/setup", {});
+      return response.json() as Promise<TwoFactorSetup>;
+    },
+    onSuccess: (data) => {
+      setSetup(data);
+      setCode("");
+    },
+    onError: showError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const response = await apiRequest("POST", "/api/auth/2fa/enable", { code: value });
+      return response.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (data) => {
+      setSetup(null);
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/2fa/status'] });
+      toast({
+        title: "Double authentification activée",
+        description: "Votre compte est désormais protégé par un code de vérification",
+      });
+    },
+    onError: (error: Error) => {
+      setCode("");
+      if (error instanceof ApiError && error.data?.field === "code") {
+        toast({
+          variant: "destructive",
+          title: "Code incorrect",
+          description: "Vérifiez l'heure de votre téléphone et saisissez le code actuel",
+        });
+        return;
+      }
+      showError(error);
+    },
+  });
+
+  const passwordMutation = useMutation({
+    mutationFn: async ({ action, password }: { action: "disable" | "regenerate"; password: string }) => {
+      const url = action === "disable" ? "/api/auth/2fa/disable" : "/api/auth/2fa/recovery-codes";
+      const response = await apiRequest("POST", url, { password });
+      return response.json();
+    },
+    onSuccess: async (data, { action }) => {
+      closePasswordPrompt();
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/2fa/status'] });
+      if (action === "regenerate") {
+        setRecoveryCodes(data.recoveryCodes);
+        return;
+      }
+      toast({
+        title: "Double authentification désactivée",
+        description: "Seul votre mot de passe sera demandé à la connexion",
+      });
+      await refresh();
+    },
+    onError: (error: Error) => {
+      if (error instanceof ApiError && error.data?.field === "password") {
+        setPasswordError("Mot de passe incorrect");
+        return;
+      }
+      showError(error);
+    },
+  });
+
+  const closePasswordPrompt = () => {
+    setPasswordAction(null);
+    setPassword("");
+    setPasswordError(null);
+  };
+
+  // Refreshing the user only once the codes are dismissed keeps them on screen when enrolling from the
+  // setup-required screen, which is replaced by the application as soon as the user is enrolled
+  const dismissRecoveryCodes = async () => {
+    setRecoveryCodes(null);
+    await refresh();
+  };
+
+  if (isLoading || !status) {
+    return <p className="text-sm text-muted-foreground">Chargement...</p>;
+  }
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm">
+          Conservez ces codes de récupération en lieu sûr. Chacun permet de se connecter une fois si vous
+          n'avez plus accès à votre application d'authentification. Ils ne seront plus affichés.
+        </p>
+        <ul className="grid grid-cols-2 gap-2 font-mono text-sm bg-muted rounded-md p-4">
+          {recoveryCodes.map(recoveryCode => <li key={recoveryCode}>{recoveryCode}</li>)}
+        </ul>
+        <Button className="w-full" onClick={dismissRecoveryCodes}>
+          J'ai enregistré ces codes
+        </Button>
+      </div>
+    );
+  }
+
+  if (setup) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm">
+          Scannez ce QR code avec votre application d'authentification (Google Authenticator, Microsoft
+          Authenticator, FreeOTP...), puis saisissez le code qu'elle affiche.
+        </p>
+        <img src={setup.qrCode} alt="QR code de configuration" className="mx-auto h-48 w-48" />
+        <p className="text-xs text-muted-foreground text-center break-all">
+          Clé de configuration manuelle : <span className="font-mono">{setup.secret}</span>
+        </p>
+        <TwoFactorCodeInput
+          value={code}
+          onChange={setCode}
+          onComplete={(value) => enableMutation.mutate(value)}
+          disabled={enableMutation.isPending}
+        />
+        <div className="flex gap-2">
+          <Button variant="outline" className="flex-1" onClick={() => setSetup(null)}>
+            Annuler
+          </Button>
+          <Button
+            className="flex-1"
+            disabled={code.length !== 6 || enableMutation.isPending}
+            onClick={() => enableMutation.mutate(code)}
+          >
+            {enableMutation.isPending ? "Vérification..." : "Confirmer"}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!status.enabled) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          {status.required
+            ? "La double authentification est obligatoire pour votre rôle."
+            : "Ajoutez un code de vérification à usage unique à votre mot de passe lors de la connexion."}
+        </p>
+        <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+          {setupMutation.isPending ? "Préparation..." : "Activer la double authentification"}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Badge>Activée</Badge>
+        <span className="text-sm text-muted-foreground">
+          {status.recoveryCodesRemaining} code(s) de récupération restant(s)
+        </span>
+      </div>
+
+      {passwordAction ? (
+        <form
+          className="space-y-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            passwordMutation.mutate({ action: passwordAction, password });
+          }}
+        >
+          <Label htmlFor="twoFactorPassword">Confirmez avec votre mot de passe</Label>
+          <Input
+            id="twoFactorPassword"
+            type="password"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            autoFocus
+          />
+          {passwordError && <p className="text-sm font-medium text-destructive">{passwordError}</p>}
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={closePasswordPrompt}>
+              Annuler
+            </Button>
+            <Button
+              type="submit"
+              variant={passwordAction === "disable" ? "destructive" : "default"}
+              disabled={!password || passwordMutation.isPending}
+            >
+              {passwordAction === "disable" ? "Désactiver" : "Générer de nouveaux codes"}
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => setPasswordAction("regenerate")}>
+            Nouveaux codes de récupération
+          </Button>
+          {!status.required && (
+            <Button variant="outline" className="text-red-600" onClick={() => setPasswordAction("disable")}>
+              Désactiver
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { useAuth } from "@/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import AuthLayout from "./AuthLayout";
+import TwoFactorSettings from "./TwoFactorSettings";
+
+// Shown instead of the application until the user enrolls, when the policy requires two-factor
+// authentication for their role
+export default function TwoFactorSetupRequired() {
+  const { user, logout } = useAuth();
+
+  return (
+    <AuthLayout subtitle="Activez la double authentification">
+      <p className="text-sm text-muted-foreground mb-6">
+        Bienvenue {user?.fullName}. La double authentification est obligatoire pour votre compte :
+        configurez-la pour accéder à l'application.
+      </p>
+      <TwoFactorSettings />
+      <Button variant="link" className="w-full mt-2" onClick={() => logout()}>
+        Se déconnecter
+      </Button>
+    </AuthLayout>
+  );
+}
@@ -1,5 +1,6 @@
 import { useLocation } from "wouter";
 import { ThemeToggle } from "@/components/theme/ThemeToggle";
+import NotificationCenter from "@/components/layout/NotificationCenter";
 import { useAuth } from "@/hooks/useAuth";
 import { USER_ROLES } from "@/lib/constants";
 import { LogOut, User } from "lucide-react";
@@ -14,7 +15,7 @@ import {
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 
 export default function Header() {
-  const [location] = useLocation();
+  const [location, navigate] = useLocation();
   const { user, logout } = useAuth();
   
   const getPageTitle = () => {
@@ -27,20 +28,36 @@ export default function Header() {
         return "Filières";
       case "/modules":
         return "Modules";
+      case "/rooms":
+        return "Salles";
       case "/teachers":
         return "Enseignants";
       case "/students":
         return "Étudiants";
+      case "/periods":
+        return "Périodes";
+      case "/security":
+        return "Sécurité";
+      case "/audit":
+        return "Journal d'audit";
       case "/student-groups":
         return "Groupes d'étudiants";
+      case "/timetable":
+        return "Emploi du temps";
       case "/absence-reports":
         return "Rapports d'absences";
+      case "/justifications":
+        return "Justificatifs";
+      case "/alerts":
+        return "Alertes d'absences";
       case "/my-modules":
         return "Mes modules";
       case "/record-absences":
         return "Saisir absences";
       case "/absence-history":
         return "Historique absences";
+      case "/profile":
+        return "Mon profil";
       default:
         return "Gest-Absences";
     }
@@ -57,6 +74,10 @@ export default function Header() {
         return "Chef de département";
       case USER_ROLES.TEACHER:
         return "Enseignant";
+      case USER_ROLES.STUDENT:
+        return "Étudiant";
+      case USER_ROLES.GUARDIAN:
+        return "Parent / tuteur";
       default:
         return user.role;
     }
@@ -82,6 +103,8 @@ export default function Header() {
         <div className="flex items-center space-x-4">
           <ThemeToggle />
           
+          {user && <NotificationCenter />}
+          
           {user && (
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -99,6 +122,13 @@ export default function Header() {
                   </div>
                 </DropdownMenuLabel>
                 <DropdownMenuSeparator />
+                <DropdownMenuItem 
+                  onClick={() => navigate("/profile")}
+                  className="cursor-pointer"
+                >
+                  <User className="h-4 w-4 mr-2" />
+                  <span>Mon profil</span>
+                </DropdownMenuItem>
                 <DropdownMenuItem 
                   onClick={() => logout()}
                   className="text-red-600 cursor-pointer"
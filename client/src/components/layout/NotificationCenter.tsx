@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, Bell, CalendarClock, CalendarX, ClipboardList, FileCheck } from "lucide-react";
+import { formatDistanceToNow, parseISO } from "date-fns";
+import { fr } from "date-fns/locale";
+
+// Types from the API
+interface Notification {
+  id: number;
+  event: string;
+  title: string;
+  body: string;
+  link: string | null;
+  createdAt: string;
+  readAt: string | null;
+}
+
+interface NotificationList {
+  notifications: Notification[];
+  unreadCount: number;
+}
+
+const EVENT_ICONS: Record<string, JSX.Element> = {
+  absenceRecorded: <CalendarX className="h-4 w-4 text-orange-600" />,
+  absenceAlert: <AlertTriangle className="h-4 w-4 text-red-600" />,
+  justificationSubmitted: <ClipboardList className="h-4 w-4 text-blue-600" />,
+  justificationReviewed: <FileCheck className="h-4 w-4 text-green-600" />,
+  attendanceMissing: <CalendarClock className="h-4 w-4 text-amber-600" />,
+};
+
+// New notifications show up without reloading the page
+const REFRESH_INTERVAL_MS = 30 * 1000;
+
+// Bell of the header: the unread count, and the latest notifications leading to the page they are about
+export default function NotificationCenter() {
+  const [, navigate] = useLocation();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+
+  const { data } = useQuery<NotificationList>({
+    queryKey: ['/api/notifications'],
+    refetchInterval: REFRESH_INTERVAL_MS,
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: (notification: Notification) => apiRequest("POST", `/api/notifications/${notification.id}/read`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/notifications'] }),
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/notifications/read-all"),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/notifications'] }),
+  });
+
+  const openNotification = (notification: Notification) => {
+    if (!notification.readAt) {
+      markReadMutation.mutate(notification);
+    }
+    if (notification.link) {
+      setOpen(false);
+      navigate(notification.link);
+    }
+  };
+
+  const unreadCount = data?.unreadCount ?? 0;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-600 px-1 text-[10px] font-semibold text-white">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <p className="text-sm font-semibold">Notifications</p>
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0"
+            disabled={unreadCount === 0 || markAllReadMutation.isPending}
+            onClick={() => markAllReadMutation.mutate()}
+          >
+            Tout marquer comme lu
+          </Button>
+        </div>
+        {!data || data.notifications.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-muted-foreground">Aucune notification.</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            <ul className="divide-y">
+              {data.notifications.map(notification => (
+                <li key={notification.id}>
+                  <button
+                    type="button"
+                    onClick={() => openNotification(notification)}
+                    className={`flex w-full gap-3 px-4 py-3 text-left hover:bg-muted ${notification.readAt ? "" : "bg-primary/5"}`}
+                  >
+                    <span className="mt-0.5">{EVENT_ICONS[notification.event] ?? <Bell className="h-4 w-4" />}</span>
+                    <span className="flex-1 space-y-1">
+                      <span className={`block text-sm ${notification.readAt ? "" : "font-semibold"}`}>
+                        {notification.title}
+                      </span>
+                      <span className="block text-xs text-muted-foreground">{notification.body}</span>
+                      <span className="block text-xs text-muted-foreground">
+                        {formatDistanceToNow(parseISO(notification.createdAt), { addSuffix: true, locale: fr })}
+                      </span>
+                    </span>
+                    {!notification.readAt && <span className="mt-1.5 h-2 w-2 rounded-full bg-primary" />}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
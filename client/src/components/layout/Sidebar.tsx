@@ -1,7 +1,7 @@
 import React from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { Link, useLocation } from "wouter";
-import { USER_ROLES } from "@/lib/constants";
+import type { Permission } from "@shared/permissions";
 import { 
   Home, 
   Building2, 
@@ -13,21 +13,88 @@ import {
   FileBarChart, 
   FileText, 
   CalendarClock, 
-  History 
+  History,
+  CalendarRange,
+  ShieldCheck,
+  ScrollText,
+  FileCheck,
+  BellRing,
+  CalendarDays,
+  DoorOpen
 } from "lucide-react";
 import { BookTextIcon } from "../ui/book-text";
 
+interface NavSection {
+  title: string;
+  items: Array<{ path: string; icon: React.ReactNode; label: string; permissions: Permission[] }>;
+}
+
+// Navigation grouped by area; each item shows for users holding one of its permissions
+const NAV_SECTIONS: NavSection[] = [
+  {
+    title: "Espace étudiant",
+    items: [
+      { path: "/justifications", icon: <FileCheck />, label: "Mes justificatifs", permissions: ["portal:view"] },
+    ],
+  },
+  {
+    title: "Administration",
+    items: [
+      { path: "/departments", icon: <Building2 />, label: "Départements", permissions: ["structure:manage"] },
+      { path: "/courses", icon: <BookOpen />, label: "Filières", permissions: ["structure:manage"] },
+      { path: "/modules", icon: <Layers />, label: "Modules", permissions: ["structure:manage"] },
+      { path: "/rooms", icon: <DoorOpen />, label: "Salles", permissions: ["structure:manage"] },
+      { path: "/teachers", icon: <User />, label: "Enseignants", permissions: ["users:manage"] },
+      { path: "/students", icon: <Users />, label: "Étudiants", permissions: ["students:manage"] },
+      { path: "/periods", icon: <CalendarRange />, label: "Périodes", permissions: ["periods:manage"] },
+      { path: "/security", icon: <ShieldCheck />, label: "Sécurité", permissions: ["security:manage"] },
+      { path: "/audit", icon: <ScrollText />, label: "Journal d'audit", permissions: ["audit:view"] },
+    ],
+  },
+  {
+    title: "Chef de Département",
+    items: [
+      { path: "/student-groups", icon: <UserPlus />, label: "Groupes d'étudiants", permissions: ["groups:manage"] },
+      { path: "/timetable", icon: <CalendarDays />, label: "Emploi du temps", permissions: ["timetable:manage"] },
+      { path: "/absence-reports", icon: <FileBarChart />, label: "Rapports d'absences", permissions: ["reports:view"] },
+      { path: "/alerts", icon: <BellRing />, label: "Alertes d'absences", permissions: ["reports:view", "alerts:manage"] },
+    ],
+  },
+  {
+    title: "Enseignant",
+    items: [
+      { path: "/my-modules", icon: <Layers />, label: "Mes modules", permissions: ["sessions:edit:own"] },
+      { path: "/record-absences", icon: <CalendarClock />, label: "Saisir absences", permissions: ["sessions:edit:own", "sessions:edit:any"] },
+      { path: "/absence-history", icon: <History />, label: "Historique absences", permissions: ["sessions:edit:own", "sessions:edit:any"] },
+      { path: "/justifications", icon: <FileCheck />, label: "Justificatifs", permissions: ["justifications:submit", "justifications:review"] },
+    ],
+  },
+];
+
 interface SidebarProps {
   isOpen: boolean;
   setIsOpen: (isOpen: boolean) => void;
 }
 
 export default function Sidebar({ isOpen, setIsOpen }: SidebarProps) {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const [location] = useLocation();
 
   if (!user) return null;
 
+  // Pages reachable from several sections are listed once, in the first section showing them
+  const listed = new Set<string>();
+  const sections = NAV_SECTIONS
+    .map(section => ({
+      ...section,
+      items: section.items.filter(item => {
+        if (listed.has(item.path) || !can(...item.permissions)) return false;
+        listed.add(item.path);
+        return true;
+      }),
+    }))
+    .filter(section => section.items.length > 0);
+
   const isActive = (path: string) => location === path;
   
   const NavItem = ({ path, icon, label }: { path: string, icon: React.ReactNode, label: string }) => {
@@ -61,49 +128,20 @@ export default function Sidebar({ isOpen, setIsOpen }: SidebarProps) {
         {/* Navigation */}
         <nav className="flex-1 overflow-y-auto py-4">
           <ul className="space-y-1">
-            {/* Admin Menu */}
-            {user.role === USER_ROLES.ADMIN && (
-              <div className="mb-6">
-                <h2 className="px-6 text-xs font-medium text-muted-foreground uppercase tracking-wider mb-2">
-                  Administration
-                </h2>
-                <NavItem path="/" icon={<Home />} label="Tableau de bord" />
-                <NavItem path="/departments" icon={<Building2 />} label="Départements" />
-                <NavItem path="/courses" icon={<BookOpen />} label="Filières" />
-                <NavItem path="/modules" icon={<Layers />} label="Modules" />
-                <NavItem path="/teachers" icon={<User />} label="Enseignants" />
-                <NavItem path="/students" icon={<Users />} label="Étudiants" />
-              </div>
-            )}
-
-            {/* Department Head Menu */}
-            {(user.role === USER_ROLES.DEPARTMENT_HEAD || user.role === USER_ROLES.ADMIN) && (
-              <div className="mb-6">
-                <h2 className="px-6 text-xs font-medium text-muted-foreground uppercase tracking-wider mb-2">
-                  Chef de Département
-                </h2>
-                {user.role === USER_ROLES.DEPARTMENT_HEAD && (
-                  <NavItem path="/" icon={<Home />} label="Tableau de bord" />
-                )}
-                <NavItem path="/student-groups" icon={<UserPlus />} label="Groupes d'étudiants" />
-                <NavItem path="/absence-reports" icon={<FileBarChart />} label="Rapports d'absences" />
-              </div>
-            )}
-
-            {/* Teacher Menu */}
-            {(user.role === USER_ROLES.TEACHER || user.role === USER_ROLES.DEPARTMENT_HEAD || user.role === USER_ROLES.ADMIN) && (
-              <div className="mb-6">
+            {sections.map((section, index) => (
+              <div key={section.title} className="mb-6">
                 <h2 className="px-6 text-xs font-medium text-muted-foreground uppercase tracking-wider mb-2">
-                  Enseignant
+                  {section.title}
                 </h2>
-                {user.role === USER_ROLES.TEACHER && (
+                {/* The dashboard opens the first section the user sees */}
+                {index === 0 && (
                   <NavItem path="/" icon={<Home />} label="Tableau de bord" />
                 )}
-                <NavItem path="/my-modules" icon={<Layers />} label="Mes modules" />
-                <NavItem path="/record-absences" icon={<CalendarClock />} label="Saisir absences" />
-                <NavItem path="/absence-history" icon={<History />} label="Historique absences" />
+                {section.items.map(item => (
+                  <NavItem key={item.path} path={item.path} icon={item.icon} label={item.label} />
+                ))}
               </div>
-            )}
+            ))}
           </ul>
         </nav>
       </div>
@@ -0,0 +1,62 @@
+import { useQuery } from "@tanstack/react-query";
+import { AUDIT_ACTION_LABELS } from "@/lib/constants";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { format, parseISO } from "date-fns";
+import { fr } from "date-fns/locale";
+import AuditChanges from "@/components/audit/AuditChanges";
+
+interface AuditEntry {
+  id: number;
+  userFullName: string | null;
+  action: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+interface AbsenceChangesModalProps {
+  absenceId: number | null;
+  studentName: string;
+  onClose: () => void;
+}
+
+// Who recorded an absence and every change made to it since, from the audit log
+export default function AbsenceChangesModal({ absenceId, studentName, onClose }: AbsenceChangesModalProps) {
+  const { data: entries, isLoading } = useQuery<AuditEntry[]>({
+    queryKey: [`/api/absences/${absenceId}/history`],
+    enabled: absenceId !== null,
+    // Changes made since the dialog was last opened should show up
+    staleTime: 0,
+  });
+
+  return (
+    <Dialog open={absenceId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Historique des modifications</DialogTitle>
+          <DialogDescription>{studentName}</DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : !entries || entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Aucune modification enregistrée.</p>
+        ) : (
+          <ol className="space-y-3">
+            {entries.map(entry => (
+              <li key={entry.id} className="border-l-2 border-muted pl-3">
+                <p className="text-sm font-medium">
+                  {AUDIT_ACTION_LABELS[entry.action] ?? entry.action} par {entry.userFullName ?? "le système"}
+                </p>
+                <p className="text-xs text-muted-foreground mb-1">
+                  {format(parseISO(entry.createdAt), "dd MMM yyyy 'à' HH:mm", { locale: fr })}
+                </p>
+                <AuditChanges action={entry.action} before={entry.before} after={entry.after} />
+              </li>
+            ))}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,9 +2,7 @@ import { useState, useEffect } from "react";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -25,6 +23,9 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ABSENCE_STATUSES, SESSION_TYPES } from "@/lib/constants";
+import { addHours, format, parseISO } from "date-fns";
+import { UNTIMED_SESSION_HOURS } from "@shared/session-hours";
+import { isLateness } from "@shared/lateness";
 
 interface Student {
   id: number;
@@ -33,6 +34,8 @@ interface Student {
   lastName: string;
   courseId: number;
   status?: string;
+  // How late the student arrived, or how early they left
+  minutes?: string;
 }
 
 interface ModuleElement {
@@ -42,6 +45,11 @@ interface ModuleElement {
   moduleId: number;
 }
 
+interface Module {
+  id: number;
+  courseId: number;
+}
+
 interface StudentGroup {
   id: number;
   name: string;
@@ -49,10 +57,31 @@ interface StudentGroup {
   courseId: number;
 }
 
+interface Room {
+  id: number;
+  name: string;
+  building: string;
+  capacity: number;
+}
+
+const NO_ROOM = "none";
+
+// Session planned from the timetable, whose details are already set
+export interface PlannedSession {
+  id: number;
+  date: string;
+  endsAt: string | null;
+  type: string;
+  moduleElementId: number;
+  groupId: number | null;
+  roomId: number | null;
+}
+
 interface AbsenceRecordModalProps {
   isOpen: boolean;
   onClose: () => void;
   teacherId: number;
+  plannedSession?: PlannedSession | null;
   moduleElements: ModuleElement[];
   studentGroups: StudentGroup[];
   students: Student[];
@@ -63,14 +92,21 @@ const formSchema = z.object({
   moduleElementId: z.string().min(1, { message: "Le module est requis" }),
   type: z.string().min(1, { message: "Le type de séance est requis" }),
   date: z.string().min(1, { message: "La date est requise" }),
+  startTime: z.string().min(1, { message: "L'heure de début est requise" }),
+  endTime: z.string().min(1, { message: "L'heure de fin est requise" }),
   groupId: z.string().optional(),
+  roomId: z.string(),
   notes: z.string().optional(),
+}).refine(values => values.endTime > values.startTime, {
+  message: "La séance doit se terminer après son début",
+  path: ["endTime"],
 });
 
 export default function AbsenceRecordModal({
   isOpen,
   onClose,
   teacherId,
+  plannedSession,
   moduleElements,
   studentGroups,
   students,
@@ -78,8 +114,10 @@ export default function AbsenceRecordModal({
 }: AbsenceRecordModalProps) {
   const [studentsWithStatus, setStudentsWithStatus] = useState<Student[]>([]);
   const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
-  const { toast } = useToast();
-  const queryClient = useQueryClient();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const missingMinutes = studentsWithStatus.some(student =>
+    isLateness(student.status ?? "") && !(parseInt(student.minutes ?? "", 10) >= 1)
+  );
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
@@ -87,48 +125,72 @@ export default function AbsenceRecordModal({
       moduleElementId: "",
       type: SESSION_TYPES.COURSE,
       date: new Date().toISOString().slice(0, 10),
+      startTime: "08:00",
+      endTime: "10:00",
       groupId: "",
+      roomId: NO_ROOM,
       notes: "",
     },
   });
 
-  // Reset students status when modal opens or students change
-  useEffect(() => {
-    if (isOpen && students) {
-      const initialStudents = students.map(student => ({
-        ...student,
-        status: ABSENCE_STATUSES.PRESENT,
-      }));
-      setStudentsWithStatus(initialStudents);
-    }
-  }, [isOpen, students]);
+  const { data: modules } = useQuery<Module[]>({
+    queryKey: ["/api/modules"],
+    enabled: isOpen,
+  });
+
+  const { data: rooms } = useQuery<Room[]>({
+    queryKey: ["/api/rooms"],
+    enabled: isOpen,
+  });
+
+  const hasGroupSelected = !!selectedGroupId && selectedGroupId !== "all";
+  const { data: groupStudents } = useQuery<Student[]>({
+    queryKey: [`/api/student-groups/${selectedGroupId}/students`],
+    enabled: isOpen && hasGroupSelected,
+  });
 
-  // Filter students when group changes
+  // The session's course follows from the selected module element; only its groups and students can attend
+  const selectedModuleElementId = form.watch("moduleElementId");
+  const selectedModuleElement = moduleElements.find(me => me.id.toString() === selectedModuleElementId);
+  const courseId = modules?.find(m => m.id === selectedModuleElement?.moduleId)?.courseId;
+  const courseGroups = courseId ? studentGroups.filter(group => group.courseId === courseId) : studentGroups;
+
+  // Start from a clean form each time the modal opens, or from the details of the planned session
   useEffect(() => {
-    if (!selectedGroupId || selectedGroupId === "all") {
-      // If no group is selected, show all students
-      if (students) {
-        const initialStudents = students.map(student => ({
-          ...student,
-          status: ABSENCE_STATUSES.PRESENT,
-        }));
-        setStudentsWithStatus(initialStudents);
-      }
+    if (!isOpen) return;
+    if (plannedSession) {
+      const groupId = plannedSession.groupId?.toString() ?? "all";
+      form.reset({
+        moduleElementId: plannedSession.moduleElementId.toString(),
+        type: plannedSession.type,
+        date: format(parseISO(plannedSession.date), "yyyy-MM-dd"),
+        startTime: format(parseISO(plannedSession.date), "HH:mm"),
+        // Sessions planned before end times were kept last as long as the server counts them
+        endTime: format(
+          plannedSession.endsAt ? parseISO(plannedSession.endsAt) : addHours(parseISO(plannedSession.date), UNTIMED_SESSION_HOURS),
+          "HH:mm"
+        ),
+        groupId,
+        roomId: plannedSession.roomId?.toString() ?? NO_ROOM,
+        notes: "",
+      });
+      setSelectedGroupId(groupId);
     } else {
-      // Only show students in the selected group
-      // In a real app, we would fetch students by group
-      // For now, we'll just simulate it
-      if (students) {
-        const groupId = parseInt(selectedGroupId, 10);
-        // This is a placeholder. In a real implementation, we would fetch students by group ID
-        const filteredStudents = students.filter((_, index) => index % 2 === 0).map(student => ({
-          ...student,
-          status: ABSENCE_STATUSES.PRESENT,
-        }));
-        setStudentsWithStatus(filteredStudents);
-      }
+      form.reset();
+      setSelectedGroupId(null);
     }
-  }, [selectedGroupId, students]);
+  }, [isOpen, plannedSession]);
+
+  // Rebuild the roster when the module element or group changes
+  useEffect(() => {
+    const roster = hasGroupSelected
+      ? groupStudents || []
+      : students.filter(student => !courseId || student.courseId === courseId);
+    setStudentsWithStatus(roster.map(student => ({
+      ...student,
+      status: ABSENCE_STATUSES.PRESENT,
+    })));
+  }, [hasGroupSelected, groupStudents, students, courseId]);
 
   // Handle form group change
   const handleGroupChange = (value: string) => {
@@ -145,6 +207,14 @@ export default function AbsenceRecordModal({
     );
   };
 
+  const handleMinutesChange = (studentId: number, minutes: string) => {
+    setStudentsWithStatus(prev =>
+      prev.map(student =>
+        student.id === studentId ? { ...student, minutes } : student
+      )
+    );
+  };
+
   // Set all students to present
   const markAllPresent = () => {
     setStudentsWithStatus(prev =>
@@ -159,81 +229,40 @@ export default function AbsenceRecordModal({
     );
   };
 
-  // Create session and absences mutation
-  const createSessionMutation = useMutation({
-    mutationFn: async (data: any) => {
-      const response = await apiRequest("POST", "/api/sessions", data);
-      return response.json();
-    },
-    onSuccess: (data) => {
-      // Now create absences for the session
-      createAbsencesMutation.mutate({
-        sessionId: data.id,
-        students: studentsWithStatus,
-      });
-    },
-    onError: (error: Error) => {
-      toast({
-        variant: "destructive",
-        title: "Erreur",
-        description: `Erreur lors de la création de la séance: ${error.message}`,
-      });
-    },
-  });
-
-  const createAbsencesMutation = useMutation({
-    mutationFn: async (data: { sessionId: number; students: Student[] }) => {
-      const absences = data.students.map(student => ({
-        sessionId: data.sessionId,
-        studentId: student.id,
-        status: student.status || ABSENCE_STATUSES.PRESENT,
-        notes: ""
-      }));
-      
-      const response = await apiRequest("POST", "/api/absences/batch", absences);
-      return response.json();
-    },
-    onSuccess: () => {
-      toast({
-        title: "Succès",
-        description: "Les absences ont été enregistrées avec succès",
-      });
-      
-      // Invalidate relevant queries
-      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/absences"] });
-      
-      // Close modal and reset form
-      onClose();
-      form.reset();
-    },
-    onError: (error: Error) => {
-      toast({
-        variant: "destructive",
-        title: "Erreur",
-        description: `Erreur lors de l'enregistrement des absences: ${error.message}`,
-      });
-    },
-  });
-
-  const onFormSubmit = (values: z.infer<typeof formSchema>) => {
+  const onFormSubmit = async (values: z.infer<typeof formSchema>) => {
+    if (missingMinutes) return;
     const sessionData = {
       moduleElementId: parseInt(values.moduleElementId, 10),
       type: values.type,
-      date: new Date(values.date).toISOString(),
+      date: new Date(`${values.date}T${values.startTime}`).toISOString(),
+      endsAt: new Date(`${values.date}T${values.endTime}`).toISOString(),
       teacherId,
-      groupId: values.groupId ? parseInt(values.groupId, 10) : undefined,
+      groupId: hasGroupSelected ? parseInt(values.groupId!, 10) : undefined,
+      roomId: values.roomId === NO_ROOM ? null : parseInt(values.roomId, 10),
       notes: values.notes,
     };
-    
-    createSessionMutation.mutate(sessionData);
+    const absencesData = studentsWithStatus.map(student => ({
+      studentId: student.id,
+      status: student.status || ABSENCE_STATUSES.PRESENT,
+      minutes: isLateness(student.status ?? "") ? parseInt(student.minutes!, 10) : null,
+      notes: "",
+    }));
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(sessionData, absencesData);
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-4xl max-h-[90vh] flex flex-col">
         <DialogHeader>
-          <DialogTitle>Enregistrement des absences</DialogTitle>
+          <DialogTitle>
+            {plannedSession ? "Enregistrement des absences de la séance planifiée" : "Enregistrement des absences"}
+          </DialogTitle>
         </DialogHeader>
         
         <div className="flex-1 overflow-y-auto p-2">
@@ -248,7 +277,8 @@ export default function AbsenceRecordModal({
                       <FormLabel>Module</FormLabel>
                       <Select 
                         onValueChange={field.onChange} 
-                        defaultValue={field.value}
+                        value={field.value}
+                        disabled={!!plannedSession}
                       >
                         <FormControl>
                           <SelectTrigger>
@@ -279,7 +309,8 @@ export default function AbsenceRecordModal({
                       <FormLabel>Type de séance</FormLabel>
                       <Select 
                         onValueChange={field.onChange} 
-                        defaultValue={field.value}
+                        value={field.value}
+                        disabled={!!plannedSession}
                       >
                         <FormControl>
                           <SelectTrigger>
@@ -304,12 +335,72 @@ export default function AbsenceRecordModal({
                     <FormItem>
                       <FormLabel>Date</FormLabel>
                       <FormControl>
-                        <Input type="date" {...field} />
+                        <Input type="date" {...field} disabled={!!plannedSession} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="startTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Début</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} disabled={!!plannedSession} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="endTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Fin</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} disabled={!!plannedSession} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
+
+                <FormField
+                  control={form.control}
+                  name="roomId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Salle</FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        value={field.value}
+                        disabled={!!plannedSession}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={NO_ROOM}>Aucune salle</SelectItem>
+                          {rooms?.map(room => (
+                            <SelectItem key={room.id} value={room.id.toString()}>
+                              {room.name} ({room.building}) · {room.capacity} places
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </div>
               
               <FormField
@@ -320,7 +411,8 @@ export default function AbsenceRecordModal({
                     <FormLabel>Groupe</FormLabel>
                     <Select 
                       onValueChange={handleGroupChange} 
-                      defaultValue={field.value}
+                      value={field.value}
+                      disabled={!!plannedSession}
                     >
                       <FormControl>
                         <SelectTrigger>
@@ -329,7 +421,7 @@ export default function AbsenceRecordModal({
                       </FormControl>
                       <SelectContent>
                         <SelectItem value="all">Tous les étudiants</SelectItem>
-                        {studentGroups.map((group) => (
+                        {courseGroups.map((group) => (
                           <SelectItem key={group.id} value={group.id.toString()}>
                             {group.name} ({group.type})
                           </SelectItem>
@@ -373,6 +465,7 @@ export default function AbsenceRecordModal({
                         <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Nom</th>
                         <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Prénom</th>
                         <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Statut</th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">Minutes</th>
                       </tr>
                     </thead>
                     <tbody className="bg-white divide-y divide-neutral-200">
@@ -392,23 +485,36 @@ export default function AbsenceRecordModal({
                               value={student.status}
                               onValueChange={(value) => handleStatusChange(student.id, value)}
                             >
-                              <SelectTrigger className="w-32">
+                              <SelectTrigger className="w-44">
                                 <SelectValue />
                               </SelectTrigger>
                               <SelectContent>
                                 <SelectItem value={ABSENCE_STATUSES.PRESENT}>Présent</SelectItem>
                                 <SelectItem value={ABSENCE_STATUSES.ABSENT}>Absent</SelectItem>
-                                <SelectItem value={ABSENCE_STATUSES.JUSTIFIED}>Absence Justifiée</SelectItem>
                                 <SelectItem value={ABSENCE_STATUSES.UNJUSTIFIED}>Absence Non-Justifiée</SelectItem>
+                                <SelectItem value={ABSENCE_STATUSES.LATE}>Retard</SelectItem>
+                                <SelectItem value={ABSENCE_STATUSES.LEFT_EARLY}>Départ anticipé</SelectItem>
                               </SelectContent>
                             </Select>
                           </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            {isLateness(student.status ?? "") && (
+                              <Input
+                                type="number"
+                                min="1"
+                                className="w-24"
+                                placeholder="min"
+                                value={student.minutes ?? ""}
+                                onChange={(e) => handleMinutesChange(student.id, e.target.value)}
+                              />
+                            )}
+                          </td>
                         </tr>
                       ))}
                       
                       {studentsWithStatus.length === 0 && (
                         <tr>
-                          <td colSpan={4} className="px-6 py-4 text-center text-sm text-neutral-500">
+                          <td colSpan={5} className="px-6 py-4 text-center text-sm text-neutral-500">
                             Aucun étudiant trouvé
                           </td>
                         </tr>
@@ -416,6 +522,11 @@ export default function AbsenceRecordModal({
                     </tbody>
                   </table>
                 </div>
+                {missingMinutes && (
+                  <p className="mt-2 text-sm text-red-600">
+                    Indiquez le nombre de minutes de chaque retard et de chaque départ anticipé.
+                  </p>
+                )}
               </div>
               
               <FormField
@@ -443,15 +554,15 @@ export default function AbsenceRecordModal({
           <Button
             variant="outline"
             onClick={onClose}
-            disabled={createSessionMutation.isPending || createAbsencesMutation.isPending}
+            disabled={isSubmitting}
           >
             Annuler
           </Button>
           <Button
             onClick={form.handleSubmit(onFormSubmit)}
-            disabled={createSessionMutation.isPending || createAbsencesMutation.isPending}
+            disabled={isSubmitting || missingMinutes}
           >
-            {createSessionMutation.isPending || createAbsencesMutation.isPending
+            {isSubmitting
               ? "Enregistrement..."
               : "Enregistrer"}
           </Button>
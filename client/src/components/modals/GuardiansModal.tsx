@@ -0,0 +1,245 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import { GUARDIAN_RELATIONSHIPS, NOTIFICATION_CHANNELS } from "@/lib/constants";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface Student {
+  id: number;
+  firstName: string;
+  lastName: string;
+}
+
+interface Guardian {
+  id: number;
+  studentId: number;
+  fullName: string;
+  relationship: string;
+  email: string | null;
+  phone: string | null;
+  preferredChannel: string;
+}
+
+type GuardianForm = Omit<Guardian, "id" | "studentId">;
+
+const EMPTY_FORM: GuardianForm = {
+  fullName: "",
+  relationship: "mother",
+  email: "",
+  phone: "",
+  preferredChannel: "email",
+};
+
+interface GuardiansModalProps {
+  student: Student | null;
+  onClose: () => void;
+}
+
+// Parents and guardians of a student: who sees the student's attendance with a sign-in link, and who is
+// notified about it on their preferred channel
+export default function GuardiansModal({ student, onClose }: GuardiansModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<Guardian | null>(null);
+  const [form, setForm] = useState<GuardianForm>(EMPTY_FORM);
+
+  const guardiansUrl = `/api/students/${student?.id}/guardians`;
+  const { data: guardians, isLoading } = useQuery<Guardian[]>({
+    queryKey: [guardiansUrl],
+    enabled: student !== null,
+  });
+
+  useEffect(() => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+  }, [student?.id]);
+
+  const startEdit = (guardian: Guardian) => {
+    setEditing(guardian);
+    setForm({
+      fullName: guardian.fullName,
+      relationship: guardian.relationship,
+      email: guardian.email ?? "",
+      phone: guardian.phone ?? "",
+      preferredChannel: guardian.preferredChannel,
+    });
+  };
+
+  const resetForm = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const showError = (error: Error, fallback: string) => {
+    toast({
+      variant: "destructive",
+      title: "Erreur",
+      description: error instanceof ApiError && error.data?.errors?.[0]?.message
+        ? error.data.errors[0].message
+        : error instanceof ApiError && error.data?.message
+          ? error.data.message
+          : `${fallback}: ${error.message}`,
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      // Blank contact details are sent as missing rather than empty
+      const payload = { ...form, email: form.email || null, phone: form.phone || null };
+      const response = editing
+        ? await apiRequest("PUT", `/api/guardians/${editing.id}`, payload)
+        : await apiRequest("POST", guardiansUrl, payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: editing ? "Contact modifié" : "Contact ajouté",
+        description: `${form.fullName} a été enregistré avec succès`,
+      });
+      queryClient.invalidateQueries({ queryKey: [guardiansUrl] });
+      resetForm();
+    },
+    onError: (error: Error) => showError(error, "Erreur lors de l'enregistrement du contact"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (guardian: Guardian) => apiRequest("DELETE", `/api/guardians/${guardian.id}`),
+    onSuccess: () => {
+      toast({ title: "Contact supprimé" });
+      queryClient.invalidateQueries({ queryKey: [guardiansUrl] });
+      resetForm();
+    },
+    onError: (error: Error) => showError(error, "Erreur lors de la suppression du contact"),
+  });
+
+  return (
+    <Dialog open={student !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Parents et tuteurs</DialogTitle>
+          <DialogDescription>
+            {student && `${student.lastName} ${student.firstName}`} — les contacts avec une adresse email peuvent
+            consulter l'assiduité de l'étudiant en demandant un lien de connexion.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <Skeleton className="h-20 w-full" />
+        ) : !guardians || guardians.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Aucun contact enregistré.</p>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {guardians.map(guardian => (
+              <div key={guardian.id} className="flex items-center justify-between p-3 text-sm">
+                <div>
+                  <p className="font-medium">
+                    {guardian.fullName}{" "}
+                    <span className="text-muted-foreground">
+                      ({GUARDIAN_RELATIONSHIPS[guardian.relationship] ?? guardian.relationship})
+                    </span>
+                  </p>
+                  <p className="text-muted-foreground">
+                    {[guardian.email, guardian.phone].filter(Boolean).join(" · ")} — préfère :{" "}
+                    {NOTIFICATION_CHANNELS[guardian.preferredChannel] ?? guardian.preferredChannel}
+                  </p>
+                </div>
+                <div className="flex space-x-2">
+                  <Button variant="outline" size="sm" onClick={() => startEdit(guardian)}>
+                    <span className="material-icons text-sm">edit</span>
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-red-600 border-red-600"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => deleteMutation.mutate(guardian)}
+                  >
+                    <span className="material-icons text-sm">delete</span>
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-4 border-t pt-4">
+          <h4 className="text-sm font-semibold">{editing ? "Modifier le contact" : "Ajouter un contact"}</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="guardian-name">Nom complet</Label>
+              <Input
+                id="guardian-name"
+                value={form.fullName}
+                onChange={(e) => setForm({ ...form, fullName: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Lien avec l'étudiant</Label>
+              <Select value={form.relationship} onValueChange={(relationship) => setForm({ ...form, relationship })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(GUARDIAN_RELATIONSHIPS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="guardian-email">Email</Label>
+              <Input
+                id="guardian-email"
+                type="email"
+                value={form.email ?? ""}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="guardian-phone">Téléphone</Label>
+              <Input
+                id="guardian-phone"
+                value={form.phone ?? ""}
+                onChange={(e) => setForm({ ...form, phone: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Canal préféré</Label>
+              <Select
+                value={form.preferredChannel}
+                onValueChange={(preferredChannel) => setForm({ ...form, preferredChannel })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(NOTIFICATION_CHANNELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2">
+            {editing && <Button variant="outline" onClick={resetForm}>Annuler</Button>}
+            <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || !form.fullName}>
+              {editing ? "Enregistrer" : "Ajouter"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
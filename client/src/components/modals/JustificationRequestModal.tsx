@@ -0,0 +1,159 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient, ApiError } from "@/lib/queryClient";
+import { JUSTIFICATION_REASONS } from "@/lib/constants";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+export interface JustifiableAbsence {
+  id: number;
+  studentId: number;
+  // Session the absence was recorded in, e.g. "12 oct. 2026 — Algorithmique"
+  label: string;
+}
+
+interface JustificationRequestModalProps {
+  absence: JustifiableAbsence | null;
+  studentName: string;
+  // Other absences of the same student the request may cover as well
+  otherAbsences: JustifiableAbsence[];
+  onClose: () => void;
+}
+
+// Submit a justification (reason, explanation, supporting documents) for one or more absences of a student
+export default function JustificationRequestModal({ absence, studentName, otherAbsences, onClose }: JustificationRequestModalProps) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState("medical");
+  const [explanation, setExplanation] = useState("");
+  const [absenceIds, setAbsenceIds] = useState<number[]>([]);
+  const [documents, setDocuments] = useState<File[]>([]);
+
+  // Start afresh each time the dialog opens for an absence
+  useEffect(() => {
+    if (absence) {
+      setReason("medical");
+      setExplanation("");
+      setAbsenceIds([absence.id]);
+      setDocuments([]);
+    }
+  }, [absence?.id]);
+
+  const submitMutation = useMutation({
+    mutationFn: () => {
+      const form = new FormData();
+      form.append("studentId", String(absence!.studentId));
+      form.append("reason", reason);
+      form.append("explanation", explanation);
+      absenceIds.forEach(id => form.append("absenceIds", String(id)));
+      documents.forEach(document => form.append("documents", document));
+      return apiRequest("POST", "/api/justification-requests", form);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/justification-requests'] });
+      toast({
+        title: "Justificatif déposé",
+        description: "La demande sera examinée par le chef de département.",
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erreur",
+        description: error instanceof ApiError && error.data?.message
+          ? error.data.message
+          : "Impossible de déposer le justificatif.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleAbsence = (id: number, checked: boolean) => {
+    setAbsenceIds(ids => checked ? [...ids, id] : ids.filter(existing => existing !== id));
+  };
+
+  return (
+    <Dialog open={absence !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Déposer un justificatif</DialogTitle>
+          <DialogDescription>{studentName}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>Motif</Label>
+            <Select value={reason} onValueChange={setReason}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(JUSTIFICATION_REASONS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="justification-explanation">Explication</Label>
+            <Textarea
+              id="justification-explanation"
+              value={explanation}
+              onChange={(e) => setExplanation(e.target.value)}
+              placeholder="Précisez les circonstances de l'absence"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Absences concernées</Label>
+            {absence && (
+              <div className="flex items-center gap-2 text-sm">
+                <Checkbox checked disabled />
+                <span>{absence.label}</span>
+              </div>
+            )}
+            {otherAbsences.map(other => (
+              <div key={other.id} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  id={`justify-${other.id}`}
+                  checked={absenceIds.includes(other.id)}
+                  onCheckedChange={(checked) => toggleAbsence(other.id, checked === true)}
+                />
+                <label htmlFor={`justify-${other.id}`}>{other.label}</label>
+              </div>
+            ))}
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="justification-documents">Pièces justificatives (PDF, JPEG ou PNG)</Label>
+            <Input
+              id="justification-documents"
+              type="file"
+              multiple
+              accept="application/pdf,image/jpeg,image/png"
+              onChange={(e) => setDocuments(Array.from(e.target.files ?? []))}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Annuler</Button>
+          <Button
+            onClick={() => submitMutation.mutate()}
+            disabled={submitMutation.isPending || explanation.trim() === ""}
+          >
+            {submitMutation.isPending ? "Envoi..." : "Déposer"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,198 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import { ESCALATION_LEVELS, THRESHOLD_UNITS } from "@/lib/constants";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface Course {
+  id: number;
+  name: string;
+  code: string;
+  thresholdUnit: string;
+  latesPerAbsence: number | null;
+  lateAbsentAfterMinutes: number | null;
+}
+
+interface ThresholdLevel {
+  level: string;
+  threshold: number;
+}
+
+interface ThresholdLevelsModalProps {
+  courses: Course[];
+  course: Course | null;
+  onClose: () => void;
+}
+
+// Escalation levels of a course, and how its late arrivals and early departures count toward them. A level or
+// rule left empty isn't used; the students crossing a level are alerted and listed for their department head.
+export default function ThresholdLevelsModal({ courses, course, onClose }: ThresholdLevelsModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [courseId, setCourseId] = useState<number | null>(null);
+  const [thresholds, setThresholds] = useState<Record<string, string>>({});
+  const [unit, setUnit] = useState("count");
+  const [latesPerAbsence, setLatesPerAbsence] = useState("");
+  const [lateAbsentAfterMinutes, setLateAbsentAfterMinutes] = useState("");
+
+  useEffect(() => {
+    setCourseId(course?.id ?? null);
+  }, [course?.id]);
+
+  useEffect(() => {
+    const selected = courses.find(option => option.id === courseId);
+    setUnit(selected?.thresholdUnit ?? "count");
+    setLatesPerAbsence(selected?.latesPerAbsence?.toString() ?? "");
+    setLateAbsentAfterMinutes(selected?.lateAbsentAfterMinutes?.toString() ?? "");
+  }, [courseId, courses]);
+
+  const levelsUrl = `/api/courses/${courseId}/threshold-levels`;
+  const { data: levels, isLoading } = useQuery<ThresholdLevel[]>({
+    queryKey: [levelsUrl],
+    enabled: course !== null && courseId !== null,
+  });
+
+  useEffect(() => {
+    setThresholds(Object.fromEntries((levels ?? []).map(level => [level.level, level.threshold.toString()])));
+  }, [levels]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = Object.keys(ESCALATION_LEVELS)
+        .filter(level => thresholds[level]?.trim())
+        .map(level => ({ level, threshold: Number(thresholds[level]) }));
+      const response = await apiRequest("PUT", levelsUrl, {
+        unit,
+        latesPerAbsence: latesPerAbsence.trim() ? Number(latesPerAbsence) : null,
+        lateAbsentAfterMinutes: lateAbsentAfterMinutes.trim() ? Number(lateAbsentAfterMinutes) : null,
+        levels: payload,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [levelsUrl] });
+      queryClient.invalidateQueries({ queryKey: ['/api/courses'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/absence-alerts'] });
+      toast({
+        title: "Seuils enregistrés",
+        description: "Les alertes de la filière ont été recalculées.",
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: error instanceof ApiError && (error.data?.errors?.[0]?.message || error.data?.message)
+          || "Impossible d'enregistrer les seuils.",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={course !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Configurer les seuils d'absences</DialogTitle>
+          <DialogDescription>
+            Un étudiant qui dépasse le nombre d'absences, ou d'heures d'absence, non justifiées d'un niveau
+            déclenche une alerte.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>Filière</Label>
+            <Select
+              value={courseId?.toString() ?? ""}
+              onValueChange={(value) => setCourseId(parseInt(value))}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Sélectionner une filière" />
+              </SelectTrigger>
+              <SelectContent>
+                {courses.map(option => (
+                  <SelectItem key={option.id} value={option.id.toString()}>
+                    {option.name} ({option.code})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Mesure des seuils</Label>
+            <Select value={unit} onValueChange={setUnit}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(THRESHOLD_UNITS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {isLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : (
+            Object.entries(ESCALATION_LEVELS).map(([level, label]) => (
+              <div key={level} className="space-y-1">
+                <Label htmlFor={`threshold-${level}`}>
+                  {label}{unit === "hours" ? " (heures)" : " (absences)"}
+                </Label>
+                <Input
+                  id={`threshold-${level}`}
+                  type="number"
+                  min="0"
+                  placeholder="Non utilisé"
+                  value={thresholds[level] ?? ""}
+                  onChange={(e) => setThresholds({ ...thresholds, [level]: e.target.value })}
+                />
+              </div>
+            ))
+          )}
+          <div className="space-y-1">
+            <Label htmlFor="lates-per-absence">Retards ou départs anticipés valant une absence non justifiée</Label>
+            <Input
+              id="lates-per-absence"
+              type="number"
+              min="1"
+              placeholder="Non utilisé"
+              value={latesPerAbsence}
+              onChange={(e) => setLatesPerAbsence(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="late-absent-after">Retard ou départ anticipé compté comme absence au-delà de (minutes)</Label>
+            <Input
+              id="late-absent-after"
+              type="number"
+              min="1"
+              placeholder="Non utilisé"
+              value={lateAbsentAfterMinutes}
+              onChange={(e) => setLateAbsentAfterMinutes(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Annuler</Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || courseId === null}>
+            Enregistrer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
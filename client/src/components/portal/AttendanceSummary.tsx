@@ -0,0 +1,234 @@
+import type { ReactNode } from "react";
+import { ESCALATION_LEVELS, formatAbsenceAmount, getStatusOption } from "@/lib/constants";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { AlertTriangle } from "lucide-react";
+import { format } from "date-fns";
+import { fr } from "date-fns/locale";
+
+// Types from the API
+export interface PortalAbsence {
+  id: number;
+  studentId: number;
+  status: string;
+  notes: string | null;
+  date: string;
+  endsAt: string | null;
+  type: string;
+  moduleElementId: number;
+  hours: number;
+  minutes: number | null;
+  countedAsAbsence: boolean;
+}
+
+interface PortalModuleElement {
+  moduleElementId: number;
+  name: string;
+  code: string;
+  moduleName: string;
+  absent: number;
+  unjustified: number;
+  justified: number;
+  late: number;
+  leftEarly: number;
+  hours: number;
+}
+
+export interface StudentPortalData {
+  student: { id: number; studentId: string; firstName: string; lastName: string };
+  course: { name: string; code: string } | null;
+  groups: Array<{ id: number; name: string; type: string }>;
+  semester: { name: string } | null;
+  threshold: number | null;
+  thresholdUnit: string;
+  unexcusedCount: number;
+  unexcusedHours: number;
+  exceeded: boolean;
+  moduleElements: PortalModuleElement[];
+  absences: PortalAbsence[];
+  alerts: Array<{ id: number; level: string; unit: string; threshold: number; raisedAt: string }>;
+}
+
+interface AttendanceSummaryProps {
+  portal: StudentPortalData;
+  // Shown when the threshold is exceeded, after the warning itself
+  exceededAdvice?: string;
+  // Heading content beside the absence list, and a per-absence action column when set
+  absencesHeaderAction?: ReactNode;
+  absenceAction?: (absence: PortalAbsence) => ReactNode;
+}
+
+export const getPortalModuleElementName = (portal: StudentPortalData, id: number) =>
+  portal.moduleElements.find(moduleElement => moduleElement.moduleElementId === id)?.name ?? "Module inconnu";
+
+// Attendance of one student for the period: standing against the course threshold, groups, absences per
+// module element and the absences themselves. Shared by the student and guardian portals.
+export default function AttendanceSummary({
+  portal,
+  exceededAdvice,
+  absencesHeaderAction,
+  absenceAction,
+}: AttendanceSummaryProps) {
+  // Standing in the unit the course counts absences in
+  const unexcused = portal.thresholdUnit === "hours" ? portal.unexcusedHours : portal.unexcusedCount;
+  const thresholdProgress = portal.threshold
+    ? Math.min(100, Math.round((unexcused / portal.threshold) * 100))
+    : 0;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold">
+          {portal.student.firstName} {portal.student.lastName}
+        </h2>
+        <p className="text-sm text-muted-foreground">
+          {portal.student.studentId}
+          {portal.course && ` — ${portal.course.name} (${portal.course.code})`}
+          {portal.semester && ` — ${portal.semester.name}`}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card className={portal.exceeded ? "border-red-300" : ""}>
+          <CardHeader>
+            <CardTitle>Absences non justifiées</CardTitle>
+            <CardDescription>
+              {portal.threshold !== null
+                ? `Seuil de la filière : ${formatAbsenceAmount(portal.threshold, portal.thresholdUnit)}`
+                : "Aucun seuil n'est fixé pour cette filière"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <p className="text-3xl font-bold">{formatAbsenceAmount(unexcused, portal.thresholdUnit)}</p>
+            <p className="text-sm text-muted-foreground">
+              {portal.thresholdUnit === "hours"
+                ? formatAbsenceAmount(portal.unexcusedCount, "count")
+                : formatAbsenceAmount(portal.unexcusedHours, "hours")}
+            </p>
+            {portal.threshold !== null && <Progress value={thresholdProgress} />}
+            {portal.exceeded && (
+              <div className="flex items-center gap-2 text-sm text-red-700">
+                <AlertTriangle className="h-4 w-4" />
+                Le seuil d'absences autorisé est dépassé.{exceededAdvice && ` ${exceededAdvice}`}
+              </div>
+            )}
+            {portal.alerts.map(alert => (
+              <div key={alert.id} className="flex items-center gap-2 text-sm text-red-700">
+                <Badge variant="destructive">{ESCALATION_LEVELS[alert.level] ?? alert.level}</Badge>
+                Plus de {formatAbsenceAmount(alert.threshold, alert.unit)} depuis le {format(new Date(alert.raisedAt), "d MMMM yyyy", { locale: fr })}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Groupes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {portal.groups.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Aucun groupe affecté.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {portal.groups.map(group => (
+                  <Badge key={group.id} variant="secondary">{group.name} ({group.type})</Badge>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Absences par élément de module</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {portal.moduleElements.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Aucune absence enregistrée.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Élément</TableHead>
+                  <TableHead>Module</TableHead>
+                  <TableHead className="text-right">Non justifiées</TableHead>
+                  <TableHead className="text-right">Justifiées</TableHead>
+                  <TableHead className="text-right">Retards et départs</TableHead>
+                  <TableHead className="text-right">Heures</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {portal.moduleElements.map(moduleElement => (
+                  <TableRow key={moduleElement.moduleElementId}>
+                    <TableCell className="font-medium">{moduleElement.name} ({moduleElement.code})</TableCell>
+                    <TableCell>{moduleElement.moduleName}</TableCell>
+                    <TableCell className="text-right">{moduleElement.absent + moduleElement.unjustified}</TableCell>
+                    <TableCell className="text-right">{moduleElement.justified}</TableCell>
+                    <TableCell className="text-right">{moduleElement.late + moduleElement.leftEarly}</TableCell>
+                    <TableCell className="text-right">{formatAbsenceAmount(moduleElement.hours, "hours")}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Absences</CardTitle>
+            {absenceAction && (
+              <CardDescription>Déposez un justificatif pour les absences non justifiées</CardDescription>
+            )}
+          </div>
+          {absencesHeaderAction}
+        </CardHeader>
+        <CardContent>
+          {portal.absences.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Aucune absence enregistrée.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Durée</TableHead>
+                  <TableHead>Élément</TableHead>
+                  <TableHead>Statut</TableHead>
+                  {absenceAction && <TableHead className="text-right">Action</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {portal.absences.map(absence => {
+                  const statusOption = getStatusOption(absence.status);
+                  return (
+                    <TableRow key={absence.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(absence.date), "d MMMM yyyy", { locale: fr })}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{formatAbsenceAmount(absence.hours, "hours")}</TableCell>
+                      <TableCell>{getPortalModuleElementName(portal, absence.moduleElementId)}</TableCell>
+                      <TableCell>
+                        <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${statusOption.colorClass}`}>
+                          {statusOption.label}
+                          {absence.minutes !== null && ` (${absence.minutes} min)`}
+                        </span>
+                        {absence.countedAsAbsence && (
+                          <span className="ml-2 text-xs text-muted-foreground">compté comme absence</span>
+                        )}
+                      </TableCell>
+                      {absenceAction && <TableCell className="text-right">{absenceAction(absence)}</TableCell>}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
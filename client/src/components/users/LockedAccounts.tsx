@@ -0,0 +1,85 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Lock, LockOpen } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { fr } from "date-fns/locale";
+
+interface LockedUser {
+  id: number;
+  username: string;
+  fullName: string;
+  lockedUntil: string;
+}
+
+// Accounts locked after too many failed logins, which administrators can unlock before the lockout ends
+export default function LockedAccounts() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: lockedUsers } = useQuery<LockedUser[]>({
+    queryKey: ['/api/users/locked'],
+  });
+
+  const unlockMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/users/${id}/unlock`, undefined);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Compte déverrouillé",
+        description: "L'utilisateur peut de nouveau se connecter",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/users/locked'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: `Erreur lors du déverrouillage du compte: ${error.message}`,
+      });
+    },
+  });
+
+  if (!lockedUsers || lockedUsers.length === 0) return null;
+
+  return (
+    <Card className="border-destructive/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Lock className="h-5 w-5 text-destructive" />
+          Comptes verrouillés
+        </CardTitle>
+        <CardDescription>
+          Ces comptes ont été verrouillés temporairement après plusieurs échecs de connexion.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y">
+          {lockedUsers.map(user => (
+            <li key={user.id} className="flex items-center justify-between py-2">
+              <div>
+                <p className="font-medium">{user.fullName}</p>
+                <p className="text-sm text-muted-foreground">
+                  {user.username} · verrouillé jusqu'à {format(parseISO(user.lockedUntil), "HH:mm", { locale: fr })}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => unlockMutation.mutate(user.id)}
+                disabled={unlockMutation.isPending}
+              >
+                <LockOpen className="h-4 w-4 mr-1" />
+                Déverrouiller
+              </Button>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,121 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import { USER_ROLES, describePasswordPolicy } from "@/lib/constants";
+import type { PasswordPolicy } from "@shared/password-policy";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface Student {
+  id: number;
+  studentId: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+}
+
+interface StudentAccountModalProps {
+  student: Student | null;
+  onClose: () => void;
+}
+
+// Create the login of a student, linked to their record so they can follow their attendance on the portal.
+// The student replaces the temporary password on first login.
+export default function StudentAccountModal({ student, onClose }: StudentAccountModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  const { data: passwordPolicy } = useQuery<PasswordPolicy>({
+    queryKey: ['/api/auth/password-policy'],
+  });
+
+  useEffect(() => {
+    if (student) {
+      setUsername(student.studentId.toLowerCase());
+      setPassword("");
+    }
+  }, [student?.id]);
+
+  const createAccountMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/users", {
+        username,
+        password,
+        fullName: `${student!.firstName} ${student!.lastName}`,
+        email: student!.email,
+        role: USER_ROLES.STUDENT,
+        studentId: student!.id,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Compte créé",
+        description: "L'étudiant devra choisir un nouveau mot de passe à sa première connexion",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: error instanceof ApiError && error.data?.message
+          ? error.data.message
+          : `Erreur lors de la création du compte: ${error.message}`,
+      });
+    },
+  });
+
+  return (
+    <Dialog open={student !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Créer un compte étudiant</DialogTitle>
+          <DialogDescription>
+            {student && `${student.lastName} ${student.firstName} — ${student.email}`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="student-username">Nom d'utilisateur</Label>
+            <Input id="student-username" value={username} onChange={(e) => setUsername(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="student-password">Mot de passe temporaire</Label>
+            <Input
+              id="student-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+            {passwordPolicy && (
+              <p className="text-xs text-muted-foreground">{describePasswordPolicy(passwordPolicy)}</p>
+            )}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Annuler</Button>
+          <Button
+            onClick={() => createAccountMutation.mutate()}
+            disabled={createAccountMutation.isPending || !username || !password}
+          >
+            Créer le compte
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,8 +1,9 @@
 import { createContext, useState, useContext, useEffect, ReactNode } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, ApiError } from "@/lib/queryClient";
 import { useLocation } from "wouter";
+import type { Permission } from "@shared/permissions";
 
 // Define session data response type
 interface SessionResponse {
@@ -15,24 +16,48 @@ interface User {
   username: string;
   fullName: string;
   email: string;
-  role: "admin" | "departmentHead" | "teacher";
+  role: "admin" | "departmentHead" | "teacher" | "student" | "guardian";
   departmentId?: number;
+  // Student record of a student account
+  studentId?: number | null;
+  mustChangePassword?: boolean;
+  twoFactorEnabled?: boolean;
+  twoFactorSetupRequired?: boolean;
+  permissions?: Permission[];
 }
 
+// Second step of a login for accounts with two-factor authentication
+export type SecondFactor = { code: string } | { recoveryCode: string };
+
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   initialized: boolean;
+  // The password was accepted and the login waits for a code from the authenticator app
+  twoFactorPending: boolean;
   login: (username: string, password: string) => Promise<void>;
+  // Sign in with the single-use link emailed to guardians
+  loginWithMagicLink: (token: string) => Promise<void>;
+  verifyTwoFactor: (factor: SecondFactor) => Promise<void>;
+  cancelTwoFactor: () => void;
   logout: () => Promise<void>;
+  refresh: () => Promise<void>;
+  // Whether the user's role grants at least one of the permissions
+  can: (...permissions: Permission[]) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType>({
   user: null,
   isLoading: true,
   initialized: false,
+  twoFactorPending: false,
   login: async () => {},
+  loginWithMagicLink: async () => {},
+  verifyTwoFactor: async () => {},
+  cancelTwoFactor: () => {},
   logout: async () => {},
+  refresh: async () => {},
+  can: () => false,
 });
 
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
@@ -42,6 +67,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     return cachedUser ? JSON.parse(cachedUser) : null;
   });
   const [authInitialized, setAuthInitialized] = useState(false);
+  const [twoFactorPending, setTwoFactorPending] = useState(false);
   const { toast } = useToast();
   const [, navigate] = useLocation();
 
@@ -78,24 +104,77 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       return response.json();
     },
     onSuccess: (data) => {
-      setUser(data);
-      // Store user data in localStorage
-      localStorage.setItem('SuiviScolaire_user', JSON.stringify(data));
+      if (data.twoFactorRequired) {
+        setTwoFactorPending(true);
+        return;
+      }
+      completeLogin(data);
+    },
+    onError: (error: Error) => {
       toast({
-        title: "Connexion réussie",
-        description: `Bienvenue, ${data.fullName}`,
+        variant: "destructive",
+        title: "Échec de la connexion",
+        description: error instanceof ApiError && error.status === 429
+          ? "Trop de tentatives de connexion échouées. Réessayez plus tard."
+          : "Nom d'utilisateur ou mot de passe incorrect",
       });
-      navigate("/");
+    },
+  });
+
+  // Magic link mutation; errors are shown by the page that redeems the link
+  const magicLinkMutation = useMutation({
+    mutationFn: async (token: string) => {
+      const response = await apiRequest("POST", "/api/auth/magic-link/verify", { token });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      if (data.twoFactorRequired) {
+        setTwoFactorPending(true);
+        navigate("/login");
+        return;
+      }
+      completeLogin(data);
+    },
+  });
+
+  // Second factor mutation
+  const verifyTwoFactorMutation = useMutation({
+    mutationFn: async (factor: SecondFactor) => {
+      const response = await apiRequest("POST", "/api/auth/2fa/verify", factor);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setTwoFactorPending(false);
+      completeLogin(data);
     },
     onError: (error: Error) => {
+      const expired = error instanceof ApiError && error.data?.code === "twoFactorLoginExpired";
+      if (expired) {
+        setTwoFactorPending(false);
+      }
       toast({
         variant: "destructive",
-        title: "Échec de la connexion",
-        description: error.message || "Nom d'utilisateur ou mot de passe incorrect",
+        title: "Échec de la vérification",
+        description: expired
+          ? "La connexion a expiré. Saisissez à nouveau votre mot de passe."
+          : error instanceof ApiError && error.status === 429
+            ? "Trop de tentatives de connexion échouées. Réessayez plus tard."
+            : "Code de vérification incorrect",
       });
     },
   });
 
+  const completeLogin = (data: User) => {
+    setUser(data);
+    // Store user data in localStorage
+    localStorage.setItem('SuiviScolaire_user', JSON.stringify(data));
+    toast({
+      title: "Connexion réussie",
+      description: `Bienvenue, ${data.fullName}`,
+    });
+    navigate("/");
+  };
+
   // Logout mutation
   const logoutMutation = useMutation({
     mutationFn: async () => {
@@ -125,18 +204,44 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     await loginMutation.mutateAsync({ username, password });
   };
 
+  const loginWithMagicLink = async (token: string) => {
+    await magicLinkMutation.mutateAsync(token);
+  };
+
+  const verifyTwoFactor = async (factor: SecondFactor) => {
+    await verifyTwoFactorMutation.mutateAsync(factor);
+  };
+
+  const cancelTwoFactor = () => {
+    setTwoFactorPending(false);
+  };
+
   const logout = async () => {
     await logoutMutation.mutateAsync();
   };
 
+  // Reload the current user from the server, e.g. after changing the password
+  const refresh = async () => {
+    await refetch();
+  };
+
+  const can = (...permissions: Permission[]) =>
+    permissions.some(permission => user?.permissions?.includes(permission) ?? false);
+
   return (
     <AuthContext.Provider
       value={{
         user,
-        isLoading: isLoading || loginMutation.isPending,
+        isLoading: isLoading || loginMutation.isPending || magicLinkMutation.isPending || verifyTwoFactorMutation.isPending,
         initialized: authInitialized,
+        twoFactorPending,
         login,
+        loginWithMagicLink,
+        verifyTwoFactor,
+        cancelTwoFactor,
         logout,
+        refresh,
+        can,
       }}
     >
       {children}
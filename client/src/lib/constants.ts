@@ -1,7 +1,11 @@
+import type { PasswordPolicy } from "@shared/password-policy";
+
 export const USER_ROLES = {
   ADMIN: "admin",
   DEPARTMENT_HEAD: "departmentHead",
   TEACHER: "teacher",
+  STUDENT: "student",
+  GUARDIAN: "guardian",
 } as const;
 
 export const SESSION_TYPES = {
@@ -10,11 +14,53 @@ export const SESSION_TYPES = {
   TP: "TP",
 } as const;
 
+export const SESSION_TYPE_LABELS: Record<string, string> = {
+  course: "Cours magistral",
+  TD: "TD",
+  TP: "TP",
+};
+
+export const ROOM_TYPES: Record<string, string> = {
+  lectureHall: "Amphithéâtre",
+  classroom: "Salle de cours",
+  lab: "Salle de TP",
+};
+
+// Messages for a room, teacher or group the server finds already booked at the same time
+export const BOOKING_CONFLICT_MESSAGES: Record<string, string> = {
+  roomId: "La salle est déjà occupée sur ce créneau",
+  teacherId: "L'enseignant a déjà une séance sur ce créneau",
+  groupId: "Le groupe a déjà une séance sur ce créneau",
+};
+
+// Warning returned when a room seats fewer students than the session or slot booked in it expects
+export interface CapacityWarning {
+  roomName: string;
+  capacity: number;
+  students: number;
+}
+
+export const describeCapacityWarning = (warning: CapacityWarning) =>
+  `La salle ${warning.roomName} compte ${warning.capacity} places pour ${warning.students} étudiants attendus`;
+
+// Days of the timetable, numbered from 1 (Monday) like the API
+export const WEEKDAYS: Record<number, string> = {
+  1: "Lundi",
+  2: "Mardi",
+  3: "Mercredi",
+  4: "Jeudi",
+  5: "Vendredi",
+  6: "Samedi",
+  7: "Dimanche",
+};
+
 export const ABSENCE_STATUSES = {
   PRESENT: "present",
   ABSENT: "absent",
   JUSTIFIED: "justified",
   UNJUSTIFIED: "unjustified",
+  LATE: "late",
+  LEFT_EARLY: "leftEarly",
 } as const;
 
 export const STUDENT_GROUP_TYPES = {
@@ -33,9 +79,148 @@ export const ABSENCE_STATUS_OPTIONS: StatusOption[] = [
   { value: ABSENCE_STATUSES.ABSENT, label: "Absent", colorClass: "text-red-700 bg-red-100" },
   { value: ABSENCE_STATUSES.JUSTIFIED, label: "Absence Justifiée", colorClass: "text-blue-700 bg-blue-100" },
   { value: ABSENCE_STATUSES.UNJUSTIFIED, label: "Absence Non-Justifiée", colorClass: "text-yellow-700 bg-yellow-100" },
+  { value: ABSENCE_STATUSES.LATE, label: "Retard", colorClass: "text-orange-700 bg-orange-100" },
+  { value: ABSENCE_STATUSES.LEFT_EARLY, label: "Départ anticipé", colorClass: "text-purple-700 bg-purple-100" },
 ];
 
 export const getStatusOption = (value: string): StatusOption => {
   return ABSENCE_STATUS_OPTIONS.find(option => option.value === value) || 
     { value, label: value, colorClass: "text-gray-700 bg-gray-100" };
 };
+
+export const CONSTRAINT_ERROR_MESSAGES = {
+  unique: "Cette valeur est déjà utilisée",
+  foreignKey: "Cette référence n'existe pas ou a été supprimée",
+} as const;
+
+// Human-readable summary of the password policy, e.g. "Au moins 8 caractères, dont une majuscule et un chiffre"
+export const describePasswordPolicy = (policy: PasswordPolicy): string => {
+  const required = [
+    policy.requireLowercase && "une minuscule",
+    policy.requireUppercase && "une majuscule",
+    policy.requireDigit && "un chiffre",
+    policy.requireSymbol && "un caractère spécial",
+  ].filter(Boolean) as string[];
+
+  const length = `Au moins ${policy.minLength} caractères`;
+  if (required.length === 0) return length;
+  const last = required.pop();
+  return `${length}, dont ${required.length > 0 ? `${required.join(", ")} et ${last}` : last}`;
+};
+
+// Short description of the browser and system behind a user agent, e.g. "Firefox sur Windows"
+export const describeUserAgent = (userAgent: string | null): string => {
+  if (!userAgent) return "Appareil inconnu";
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /OPR\/|Opera/.test(userAgent) ? "Opera" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    null;
+  const system =
+    /Windows/.test(userAgent) ? "Windows" :
+    /Android/.test(userAgent) ? "Android" :
+    /iPhone|iPad/.test(userAgent) ? "iOS" :
+    /Mac OS X|Macintosh/.test(userAgent) ? "macOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    null;
+
+  if (browser && system) return `${browser} sur ${system}`;
+  return browser ?? system ?? "Appareil inconnu";
+};
+
+export const AUDIT_ACTION_LABELS: Record<string, string> = {
+  create: "Création",
+  update: "Modification",
+  delete: "Suppression",
+};
+
+export const AUDIT_ENTITY_LABELS: Record<string, string> = {
+  users: "Utilisateurs",
+  departments: "Départements",
+  courses: "Filières",
+  modules: "Modules",
+  moduleElements: "Éléments de module",
+  teacherModuleElements: "Affectations d'enseignants",
+  students: "Étudiants",
+  studentGroups: "Groupes d'étudiants",
+  studentGroupAssignments: "Affectations aux groupes",
+  sessions: "Séances",
+  timetableSlots: "Emploi du temps",
+  rooms: "Salles",
+  absences: "Absences",
+  academicYears: "Années universitaires",
+  semesters: "Semestres",
+  enrollments: "Inscriptions",
+  justificationRequests: "Justificatifs",
+  guardians: "Parents et tuteurs",
+  thresholdLevels: "Seuils d'absences",
+  absenceAlerts: "Alertes d'absences",
+  notificationPreferences: "Préférences de notification",
+  settings: "Paramètres",
+};
+
+export const JUSTIFICATION_REASONS: Record<string, string> = {
+  medical: "Raison médicale",
+  family: "Raison familiale",
+  administrative: "Démarche administrative",
+  transport: "Problème de transport",
+  other: "Autre",
+};
+
+export const GUARDIAN_RELATIONSHIPS: Record<string, string> = {
+  mother: "Mère",
+  father: "Père",
+  legalGuardian: "Tuteur légal",
+  sponsor: "Garant",
+  other: "Autre",
+};
+
+export const NOTIFICATION_CHANNELS: Record<string, string> = {
+  email: "Email",
+  sms: "SMS",
+};
+
+// Channels users choose for their own notifications; guardian contacts without an account can't use the app
+export const USER_NOTIFICATION_CHANNELS: Record<string, string> = {
+  ...NOTIFICATION_CHANNELS,
+  inApp: "Dans l'application",
+};
+
+export const NOTIFICATION_EVENTS: Record<string, string> = {
+  absenceRecorded: "Absence enregistrée",
+  absenceAlert: "Seuil d'absences dépassé",
+  justificationSubmitted: "Justificatif à examiner",
+  justificationReviewed: "Décision sur un justificatif",
+  attendanceMissing: "Absences non saisies",
+};
+
+export const JUSTIFICATION_STATUS_OPTIONS: StatusOption[] = [
+  { value: "pending", label: "En attente", colorClass: "text-yellow-700 bg-yellow-100" },
+  { value: "approved", label: "Approuvé", colorClass: "text-green-700 bg-green-100" },
+  { value: "rejected", label: "Refusé", colorClass: "text-red-700 bg-red-100" },
+];
+
+export const ESCALATION_LEVELS: Record<string, string> = {
+  warning: "Avertissement",
+  convocation: "Convocation",
+  exclusion: "Exclusion",
+};
+
+// What a course's thresholds are measured in
+export const THRESHOLD_UNITS: Record<string, string> = {
+  count: "Nombre d'absences",
+  hours: "Heures d'absence",
+};
+
+// Absences in the unit of a threshold, such as "3 absences" or "7,5 h"
+export const formatAbsenceAmount = (amount: number, unit: string) =>
+  unit === "hours" ? `${amount.toLocaleString("fr-FR")} h` : `${amount} absence${amount > 1 ? "s" : ""}`;
+
+export const ALERT_STATUS_OPTIONS: StatusOption[] = [
+  { value: "open", label: "À traiter", colorClass: "text-red-700 bg-red-100" },
+  { value: "dismissed", label: "Ignorée", colorClass: "text-gray-700 bg-gray-100" },
+  { value: "resolved", label: "Résolue", colorClass: "text-green-700 bg-green-100" },
+];
@@ -1,21 +1,45 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// Error thrown for non-2xx responses, keeping the parsed JSON body when there is one
+export class ApiError extends Error {
+  constructor(public status: number, text: string, public data?: any) {
+    super(`${status}: ${text}`);
+    this.name = "ApiError";
+  }
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      data = undefined;
+    }
+    throw new ApiError(res.status, text, data);
   }
 }
 
+// Field-level constraint violation (duplicate value or unknown reference) reported by the API
+export function getFieldError(error: unknown): { field: string; code: "unique" | "foreignKey" } | undefined {
+  if (error instanceof ApiError && error.data?.field && error.data?.code) {
+    return { field: error.data.field, code: error.data.code };
+  }
+  return undefined;
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
+  // Form data (file uploads) is sent as is, letting the browser set the multipart boundary
+  const isFormData = data instanceof FormData;
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
-    body: data ? JSON.stringify(data) : undefined,
+    headers: data && !isFormData ? { "Content-Type": "application/json" } : {},
+    body: isFormData ? data : data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
 
@@ -29,7 +53,22 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey[0] as string, {
+    // An object after the URL in the query key holds the query-string filters
+    let url = queryKey[0] as string;
+    const params = queryKey[1];
+    if (params && typeof params === "object") {
+      const search = new URLSearchParams();
+      for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined && value !== null && value !== "") {
+          search.set(key, String(value));
+        }
+      }
+      if (search.toString()) {
+        url += `?${search.toString()}`;
+      }
+    }
+
+    const res = await fetch(url, {
       credentials: "include",
     });
 
@@ -2,6 +2,7 @@ import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { ABSENCE_STATUSES, getStatusOption } from "@/lib/constants";
+import { isLateness } from "@shared/lateness";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { 
@@ -48,6 +49,8 @@ import {
 } from "recharts";
 import { format } from "date-fns";
 import { fr } from "date-fns/locale";
+import AbsenceChangesModal from "@/components/modals/AbsenceChangesModal";
+import JustificationRequestModal, { type JustifiableAbsence } from "@/components/modals/JustificationRequestModal";
 
 // Types
 interface Session {
@@ -65,6 +68,7 @@ interface Absence {
   sessionId: number;
   studentId: number;
   status: string;
+  minutes: number | null;
   notes: string | null;
 }
 
@@ -88,7 +92,7 @@ interface ModuleElement {
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8'];
 
 export default function AbsenceHistory() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const { toast } = useToast();
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(undefined);
@@ -101,6 +105,9 @@ export default function AbsenceHistory() {
   const [selectedAbsence, setSelectedAbsence] = useState<Absence | null>(null);
   const [absenceNote, setAbsenceNote] = useState("");
   const [absenceStatus, setAbsenceStatus] = useState("");
+  const [absenceMinutes, setAbsenceMinutes] = useState("");
+  const [historyAbsence, setHistoryAbsence] = useState<Absence | null>(null);
+  const [justifiedAbsence, setJustifiedAbsence] = useState<Absence | null>(null);
 
   // Mutation for updating absences
   const updateAbsenceMutation = useMutation({
@@ -150,6 +157,7 @@ export default function AbsenceHistory() {
   const handleEditAbsence = (absence: Absence) => {
     setSelectedAbsence(absence);
     setAbsenceStatus(absence.status);
+    setAbsenceMinutes(absence.minutes?.toString() ?? "");
     setAbsenceNote(absence.notes || "");
     setIsEditDialogOpen(true);
   };
@@ -190,6 +198,21 @@ export default function AbsenceHistory() {
     return student ? `${student.lastName} ${student.firstName}` : "Étudiant inconnu";
   };
 
+  // Absence as offered in a justification request, labelled with its session
+  const toJustifiable = (absence: Absence): JustifiableAbsence => {
+    const session = sessions?.find(s => s.id === absence.sessionId);
+    return {
+      id: absence.id,
+      studentId: absence.studentId,
+      label: session
+        ? `${format(new Date(session.date), "d MMM yyyy", { locale: fr })} — ${getModuleElementName(session.moduleElementId)}`
+        : `Absence n° ${absence.id}`,
+    };
+  };
+
+  const needsJustification = (absence: Absence) =>
+    absence.status === ABSENCE_STATUSES.ABSENT || absence.status === ABSENCE_STATUSES.UNJUSTIFIED;
+
   // Filter sessions based on date and module element
   const filteredSessions = sessions?.filter(session => {
     if (selectedDate && format(new Date(session.date), "yyyy-MM-dd") !== format(selectedDate, "yyyy-MM-dd")) {
@@ -220,9 +243,7 @@ export default function AbsenceHistory() {
   const absenceStatusData = absences ? Object.values(ABSENCE_STATUSES).map(status => {
     const count = absences.filter(absence => absence.status === status).length;
     return { 
-      name: status === ABSENCE_STATUSES.PRESENT ? "Présent" : 
-            status === ABSENCE_STATUSES.ABSENT ? "Absent" : 
-            status === ABSENCE_STATUSES.JUSTIFIED ? "Absence Justifiée" : "Absence Non-Justifiée", 
+      name: getStatusOption(status).label, 
       value: count 
     };
   }) : [];
@@ -431,6 +452,7 @@ export default function AbsenceHistory() {
                                 <td className="px-6 py-4 whitespace-nowrap">
                                   <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${statusOption.colorClass}`}>
                                     {statusOption.label}
+                                    {absence.minutes !== null && ` (${absence.minutes} min)`}
                                   </span>
                                 </td>
                                 <td className="px-6 py-4 whitespace-nowrap text-sm text-neutral-500">
@@ -451,6 +473,20 @@ export default function AbsenceHistory() {
                                       >
                                         Modifier le statut
                                       </DropdownMenuItem>
+                                      <DropdownMenuItem 
+                                        onClick={() => setHistoryAbsence(absence)}
+                                        className="cursor-pointer"
+                                      >
+                                        Historique des modifications
+                                      </DropdownMenuItem>
+                                      {can("justifications:submit") && needsJustification(absence) && (
+                                        <DropdownMenuItem 
+                                          onClick={() => setJustifiedAbsence(absence)}
+                                          className="cursor-pointer"
+                                        >
+                                          Déposer un justificatif
+                                        </DropdownMenuItem>
+                                      )}
                                       <DropdownMenuItem 
                                         onClick={() => handleDeleteAbsence(absence)}
                                         className="cursor-pointer text-red-600"
@@ -493,6 +529,26 @@ export default function AbsenceHistory() {
         </Card>
       </div>
 
+      <AbsenceChangesModal
+        absenceId={historyAbsence?.id ?? null}
+        studentName={historyAbsence ? getStudentName(historyAbsence.studentId) : ""}
+        onClose={() => setHistoryAbsence(null)}
+      />
+
+      <JustificationRequestModal
+        absence={justifiedAbsence ? toJustifiable(justifiedAbsence) : null}
+        studentName={justifiedAbsence ? getStudentName(justifiedAbsence.studentId) : ""}
+        otherAbsences={(absences ?? [])
+          .filter(absence =>
+            justifiedAbsence !== null &&
+            absence.studentId === justifiedAbsence.studentId &&
+            absence.id !== justifiedAbsence.id &&
+            needsJustification(absence)
+          )
+          .map(toJustifiable)}
+        onClose={() => setJustifiedAbsence(null)}
+      />
+
       {/* Edit Absence Dialog */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
         <DialogContent className="sm:max-w-md">
@@ -521,11 +577,27 @@ export default function AbsenceHistory() {
                     <SelectContent>
                       <SelectItem value={ABSENCE_STATUSES.PRESENT}>Présent</SelectItem>
                       <SelectItem value={ABSENCE_STATUSES.ABSENT}>Absent</SelectItem>
-                      <SelectItem value={ABSENCE_STATUSES.JUSTIFIED}>Absence Justifiée</SelectItem>
+                      {/* Only approving a justification request makes an absence justified */}
+                      {selectedAbsence.status === ABSENCE_STATUSES.JUSTIFIED && (
+                        <SelectItem value={ABSENCE_STATUSES.JUSTIFIED}>Absence Justifiée</SelectItem>
+                      )}
                       <SelectItem value={ABSENCE_STATUSES.UNJUSTIFIED}>Absence Non-Justifiée</SelectItem>
+                      <SelectItem value={ABSENCE_STATUSES.LATE}>Retard</SelectItem>
+                      <SelectItem value={ABSENCE_STATUSES.LEFT_EARLY}>Départ anticipé</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
+                {isLateness(absenceStatus) && (
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-medium">Minutes</h3>
+                    <Input
+                      type="number"
+                      min="1"
+                      value={absenceMinutes}
+                      onChange={(e) => setAbsenceMinutes(e.target.value)}
+                    />
+                  </div>
+                )}
                 <div className="space-y-2">
                   <h3 className="text-sm font-medium">Notes</h3>
                   <Textarea 
@@ -550,11 +622,15 @@ export default function AbsenceHistory() {
                   updateAbsenceMutation.mutate({
                     id: selectedAbsence.id,
                     status: absenceStatus,
+                    minutes: isLateness(absenceStatus) ? parseInt(absenceMinutes, 10) : null,
                     notes: absenceNote
                   });
                 }
               }}
-              disabled={updateAbsenceMutation.isPending}
+              disabled={
+                updateAbsenceMutation.isPending ||
+                (isLateness(absenceStatus) && !(parseInt(absenceMinutes, 10) >= 1))
+              }
             >
               {updateAbsenceMutation.isPending && (
                 <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-t-transparent"></div>
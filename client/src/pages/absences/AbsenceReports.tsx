@@ -1,6 +1,9 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { ABSENCE_STATUSES, getStatusOption } from "@/lib/constants";
+import { ABSENCE_STATUSES, USER_ROLES, THRESHOLD_UNITS, formatAbsenceAmount, getStatusOption } from "@/lib/constants";
+import { sessionHours } from "@shared/session-hours";
+import { convertLateness, isLateness } from "@shared/lateness";
+import { useAuth } from "@/hooks/useAuth";
 import { 
   Card, 
   CardContent, 
@@ -9,14 +12,6 @@ import {
   CardDescription,
   CardFooter 
 } from "@/components/ui/card";
-import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogFooter,
-  DialogHeader,
-  DialogTitle,
-} from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -37,6 +32,7 @@ import {
 } from "recharts";
 import { format, parseISO, startOfMonth, endOfMonth, eachDayOfInterval } from "date-fns";
 import { fr } from "date-fns/locale";
+import ThresholdLevelsModal from "@/components/modals/ThresholdLevelsModal";
 
 // Types
 interface Course {
@@ -44,7 +40,10 @@ interface Course {
   name: string;
   code: string;
   departmentId: number;
-  absenceThreshold?: number;
+  absenceThreshold?: number | null;
+  thresholdUnit: string;
+  latesPerAbsence: number | null;
+  lateAbsentAfterMinutes: number | null;
 }
 
 interface Department {
@@ -73,12 +72,14 @@ interface Absence {
   sessionId: number;
   studentId: number;
   status: string;
+  minutes: number | null;
   notes: string | null;
 }
 
 interface Session {
   id: number;
   date: string;
+  endsAt: string | null;
   type: string;
   moduleElementId: number;
   teacherId: number;
@@ -86,16 +87,79 @@ interface Session {
   notes: string | null;
 }
 
+interface Semester {
+  id: number;
+  name: string;
+  academicYearId: number;
+}
+
+interface AcademicYear {
+  id: number;
+  name: string;
+}
+
+interface ActivePeriod {
+  academicYear: AcademicYear | null;
+  semester: Semester | null;
+}
+
+interface AbsenceTotal {
+  id: number;
+  name: string;
+  code: string;
+  absences: number;
+  unexcused: number;
+  hours: number;
+  unexcusedHours: number;
+}
+
+interface AbsenceTotals {
+  moduleElements: Array<AbsenceTotal & { moduleId: number }>;
+  modules: Array<AbsenceTotal & { courseId: number }>;
+  courses: AbsenceTotal[];
+}
+
+type TotalsLevel = keyof AbsenceTotals;
+
+const TOTALS_LEVELS: Record<TotalsLevel, string> = {
+  moduleElements: "Par élément de module",
+  modules: "Par module",
+  courses: "Par filière",
+};
+
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8'];
 
 export default function AbsenceReports() {
+  const { user, can } = useAuth();
   const [selectedDepartment, setSelectedDepartment] = useState<string>("all");
   const [selectedCourse, setSelectedCourse] = useState<string>("all");
-  const [selectedPeriod, setSelectedPeriod] = useState<string>("all");
+  const [selectedPeriod, setSelectedPeriod] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
-  const [isThresholdDialogOpen, setIsThresholdDialogOpen] = useState(false);
+  // Charts and rankings count absences, or the hours of the sessions missed
+  const [measure, setMeasure] = useState("count");
+  const [totalsLevel, setTotalsLevel] = useState<TotalsLevel>("moduleElements");
   const [selectedCourseForThreshold, setSelectedCourseForThreshold] = useState<Course | null>(null);
 
+  // Reports cover the active semester until another period is picked
+  const { data: activePeriod } = useQuery<ActivePeriod>({
+    queryKey: ['/api/periods/active'],
+  });
+
+  const { data: academicYears } = useQuery<AcademicYear[]>({
+    queryKey: ['/api/academic-years'],
+  });
+
+  const { data: semesters } = useQuery<Semester[]>({
+    queryKey: ['/api/semesters'],
+  });
+
+  const periodValue = selectedPeriod ?? activePeriod?.semester?.id.toString() ?? "all";
+
+  const getSemesterLabel = (semester: Semester) => {
+    const academicYear = academicYears?.find(y => y.id === semester.academicYearId);
+    return academicYear ? `${semester.name} (${academicYear.name})` : semester.name;
+  };
+
   // Queries for fetching data
   const { data: departments } = useQuery<Department[]>({
     queryKey: ['/api/departments'],
@@ -106,20 +170,32 @@ export default function AbsenceReports() {
   });
 
   const { data: students } = useQuery<Student[]>({
-    queryKey: ['/api/students'],
+    queryKey: ['/api/students', { semesterId: periodValue }],
+    enabled: activePeriod !== undefined,
   });
 
   const { data: absences } = useQuery<Absence[]>({
-    queryKey: ['/api/absences'],
+    queryKey: ['/api/absences', { semesterId: periodValue }],
+    enabled: activePeriod !== undefined,
   });
 
   const { data: sessions } = useQuery<Session[]>({
-    queryKey: ['/api/sessions'],
+    queryKey: ['/api/sessions', { semesterId: periodValue }],
+    enabled: activePeriod !== undefined,
   });
 
+  const { data: absenceTotals } = useQuery<AbsenceTotals>({
+    queryKey: ['/api/statistics/absence-totals', { semesterId: periodValue }],
+    enabled: activePeriod !== undefined,
+  });
+
+  // Department heads only report on their own department, whose data is all the server returns to them
+  const isDepartmentHead = user?.role === USER_ROLES.DEPARTMENT_HEAD;
+  const departmentValue = isDepartmentHead ? user.departmentId?.toString() ?? "" : selectedDepartment;
+
   // Filter courses based on selected department
   const filteredCourses = courses?.filter(
-    course => selectedDepartment === "all" || course.departmentId.toString() === selectedDepartment
+    course => departmentValue === "all" || course.departmentId.toString() === departmentValue
   ) || [];
 
   // Filter students based on selected course
@@ -141,15 +217,37 @@ export default function AbsenceReports() {
     return course ? course.name : "Filière inconnue";
   };
 
-  // Calculate absence count for each student
-  const getStudentAbsences = (studentId: number) => {
-    return absences?.filter(
-      absence => absence.studentId === studentId && absence.status === ABSENCE_STATUSES.ABSENT
-    ).length || 0;
+  // Weight of one absence: 1, or the hours of its session
+  const sessionsById = new Map((sessions ?? []).map(session => [session.id, session]));
+  const absenceAmount = (absence: Absence, unit: string) => {
+    if (unit !== "hours") return 1;
+    const session = sessionsById.get(absence.sessionId);
+    return session ? sessionHours(session) : 0;
   };
+  const sumAbsences = (list: Absence[], unit: string) =>
+    list.reduce((total, absence) => total + absenceAmount(absence, unit), 0);
 
-  // Calculate highest absence count
-  const highestAbsenceCount = Math.max(
+  // Absences counted by the reports: those marked absent, plus the late arrivals and early departures the
+  // course of each student turns into absences
+  const countedAbsences = (absences ?? []).filter(absence => absence.status === ABSENCE_STATUSES.ABSENT);
+  students?.forEach(student => {
+    const lateness = (absences ?? [])
+      .filter(absence => absence.studentId === student.id && isLateness(absence.status))
+      .map(absence => ({ ...absence, date: sessionsById.get(absence.sessionId)?.date ?? "" }));
+    countedAbsences.push(...convertLateness(courses?.find(course => course.id === student.courseId), lateness));
+  });
+
+  // Calculate absences of each student, in the given unit or the selected measure
+  const getStudentAbsences = (studentId: number, unit = measure) => {
+    return sumAbsences(countedAbsences.filter(absence => absence.studentId === studentId), unit);
+  };
+
+  // Levels past which a student's absences are highlighted
+  const [highAmount, mediumAmount] = measure === "hours" ? [20, 10] : [10, 5];
+  const measureLabel = measure === "hours" ? "Heures d'absence" : "Absences";
+
+  // Calculate highest absence amount
+  const highestAbsenceAmount = Math.max(
     ...filteredStudents.map(student => getStudentAbsences(student.id))
   );
 
@@ -159,13 +257,11 @@ export default function AbsenceReports() {
     .slice(0, 5);
 
   // Prepare data for absences by course chart
-  const absencesByCourseData = courses?.map(course => {
+  const absencesByCourseData = filteredCourses.map(course => {
     const courseStudents = students?.filter(s => s.courseId === course.id) || [];
     const studentIds = courseStudents.map(s => s.id);
     
-    const absenceCount = absences?.filter(
-      a => studentIds.includes(a.studentId) && a.status === ABSENCE_STATUSES.ABSENT
-    ).length || 0;
+    const absenceCount = sumAbsences(countedAbsences.filter(a => studentIds.includes(a.studentId)), measure);
     
     return {
       name: course.code,
@@ -173,7 +269,20 @@ export default function AbsenceReports() {
       students: courseStudents.length,
       ratio: courseStudents.length > 0 ? (absenceCount / courseStudents.length).toFixed(2) : "0"
     };
-  }) || [];
+  });
+
+  // Totals of the selected level, limited to the courses of the filters
+  const totalsCourseIds = (selectedCourse === "all" ? filteredCourses : filteredCourses.filter(
+    course => course.id.toString() === selectedCourse
+  )).map(course => course.id);
+  const moduleCourseIds = new Map((absenceTotals?.modules ?? []).map(module => [module.id, module.courseId]));
+  const totalsRows: AbsenceTotal[] = !absenceTotals ? [] : totalsLevel === "courses"
+    ? absenceTotals.courses.filter(course => totalsCourseIds.includes(course.id))
+    : totalsLevel === "modules"
+      ? absenceTotals.modules.filter(module => totalsCourseIds.includes(module.courseId))
+      : absenceTotals.moduleElements.filter(
+          moduleElement => totalsCourseIds.includes(moduleCourseIds.get(moduleElement.moduleId) ?? -1)
+        );
 
   // Prepare data for absences by date chart
   const now = new Date();
@@ -186,9 +295,7 @@ export default function AbsenceReports() {
     const daySessions = sessions?.filter(s => format(new Date(s.date), "yyyy-MM-dd") === dayStr) || [];
     const sessionIds = daySessions.map(s => s.id);
     
-    const absenceCount = absences?.filter(
-      a => sessionIds.includes(a.sessionId) && a.status === ABSENCE_STATUSES.ABSENT
-    ).length || 0;
+    const absenceCount = sumAbsences(countedAbsences.filter(a => sessionIds.includes(a.sessionId)), measure);
     
     return {
       name: format(day, "dd/MM"),
@@ -203,11 +310,12 @@ export default function AbsenceReports() {
       </div>
 
       {/* Filters */}
-      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
         <div>
           <Select 
-            value={selectedDepartment} 
+            value={departmentValue} 
             onValueChange={setSelectedDepartment}
+            disabled={isDepartmentHead}
           >
             <SelectTrigger>
               <SelectValue placeholder="Département" />
@@ -242,7 +350,7 @@ export default function AbsenceReports() {
         </div>
         <div>
           <Select 
-            value={selectedPeriod} 
+            value={periodValue} 
             onValueChange={setSelectedPeriod}
           >
             <SelectTrigger>
@@ -250,9 +358,24 @@ export default function AbsenceReports() {
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">Toutes les périodes</SelectItem>
-              <SelectItem value="month">Mois courant</SelectItem>
-              <SelectItem value="semester">Semestre courant</SelectItem>
-              <SelectItem value="year">Année courante</SelectItem>
+              {semesters?.map((semester) => (
+                <SelectItem key={semester.id} value={semester.id.toString()}>
+                  {getSemesterLabel(semester)}
+                  {semester.id === activePeriod?.semester?.id ? " - en cours" : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Select value={measure} onValueChange={setMeasure}>
+            <SelectTrigger>
+              <SelectValue placeholder="Mesure" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(THRESHOLD_UNITS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
@@ -288,7 +411,7 @@ export default function AbsenceReports() {
                 <YAxis />
                 <Tooltip />
                 <Legend />
-                <Bar dataKey="absences" fill="#8884d8" name="Absences" />
+                <Bar dataKey="absences" fill="#8884d8" name={measureLabel} />
                 <Bar dataKey="students" fill="#82ca9d" name="Étudiants" />
               </BarChart>
             </ResponsiveContainer>
@@ -321,7 +444,7 @@ export default function AbsenceReports() {
                   dataKey="absences" 
                   stroke="#8884d8" 
                   activeDot={{ r: 8 }} 
-                  name="Absences"
+                  name={measureLabel}
                 />
               </LineChart>
             </ResponsiveContainer>
@@ -329,12 +452,85 @@ export default function AbsenceReports() {
         </Card>
       </div>
 
+      {/* Absence Totals */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Volume d'absences</CardTitle>
+            <CardDescription>
+              Absences et heures de cours manquées, justifiées ou non
+            </CardDescription>
+          </div>
+          <Select value={totalsLevel} onValueChange={(value) => setTotalsLevel(value as TotalsLevel)}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(TOTALS_LEVELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {totalsRows.length > 0 ? (
+            <div className="overflow-x-auto max-h-96 overflow-y-auto">
+              <table className="min-w-full divide-y divide-neutral-200">
+                <thead className="bg-neutral-50">
+                  <tr>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                      Intitulé
+                    </th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                      Absences
+                    </th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                      Non justifiées
+                    </th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                      Heures
+                    </th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-neutral-500 uppercase tracking-wider">
+                      Heures non justifiées
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-neutral-200">
+                  {totalsRows.map(total => (
+                    <tr key={total.id}>
+                      <td className="px-6 py-3 whitespace-nowrap">
+                        <div className="text-sm font-medium text-neutral-900">{total.name}</div>
+                        <div className="text-sm text-neutral-500">{total.code}</div>
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-right">{total.absences}</td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-right">{total.unexcused}</td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-right">
+                        {formatAbsenceAmount(total.hours, "hours")}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-right font-medium">
+                        {formatAbsenceAmount(total.unexcusedHours, "hours")}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="text-center py-6 text-neutral-500">
+              Aucune donnée d'absence disponible
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Top Absentees */}
       <Card>
         <CardHeader>
           <CardTitle>Top des absences</CardTitle>
           <CardDescription>
-            Étudiants avec le plus grand nombre d'absences
+            {measure === "hours"
+              ? "Étudiants ayant manqué le plus d'heures de cours"
+              : "Étudiants avec le plus grand nombre d'absences"}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -353,13 +549,13 @@ export default function AbsenceReports() {
                       Filière
                     </th>
                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">
-                      Nombre d'absences
+                      {measure === "hours" ? "Heures d'absence" : "Nombre d'absences"}
                     </th>
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-neutral-200">
                   {topAbsentees.map((student, index) => {
-                    const absenceCount = getStudentAbsences(student.id);
+                    const studentAmount = getStudentAbsences(student.id);
                     return (
                       <tr key={student.id}>
                         <td className="px-6 py-4 whitespace-nowrap text-sm">
@@ -393,21 +589,21 @@ export default function AbsenceReports() {
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div className={`text-sm font-semibold ${
-                            absenceCount > 10 ? "text-red-600" : 
-                            absenceCount > 5 ? "text-amber-600" : 
+                            studentAmount > highAmount ? "text-red-600" : 
+                            studentAmount > mediumAmount ? "text-amber-600" : 
                             "text-neutral-900"
                           }`}>
-                            {absenceCount}
+                            {formatAbsenceAmount(studentAmount, measure)}
                           </div>
                           <div className="w-full bg-neutral-200 rounded-full h-2 mt-2">
                             <div 
                               className={`h-2 rounded-full ${
-                                absenceCount > 10 ? "bg-red-600" : 
-                                absenceCount > 5 ? "bg-amber-600" : 
+                                studentAmount > highAmount ? "bg-red-600" : 
+                                studentAmount > mediumAmount ? "bg-amber-600" : 
                                 "bg-blue-600"
                               }`} 
                               style={{ 
-                                width: `${highestAbsenceCount > 0 ? (absenceCount / highestAbsenceCount) * 100 : 0}%` 
+                                width: `${highestAbsenceAmount > 0 ? (studentAmount / highestAbsenceAmount) * 100 : 0}%` 
                               }}
                             ></div>
                           </div>
@@ -450,7 +646,7 @@ export default function AbsenceReports() {
                       Filière
                     </th>
                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">
-                      Absences
+                      {measureLabel}
                     </th>
                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-neutral-500 uppercase tracking-wider">
                       Actions
@@ -459,7 +655,7 @@ export default function AbsenceReports() {
                 </thead>
                 <tbody className="bg-white divide-y divide-neutral-200">
                   {searchedStudents.map((student) => {
-                    const absenceCount = getStudentAbsences(student.id);
+                    const studentAmount = getStudentAbsences(student.id);
                     return (
                       <tr key={student.id}>
                         <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-neutral-900">
@@ -480,12 +676,12 @@ export default function AbsenceReports() {
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                            absenceCount > 10 ? "bg-red-100 text-red-800" : 
-                            absenceCount > 5 ? "bg-amber-100 text-amber-800" : 
-                            absenceCount > 0 ? "bg-blue-100 text-blue-800" :
+                            studentAmount > highAmount ? "bg-red-100 text-red-800" : 
+                            studentAmount > mediumAmount ? "bg-amber-100 text-amber-800" : 
+                            studentAmount > 0 ? "bg-blue-100 text-blue-800" :
                             "bg-green-100 text-green-800"
                           }`}>
-                            {absenceCount}
+                            {formatAbsenceAmount(studentAmount, measure)}
                           </span>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
@@ -519,27 +715,30 @@ export default function AbsenceReports() {
               Gérer les seuils d'absences par filière et identifier les étudiants dépassant ces seuils
             </CardDescription>
           </div>
-          <Button 
-            variant="outline"
-            onClick={() => {
-              if (courses?.length) {
-                setSelectedCourseForThreshold(courses[0]);
-                setIsThresholdDialogOpen(true);
-              }
-            }}
-          >
-            Configurer les seuils
-          </Button>
+          {can("alerts:manage") && (
+            <Button 
+              variant="outline"
+              onClick={() => {
+                if (courses?.length) {
+                  setSelectedCourseForThreshold(courses[0]);
+                }
+              }}
+            >
+              Configurer les seuils
+            </Button>
+          )}
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               {courses?.map(course => {
-                if (!course.absenceThreshold) return null;
+                const threshold = course.absenceThreshold;
+                if (threshold === null || threshold === undefined) return null;
                 
+                // Each course is compared in the unit its thresholds are set in
                 const courseStudents = students?.filter(s => s.courseId === course.id) || [];
                 const studentsExceedingThreshold = courseStudents.filter(student => 
-                  getStudentAbsences(student.id) > (course.absenceThreshold || 3)
+                  getStudentAbsences(student.id, course.thresholdUnit) > threshold
                 );
                 
                 return (
@@ -547,7 +746,7 @@ export default function AbsenceReports() {
                     <CardHeader className="pb-2">
                       <CardTitle className="text-base">{course.name} ({course.code})</CardTitle>
                       <CardDescription>
-                        Seuil: {course.absenceThreshold} absences
+                        Premier seuil: {formatAbsenceAmount(threshold, course.thresholdUnit)}
                       </CardDescription>
                     </CardHeader>
                     <CardContent>
@@ -575,7 +774,7 @@ export default function AbsenceReports() {
                                       {student.lastName} {student.firstName}
                                     </td>
                                     <td className="px-4 py-2 whitespace-nowrap text-sm font-medium text-red-600">
-                                      {getStudentAbsences(student.id)}
+                                      {formatAbsenceAmount(getStudentAbsences(student.id, course.thresholdUnit), course.thresholdUnit)}
                                     </td>
                                   </tr>
                                 ))}
@@ -589,18 +788,19 @@ export default function AbsenceReports() {
                         </p>
                       )}
                     </CardContent>
-                    <CardFooter className="pt-0">
-                      <Button 
-                        variant="ghost" 
-                        size="sm"
-                        onClick={() => {
-                          setSelectedCourseForThreshold(course);
-                          setIsThresholdDialogOpen(true);
-                        }}
-                      >
-                        Modifier le seuil
-                      </Button>
-                    </CardFooter>
+                    {can("alerts:manage") && (
+                      <CardFooter className="pt-0">
+                        <Button 
+                          variant="ghost" 
+                          size="sm"
+                          onClick={() => {
+                            setSelectedCourseForThreshold(course);
+                          }}
+                        >
+                          Modifier les seuils
+                        </Button>
+                      </CardFooter>
+                    )}
                   </Card>
                 );
               })}
@@ -609,57 +809,11 @@ export default function AbsenceReports() {
         </CardContent>
       </Card>
 
-      {/* Threshold Configuration Dialog */}
-      <Dialog open={isThresholdDialogOpen} onOpenChange={setIsThresholdDialogOpen}>
-        <DialogContent className="sm:max-w-md">
-          <DialogHeader>
-            <DialogTitle>Configurer le seuil d'absences</DialogTitle>
-          </DialogHeader>
-          <div className="py-4">
-            {selectedCourseForThreshold && (
-              <div className="space-y-4">
-                <div>
-                  <h3 className="text-sm font-medium">Filière</h3>
-                  <p>{selectedCourseForThreshold.name} ({selectedCourseForThreshold.code})</p>
-                </div>
-                <div className="space-y-2">
-                  <h3 className="text-sm font-medium">Seuil d'absences</h3>
-                  <p className="text-sm text-muted-foreground">
-                    Les étudiants dépassant ce nombre d'absences seront signalés pour action.
-                  </p>
-                  <Input 
-                    type="number" 
-                    min="1" 
-                    max="20"
-                    defaultValue={selectedCourseForThreshold.absenceThreshold || 3}
-                    onChange={(e) => {
-                      if (selectedCourseForThreshold) {
-                        selectedCourseForThreshold.absenceThreshold = parseInt(e.target.value);
-                      }
-                    }}
-                  />
-                </div>
-              </div>
-            )}
-          </div>
-          <DialogFooter>
-            <Button 
-              variant="outline" 
-              onClick={() => setIsThresholdDialogOpen(false)}
-            >
-              Annuler
-            </Button>
-            <Button 
-              onClick={() => {
-                // In a real implementation, we would save the threshold to the database here
-                setIsThresholdDialogOpen(false);
-              }}
-            >
-              Enregistrer
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <ThresholdLevelsModal
+        courses={courses ?? []}
+        course={selectedCourseForThreshold}
+        onClose={() => setSelectedCourseForThreshold(null)}
+      />
     </div>
   );
 }
@@ -2,9 +2,18 @@ import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { ABSENCE_STATUSES, SESSION_TYPES, ABSENCE_STATUS_OPTIONS, getStatusOption } from "@/lib/constants";
-import AbsenceRecordModal from "@/components/modals/AbsenceRecordModal";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import {
+  ABSENCE_STATUSES,
+  SESSION_TYPES,
+  SESSION_TYPE_LABELS,
+  ABSENCE_STATUS_OPTIONS,
+  BOOKING_CONFLICT_MESSAGES,
+  getStatusOption,
+  describeCapacityWarning,
+  type CapacityWarning,
+} from "@/lib/constants";
+import AbsenceRecordModal, { type PlannedSession } from "@/components/modals/AbsenceRecordModal";
 import { 
   Card, 
   CardContent, 
@@ -17,7 +26,7 @@ import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Calendar } from "@/components/ui/calendar";
 import { Input } from "@/components/ui/input";
-import { format } from "date-fns";
+import { format, parseISO, endOfDay } from "date-fns";
 import { fr } from "date-fns/locale";
 
 // Types
@@ -44,6 +53,11 @@ interface Student {
   courseId: number;
 }
 
+interface Room {
+  id: number;
+  name: string;
+}
+
 interface TeacherModuleElement {
   id: number;
   teacherId: number;
@@ -55,6 +69,7 @@ export default function RecordAbsences() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [isAbsenceModalOpen, setIsAbsenceModalOpen] = useState(false);
+  const [plannedSession, setPlannedSession] = useState<PlannedSession | null>(null);
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(new Date());
   const [searchTerm, setSearchTerm] = useState("");
 
@@ -76,48 +91,73 @@ export default function RecordAbsences() {
     queryKey: ['/api/students'],
   });
 
+  const { data: rooms } = useQuery<Room[]>({
+    queryKey: ['/api/rooms'],
+  });
+
+  // Sessions planned from the timetable that still wait for their attendance; coming ones aren't listed yet
+  const { data: pendingSessions } = useQuery<PlannedSession[]>({
+    queryKey: ['/api/sessions/pending'],
+    enabled: !!user,
+  });
+  const dueSessions = pendingSessions?.filter(session => parseISO(session.date) <= endOfDay(new Date())) || [];
+
   // Filter module elements that are assigned to the current teacher
   const teacherModuleElementIds = teacherModuleElements?.map(tme => tme.moduleElementId) || [];
   const filteredModuleElements = moduleElements?.filter(
     me => teacherModuleElementIds.includes(me.id)
   ) || [];
 
-  // Function to open the absence recording modal
-  const openAbsenceModal = () => {
+  // Open the absence recording modal for a planned session, or for a session outside the timetable
+  const openAbsenceModal = (session: PlannedSession | null = null) => {
+    setPlannedSession(session);
     setIsAbsenceModalOpen(true);
   };
 
-  // Function to handle absence recording form submission
+  // Save the session and its attendance in a single request so nothing is left half-recorded. A planned
+  // session already exists and only gets its attendance.
   const handleAbsenceRecording = async (sessionData: any, absencesData: any[]) => {
+    let warnings: CapacityWarning[] = [];
     try {
-      // Create a new session
-      const sessionResponse = await apiRequest("POST", "/api/sessions", sessionData);
-      const session = await sessionResponse.json();
-      
-      // Create absences for the session
-      const absencesPayload = absencesData.map(absence => ({
-        ...absence,
-        sessionId: session.id
-      }));
-      
-      await apiRequest("POST", "/api/absences/batch", absencesPayload);
+      if (plannedSession) {
+        await apiRequest("POST", `/api/sessions/${plannedSession.id}/attendance`, {
+          absences: absencesData,
+        });
+      } else {
+        const response = await apiRequest("POST", "/api/sessions/with-attendance", {
+          session: sessionData,
+          absences: absencesData,
+        });
+        warnings = (await response.json()).warnings;
+      }
       
       // Success toast and close modal
       toast({
         title: "Absences enregistrées",
         description: "Les absences ont été enregistrées avec succès",
       });
+      warnings.forEach(warning => toast({
+        title: "Salle trop petite",
+        description: describeCapacityWarning(warning),
+      }));
       
       setIsAbsenceModalOpen(false);
       
       // Refetch any relevant data
       queryClient.invalidateQueries({ queryKey: ['/api/sessions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions/pending'] });
       queryClient.invalidateQueries({ queryKey: ['/api/absences'] });
     } catch (error) {
       toast({
         variant: "destructive",
         title: "Erreur",
-        description: "Une erreur est survenue lors de l'enregistrement des absences",
+        description: error instanceof ApiError && error.data?.code === "conflict"
+          ? BOOKING_CONFLICT_MESSAGES[error.data.field]
+          : error instanceof ApiError && error.status === 422
+          ? error.data?.field === "sessionId"
+            ? "Les absences de cette séance ont déjà été enregistrées"
+            : "Certains étudiants n'appartiennent pas au groupe ou à la filière de cette séance"
+          : "Une erreur est survenue lors de l'enregistrement des absences",
       });
     }
   };
@@ -126,12 +166,51 @@ export default function RecordAbsences() {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold">Saisir des absences</h2>
-        <Button onClick={openAbsenceModal}>
+        <Button variant="outline" onClick={() => openAbsenceModal()}>
           <span className="material-icons mr-2">add</span>
-          Nouvelle saisie d'absences
+          Séance hors emploi du temps
         </Button>
       </div>
 
+      <Card>
+        <CardHeader>
+          <CardTitle>Séances à saisir</CardTitle>
+          <CardDescription>
+            Séances de votre emploi du temps dont les absences n'ont pas encore été enregistrées
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {dueSessions.length > 0 ? (
+            <ul className="divide-y">
+              {dueSessions.map(session => (
+                <li key={session.id} className="flex items-center justify-between py-3">
+                  <div>
+                    <p className="font-medium">
+                      {moduleElements?.find(me => me.id === session.moduleElementId)?.name}
+                      <span className="text-neutral-500 font-normal"> · {SESSION_TYPE_LABELS[session.type] ?? session.type}</span>
+                    </p>
+                    <p className="text-sm text-neutral-500">
+                      {format(parseISO(session.date), "EEEE d MMMM yyyy, HH:mm", { locale: fr })}
+                      {session.endsAt && ` – ${format(parseISO(session.endsAt), "HH:mm")}`}
+                      {" · "}
+                      {session.groupId
+                        ? studentGroups?.find(group => group.id === session.groupId)?.name
+                        : "Toute la filière"}
+                      {session.roomId !== null && ` · Salle ${rooms?.find(room => room.id === session.roomId)?.name ?? ""}`}
+                    </p>
+                  </div>
+                  <Button onClick={() => openAbsenceModal(session)}>Saisir les absences</Button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="text-center py-4 text-neutral-500">
+              Aucune séance en attente de saisie
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <Card className="md:col-span-2">
           <CardHeader>
@@ -140,18 +219,18 @@ export default function RecordAbsences() {
           <CardContent>
             <div className="space-y-4">
               <p>
-                Pour enregistrer les absences des étudiants, cliquez sur le bouton "Nouvelle saisie d'absences" 
-                et suivez ces étapes :
+                Les séances de votre emploi du temps apparaissent dans "Séances à saisir" dès leur jour venu.
+                Cliquez sur "Saisir les absences" puis :
               </p>
               <ol className="list-decimal list-inside space-y-2 pl-4">
-                <li>Sélectionnez l'élément de module pour lequel vous souhaitez enregistrer des absences.</li>
-                <li>Choisissez le type de séance (cours, TD, TP).</li>
-                <li>Sélectionnez la date de la séance.</li>
-                <li>Si nécessaire, filtrez les étudiants par groupe.</li>
                 <li>Pour chaque étudiant, indiquez son statut (présent, absent, justifié, retard).</li>
                 <li>Ajoutez des notes si nécessaire.</li>
                 <li>Enregistrez les absences.</li>
               </ol>
+              <p>
+                Pour une séance qui ne figure pas à l'emploi du temps, comme un rattrapage, cliquez sur
+                "Séance hors emploi du temps" et choisissez vous-même le module, le type, la date, les horaires et le groupe.
+              </p>
               <p className="text-neutral-500 italic">
                 Note: Vous ne pouvez enregistrer des absences que pour les modules auxquels vous êtes assigné.
               </p>
@@ -209,6 +288,7 @@ export default function RecordAbsences() {
         isOpen={isAbsenceModalOpen}
         onClose={() => setIsAbsenceModalOpen(false)}
         teacherId={user?.id || 0}
+        plannedSession={plannedSession}
         moduleElements={filteredModuleElements}
         studentGroups={studentGroups || []}
         students={students || []}
@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient, ApiError } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ALERT_STATUS_OPTIONS, ESCALATION_LEVELS, formatAbsenceAmount } from "@/lib/constants";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { format, parseISO } from "date-fns";
+import { fr } from "date-fns/locale";
+
+// Types from the API
+interface AbsenceAlert {
+  id: number;
+  studentId: number;
+  studentName: string;
+  courseId: number;
+  courseName: string;
+  level: string;
+  unit: string;
+  threshold: number;
+  unexcusedCount: number;
+  unexcusedHours: number;
+  status: string;
+  raisedAt: string;
+  clearedAt: string | null;
+  closingNote: string | null;
+}
+
+type Closing = "dismissed" | "resolved";
+
+const getAlertStatusOption = (value: string) =>
+  ALERT_STATUS_OPTIONS.find(option => option.value === value) ??
+  { value, label: value, colorClass: "text-gray-700 bg-gray-100" };
+
+// Students who crossed an escalation level of their course, for the department head to follow up
+export default function AbsenceAlerts() {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const canManage = can("alerts:manage");
+  const [status, setStatus] = useState("open");
+  const [closing, setClosing] = useState<{ alert: AbsenceAlert; status: Closing } | null>(null);
+  const [note, setNote] = useState("");
+
+  const { data: alerts, isLoading } = useQuery<AbsenceAlert[]>({
+    queryKey: ['/api/absence-alerts', { status: status === "all" ? undefined : status }],
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: ({ id, status }: { id: number; status: Closing }) =>
+      apiRequest("POST", `/api/absence-alerts/${id}/close`, { status, note }),
+    onSuccess: (_, { status }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/absence-alerts'] });
+      setClosing(null);
+      toast({
+        title: status === "resolved" ? "Alerte résolue" : "Alerte ignorée",
+        description: "Elle ne sera plus proposée tant que l'étudiant reste à ce niveau.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erreur",
+        description: error instanceof ApiError && error.data?.message
+          ? error.data.message
+          : "Impossible de clore l'alerte.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openClosing = (alert: AbsenceAlert, status: Closing) => {
+    setNote("");
+    setClosing({ alert, status });
+  };
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold">Alertes d'absences</h2>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Dépassements de seuils</CardTitle>
+          <CardDescription>
+            Une alerte est levée dès qu'un étudiant dépasse un niveau de sa filière, et disparaît s'il repasse en dessous
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="w-full md:w-64">
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Toutes les alertes</SelectItem>
+                {ALERT_STATUS_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : !alerts || alerts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Aucune alerte.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Levée le</TableHead>
+                  <TableHead>Étudiant</TableHead>
+                  <TableHead>Filière</TableHead>
+                  <TableHead>Niveau</TableHead>
+                  <TableHead className="text-right">Absences</TableHead>
+                  <TableHead>Statut</TableHead>
+                  {canManage && <TableHead className="text-right">Action</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {alerts.map(alert => {
+                  const statusOption = getAlertStatusOption(alert.status);
+                  return (
+                    <TableRow key={alert.id}>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {format(parseISO(alert.raisedAt), "dd MMM yyyy HH:mm", { locale: fr })}
+                      </TableCell>
+                      <TableCell className="text-sm font-medium">{alert.studentName || "Étudiant inconnu"}</TableCell>
+                      <TableCell className="text-sm">{alert.courseName}</TableCell>
+                      <TableCell className="text-sm">
+                        {ESCALATION_LEVELS[alert.level] ?? alert.level}
+                        <p className="text-xs text-muted-foreground">Au-delà de {formatAbsenceAmount(alert.threshold, alert.unit)}</p>
+                      </TableCell>
+                      <TableCell className="text-right text-sm font-medium">
+                        {alert.unit === "hours" ? formatAbsenceAmount(alert.unexcusedHours, "hours") : alert.unexcusedCount}
+                      </TableCell>
+                      <TableCell>
+                        <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${statusOption.colorClass}`}>
+                          {statusOption.label}
+                        </span>
+                        {alert.closingNote && (
+                          <p className="mt-1 text-xs text-muted-foreground">{alert.closingNote}</p>
+                        )}
+                      </TableCell>
+                      {canManage && (
+                        <TableCell className="whitespace-nowrap text-right">
+                          {alert.status === "open" && (
+                            <div className="flex justify-end gap-2">
+                              <Button size="sm" onClick={() => openClosing(alert, "resolved")}>Résoudre</Button>
+                              <Button size="sm" variant="outline" onClick={() => openClosing(alert, "dismissed")}>
+                                Ignorer
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={closing !== null} onOpenChange={(open) => !open && setClosing(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {closing?.status === "resolved" ? "Résoudre l'alerte" : "Ignorer l'alerte"}
+            </DialogTitle>
+            <DialogDescription>
+              {closing && `${closing.alert.studentName} — ${ESCALATION_LEVELS[closing.alert.level] ?? closing.alert.level}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1">
+            <Label htmlFor="closing-note">Note (facultative)</Label>
+            <Textarea id="closing-note" value={note} onChange={(e) => setNote(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setClosing(null)}>Annuler</Button>
+            <Button
+              disabled={closeMutation.isPending}
+              onClick={() => closing && closeMutation.mutate({ id: closing.alert.id, status: closing.status })}
+            >
+              Confirmer
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
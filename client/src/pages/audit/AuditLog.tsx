@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS } from "@/lib/constants";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ShieldCheck, ShieldAlert } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { fr } from "date-fns/locale";
+import AuditChanges from "@/components/audit/AuditChanges";
+
+// Types from the API
+interface AuditEntry {
+  id: number;
+  userId: number | null;
+  userFullName: string | null;
+  action: string;
+  entity: string;
+  entityId: number | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  ipAddress: string | null;
+  createdAt: string;
+}
+
+interface AuditVerification {
+  valid: boolean;
+  checked: number;
+  brokenAt?: number;
+  latestHash: string;
+}
+
+interface User {
+  id: number;
+  fullName: string;
+}
+
+export default function AuditLog() {
+  const [userId, setUserId] = useState("all");
+  const [entity, setEntity] = useState("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const { data: entries, isLoading } = useQuery<AuditEntry[]>({
+    queryKey: ['/api/audit-log', {
+      userId: userId === "all" ? undefined : userId,
+      entity: entity === "all" ? undefined : entity,
+      from,
+      to,
+    }],
+  });
+
+  const { data: verification } = useQuery<AuditVerification>({
+    queryKey: ['/api/audit-log/verify'],
+  });
+
+  const { data: users } = useQuery<User[]>({
+    queryKey: ['/api/users'],
+  });
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold">Journal d'audit</h2>
+
+      {verification && (
+        verification.valid ? (
+          <div className="flex items-center gap-2 rounded-md border border-green-200 bg-green-50 p-3 text-sm text-green-800">
+            <ShieldCheck className="h-4 w-4" />
+            Journal intègre : {verification.checked} entrée(s) vérifiée(s). Dernière empreinte{" "}
+            <span className="font-mono">{verification.latestHash.slice(0, 16)}…</span>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+            <ShieldAlert className="h-4 w-4" />
+            Le journal a été altéré : la chaîne d'empreintes est rompue à l'entrée n° {verification.brokenAt}.
+          </div>
+        )
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Modifications</CardTitle>
+          <CardDescription>
+            Chaque création, modification ou suppression, avec son auteur, sa date et son adresse IP
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-1">
+              <Label>Utilisateur</Label>
+              <Select value={userId} onValueChange={setUserId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Tous les utilisateurs</SelectItem>
+                  {users?.map(user => (
+                    <SelectItem key={user.id} value={user.id.toString()}>{user.fullName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Type d'élément</Label>
+              <Select value={entity} onValueChange={setEntity}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Tous les types</SelectItem>
+                  {Object.entries(AUDIT_ENTITY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-from">Du</Label>
+              <Input id="audit-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-to">Au</Label>
+              <Input id="audit-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+
+          {isLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : !entries || entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Aucune modification ne correspond aux filtres.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Utilisateur</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Élément</TableHead>
+                  <TableHead>Détails</TableHead>
+                  <TableHead>Adresse IP</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap text-sm">
+                      {format(parseISO(entry.createdAt), "dd MMM yyyy HH:mm:ss", { locale: fr })}
+                    </TableCell>
+                    <TableCell className="text-sm">{entry.userFullName ?? "Système"}</TableCell>
+                    <TableCell>
+                      <Badge variant={entry.action === "delete" ? "destructive" : "secondary"}>
+                        {AUDIT_ACTION_LABELS[entry.action] ?? entry.action}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-sm">
+                      {AUDIT_ENTITY_LABELS[entry.entity] ?? entry.entity}
+                      {entry.entityId !== null && ` n° ${entry.entityId}`}
+                    </TableCell>
+                    <TableCell>
+                      <AuditChanges action={entry.action} before={entry.before} after={entry.after} />
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{entry.ipAddress ?? "—"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
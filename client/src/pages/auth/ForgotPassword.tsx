@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import AuthLayout from "@/components/auth/AuthLayout";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+
+const formSchema = z.object({
+  identifier: z.string().min(1, { message: "Le nom d'utilisateur ou l'email est requis" }),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+export default function ForgotPassword() {
+  const { toast } = useToast();
+  const [isSent, setIsSent] = useState(false);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { identifier: "" },
+  });
+
+  const requestResetMutation = useMutation({
+    mutationFn: async (values: FormValues) => {
+      const response = await apiRequest("POST", "/api/auth/password-reset/request", values);
+      return response.json();
+    },
+    onSuccess: () => {
+      setIsSent(true);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: `Erreur lors de la demande de réinitialisation: ${error.message}`,
+      });
+    },
+  });
+
+  return (
+    <AuthLayout subtitle="Mot de passe oublié">
+      {isSent ? (
+        <p className="text-sm text-center">
+          Si un compte correspond à cet identifiant, un email contenant un lien de réinitialisation
+          vient de lui être envoyé.
+        </p>
+      ) : (
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(values => requestResetMutation.mutate(values))} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="identifier"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nom d'utilisateur ou email</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="votre.email@exemple.com" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="w-full" disabled={requestResetMutation.isPending}>
+              {requestResetMutation.isPending ? "Envoi en cours..." : "Envoyer le lien de réinitialisation"}
+            </Button>
+          </form>
+        </Form>
+      )}
+      <div className="text-center mt-6">
+        <Link href="/login" className="text-sm font-medium text-primary hover:text-primary/90">
+          Retour à la connexion
+        </Link>
+      </div>
+    </AuthLayout>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import AuthLayout from "@/components/auth/AuthLayout";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+
+const formSchema = z.object({
+  email: z.string().email({ message: "Adresse email invalide" }),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+// Parents and guardians don't have a password: they ask for a sign-in link sent to the email the school has on file
+export default function GuardianAccess() {
+  const { toast } = useToast();
+  const [isSent, setIsSent] = useState(false);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { email: "" },
+  });
+
+  const requestLinkMutation = useMutation({
+    mutationFn: async (values: FormValues) => {
+      const response = await apiRequest("POST", "/api/auth/magic-link/request", values);
+      return response.json();
+    },
+    onSuccess: () => {
+      setIsSent(true);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: `Erreur lors de la demande du lien de connexion: ${error.message}`,
+      });
+    },
+  });
+
+  return (
+    <AuthLayout subtitle="Espace parents">
+      {isSent ? (
+        <p className="text-sm text-center">
+          Si cette adresse est enregistrée comme contact d'un étudiant, un email contenant un lien de
+          connexion vient de lui être envoyé.
+        </p>
+      ) : (
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(values => requestLinkMutation.mutate(values))} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email communiqué à l'établissement</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="email" placeholder="votre.email@exemple.com" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="w-full" disabled={requestLinkMutation.isPending}>
+              {requestLinkMutation.isPending ? "Envoi en cours..." : "Recevoir un lien de connexion"}
+            </Button>
+          </form>
+        </Form>
+      )}
+      <div className="text-center mt-6">
+        <Link href="/login" className="text-sm font-medium text-primary hover:text-primary/90">
+          Retour à la connexion
+        </Link>
+      </div>
+    </AuthLayout>
+  );
+}
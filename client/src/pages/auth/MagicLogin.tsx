@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import AuthLayout from "@/components/auth/AuthLayout";
+
+// Landing page of the sign-in links emailed to guardians: the link is redeemed once, on arrival
+export default function MagicLogin() {
+  const { loginWithMagicLink } = useAuth();
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get("token") ?? "";
+    loginWithMagicLink(token).catch(() => setFailed(true));
+  }, []);
+
+  return (
+    <AuthLayout subtitle="Espace parents">
+      {failed ? (
+        <div className="space-y-6 text-center">
+          <p className="text-sm">Ce lien de connexion est invalide, a expiré ou a déjà été utilisé.</p>
+          <Link href="/guardian-access" className="text-sm font-medium text-primary hover:text-primary/90">
+            Recevoir un nouveau lien
+          </Link>
+        </div>
+      ) : (
+        <p className="text-sm text-center">Connexion en cours...</p>
+      )}
+    </AuthLayout>
+  );
+}
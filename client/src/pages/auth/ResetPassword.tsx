@@ -0,0 +1,134 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import { describePasswordPolicy } from "@/lib/constants";
+import { passwordPolicyViolations, type PasswordPolicy } from "@shared/password-policy";
+import AuthLayout from "@/components/auth/AuthLayout";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+
+const formSchema = z.object({
+  password: z.string().min(1, { message: "Le mot de passe est requis" }),
+  confirmPassword: z.string(),
+}).refine(values => values.password === values.confirmPassword, {
+  message: "Les mots de passe ne correspondent pas",
+  path: ["confirmPassword"],
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+export default function ResetPassword() {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const token = new URLSearchParams(window.location.search).get("token") ?? "";
+
+  const { data: passwordPolicy } = useQuery<PasswordPolicy>({
+    queryKey: ['/api/auth/password-policy'],
+  });
+
+  const passwordHint = passwordPolicy ? describePasswordPolicy(passwordPolicy) : undefined;
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { password: "", confirmPassword: "" },
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async (values: FormValues) => {
+      const response = await apiRequest("POST", "/api/auth/password-reset/confirm", {
+        token,
+        password: values.password,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Mot de passe réinitialisé",
+        description: "Vous pouvez maintenant vous connecter avec votre nouveau mot de passe",
+      });
+      navigate("/login");
+    },
+    onError: (error: Error) => {
+      if (error instanceof ApiError && error.data?.violations) {
+        form.setError("password", { message: passwordHint ?? "Mot de passe trop faible" });
+        return;
+      }
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: error instanceof ApiError && error.data?.field === "token"
+          ? "Ce lien de réinitialisation est invalide ou a expiré"
+          : `Erreur lors de la réinitialisation: ${error.message}`,
+      });
+    },
+  });
+
+  const onSubmit = (values: FormValues) => {
+    if (passwordPolicy && passwordPolicyViolations(values.password, passwordPolicy).length > 0) {
+      form.setError("password", { message: passwordHint });
+      return;
+    }
+    resetPasswordMutation.mutate(values);
+  };
+
+  return (
+    <AuthLayout subtitle="Nouveau mot de passe">
+      {!token ? (
+        <p className="text-sm text-center">Ce lien de réinitialisation est incomplet.</p>
+      ) : (
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nouveau mot de passe</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="password" placeholder="••••••••" />
+                  </FormControl>
+                  {passwordHint && <FormDescription>{passwordHint}</FormDescription>}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="confirmPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Confirmer le mot de passe</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="password" placeholder="••••••••" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="w-full" disabled={resetPasswordMutation.isPending}>
+              {resetPasswordMutation.isPending ? "Enregistrement..." : "Réinitialiser le mot de passe"}
+            </Button>
+          </form>
+        </Form>
+      )}
+      <div className="text-center mt-6">
+        <Link href="/login" className="text-sm font-medium text-primary hover:text-primary/90">
+          Retour à la connexion
+        </Link>
+      </div>
+    </AuthLayout>
+  );
+}
@@ -1,8 +1,12 @@
 import { useEffect, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Progress } from "@/components/ui/progress";
+import { Button } from "@/components/ui/button";
+import { SESSION_TYPE_LABELS, formatAbsenceAmount } from "@/lib/constants";
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
   Pie, PieChart, Cell, Legend, LineChart, Line, AreaChart, Area
@@ -10,7 +14,7 @@ import {
 import { 
   Users, BookOpen, User, AlertCircle, 
   Activity, Calendar, FileBarChart, GraduationCap,
-  Clock, BarChart3, PieChart as PieChartIcon
+  Clock, BarChart3, PieChart as PieChartIcon, ClipboardCheck
 } from "lucide-react";
 
 // Types for our statistics
@@ -27,6 +31,7 @@ interface TopAbsentee {
   studentId: number;
   studentName: string;
   absenceCount: number;
+  absenceHours: number;
 }
 
 interface RecentActivity {
@@ -38,6 +43,28 @@ interface RecentActivity {
   absencesCount: number;
 }
 
+interface AttendanceCompletion {
+  teacherId: number;
+  teacherName: string;
+  planned: number;
+  recorded: number;
+  percentage: number;
+}
+
+interface MissingAttendance {
+  id: number;
+  date: string;
+  type: string;
+  teacherId: number;
+  teacherName: string;
+  moduleElementName: string;
+  groupName: string | null;
+  courseName: string;
+  departmentId: number | null;
+  departmentName: string;
+  remindersSent: number;
+}
+
 const departmentAbsenceData = [
   { name: 'Informatique', absences: 142 },
   { name: 'Mathématiques', absences: 89 },
@@ -49,24 +76,53 @@ const departmentAbsenceData = [
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8'];
 
 export default function Dashboard() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
+  const canRecord = can("sessions:edit:own", "sessions:edit:any");
+  // Users who may edit any session follow the whole department; teachers follow their own sessions
+  const followsDepartment = can("sessions:edit:any");
+  // Figures and activity of the whole scope are reports; others only follow the attendance of their sessions
+  const canViewReports = can("reports:view");
   const [chartWidth, setChartWidth] = useState(600);
 
   // Fetch statistics data
   const { data: statistics, isLoading: statsLoading } = useQuery<Statistics>({
     queryKey: ['/api/statistics'],
+    enabled: canViewReports,
   });
 
   // Fetch top absentees
   const { data: topAbsentees, isLoading: topAbsenteesLoading } = useQuery<TopAbsentee[]>({
     queryKey: ['/api/statistics/top-absentees'],
+    enabled: canViewReports,
   });
 
   // Fetch recent activities
   const { data: recentActivities, isLoading: activitiesLoading } = useQuery<RecentActivity[]>({
     queryKey: ['/api/statistics/recent-activities'],
+    enabled: canViewReports,
+  });
+
+  // Fetch the share of planned sessions with their attendance recorded
+  const { data: completion, isLoading: completionLoading } = useQuery<AttendanceCompletion[]>({
+    queryKey: ['/api/statistics/attendance-completion'],
+    enabled: canViewReports || canRecord,
+  });
+
+  // Fetch planned sessions whose attendance is missing
+  const { data: missingAttendance, isLoading: missingLoading } = useQuery<MissingAttendance[]>({
+    queryKey: ['/api/attendance/missing'],
+    enabled: canRecord,
   });
 
+  // Missing sessions grouped by department, or by teacher for a teacher's own sessions
+  const missingGroups = Array.from(
+    (missingAttendance ?? []).reduce((groups, session) => {
+      const key = followsDepartment ? session.departmentName : session.teacherName;
+      groups.set(key, [...(groups.get(key) ?? []), session]);
+      return groups;
+    }, new Map<string, MissingAttendance[]>())
+  );
+
   // Update chart width on window resize
   useEffect(() => {
     const handleResize = () => {
@@ -118,78 +174,88 @@ export default function Dashboard() {
   return (
     <div className="space-y-6">
       {/* Stats Overview */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-        <Card>
-          <CardContent className="p-6 flex items-center">
-            <div className="rounded-full bg-muted p-3 mr-4">
-              <Users className="h-5 w-5 text-primary" />
-            </div>
-            <div>
-              <p className="text-muted-foreground text-sm">Étudiants</p>
-              <p className="text-2xl font-semibold">
-                {statsLoading ? '...' : statistics?.studentsCount || 0}
-              </p>
-            </div>
-          </CardContent>
-        </Card>
+      {canViewReports && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+          <Card>
+            <CardContent className="p-6 flex items-center">
+              <div className="rounded-full bg-muted p-3 mr-4">
+                <Users className="h-5 w-5 text-primary" />
+              </div>
+              <div>
+                <p className="text-muted-foreground text-sm">Étudiants</p>
+                <p className="text-2xl font-semibold">
+                  {statsLoading ? '...' : statistics?.studentsCount || 0}
+                </p>
+              </div>
+            </CardContent>
+          </Card>
 
-        <Card>
-          <CardContent className="p-6 flex items-center">
-            <div className="rounded-full bg-muted p-3 mr-4">
-              <BookOpen className="h-5 w-5 text-primary" />
-            </div>
-            <div>
-              <p className="text-muted-foreground text-sm">Filières</p>
-              <p className="text-2xl font-semibold">
-                {statsLoading ? '...' : statistics?.coursesCount || 0}
-              </p>
-            </div>
-          </CardContent>
-        </Card>
+          <Card>
+            <CardContent className="p-6 flex items-center">
+              <div className="rounded-full bg-muted p-3 mr-4">
+                <BookOpen className="h-5 w-5 text-primary" />
+              </div>
+              <div>
+                <p className="text-muted-foreground text-sm">Filières</p>
+                <p className="text-2xl font-semibold">
+                  {statsLoading ? '...' : statistics?.coursesCount || 0}
+                </p>
+              </div>
+            </CardContent>
+          </Card>
 
-        <Card>
-          <CardContent className="p-6 flex items-center">
-            <div className="rounded-full bg-muted p-3 mr-4">
-              <User className="h-5 w-5 text-primary" />
-            </div>
-            <div>
-              <p className="text-muted-foreground text-sm">Enseignants</p>
-              <p className="text-2xl font-semibold">
-                {statsLoading ? '...' : statistics?.teachersCount || 0}
-              </p>
-            </div>
-          </CardContent>
-        </Card>
+          <Card>
+            <CardContent className="p-6 flex items-center">
+              <div className="rounded-full bg-muted p-3 mr-4">
+                <User className="h-5 w-5 text-primary" />
+              </div>
+              <div>
+                <p className="text-muted-foreground text-sm">Enseignants</p>
+                <p className="text-2xl font-semibold">
+                  {statsLoading ? '...' : statistics?.teachersCount || 0}
+                </p>
+              </div>
+            </CardContent>
+          </Card>
 
-        <Card>
-          <CardContent className="p-6 flex items-center">
-            <div className="rounded-full bg-muted p-3 mr-4">
-              <AlertCircle className="h-5 w-5 text-primary" />
-            </div>
-            <div>
-              <p className="text-muted-foreground text-sm">Absences (total)</p>
-              <p className="text-2xl font-semibold">
-                {statsLoading ? '...' : statistics?.absencesCount || 0}
-              </p>
-            </div>
-          </CardContent>
-        </Card>
-      </div>
+          <Card>
+            <CardContent className="p-6 flex items-center">
+              <div className="rounded-full bg-muted p-3 mr-4">
+                <AlertCircle className="h-5 w-5 text-primary" />
+              </div>
+              <div>
+                <p className="text-muted-foreground text-sm">Absences (total)</p>
+                <p className="text-2xl font-semibold">
+                  {statsLoading ? '...' : statistics?.absencesCount || 0}
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
 
       {/* Dashboard Tabs */}
-      <Tabs defaultValue="activity" className="w-full">
-        <TabsList className="grid w-full grid-cols-3 mb-6">
-          <TabsTrigger value="activity" className="flex items-center gap-2">
-            <Activity className="h-4 w-4" />
-            <span>Activités récentes</span>
-          </TabsTrigger>
-          <TabsTrigger value="charts" className="flex items-center gap-2">
-            <BarChart3 className="h-4 w-4" />
-            <span>Statistiques</span>
-          </TabsTrigger>
-          <TabsTrigger value="absentees" className="flex items-center gap-2">
-            <GraduationCap className="h-4 w-4" />
-            <span>Top absences</span>
+      <Tabs defaultValue={canViewReports ? "activity" : "attendance"} className="w-full">
+        <TabsList className={`grid w-full ${canViewReports ? "grid-cols-4" : "grid-cols-1"} mb-6`}>
+          {canViewReports && (
+            <>
+              <TabsTrigger value="activity" className="flex items-center gap-2">
+                <Activity className="h-4 w-4" />
+                <span>Activités récentes</span>
+              </TabsTrigger>
+              <TabsTrigger value="charts" className="flex items-center gap-2">
+                <BarChart3 className="h-4 w-4" />
+                <span>Statistiques</span>
+              </TabsTrigger>
+              <TabsTrigger value="absentees" className="flex items-center gap-2">
+                <GraduationCap className="h-4 w-4" />
+                <span>Top absences</span>
+              </TabsTrigger>
+            </>
+          )}
+          <TabsTrigger value="attendance" className="flex items-center gap-2">
+            <ClipboardCheck className="h-4 w-4" />
+            <span>Saisie des absences</span>
           </TabsTrigger>
         </TabsList>
         
@@ -289,7 +355,7 @@ export default function Dashboard() {
             <CardHeader>
               <CardTitle>Étudiants avec le plus d'absences</CardTitle>
               <CardDescription>
-                Liste des étudiants ayant accumulé le plus d'absences
+                Liste des étudiants ayant manqué le plus d'heures de cours
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -310,7 +376,9 @@ export default function Dashboard() {
                         </div>
                         <div className="ml-3">
                           <p className="font-medium">{student.studentName}</p>
-                          <p className="text-xs text-muted-foreground">ID: {student.studentId}</p>
+                          <p className="text-xs text-muted-foreground">
+                            ID: {student.studentId} · {formatAbsenceAmount(student.absenceHours, "hours")} manquées
+                          </p>
                         </div>
                       </div>
                       <div className={`${
@@ -331,6 +399,114 @@ export default function Dashboard() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Attendance Completion Tab */}
+        <TabsContent value="attendance" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Taux de saisie par enseignant</CardTitle>
+              <CardDescription>
+                Part des séances planifiées, jusqu'à aujourd'hui, dont les absences ont été saisies
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {completionLoading ? (
+                <div className="flex justify-center py-8">
+                  <svg className="animate-spin h-6 w-6 text-primary" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                  </svg>
+                </div>
+              ) : completion && completion.length > 0 ? (
+                <ul className="space-y-4">
+                  {completion.map(teacher => (
+                    <li key={teacher.teacherId} className="space-y-1">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="font-medium">{teacher.teacherName}</span>
+                        <span className="text-muted-foreground">
+                          {teacher.recorded}/{teacher.planned} séances · {teacher.percentage}%
+                        </span>
+                      </div>
+                      <Progress value={teacher.percentage} className="h-2" />
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <div className="text-center py-8 text-muted-foreground">
+                  Aucune séance planifiée
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {canRecord && (
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1.5">
+                  <CardTitle>Séances sans absences saisies</CardTitle>
+                  <CardDescription>
+                    {followsDepartment
+                      ? "Séances passées de l'emploi du temps dont les absences n'ont pas été saisies, par département"
+                      : "Vos séances passées dont les absences n'ont pas encore été saisies"}
+                  </CardDescription>
+                </div>
+                {!followsDepartment && missingGroups.length > 0 && (
+                  <Button asChild size="sm">
+                    <Link href="/record-absences">Saisir les absences</Link>
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent>
+                {missingLoading ? (
+                  <div className="flex justify-center py-8">
+                    <svg className="animate-spin h-6 w-6 text-primary" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                    </svg>
+                  </div>
+                ) : missingGroups.length > 0 ? (
+                  <div className="space-y-6">
+                    {missingGroups.map(([name, sessions]) => (
+                      <div key={name}>
+                        <p className="text-sm font-semibold mb-2">
+                          {name} ({sessions.length})
+                        </p>
+                        <ul className="space-y-3">
+                          {sessions.map(session => (
+                            <li key={session.id} className="flex items-start justify-between pb-3 border-b last:border-0">
+                              <div>
+                                <p className="font-medium">
+                                  {session.moduleElementName} · {SESSION_TYPE_LABELS[session.type] ?? session.type}
+                                </p>
+                                <p className="text-sm text-muted-foreground">
+                                  {followsDepartment ? `${session.teacherName} · ` : ""}
+                                  {session.groupName ?? session.courseName}
+                                </p>
+                                <p className="text-xs text-muted-foreground mt-1 flex items-center">
+                                  <Clock className="h-3 w-3 mr-1 inline" />
+                                  {formatDate(session.date)}
+                                </p>
+                              </div>
+                              {session.remindersSent > 0 && (
+                                <span className="bg-amber-100 text-amber-700 px-2.5 py-1 rounded-md text-xs font-medium">
+                                  {session.remindersSent} rappel{session.remindersSent > 1 ? 's' : ''}
+                                </span>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="text-center py-8 text-muted-foreground">
+                    Toutes les absences ont été saisies
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
       </Tabs>
     </div>
   );
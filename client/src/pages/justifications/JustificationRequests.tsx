@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient, ApiError } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { JUSTIFICATION_REASONS, JUSTIFICATION_STATUS_OPTIONS } from "@/lib/constants";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Paperclip } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { fr } from "date-fns/locale";
+
+// Types from the API
+interface JustificationDocument {
+  id: number;
+  fileName: string;
+  size: number;
+}
+
+interface JustificationRequest {
+  id: number;
+  studentId: number;
+  studentName: string;
+  reason: string;
+  explanation: string;
+  status: string;
+  submittedAt: string;
+  reviewComment: string | null;
+  absences: Array<{ id: number; date: string | null }>;
+  documents: JustificationDocument[];
+}
+
+type Decision = "approved" | "rejected";
+
+const getJustificationStatusOption = (value: string) =>
+  JUSTIFICATION_STATUS_OPTIONS.find(option => option.value === value) ??
+  { value, label: value, colorClass: "text-gray-700 bg-gray-100" };
+
+// Justification requests: the review queue for department heads, their own requests for teachers and students
+export default function JustificationRequests() {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const canReview = can("justifications:review");
+  const [status, setStatus] = useState(canReview ? "pending" : "all");
+  const [reviewing, setReviewing] = useState<{ request: JustificationRequest; decision: Decision } | null>(null);
+  const [comment, setComment] = useState("");
+
+  const { data: requests, isLoading } = useQuery<JustificationRequest[]>({
+    queryKey: ['/api/justification-requests', { status: status === "all" ? undefined : status }],
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ id, decision }: { id: number; decision: Decision }) =>
+      apiRequest("POST", `/api/justification-requests/${id}/review`, { decision, comment }),
+    onSuccess: (_, { decision }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/justification-requests'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/absences'] });
+      setReviewing(null);
+      toast({
+        title: decision === "approved" ? "Justificatif approuvé" : "Justificatif refusé",
+        description: decision === "approved"
+          ? "Les absences concernées sont désormais justifiées."
+          : "Les absences concernées restent non justifiées.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erreur",
+        description: error instanceof ApiError && error.data?.message
+          ? error.data.message
+          : "Impossible d'enregistrer la décision.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getAbsenceDate = (absence: JustificationRequest["absences"][number]) =>
+    absence.date ? format(new Date(absence.date), "d MMM yyyy", { locale: fr }) : `Absence n° ${absence.id}`;
+
+  const openReview = (request: JustificationRequest, decision: Decision) => {
+    setComment("");
+    setReviewing({ request, decision });
+  };
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold">Justificatifs d'absence</h2>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{canReview ? "Demandes à examiner" : "Mes demandes"}</CardTitle>
+          <CardDescription>
+            L'approbation d'une demande justifie automatiquement les absences qu'elle couvre
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="w-full md:w-64">
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Toutes les demandes</SelectItem>
+                {JUSTIFICATION_STATUS_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : !requests || requests.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Aucune demande de justification.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Déposée le</TableHead>
+                  <TableHead>Étudiant</TableHead>
+                  <TableHead>Motif</TableHead>
+                  <TableHead>Absences</TableHead>
+                  <TableHead>Pièces jointes</TableHead>
+                  <TableHead>Statut</TableHead>
+                  {canReview && <TableHead className="text-right">Décision</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {requests.map(request => {
+                  const statusOption = getJustificationStatusOption(request.status);
+                  return (
+                    <TableRow key={request.id}>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {format(parseISO(request.submittedAt), "dd MMM yyyy HH:mm", { locale: fr })}
+                      </TableCell>
+                      <TableCell className="text-sm font-medium">{request.studentName || "Étudiant inconnu"}</TableCell>
+                      <TableCell className="text-sm">
+                        <p className="font-medium">{JUSTIFICATION_REASONS[request.reason] ?? request.reason}</p>
+                        <p className="text-muted-foreground">{request.explanation}</p>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {request.absences.map(absence => (
+                          <p key={absence.id}>{getAbsenceDate(absence)}</p>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {request.documents.length === 0 ? "—" : request.documents.map(document => (
+                          <a
+                            key={document.id}
+                            href={`/api/justification-documents/${document.id}`}
+                            className="flex items-center gap-1 text-primary hover:underline"
+                          >
+                            <Paperclip className="h-3 w-3" />
+                            {document.fileName}
+                          </a>
+                        ))}
+                      </TableCell>
+                      <TableCell>
+                        <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${statusOption.colorClass}`}>
+                          {statusOption.label}
+                        </span>
+                        {request.reviewComment && (
+                          <p className="mt-1 text-xs text-muted-foreground">{request.reviewComment}</p>
+                        )}
+                      </TableCell>
+                      {canReview && (
+                        <TableCell className="whitespace-nowrap text-right">
+                          {request.status === "pending" && (
+                            <div className="flex justify-end gap-2">
+                              <Button size="sm" onClick={() => openReview(request, "approved")}>Approuver</Button>
+                              <Button size="sm" variant="outline" onClick={() => openReview(request, "rejected")}>
+                                Refuser
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={reviewing !== null} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {reviewing?.decision === "approved" ? "Approuver la demande" : "Refuser la demande"}
+            </DialogTitle>
+            <DialogDescription>
+              {reviewing?.request.studentName}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1">
+            <Label htmlFor="review-comment">Commentaire (facultatif)</Label>
+            <Textarea id="review-comment" value={comment} onChange={(e) => setComment(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewing(null)}>Annuler</Button>
+            <Button
+              variant={reviewing?.decision === "rejected" ? "destructive" : "default"}
+              disabled={reviewMutation.isPending}
+              onClick={() => reviewing && reviewMutation.mutate({ id: reviewing.request.id, decision: reviewing.decision })}
+            >
+              Confirmer
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,411 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Plus, Trash2, CalendarRange, CheckCircle2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { format, parseISO } from "date-fns";
+import { fr } from "date-fns/locale";
+
+// Types from the API
+interface AcademicYear {
+  id: number;
+  name: string;
+  startDate: string;
+  endDate: string;
+}
+
+interface Semester {
+  id: number;
+  name: string;
+  academicYearId: number;
+  startDate: string;
+  endDate: string;
+}
+
+interface ActivePeriod {
+  academicYear: AcademicYear | null;
+  semester: Semester | null;
+}
+
+// Schema shared by the academic year and semester forms
+const periodSchema = z.object({
+  name: z.string().min(2, { message: "Le nom doit contenir au moins 2 caractères" }),
+  startDate: z.string().min(1, { message: "La date de début est requise" }),
+  endDate: z.string().min(1, { message: "La date de fin est requise" }),
+}).refine(values => values.startDate <= values.endDate, {
+  message: "La date de fin doit être postérieure à la date de début",
+  path: ["endDate"],
+});
+
+type PeriodFormValues = z.infer<typeof periodSchema>;
+
+const formatDate = (value: string) => format(parseISO(value), "dd MMM yyyy", { locale: fr });
+
+export default function AcademicPeriods() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isYearDialogOpen, setIsYearDialogOpen] = useState(false);
+  const [yearForNewSemester, setYearForNewSemester] = useState<AcademicYear | null>(null);
+
+  // Queries to fetch the periods
+  const { data: academicYears, isLoading } = useQuery<AcademicYear[]>({
+    queryKey: ['/api/academic-years'],
+  });
+
+  const { data: semesters } = useQuery<Semester[]>({
+    queryKey: ['/api/semesters'],
+  });
+
+  const { data: activePeriod } = useQuery<ActivePeriod>({
+    queryKey: ['/api/periods/active'],
+  });
+
+  const yearForm = useForm<PeriodFormValues>({
+    resolver: zodResolver(periodSchema),
+    defaultValues: { name: "", startDate: "", endDate: "" },
+  });
+
+  const semesterForm = useForm<PeriodFormValues>({
+    resolver: zodResolver(periodSchema),
+    defaultValues: { name: "", startDate: "", endDate: "" },
+  });
+
+  const invalidatePeriods = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/academic-years'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/semesters'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/periods/active'] });
+  };
+
+  const onError = (action: string) => (error: Error) => {
+    toast({
+      variant: "destructive",
+      title: "Erreur",
+      description: `Erreur lors de ${action}: ${error.message}`,
+    });
+  };
+
+  // Mutation to add an academic year
+  const addYearMutation = useMutation({
+    mutationFn: async (values: PeriodFormValues) => {
+      const response = await apiRequest("POST", "/api/academic-years", values);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Année universitaire ajoutée",
+        description: "L'année universitaire a été ajoutée avec succès",
+      });
+      invalidatePeriods();
+      setIsYearDialogOpen(false);
+      yearForm.reset();
+    },
+    onError: onError("l'ajout de l'année universitaire"),
+  });
+
+  // Mutation to add a semester to an academic year
+  const addSemesterMutation = useMutation({
+    mutationFn: async ({ academicYearId, values }: { academicYearId: number, values: PeriodFormValues }) => {
+      const response = await apiRequest("POST", "/api/semesters", { ...values, academicYearId });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Semestre ajouté",
+        description: "Le semestre a été ajouté avec succès",
+      });
+      invalidatePeriods();
+      setYearForNewSemester(null);
+      semesterForm.reset();
+    },
+    onError: onError("l'ajout du semestre"),
+  });
+
+  // Mutation to make a semester the active period
+  const activateSemesterMutation = useMutation({
+    mutationFn: async (semesterId: number) => {
+      const response = await apiRequest("PUT", "/api/periods/active", { semesterId });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Période active mise à jour",
+        description: "Les listes et rapports portent désormais sur ce semestre",
+      });
+      // Every period-scoped list depends on the active semester
+      queryClient.invalidateQueries();
+    },
+    onError: onError("la mise à jour de la période active"),
+  });
+
+  const deleteYearMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/academic-years/${id}`, undefined);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Année universitaire supprimée",
+        description: "L'année universitaire a été supprimée avec succès",
+      });
+      invalidatePeriods();
+    },
+    onError: onError("la suppression de l'année universitaire"),
+  });
+
+  const deleteSemesterMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/semesters/${id}`, undefined);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Semestre supprimé",
+        description: "Le semestre a été supprimé avec succès",
+      });
+      invalidatePeriods();
+    },
+    onError: onError("la suppression du semestre"),
+  });
+
+  const onSemesterSubmit = (values: PeriodFormValues) => {
+    if (yearForNewSemester) {
+      addSemesterMutation.mutate({ academicYearId: yearForNewSemester.id, values });
+    }
+  };
+
+  const renderPeriodFields = (form: typeof yearForm, namePlaceholder: string) => (
+    <>
+      <FormField
+        control={form.control}
+        name="name"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Nom</FormLabel>
+            <FormControl>
+              <Input {...field} placeholder={namePlaceholder} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <div className="grid grid-cols-2 gap-4">
+        <FormField
+          control={form.control}
+          name="startDate"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Date de début</FormLabel>
+              <FormControl>
+                <Input type="date" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="endDate"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Date de fin</FormLabel>
+              <FormControl>
+                <Input type="date" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+    </>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Périodes</h2>
+          <p className="text-muted-foreground">
+            Période active : {activePeriod?.semester
+              ? `${activePeriod.semester.name} (${activePeriod.academicYear?.name})`
+              : "aucune"}
+          </p>
+        </div>
+        <Button onClick={() => setIsYearDialogOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Ajouter une année universitaire
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          <Skeleton className="h-32 w-full" />
+          <Skeleton className="h-32 w-full" />
+        </div>
+      ) : !academicYears || academicYears.length === 0 ? (
+        <Card className="mt-4">
+          <CardContent className="p-8 flex flex-col items-center justify-center">
+            <CalendarRange className="h-12 w-12 text-gray-300 mb-4" />
+            <h3 className="text-xl font-medium mb-2">
+              Aucune année universitaire
+            </h3>
+            <p className="text-muted-foreground text-center max-w-md mb-4">
+              Créez une année universitaire et ses semestres pour rattacher les séances,
+              les groupes et les inscriptions à une période.
+            </p>
+            <Button onClick={() => setIsYearDialogOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Ajouter une année universitaire
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        academicYears.map(academicYear => {
+          const yearSemesters = semesters?.filter(s => s.academicYearId === academicYear.id) || [];
+          return (
+            <Card key={academicYear.id}>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div>
+                  <CardTitle>{academicYear.name}</CardTitle>
+                  <CardDescription>
+                    Du {formatDate(academicYear.startDate)} au {formatDate(academicYear.endDate)}
+                  </CardDescription>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setYearForNewSemester(academicYear)}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Semestre
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteYearMutation.mutate(academicYear.id)}
+                    disabled={deleteYearMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {yearSemesters.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Aucun semestre</p>
+                ) : (
+                  <ul className="divide-y">
+                    {yearSemesters.map(semester => {
+                      const isActive = semester.id === activePeriod?.semester?.id;
+                      return (
+                        <li key={semester.id} className="flex items-center justify-between py-2">
+                          <div>
+                            <span className="font-medium">{semester.name}</span>
+                            {isActive && <Badge className="ml-2">En cours</Badge>}
+                            <p className="text-sm text-muted-foreground">
+                              Du {formatDate(semester.startDate)} au {formatDate(semester.endDate)}
+                            </p>
+                          </div>
+                          <div className="flex gap-2">
+                            {!isActive && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => activateSemesterMutation.mutate(semester.id)}
+                                disabled={activateSemesterMutation.isPending}
+                              >
+                                <CheckCircle2 className="h-4 w-4 mr-1" />
+                                Définir comme période active
+                              </Button>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => deleteSemesterMutation.mutate(semester.id)}
+                              disabled={deleteSemesterMutation.isPending}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+
+      {/* Add Academic Year Dialog */}
+      <Dialog open={isYearDialogOpen} onOpenChange={setIsYearDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Ajouter une année universitaire</DialogTitle>
+            <DialogDescription>
+              Les semestres de l'année devront être compris entre ses dates de début et de fin.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...yearForm}>
+            <form onSubmit={yearForm.handleSubmit(values => addYearMutation.mutate(values))} className="space-y-4">
+              {renderPeriodFields(yearForm, "ex: 2025-2026")}
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsYearDialogOpen(false)}>
+                  Annuler
+                </Button>
+                <Button type="submit" disabled={addYearMutation.isPending}>
+                  {addYearMutation.isPending ? "Ajout en cours..." : "Ajouter"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Add Semester Dialog */}
+      <Dialog open={!!yearForNewSemester} onOpenChange={open => !open && setYearForNewSemester(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Ajouter un semestre</DialogTitle>
+            <DialogDescription>
+              Nouveau semestre de l'année {yearForNewSemester?.name}.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...semesterForm}>
+            <form onSubmit={semesterForm.handleSubmit(onSemesterSubmit)} className="space-y-4">
+              {renderPeriodFields(semesterForm, "ex: Semestre 1")}
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setYearForNewSemester(null)}>
+                  Annuler
+                </Button>
+                <Button type="submit" disabled={addSemesterMutation.isPending}>
+                  {addSemesterMutation.isPending ? "Ajout en cours..." : "Ajouter"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import AttendanceSummary, { type StudentPortalData } from "@/components/portal/AttendanceSummary";
+
+// Home page of guardian accounts: a read-only attendance summary of each student they are responsible for
+export default function GuardianPortal() {
+  const { data: portals, isLoading } = useQuery<StudentPortalData[]>({
+    queryKey: ['/api/guardian-portal'],
+  });
+
+  if (isLoading || !portals) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  if (portals.length === 0) {
+    return (
+      <Card>
+        <CardContent className="pt-6 text-sm text-muted-foreground">
+          Aucun étudiant n'est rattaché à votre adresse email. Contactez la scolarité de l'établissement.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-10">
+      {portals.map(portal => (
+        <AttendanceSummary key={portal.student.id} portal={portal} />
+      ))}
+    </div>
+  );
+}
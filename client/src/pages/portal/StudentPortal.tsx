@@ -0,0 +1,64 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ABSENCE_STATUSES } from "@/lib/constants";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { format } from "date-fns";
+import { fr } from "date-fns/locale";
+import AttendanceSummary, {
+  getPortalModuleElementName,
+  type PortalAbsence,
+  type StudentPortalData,
+} from "@/components/portal/AttendanceSummary";
+import JustificationRequestModal, { type JustifiableAbsence } from "@/components/modals/JustificationRequestModal";
+
+// Home page of student accounts: their own attendance, standing and groups
+export default function StudentPortal() {
+  const [justifiedAbsence, setJustifiedAbsence] = useState<PortalAbsence | null>(null);
+
+  const { data: portal, isLoading } = useQuery<StudentPortalData>({
+    queryKey: ['/api/portal'],
+  });
+
+  if (isLoading || !portal) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  const needsJustification = (absence: PortalAbsence) =>
+    absence.status === ABSENCE_STATUSES.ABSENT || absence.status === ABSENCE_STATUSES.UNJUSTIFIED;
+
+  const toJustifiable = (absence: PortalAbsence): JustifiableAbsence => ({
+    id: absence.id,
+    studentId: absence.studentId,
+    label: `${format(new Date(absence.date), "d MMM yyyy", { locale: fr })} — ${getPortalModuleElementName(portal, absence.moduleElementId)}`,
+  });
+
+  return (
+    <>
+      <AttendanceSummary
+        portal={portal}
+        exceededAdvice="Justifiez vos absences dès que possible."
+        absencesHeaderAction={
+          <Link href="/justifications">
+            <Button variant="outline" size="sm">Mes justificatifs</Button>
+          </Link>
+        }
+        absenceAction={absence => needsJustification(absence) && (
+          <Button size="sm" variant="outline" onClick={() => setJustifiedAbsence(absence)}>
+            Justifier
+          </Button>
+        )}
+      />
+
+      <JustificationRequestModal
+        absence={justifiedAbsence ? toJustifiable(justifiedAbsence) : null}
+        studentName={`${portal.student.firstName} ${portal.student.lastName}`}
+        otherAbsences={portal.absences
+          .filter(absence => justifiedAbsence !== null && absence.id !== justifiedAbsence.id && needsJustification(absence))
+          .map(toJustifiable)}
+        onClose={() => setJustifiedAbsence(null)}
+      />
+    </>
+  );
+}
@@ -0,0 +1,93 @@
+import { useAuth } from "@/hooks/useAuth";
+import { USER_ROLES } from "@/lib/constants";
+import ChangePasswordForm from "@/components/auth/ChangePasswordForm";
+import TwoFactorSettings from "@/components/auth/TwoFactorSettings";
+import ActiveSessions from "@/components/auth/ActiveSessions";
+import NotificationSettings from "@/components/auth/NotificationSettings";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+const ROLE_LABELS: Record<string, string> = {
+  [USER_ROLES.ADMIN]: "Administrateur",
+  [USER_ROLES.DEPARTMENT_HEAD]: "Chef de département",
+  [USER_ROLES.TEACHER]: "Enseignant",
+};
+
+export default function Profile() {
+  const { user } = useAuth();
+
+  if (!user) return null;
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold">Mon profil</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Informations</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <dl className="space-y-3 text-sm">
+              <div>
+                <dt className="text-muted-foreground">Nom complet</dt>
+                <dd className="font-medium">{user.fullName}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Nom d'utilisateur</dt>
+                <dd className="font-medium">{user.username}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Email</dt>
+                <dd className="font-medium">{user.email}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Rôle</dt>
+                <dd className="font-medium">{ROLE_LABELS[user.role] ?? user.role}</dd>
+              </div>
+            </dl>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Mot de passe</CardTitle>
+            <CardDescription>Modifiez le mot de passe de votre compte</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChangePasswordForm />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Double authentification</CardTitle>
+            <CardDescription>Demandez un code de votre application d'authentification à chaque connexion</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TwoFactorSettings />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Sessions actives</CardTitle>
+            <CardDescription>Appareils sur lesquels vous êtes connecté</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ActiveSessions />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Notifications</CardTitle>
+            <CardDescription>Choisissez comment être prévenu des absences, alertes et justificatifs</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <NotificationSettings />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,298 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, ApiError, getFieldError } from "@/lib/queryClient";
+import { CONSTRAINT_ERROR_MESSAGES, ROOM_TYPES } from "@/lib/constants";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { DataTable } from "@/components/ui/data-table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DoorOpen, Plus } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+
+// Room type from the API
+interface Room {
+  id: number;
+  name: string;
+  building: string;
+  capacity: number;
+  type: string;
+}
+
+const roomSchema = z.object({
+  name: z.string().trim().min(1, { message: "Le nom est requis" }),
+  building: z.string().trim().min(1, { message: "Le bâtiment est requis" }),
+  capacity: z.coerce.number().int().min(1, { message: "La capacité doit être d'au moins une place" }),
+  type: z.string().min(1, { message: "Le type de salle est requis" }),
+});
+
+type RoomFormValues = z.infer<typeof roomSchema>;
+
+const EMPTY_ROOM: RoomFormValues = {
+  name: "",
+  building: "",
+  capacity: 30,
+  type: "classroom",
+};
+
+// Rooms that sessions and timetable slots are booked in. The server refuses to book a room twice at the same
+// time, and warns when a room seats fewer students than the group booked in it.
+export default function RoomsList() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<Room | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [deleting, setDeleting] = useState<Room | null>(null);
+
+  const { data: rooms, isLoading } = useQuery<Room[]>({
+    queryKey: ['/api/rooms'],
+  });
+
+  const form = useForm<RoomFormValues>({
+    resolver: zodResolver(roomSchema),
+    defaultValues: EMPTY_ROOM,
+  });
+
+  const openDialog = (room: Room | null) => {
+    setEditing(room);
+    form.reset(room
+      ? { name: room.name, building: room.building, capacity: room.capacity, type: room.type }
+      : EMPTY_ROOM);
+    setIsDialogOpen(true);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: RoomFormValues) => {
+      const response = editing
+        ? await apiRequest("PUT", `/api/rooms/${editing.id}`, values)
+        : await apiRequest("POST", "/api/rooms", values);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: editing ? "Salle modifiée" : "Salle ajoutée",
+        description: editing ? "La salle a été mise à jour avec succès" : "La salle a été ajoutée avec succès",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/rooms'] });
+      setIsDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      const fieldError = getFieldError(error);
+      if (fieldError && fieldError.field in form.getValues()) {
+        form.setError(fieldError.field as keyof RoomFormValues, {
+          message: CONSTRAINT_ERROR_MESSAGES[fieldError.code],
+        });
+        return;
+      }
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: `Erreur lors de l'enregistrement de la salle: ${error.message}`,
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/rooms/${id}`, undefined);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Salle supprimée",
+        description: "La salle a été supprimée avec succès",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/rooms'] });
+      setDeleting(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: error instanceof ApiError && error.status === 409
+          ? "La salle est encore attribuée à des séances ou à des créneaux de l'emploi du temps"
+          : `Erreur lors de la suppression de la salle: ${error.message}`,
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold">Salles</h2>
+        <Button onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Ajouter une salle
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-10 w-full" />
+        </div>
+      ) : !rooms || rooms.length === 0 ? (
+        <Card className="mt-4">
+          <CardContent className="p-8 flex flex-col items-center justify-center">
+            <DoorOpen className="h-12 w-12 text-gray-300 mb-4" />
+            <h3 className="text-xl font-medium mb-2">Aucune salle trouvée</h3>
+            <p className="text-muted-foreground text-center max-w-md mb-4">
+              Ajoutez les salles de l'établissement pour les attribuer aux séances et à l'emploi du temps.
+            </p>
+            <Button onClick={() => openDialog(null)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Ajouter une salle
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <DataTable
+          columns={[
+            { key: "name", header: "Nom" },
+            { key: "building", header: "Bâtiment" },
+            { key: "type", header: "Type", cell: (row) => ROOM_TYPES[row.type] ?? row.type },
+            { key: "capacity", header: "Capacité", cell: (row) => `${row.capacity} places` },
+          ]}
+          data={rooms}
+          isLoading={false}
+          onEdit={openDialog}
+          onDelete={setDeleting}
+        />
+      )}
+
+      {/* Add or Edit Room Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? "Modifier la salle" : "Ajouter une salle"}</DialogTitle>
+            <DialogDescription>
+              La capacité sert à signaler les groupes trop nombreux pour la salle.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(values => saveMutation.mutate(values))} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Nom</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="ex: B12" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="building"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Bâtiment</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="ex: Bâtiment B" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Type</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(ROOM_TYPES).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="capacity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Capacité (places)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="1" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Annuler
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending}>
+                  {saveMutation.isPending ? "Enregistrement..." : "Enregistrer"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Room Dialog */}
+      <Dialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Confirmer la suppression</DialogTitle>
+            <DialogDescription>
+              Êtes-vous sûr de vouloir supprimer la salle "{deleting?.name}" ? Cette action est irréversible.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setDeleting(null)}>
+              Annuler
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deleting && deleteMutation.mutate(deleting.id)}
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? "Suppression..." : "Supprimer"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
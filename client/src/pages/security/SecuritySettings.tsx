@@ -0,0 +1,342 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { USER_ROLES } from "@/lib/constants";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ShieldOff, LogOut } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { fr } from "date-fns/locale";
+import {
+  PERMISSIONS,
+  PERMISSION_LABELS,
+  ROLES,
+  LOCKED_ADMIN_PERMISSIONS,
+  type Permission,
+  type Role,
+  type RolePermissions,
+} from "@shared/permissions";
+
+// Types from the API
+interface TwoFactorPolicy {
+  requiredRoles: string[];
+  availableRoles: string[];
+}
+
+interface UserSession {
+  id: number;
+  userId: number;
+  lastSeenAt: string;
+}
+
+interface User {
+  id: number;
+  username: string;
+  fullName: string;
+  role: string;
+  twoFactorEnabled: boolean;
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  [USER_ROLES.ADMIN]: "Administrateurs",
+  [USER_ROLES.DEPARTMENT_HEAD]: "Chefs de département",
+  [USER_ROLES.TEACHER]: "Enseignants",
+  [USER_ROLES.STUDENT]: "Étudiants",
+  [USER_ROLES.GUARDIAN]: "Parents et tuteurs",
+};
+
+export default function SecuritySettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: policy, isLoading: isPolicyLoading } = useQuery<TwoFactorPolicy>({
+    queryKey: ['/api/settings/two-factor'],
+  });
+
+  const { data: users, isLoading: isUsersLoading } = useQuery<User[]>({
+    queryKey: ['/api/users'],
+  });
+
+  const { data: userSessions, isLoading: isSessionsLoading } = useQuery<UserSession[]>({
+    queryKey: ['/api/user-sessions'],
+  });
+
+  const { data: rolePermissions, isLoading: isPermissionsLoading } = useQuery<RolePermissions>({
+    queryKey: ['/api/settings/permissions'],
+  });
+
+  const policyMutation = useMutation({
+    mutationFn: async (requiredRoles: string[]) => {
+      const response = await apiRequest("PUT", "/api/settings/two-factor", { requiredRoles });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/settings/two-factor'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/session'] });
+      toast({
+        title: "Politique mise à jour",
+        description: "La politique de double authentification a été enregistrée",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: error.message || "Impossible d'enregistrer la politique",
+      });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const response = await apiRequest("POST", `/api/users/${userId}/2fa/reset`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      toast({
+        title: "Double authentification réinitialisée",
+        description: "L'utilisateur pourra configurer une nouvelle application d'authentification",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: error.message || "Impossible de réinitialiser la double authentification",
+      });
+    },
+  });
+
+  const forceLogoutMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const response = await apiRequest("POST", `/api/users/${userId}/logout`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/user-sessions'] });
+      toast({
+        title: "Utilisateur déconnecté",
+        description: "Toutes les sessions de l'utilisateur ont été fermées",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: error.message || "Impossible de déconnecter l'utilisateur",
+      });
+    },
+  });
+
+  const permissionsMutation = useMutation({
+    mutationFn: async (mapping: Partial<RolePermissions>) => {
+      const response = await apiRequest("PUT", "/api/settings/permissions", mapping);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/settings/permissions'] });
+      // The current user's own permissions may have changed
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/session'] });
+      toast({
+        title: "Permissions mises à jour",
+        description: "Les permissions des rôles ont été enregistrées",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: error.message || "Impossible d'enregistrer les permissions",
+      });
+    },
+  });
+
+  const togglePermission = (role: Role, permission: Permission, granted: boolean) => {
+    if (!rolePermissions) return;
+    const permissions = granted
+      ? [...rolePermissions[role], permission]
+      : rolePermissions[role].filter(existing => existing !== permission);
+    permissionsMutation.mutate({ [role]: permissions });
+  };
+
+  const toggleRole = (role: string, required: boolean) => {
+    if (!policy) return;
+    const requiredRoles = required
+      ? [...policy.requiredRoles, role]
+      : policy.requiredRoles.filter(existing => existing !== role);
+    policyMutation.mutate(requiredRoles);
+  };
+
+  const enrolledUsers = users?.filter(user => user.twoFactorEnabled) ?? [];
+
+  // Logged-in users with their number of sessions and latest activity; sessions arrive most recent first
+  const connectedUsers = (users ?? [])
+    .map(user => {
+      const sessionsOfUser = userSessions?.filter(userSession => userSession.userId === user.id) ?? [];
+      return { user, sessionCount: sessionsOfUser.length, lastSeenAt: sessionsOfUser[0]?.lastSeenAt };
+    })
+    .filter(entry => entry.sessionCount > 0);
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold">Sécurité</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Double authentification obligatoire</CardTitle>
+            <CardDescription>
+              Les rôles sélectionnés doivent configurer une application d'authentification avant d'accéder à l'application
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isPolicyLoading || !policy ? (
+              <Skeleton className="h-16 w-full" />
+            ) : (
+              policy.availableRoles.map(role => (
+                <div key={role} className="flex items-center justify-between">
+                  <Label htmlFor={`two-factor-${role}`}>{ROLE_LABELS[role] ?? role}</Label>
+                  <Switch
+                    id={`two-factor-${role}`}
+                    checked={policy.requiredRoles.includes(role)}
+                    onCheckedChange={(checked) => toggleRole(role, checked)}
+                    disabled={policyMutation.isPending}
+                  />
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Comptes protégés</CardTitle>
+            <CardDescription>
+              Réinitialisez la double authentification d'un utilisateur qui a perdu son téléphone et ses codes de récupération
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isUsersLoading ? (
+              <Skeleton className="h-16 w-full" />
+            ) : enrolledUsers.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Aucun compte n'utilise la double authentification.</p>
+            ) : (
+              <ul className="divide-y">
+                {enrolledUsers.map(user => (
+                  <li key={user.id} className="flex items-center justify-between py-2">
+                    <div>
+                      <p className="font-medium text-sm">{user.fullName}</p>
+                      <p className="text-xs text-muted-foreground">{user.username}</p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => resetMutation.mutate(user.id)}
+                      disabled={resetMutation.isPending}
+                    >
+                      <ShieldOff className="h-4 w-4 mr-2" />
+                      Réinitialiser
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle>Permissions par rôle</CardTitle>
+            <CardDescription>
+              Choisissez ce que chaque rôle peut faire ; les menus et les pages suivent ces permissions
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isPermissionsLoading || !rolePermissions ? (
+              <Skeleton className="h-32 w-full" />
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Permission</TableHead>
+                    {ROLES.map(role => (
+                      <TableHead key={role} className="text-center">{ROLE_LABELS[role] ?? role}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {PERMISSIONS.map(permission => (
+                    <TableRow key={permission}>
+                      <TableCell>
+                        <p className="text-sm">{PERMISSION_LABELS[permission]}</p>
+                        <p className="text-xs text-muted-foreground font-mono">{permission}</p>
+                      </TableCell>
+                      {ROLES.map(role => (
+                        <TableCell key={role} className="text-center">
+                          <Checkbox
+                            aria-label={`${PERMISSION_LABELS[permission]} – ${ROLE_LABELS[role] ?? role}`}
+                            checked={rolePermissions[role].includes(permission)}
+                            onCheckedChange={(checked) => togglePermission(role, permission, checked === true)}
+                            disabled={
+                              permissionsMutation.isPending ||
+                              (role === USER_ROLES.ADMIN && LOCKED_ADMIN_PERMISSIONS.includes(permission))
+                            }
+                          />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle>Utilisateurs connectés</CardTitle>
+            <CardDescription>
+              Forcez la déconnexion d'un utilisateur pour fermer ses sessions sur tous ses appareils
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isUsersLoading || isSessionsLoading ? (
+              <Skeleton className="h-16 w-full" />
+            ) : connectedUsers.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Aucun utilisateur connecté.</p>
+            ) : (
+              <ul className="divide-y">
+                {connectedUsers.map(({ user, sessionCount, lastSeenAt }) => (
+                  <li key={user.id} className="flex items-center justify-between py-2">
+                    <div>
+                      <p className="font-medium text-sm">{user.fullName}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {sessionCount} session(s) · Dernière activité le{" "}
+                        {format(parseISO(lastSeenAt!), "dd MMM yyyy 'à' HH:mm", { locale: fr })}
+                      </p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => forceLogoutMutation.mutate(user.id)}
+                      disabled={forceLogoutMutation.isPending}
+                    >
+                      <LogOut className="h-4 w-4 mr-2" />
+                      Forcer la déconnexion
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,7 @@ import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { STUDENT_GROUP_TYPES } from "@/lib/constants";
+import { STUDENT_GROUP_TYPES, USER_ROLES } from "@/lib/constants";
 import { useAuth } from "@/hooks/useAuth";
 import { 
   Card, 
@@ -43,6 +43,7 @@ interface Course {
   id: number;
   name: string;
   code: string;
+  departmentId: number;
 }
 
 interface Student {
@@ -109,6 +110,11 @@ export default function StudentGroups() {
     queryKey: ['/api/courses'],
   });
 
+  // Department heads only manage the courses of their own department
+  const availableCourses = user?.role === USER_ROLES.DEPARTMENT_HEAD
+    ? courses?.filter(course => course.departmentId === user.departmentId)
+    : courses;
+
   // Query to fetch student groups
   const { data: studentGroups, isLoading: groupsLoading } = useQuery<StudentGroup[]>({
     queryKey: ['/api/student-groups'],
@@ -396,7 +402,7 @@ export default function StudentGroups() {
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          {courses?.map((course) => (
+                          {availableCourses?.map((course) => (
                             <SelectItem key={course.id} value={course.id.toString()}>
                               {course.name} ({course.code})
                             </SelectItem>
@@ -440,7 +446,7 @@ export default function StudentGroups() {
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">Toutes les filières</SelectItem>
-              {courses?.map((course) => (
+              {availableCourses?.map((course) => (
                 <SelectItem key={course.id} value={course.id.toString()}>
                   {course.name} ({course.code})
                 </SelectItem>
@@ -685,7 +691,7 @@ export default function StudentGroups() {
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {courses?.map((course) => (
+                        {availableCourses?.map((course) => (
                           <SelectItem key={course.id} value={course.id.toString()}>
                             {course.name} ({course.code})
                           </SelectItem>
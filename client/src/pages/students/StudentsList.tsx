@@ -1,7 +1,9 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, getFieldError } from "@/lib/queryClient";
+import { CONSTRAINT_ERROR_MESSAGES } from "@/lib/constants";
 import { 
   Card, 
   CardContent, 
@@ -33,6 +35,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
+import StudentAccountModal from "@/components/users/StudentAccountModal";
+import GuardiansModal from "@/components/modals/GuardiansModal";
 
 // Types
 interface Course {
@@ -50,6 +54,11 @@ interface Student {
   courseId: number;
 }
 
+interface User {
+  id: number;
+  studentId: number | null;
+}
+
 // Schema for student form validation
 const studentSchema = z.object({
   studentId: z.string().min(2, { message: "L'identifiant doit contenir au moins 2 caractères" }),
@@ -63,12 +72,15 @@ type StudentFormValues = z.infer<typeof studentSchema>;
 
 export default function StudentsList() {
   const { toast } = useToast();
+  const { can } = useAuth();
   const queryClient = useQueryClient();
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [selectedStudent, setSelectedStudent] = useState<Student | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
+  const [accountStudent, setAccountStudent] = useState<Student | null>(null);
+  const [guardiansStudent, setGuardiansStudent] = useState<Student | null>(null);
 
   // Query to fetch courses
   const { data: courses } = useQuery<Course[]>({
@@ -80,6 +92,14 @@ export default function StudentsList() {
     queryKey: ['/api/students'],
   });
 
+  // Accounts, to tell which students can already log in
+  const canManageAccounts = can("users:manage");
+  const { data: users } = useQuery<User[]>({
+    queryKey: ['/api/users'],
+    enabled: canManageAccounts,
+  });
+  const hasAccount = (student: Student) => users?.some(user => user.studentId === student.id) ?? false;
+
   // Filtered students based on search term
   const filteredStudents = students?.filter(
     student => 
@@ -133,6 +153,13 @@ export default function StudentsList() {
       addForm.reset();
     },
     onError: (error: Error) => {
+      const fieldError = getFieldError(error);
+      if (fieldError && fieldError.field in addForm.getValues()) {
+        addForm.setError(fieldError.field as keyof StudentFormValues, {
+          message: CONSTRAINT_ERROR_MESSAGES[fieldError.code],
+        });
+        return;
+      }
       toast({
         variant: "destructive",
         title: "Erreur",
@@ -161,6 +188,13 @@ export default function StudentsList() {
       editForm.reset();
     },
     onError: (error: Error) => {
+      const fieldError = getFieldError(error);
+      if (fieldError && fieldError.field in editForm.getValues()) {
+        editForm.setError(fieldError.field as keyof StudentFormValues, {
+          message: CONSTRAINT_ERROR_MESSAGES[fieldError.code],
+        });
+        return;
+      }
       toast({
         variant: "destructive",
         title: "Erreur",
@@ -412,6 +446,24 @@ export default function StudentsList() {
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
                     <div className="flex justify-end space-x-2">
+                      {canManageAccounts && !hasAccount(student) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setAccountStudent(student)}
+                          title="Créer un compte étudiant"
+                        >
+                          <span className="material-icons text-sm">person_add</span>
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setGuardiansStudent(student)}
+                        title="Parents et tuteurs"
+                      >
+                        <span className="material-icons text-sm">family_restroom</span>
+                      </Button>
                       <Button 
                         variant="outline" 
                         size="sm" 
@@ -459,6 +511,9 @@ export default function StudentsList() {
         </Card>
       )}
 
+      <StudentAccountModal student={accountStudent} onClose={() => setAccountStudent(null)} />
+      <GuardiansModal student={guardiansStudent} onClose={() => setGuardiansStudent(null)} />
+
       {/* Edit Student Dialog */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
         <DialogContent>
@@ -1,10 +1,12 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { USER_ROLES } from "@/lib/constants";
+import { apiRequest, getFieldError, ApiError } from "@/lib/queryClient";
+import { USER_ROLES, CONSTRAINT_ERROR_MESSAGES, describePasswordPolicy } from "@/lib/constants";
+import { passwordPolicyViolations, type PasswordPolicy } from "@shared/password-policy";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { DataTable } from "@/components/ui/data-table";
+import LockedAccounts from "@/components/users/LockedAccounts";
 import { Skeleton } from "@/components/ui/skeleton";
 import { UserPlus, Edit, Trash2, Mail, User, Building } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -20,6 +22,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -49,12 +52,15 @@ interface User {
 // Schema for teacher form validation
 const teacherSchema = z.object({
   username: z.string().min(3, { message: "Le nom d'utilisateur doit contenir au moins 3 caractères" }),
-  password: z.string().min(6, { message: "Le mot de passe doit contenir au moins 6 caractères" }),
+  password: z.string().min(1, { message: "Le mot de passe est requis" }),
   fullName: z.string().min(3, { message: "Le nom complet doit contenir au moins 3 caractères" }),
   email: z.string().email({ message: "Adresse email invalide" }),
   departmentId: z.string().min(1, { message: "Le département est requis" }),
 });
 
+// When editing, an empty password keeps the current one
+const editTeacherSchema = teacherSchema.extend({ password: z.string().optional() });
+
 type TeacherFormValues = z.infer<typeof teacherSchema>;
 
 export default function TeachersList() {
@@ -75,6 +81,16 @@ export default function TeachersList() {
     queryKey: ['/api/users'],
   });
 
+  // Password rules enforced by the API, checked here before submitting
+  const { data: passwordPolicy } = useQuery<PasswordPolicy>({
+    queryKey: ['/api/auth/password-policy'],
+  });
+
+  const passwordHint = passwordPolicy ? describePasswordPolicy(passwordPolicy) : undefined;
+
+  const isPasswordRejected = (password: string) =>
+    !!passwordPolicy && passwordPolicyViolations(password, passwordPolicy).length > 0;
+
   // Filter only teachers
   const teachers = users?.filter(user => user.role === USER_ROLES.TEACHER) || [];
 
@@ -92,7 +108,7 @@ export default function TeachersList() {
 
   // Form for editing a teacher
   const editForm = useForm<TeacherFormValues>({
-    resolver: zodResolver(teacherSchema.omit({ password: true })),
+    resolver: zodResolver(editTeacherSchema),
     defaultValues: {
       username: "",
       password: "",
@@ -123,6 +139,17 @@ export default function TeachersList() {
       addForm.reset();
     },
     onError: (error: Error) => {
+      if (error instanceof ApiError && error.data?.violations) {
+        addForm.setError("password", { message: passwordHint ?? "Mot de passe trop faible" });
+        return;
+      }
+      const fieldError = getFieldError(error);
+      if (fieldError && fieldError.field in addForm.getValues()) {
+        addForm.setError(fieldError.field as keyof TeacherFormValues, {
+          message: CONSTRAINT_ERROR_MESSAGES[fieldError.code],
+        });
+        return;
+      }
       toast({
         variant: "destructive",
         title: "Erreur",
@@ -152,6 +179,17 @@ export default function TeachersList() {
       editForm.reset();
     },
     onError: (error: Error) => {
+      if (error instanceof ApiError && error.data?.violations) {
+        editForm.setError("password", { message: passwordHint ?? "Mot de passe trop faible" });
+        return;
+      }
+      const fieldError = getFieldError(error);
+      if (fieldError && fieldError.field in editForm.getValues()) {
+        editForm.setError(fieldError.field as keyof TeacherFormValues, {
+          message: CONSTRAINT_ERROR_MESSAGES[fieldError.code],
+        });
+        return;
+      }
       toast({
         variant: "destructive",
         title: "Erreur",
@@ -185,13 +223,21 @@ export default function TeachersList() {
 
   // Handler for adding a teacher
   const onAddSubmit = (values: TeacherFormValues) => {
+    if (isPasswordRejected(values.password)) {
+      addForm.setError("password", { message: passwordHint });
+      return;
+    }
     addTeacherMutation.mutate(values);
   };
 
   // Handler for editing a teacher
-  const onEditSubmit = (values: Partial<TeacherFormValues>) => {
+  const onEditSubmit = ({ password, ...values }: Partial<TeacherFormValues>) => {
+    if (password && isPasswordRejected(password)) {
+      editForm.setError("password", { message: passwordHint });
+      return;
+    }
     if (selectedTeacher) {
-      updateTeacherMutation.mutate({ id: selectedTeacher.id, values });
+      updateTeacherMutation.mutate({ id: selectedTeacher.id, values: password ? { ...values, password } : values });
     }
   };
 
@@ -302,6 +348,7 @@ export default function TeachersList() {
                       <FormControl>
                         <Input {...field} type="password" placeholder="••••••••" />
                       </FormControl>
+                      {passwordHint && <FormDescription>{passwordHint}</FormDescription>}
                       <FormMessage />
                     </FormItem>
                   )}
@@ -354,6 +401,8 @@ export default function TeachersList() {
         </Dialog>
       </div>
 
+      <LockedAccounts />
+
       {isLoading ? (
         <div className="py-8 space-y-4">
           <div className="flex justify-end mb-4">
@@ -487,6 +536,7 @@ export default function TeachersList() {
                     <FormControl>
                       <Input {...field} type="password" placeholder="••••••••" />
                     </FormControl>
+                    {passwordHint && <FormDescription>{passwordHint}</FormDescription>}
                     <FormMessage />
                   </FormItem>
                 )}
@@ -0,0 +1,599 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import {
+  BOOKING_CONFLICT_MESSAGES,
+  SESSION_TYPES,
+  SESSION_TYPE_LABELS,
+  WEEKDAYS,
+  describeCapacityWarning,
+  type CapacityWarning,
+} from "@/lib/constants";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { CalendarDays, Pencil, Plus, Trash2 } from "lucide-react";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+
+// Types from the API
+interface TimetableSlot {
+  id: number;
+  semesterId: number;
+  moduleElementId: number;
+  teacherId: number;
+  groupId: number | null;
+  type: string;
+  weekday: number;
+  startTime: string;
+  endTime: string;
+  roomId: number | null;
+}
+
+interface Room {
+  id: number;
+  name: string;
+  building: string;
+  capacity: number;
+}
+
+interface Semester {
+  id: number;
+  name: string;
+}
+
+interface ActivePeriod {
+  semester: Semester | null;
+}
+
+interface User {
+  id: number;
+  fullName: string;
+  role: string;
+}
+
+interface ModuleElement {
+  id: number;
+  name: string;
+  moduleId: number;
+}
+
+interface Module {
+  id: number;
+  courseId: number;
+}
+
+interface StudentGroup {
+  id: number;
+  name: string;
+  type: string;
+  courseId: number;
+}
+
+interface TeacherModuleElement {
+  moduleElementId: number;
+}
+
+const WHOLE_COURSE = "all";
+const NO_ROOM = "none";
+
+const slotSchema = z.object({
+  teacherId: z.string().min(1, { message: "L'enseignant est requis" }),
+  moduleElementId: z.string().min(1, { message: "L'élément de module est requis" }),
+  groupId: z.string(),
+  type: z.string().min(1, { message: "Le type de séance est requis" }),
+  weekday: z.string().min(1, { message: "Le jour est requis" }),
+  startTime: z.string().min(1, { message: "L'heure de début est requise" }),
+  endTime: z.string().min(1, { message: "L'heure de fin est requise" }),
+  roomId: z.string(),
+}).refine(values => values.startTime < values.endTime, {
+  message: "L'heure de fin doit suivre l'heure de début",
+  path: ["endTime"],
+});
+
+type SlotFormValues = z.infer<typeof slotSchema>;
+
+const EMPTY_SLOT: SlotFormValues = {
+  teacherId: "",
+  moduleElementId: "",
+  groupId: WHOLE_COURSE,
+  type: SESSION_TYPES.COURSE,
+  weekday: "1",
+  startTime: "08:30",
+  endTime: "10:00",
+  roomId: NO_ROOM,
+};
+
+// Messages for the checks the server makes on a slot
+const SLOT_ERROR_MESSAGES: Record<string, string> = {
+  teacherId: "L'enseignant n'est pas affecté à cet élément de module",
+  groupId: "Le groupe n'appartient pas à la filière de cet élément de module",
+  endTime: "L'heure de fin doit suivre l'heure de début",
+};
+
+// Weekly timetable of a semester. Each slot plans one session a week, which the teacher then records
+// attendance against.
+export default function Timetable() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [semesterId, setSemesterId] = useState<string>("");
+  const [editing, setEditing] = useState<TimetableSlot | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const { data: semesters } = useQuery<Semester[]>({
+    queryKey: ['/api/semesters'],
+  });
+
+  const { data: activePeriod } = useQuery<ActivePeriod>({
+    queryKey: ['/api/periods/active'],
+  });
+
+  // Show the active semester until another one is picked
+  useEffect(() => {
+    if (!semesterId && activePeriod?.semester) {
+      setSemesterId(activePeriod.semester.id.toString());
+    }
+  }, [activePeriod, semesterId]);
+
+  const { data: slots, isLoading } = useQuery<TimetableSlot[]>({
+    queryKey: ['/api/timetable-slots', { semesterId }],
+    enabled: !!semesterId,
+  });
+
+  const { data: rooms } = useQuery<Room[]>({
+    queryKey: ['/api/rooms'],
+  });
+
+  const { data: users } = useQuery<User[]>({
+    queryKey: ['/api/users'],
+  });
+
+  const { data: moduleElements } = useQuery<ModuleElement[]>({
+    queryKey: ['/api/module-elements'],
+  });
+
+  const { data: modules } = useQuery<Module[]>({
+    queryKey: ['/api/modules'],
+  });
+
+  const { data: studentGroups } = useQuery<StudentGroup[]>({
+    queryKey: ['/api/student-groups', { semesterId }],
+    enabled: !!semesterId,
+  });
+
+  const form = useForm<SlotFormValues>({
+    resolver: zodResolver(slotSchema),
+    defaultValues: EMPTY_SLOT,
+  });
+
+  // A slot is taught by a teacher assigned to its module element, to one of the groups of its course
+  const teacherId = form.watch("teacherId");
+  const moduleElementId = form.watch("moduleElementId");
+  const { data: assignments } = useQuery<TeacherModuleElement[]>({
+    queryKey: ['/api/teacher-module-elements', { teacherId }],
+    enabled: isDialogOpen && !!teacherId,
+  });
+  const assignedIds = assignments?.map(assignment => assignment.moduleElementId) || [];
+  const teacherModuleElements = moduleElements?.filter(me => assignedIds.includes(me.id)) || [];
+  const selectedModuleElement = moduleElements?.find(me => me.id.toString() === moduleElementId);
+  const courseId = modules?.find(m => m.id === selectedModuleElement?.moduleId)?.courseId;
+  const courseGroups = studentGroups?.filter(group => group.courseId === courseId) || [];
+
+  const teachers = users?.filter(user => user.role === "teacher" || user.role === "departmentHead") || [];
+  const teacherName = (id: number) => users?.find(user => user.id === id)?.fullName ?? "—";
+  const moduleElementName = (id: number) => moduleElements?.find(me => me.id === id)?.name ?? "—";
+  const groupName = (id: number | null) =>
+    id === null ? "Toute la filière" : studentGroups?.find(group => group.id === id)?.name ?? "—";
+  const roomName = (id: number) => rooms?.find(room => room.id === id)?.name ?? "—";
+
+  const openDialog = (slot: TimetableSlot | null) => {
+    setEditing(slot);
+    form.reset(slot
+      ? {
+        teacherId: slot.teacherId.toString(),
+        moduleElementId: slot.moduleElementId.toString(),
+        groupId: slot.groupId?.toString() ?? WHOLE_COURSE,
+        type: slot.type,
+        weekday: slot.weekday.toString(),
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        roomId: slot.roomId?.toString() ?? NO_ROOM,
+      }
+      : EMPTY_SLOT);
+    setIsDialogOpen(true);
+  };
+
+  const invalidateTimetable = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/timetable-slots'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/sessions'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/sessions/pending'] });
+  };
+
+  const onError = (action: string) => (error: Error) => {
+    const field = error instanceof ApiError ? error.data?.field : undefined;
+    const conflict = error instanceof ApiError && error.data?.code === "conflict";
+    toast({
+      variant: "destructive",
+      title: "Erreur",
+      description: (conflict ? BOOKING_CONFLICT_MESSAGES[field] : SLOT_ERROR_MESSAGES[field]) ?? `Erreur lors de ${action}`,
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: SlotFormValues) => {
+      const payload = {
+        semesterId: parseInt(semesterId, 10),
+        teacherId: parseInt(values.teacherId, 10),
+        moduleElementId: parseInt(values.moduleElementId, 10),
+        groupId: values.groupId === WHOLE_COURSE ? null : parseInt(values.groupId, 10),
+        type: values.type,
+        weekday: parseInt(values.weekday, 10),
+        startTime: values.startTime,
+        endTime: values.endTime,
+        roomId: values.roomId === NO_ROOM ? null : parseInt(values.roomId, 10),
+      };
+      const response = editing
+        ? await apiRequest("PUT", `/api/timetable-slots/${editing.id}`, payload)
+        : await apiRequest("POST", "/api/timetable-slots", payload);
+      return response.json() as Promise<{ slot: TimetableSlot; sessions: unknown[]; warnings: CapacityWarning[] }>;
+    },
+    onSuccess: ({ sessions, warnings }) => {
+      toast({
+        title: editing ? "Créneau modifié" : "Créneau ajouté",
+        description: sessions.length > 0
+          ? `${sessions.length} séance(s) planifiée(s) jusqu'à la fin du semestre`
+          : "Les séances planifiées sont inchangées",
+      });
+      warnings.forEach(warning => toast({
+        title: "Salle trop petite",
+        description: describeCapacityWarning(warning),
+      }));
+      invalidateTimetable();
+      setIsDialogOpen(false);
+    },
+    onError: onError("l'enregistrement du créneau"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/timetable-slots/${id}`, undefined);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Créneau supprimé",
+        description: "Les séances planifiées sans absences saisies ont été retirées",
+      });
+      invalidateTimetable();
+    },
+    onError: onError("la suppression du créneau"),
+  });
+
+  const days = Object.keys(WEEKDAYS).map(Number);
+  const slotsOf = (weekday: number) =>
+    (slots || []).filter(slot => slot.weekday === weekday).sort((a, b) => a.startTime.localeCompare(b.startTime));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Emploi du temps</h2>
+          <p className="text-muted-foreground">
+            Chaque créneau planifie une séance par semaine jusqu'à la fin du semestre.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={semesterId} onValueChange={setSemesterId}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Semestre" />
+            </SelectTrigger>
+            <SelectContent>
+              {semesters?.map(semester => (
+                <SelectItem key={semester.id} value={semester.id.toString()}>
+                  {semester.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={() => openDialog(null)} disabled={!semesterId}>
+            <Plus className="h-4 w-4 mr-2" />
+            Ajouter un créneau
+          </Button>
+        </div>
+      </div>
+
+      {!semesterId ? (
+        <Card>
+          <CardContent className="p-8 flex flex-col items-center justify-center">
+            <CalendarDays className="h-12 w-12 text-gray-300 mb-4" />
+            <p className="text-muted-foreground text-center max-w-md">
+              Choisissez un semestre pour afficher son emploi du temps.
+            </p>
+          </CardContent>
+        </Card>
+      ) : isLoading ? (
+        <Skeleton className="h-64 w-full" />
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {days.filter(day => day < 7 || slotsOf(day).length > 0).map(day => (
+            <Card key={day}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg">{WEEKDAYS[day]}</CardTitle>
+                <CardDescription>{slotsOf(day).length} créneau(x)</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {slotsOf(day).length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Aucun cours</p>
+                ) : (
+                  <ul className="divide-y">
+                    {slotsOf(day).map(slot => (
+                      <li key={slot.id} className="flex items-start justify-between py-2">
+                        <div>
+                          <p className="font-medium">
+                            {slot.startTime} – {slot.endTime}
+                            <Badge variant="outline" className="ml-2">{SESSION_TYPE_LABELS[slot.type] ?? slot.type}</Badge>
+                          </p>
+                          <p className="text-sm">{moduleElementName(slot.moduleElementId)}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {teacherName(slot.teacherId)} · {groupName(slot.groupId)}
+                            {slot.roomId !== null && ` · Salle ${roomName(slot.roomId)}`}
+                          </p>
+                        </div>
+                        <div className="flex">
+                          <Button variant="ghost" size="sm" onClick={() => openDialog(slot)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => deleteMutation.mutate(slot.id)}
+                            disabled={deleteMutation.isPending}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Add or Edit Slot Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Modifier le créneau" : "Ajouter un créneau"}</DialogTitle>
+            <DialogDescription>
+              {editing
+                ? "Les séances à venir sans absences saisies sont planifiées de nouveau."
+                : "Une séance est planifiée chaque semaine, à partir d'aujourd'hui, jusqu'à la fin du semestre."}
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(values => saveMutation.mutate(values))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="teacherId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Enseignant</FormLabel>
+                    <Select
+                      value={field.value}
+                      onValueChange={value => {
+                        field.onChange(value);
+                        form.setValue("moduleElementId", "");
+                        form.setValue("groupId", WHOLE_COURSE);
+                      }}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Sélectionner un enseignant" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {teachers.map(teacher => (
+                          <SelectItem key={teacher.id} value={teacher.id.toString()}>
+                            {teacher.fullName}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="moduleElementId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Élément de module</FormLabel>
+                    <Select
+                      value={field.value}
+                      onValueChange={value => {
+                        field.onChange(value);
+                        form.setValue("groupId", WHOLE_COURSE);
+                      }}
+                      disabled={!teacherId}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Sélectionner un élément de module" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {teacherModuleElements.map(moduleElement => (
+                          <SelectItem key={moduleElement.id} value={moduleElement.id.toString()}>
+                            {moduleElement.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="groupId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Groupe</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={WHOLE_COURSE}>Toute la filière</SelectItem>
+                          {courseGroups.map(group => (
+                            <SelectItem key={group.id} value={group.id.toString()}>
+                              {group.name} ({group.type})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Type de séance</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(SESSION_TYPE_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="weekday"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Jour</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {days.map(day => (
+                            <SelectItem key={day} value={day.toString()}>{WEEKDAYS[day]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="startTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Début</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="endTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Fin</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="roomId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Salle (optionnel)</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_ROOM}>Aucune salle</SelectItem>
+                        {rooms?.map(room => (
+                          <SelectItem key={room.id} value={room.id.toString()}>
+                            {room.name} ({room.building}) · {room.capacity} places
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Annuler
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending}>
+                  {saveMutation.isPending ? "Enregistrement..." : "Enregistrer"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
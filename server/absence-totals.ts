@@ -0,0 +1,106 @@
+import type { Absence, Session } from "@shared/schema";
+import { roundHours, sessionHours } from "@shared/session-hours";
+import { isLateness } from "@shared/lateness";
+import type { IStorage } from "./storage";
+import { UNEXCUSED_STATUSES, convertedLateness } from "./student-portal";
+
+// Sessions of the absences, each looked up once
+async function sessionsOf(storage: IStorage, absences: Absence[]): Promise<Map<number, Session>> {
+  const sessions = new Map<number, Session>();
+  for (const sessionId of Array.from(new Set(absences.map(absence => absence.sessionId)))) {
+    const session = await storage.getSession(sessionId);
+    if (session) sessions.set(sessionId, session);
+  }
+  return sessions;
+}
+
+// Hours of the sessions the absences were recorded in
+export async function absenceHours(storage: IStorage, absences: Absence[]): Promise<number> {
+  const sessions = await sessionsOf(storage, absences);
+  let hours = 0;
+  for (const absence of absences) {
+    const session = sessions.get(absence.sessionId);
+    if (session) hours += sessionHours(session);
+  }
+  return roundHours(hours);
+}
+
+// Absences of one module element, module or course, counted and in hours. Attendance marked present is left out,
+// and so are late arrivals and early departures, unless the course counts them as unjustified absences.
+export interface AbsenceTotal {
+  id: number;
+  name: string;
+  code: string;
+  absences: number;
+  unexcused: number;
+  hours: number;
+  unexcusedHours: number;
+}
+
+export interface AbsenceTotals {
+  moduleElements: Array<AbsenceTotal & { moduleId: number }>;
+  modules: Array<AbsenceTotal & { courseId: number }>;
+  courses: AbsenceTotal[];
+}
+
+function addAbsence(total: AbsenceTotal, absence: Absence, hours: number): void {
+  total.absences++;
+  total.hours += hours;
+  if (UNEXCUSED_STATUSES.includes(absence.status) || isLateness(absence.status)) {
+    total.unexcused++;
+    total.unexcusedHours += hours;
+  }
+}
+
+function byHours<T extends AbsenceTotal>(totals: Map<number, T>): T[] {
+  return Array.from(totals.values())
+    .map(total => ({ ...total, hours: roundHours(total.hours), unexcusedHours: roundHours(total.unexcusedHours) }))
+    .sort((a, b) => b.hours - a.hours || a.name.localeCompare(b.name));
+}
+
+// Totals per module element, per module and per course, most hours missed first
+export async function absenceTotals(storage: IStorage, absences: Absence[]): Promise<AbsenceTotals> {
+  const missed = [
+    ...absences.filter(absence => absence.status !== "present" && !isLateness(absence.status)),
+    ...await convertedLateness(storage, absences),
+  ];
+  const sessions = await sessionsOf(storage, missed);
+  const moduleElements = new Map<number, AbsenceTotal & { moduleId: number }>();
+  const modules = new Map<number, AbsenceTotal & { courseId: number }>();
+  const courses = new Map<number, AbsenceTotal>();
+
+  for (const absence of missed) {
+    const session = sessions.get(absence.sessionId);
+    if (!session) continue;
+    const hours = sessionHours(session);
+
+    let moduleElement = moduleElements.get(session.moduleElementId);
+    if (!moduleElement) {
+      const record = await storage.getModuleElement(session.moduleElementId);
+      if (!record) continue;
+      moduleElement = { id: record.id, name: record.name, code: record.code, moduleId: record.moduleId, absences: 0, unexcused: 0, hours: 0, unexcusedHours: 0 };
+      moduleElements.set(record.id, moduleElement);
+    }
+    addAbsence(moduleElement, absence, hours);
+
+    let module = modules.get(moduleElement.moduleId);
+    if (!module) {
+      const record = await storage.getModule(moduleElement.moduleId);
+      if (!record) continue;
+      module = { id: record.id, name: record.name, code: record.code, courseId: record.courseId, absences: 0, unexcused: 0, hours: 0, unexcusedHours: 0 };
+      modules.set(record.id, module);
+    }
+    addAbsence(module, absence, hours);
+
+    let course = courses.get(module.courseId);
+    if (!course) {
+      const record = await storage.getCourse(module.courseId);
+      if (!record) continue;
+      course = { id: record.id, name: record.name, code: record.code, absences: 0, unexcused: 0, hours: 0, unexcusedHours: 0 };
+      courses.set(record.id, course);
+    }
+    addAbsence(course, absence, hours);
+  }
+
+  return { moduleElements: byHours(moduleElements), modules: byHours(modules), courses: byHours(courses) };
+}
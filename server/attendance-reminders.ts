@@ -0,0 +1,135 @@
+import type { AttendanceReminder, Session } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { config } from "./config";
+import { log } from "./vite";
+import { notifyAttendanceMissing } from "./notifications";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Sessions that have started without their attendance being recorded, whether they are still linked to their
+// timetable slot or not
+export function listMissingAttendance(sessions: Session[], now = new Date()): Session[] {
+  return sessions
+    .filter(session => session.attendanceRecordedAt === null)
+    .filter(session => session.date.getTime() <= now.getTime())
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+export type MissingAttendanceDetails = Session & {
+  teacherName: string;
+  moduleElementName: string;
+  groupName: string | null;
+  courseName: string;
+  departmentId: number | null;
+  departmentName: string;
+  remindersSent: number;
+};
+
+export async function missingAttendanceDetails(storage: IStorage, session: Session): Promise<MissingAttendanceDetails> {
+  const teacher = await storage.getUser(session.teacherId);
+  const moduleElement = await storage.getModuleElement(session.moduleElementId);
+  const module = moduleElement ? await storage.getModule(moduleElement.moduleId) : undefined;
+  const course = module ? await storage.getCourse(module.courseId) : undefined;
+  const department = course ? await storage.getDepartment(course.departmentId) : undefined;
+  const group = session.groupId !== null ? await storage.getStudentGroup(session.groupId) : undefined;
+  return {
+    ...session,
+    teacherName: teacher?.fullName ?? "Unknown",
+    moduleElementName: moduleElement?.name ?? "Unknown",
+    groupName: group?.name ?? null,
+    courseName: course?.name ?? "Unknown",
+    departmentId: department?.id ?? null,
+    departmentName: department?.name ?? "Unknown",
+    remindersSent: (await storage.listAttendanceReminders(session.id)).length,
+  };
+}
+
+export interface AttendanceCompletion {
+  teacherId: number;
+  teacherName: string;
+  planned: number;
+  recorded: number;
+  percentage: number;
+}
+
+// Share of each teacher's sessions held up to now whose attendance was recorded; least complete first
+export async function attendanceCompletion(
+  storage: IStorage,
+  sessions: Session[],
+  now = new Date()
+): Promise<AttendanceCompletion[]> {
+  const held = sessions.filter(session => session.date.getTime() <= now.getTime());
+
+  const byTeacher = new Map<number, { planned: number; recorded: number }>();
+  for (const session of held) {
+    const counts = byTeacher.get(session.teacherId) ?? { planned: 0, recorded: 0 };
+    counts.planned++;
+    if (session.attendanceRecordedAt !== null) counts.recorded++;
+    byTeacher.set(session.teacherId, counts);
+  }
+
+  const completion: AttendanceCompletion[] = [];
+  for (const [teacherId, counts] of Array.from(byTeacher.entries())) {
+    const teacher = await storage.getUser(teacherId);
+    completion.push({
+      teacherId,
+      teacherName: teacher?.fullName ?? "Unknown",
+      ...counts,
+      percentage: Math.round((counts.recorded / counts.planned) * 100),
+    });
+  }
+  return completion.sort((a, b) => a.percentage - b.percentage || a.teacherName.localeCompare(b.teacherName));
+}
+
+// Step of the next reminder about a session, or null when none is due. Reminder n is due n delays after the
+// session started, and never sooner than one delay after the previous one, so reminders held back while the
+// server was down don't all go out at once.
+function dueStep(session: Session, reminders: AttendanceReminder[], now: Date): number | null {
+  const { reminderHours, maxReminders } = config.attendanceReminders;
+  const step = reminders.length + 1;
+  if (step > maxReminders) return null;
+
+  let dueAt = session.date.getTime() + step * reminderHours * HOUR_MS;
+  for (const reminder of reminders) {
+    dueAt = Math.max(dueAt, reminder.sentAt.getTime() + reminderHours * HOUR_MS);
+  }
+  return dueAt <= now.getTime() ? step : null;
+}
+
+// Reminds teachers, in the background, of the sessions whose attendance they haven't recorded. Each
+// reminder sent is stored with the session, so a restart neither repeats nor loses them.
+export class AttendanceReminders {
+  private timer: NodeJS.Timeout | undefined;
+  private checking = false;
+
+  constructor(private storage: IStorage) {}
+
+  start(): void {
+    this.timer = setInterval(() => void this.check(), config.attendanceReminders.checkMinutes * 60 * 1000);
+    // Don't keep the process alive just for the reminders
+    this.timer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+  }
+
+  // Send the reminders that are due, one run at a time
+  async check(now = new Date()): Promise<void> {
+    if (this.checking) return;
+    this.checking = true;
+    try {
+      for (const session of listMissingAttendance(await this.storage.listSessions(), now)) {
+        const step = dueStep(session, await this.storage.listAttendanceReminders(session.id), now);
+        if (step === null) continue;
+        const escalated = now.getTime() - session.date.getTime() >= config.attendanceReminders.escalationHours * HOUR_MS;
+        await notifyAttendanceMissing(this.storage, session, step, escalated);
+        await this.storage.createAttendanceReminder({ sessionId: session.id, step, sentAt: now });
+      }
+    } catch (error) {
+      log(`Couldn't check missing attendance: ${error instanceof Error ? error.message : error}`, "notifications");
+    } finally {
+      this.checking = false;
+    }
+  }
+}
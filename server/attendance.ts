@@ -0,0 +1,88 @@
+import type { Absence, InsertAbsence, InsertSession, Student } from "@shared/schema";
+import { isLateness } from "@shared/lateness";
+import type { IStorage } from "./storage";
+import { ForbiddenError, ForeignKeyError, ValidationError } from "./integrity";
+
+type RosterReader = Pick<IStorage, "getModuleElement" | "getModule" | "getStudentGroup" | "listStudentsByGroup" | "listStudentsByCourse">;
+
+export function assertSessionTimes(session: Pick<InsertSession, "date" | "endsAt">): void {
+  if (session.endsAt && session.endsAt.getTime() <= session.date.getTime()) {
+    throw new ValidationError("The session must end after it starts", "endsAt");
+  }
+}
+
+// Late arrivals and early departures say by how many minutes, and nothing else does
+export function assertLatenessMinutes(absence: Pick<InsertAbsence, "status" | "minutes">): void {
+  if (isLateness(absence.status) && (absence.minutes == null || absence.minutes < 1)) {
+    throw new ValidationError("Late arrivals and early departures need their number of minutes", "minutes");
+  }
+  if (!isLateness(absence.status) && absence.minutes != null) {
+    throw new ValidationError("Only late arrivals and early departures have a number of minutes", "minutes");
+  }
+}
+
+// Statuses a justification request can excuse. Late arrivals and early departures are corrected by the teacher
+// rather than justified.
+export const JUSTIFIABLE_STATUSES: Absence["status"][] = ["absent", "unjustified"];
+
+// Absences only become justified when a justification request covering them is approved, never when attendance
+// is recorded or corrected. An absence already justified keeps its status through other changes.
+export function assertNotJustified(absence: Partial<Pick<InsertAbsence, "status">>, existing?: Pick<Absence, "status">): void {
+  if (absence.status === "justified" && existing?.status !== "justified") {
+    throw new ForbiddenError("Absences are justified by approving a justification request");
+  }
+}
+
+// Students expected at a session: the members of its group, or the whole course when no group is set
+export async function getSessionRoster(
+  storage: RosterReader,
+  session: Pick<InsertSession, "moduleElementId" | "groupId">
+): Promise<Student[]> {
+  const moduleElement = await storage.getModuleElement(session.moduleElementId);
+  if (!moduleElement) {
+    throw new ForeignKeyError("sessions", "moduleElementId", session.moduleElementId, "moduleElements");
+  }
+  const module = await storage.getModule(moduleElement.moduleId);
+  if (!module) {
+    throw new ForeignKeyError("moduleElements", "moduleId", moduleElement.moduleId, "modules");
+  }
+
+  if (session.groupId) {
+    const group = await storage.getStudentGroup(session.groupId);
+    if (!group) {
+      throw new ForeignKeyError("sessions", "groupId", session.groupId, "studentGroups");
+    }
+    if (group.courseId !== module.courseId) {
+      throw new ValidationError("The group does not belong to the course of this module element", "groupId");
+    }
+    return storage.listStudentsByGroup(group.id);
+  }
+
+  return storage.listStudentsByCourse(module.courseId);
+}
+
+// Reject attendance rows for students outside the session's roster, or listed twice
+export async function assertAttendanceRoster(
+  storage: RosterReader,
+  session: InsertSession,
+  studentIds: number[]
+): Promise<void> {
+  const duplicates = studentIds.filter((id, index) => studentIds.indexOf(id) !== index);
+  if (duplicates.length > 0) {
+    throw new ValidationError("A student appears more than once in the attendance list", "studentId", {
+      studentIds: Array.from(new Set(duplicates)),
+    });
+  }
+
+  const roster = new Set((await getSessionRoster(storage, session)).map(student => student.id));
+  const outsiders = studentIds.filter(id => !roster.has(id));
+  if (outsiders.length > 0) {
+    throw new ValidationError(
+      session.groupId
+        ? "Some students are not members of the session's group"
+        : "Some students are not enrolled in the session's course",
+      "studentId",
+      { studentIds: outsiders }
+    );
+  }
+}
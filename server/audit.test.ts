@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { AuditEntry } from "@shared/schema";
+import { MemStorage, type IStorage } from "./storage";
+import { AuditLog, auditContext, withAuditTrail } from "./audit";
+
+describe("audit log", () => {
+  let base: MemStorage;
+  let log: AuditLog;
+  let storage: IStorage;
+
+  beforeEach(() => {
+    base = new MemStorage();
+    log = new AuditLog(base);
+    storage = withAuditTrail(base, log);
+  });
+
+  // Stored entry, changed in place as someone with access to the database could
+  function storedEntry(id: number): AuditEntry {
+    return (base as unknown as { auditLog: Map<number, AuditEntry> }).auditLog.get(id)!;
+  }
+
+  it("chains every change to the one before it", async () => {
+    const department = await storage.createDepartment({ name: "Informatique" });
+    await storage.updateDepartment(department.id, { name: "Génie informatique" });
+    await storage.deleteDepartment(department.id);
+
+    const entries = await base.listAuditEntries();
+    expect(entries.map(entry => entry.action)).toEqual(["create", "update", "delete"]);
+    expect(entries[1]).toMatchObject({ before: { name: "Informatique" }, after: { name: "Génie informatique" } });
+    expect(entries[1].previousHash).toBe(entries[0].hash);
+    expect(entries[2].previousHash).toBe(entries[1].hash);
+    expect(await log.verify()).toEqual({ valid: true, checked: 3, latestHash: entries[2].hash });
+  });
+
+  it("finds an entry whose content was changed", async () => {
+    const department = await storage.createDepartment({ name: "Informatique" });
+    await storage.updateDepartment(department.id, { name: "Génie informatique" });
+    await storage.createDepartment({ name: "Mathématiques" });
+    const [, updated] = await base.listAuditEntries();
+
+    storedEntry(updated.id).after = { name: "Physique" };
+
+    expect(await log.verify()).toMatchObject({ valid: false, checked: 1, brokenAt: updated.id });
+  });
+
+  it("finds an entry removed from the middle of the chain", async () => {
+    await storage.createDepartment({ name: "Informatique" });
+    await storage.createDepartment({ name: "Mathématiques" });
+    await storage.createDepartment({ name: "Physique" });
+    const [, removed, last] = await base.listAuditEntries();
+
+    (base as unknown as { auditLog: Map<number, AuditEntry> }).auditLog.delete(removed.id);
+
+    expect(await log.verify()).toMatchObject({ valid: false, brokenAt: last.id });
+  });
+
+  it("never copies passwords into the log", async () => {
+    const user = await storage.createUser({
+      username: "enseignant", password: "secret", fullName: "Enseignant", email: "enseignant@example.com", role: "teacher",
+    });
+    await storage.updateUser(user.id, { password: "autre secret" });
+
+    const entries = await base.listAuditEntriesByEntity("users", user.id);
+    expect(entries[0].after).toMatchObject({ password: "[redacted]" });
+    expect(entries[1]).toMatchObject({ before: { password: "[redacted]" }, after: { password: "[redacted]" } });
+  });
+
+  it("logs every row a cascading delete removes, under the same actor", async () => {
+    const department = await storage.createDepartment({ name: "Informatique" });
+    const course = await storage.createCourse({ name: "Génie informatique", code: "GI", departmentId: department.id });
+    const student = await storage.createStudent({
+      studentId: "S1", firstName: "Amine", lastName: "Benali", email: "amine@example.com", courseId: course.id,
+    });
+    const module = await storage.createModule({ name: "Algorithmique", code: "M1", courseId: course.id });
+    const element = await storage.createModuleElement({ name: "Tris", code: "E1", moduleId: module.id, type: "course" });
+    const { session, absences } = await storage.recordAttendance(
+      { date: new Date("2026-10-12T08:00:00Z"), type: "course", moduleElementId: element.id, teacherId: 2 },
+      [{ studentId: student.id, status: "absent" }]
+    );
+
+    await auditContext.run({ userId: () => 1, ipAddress: "192.0.2.1" }, () => storage.deleteSession(session.id));
+
+    const deletions = (await base.listAuditEntries()).filter(entry => entry.action === "delete");
+    expect(deletions).toMatchObject([
+      { entity: "absences", entityId: absences[0].id, before: { status: "absent" }, userId: 1, ipAddress: "192.0.2.1" },
+      { entity: "sessions", entityId: session.id, userId: 1, ipAddress: "192.0.2.1" },
+    ]);
+    expect(await log.verify()).toMatchObject({ valid: true });
+  });
+});
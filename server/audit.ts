@@ -0,0 +1,380 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { createHash } from "crypto";
+import type { AuditEntry, InsertAuditEntry } from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { EntityName } from "./integrity";
+
+// Who is making the changes of the current request. The user is read when a change is recorded, since
+// logging in sets it halfway through the request.
+export interface AuditActor {
+  userId(): number | null;
+  ipAddress: string | null;
+}
+
+// Carries the actor of a request down to the storage calls it makes
+export const auditContext = new AsyncLocalStorage<AuditActor>();
+
+export type AuditAction = AuditEntry["action"];
+
+// Hash the first entry is chained to
+const GENESIS_HASH = "0".repeat(64);
+const REDACTED = "[redacted]";
+// Values never copied into the log; the entry still shows that they changed
+const SECRET_FIELDS = ["password", "totpSecret", "totpRecoveryCodes"];
+// Bookkeeping rewritten on every login, left out of the log
+const IGNORED_FIELDS: Record<string, string[]> = {
+  users: ["failedLoginAttempts", "totpLastUsedStep"],
+};
+
+type AuditRecord = Record<string, unknown>;
+
+// JSON with object keys sorted, so a record hashes the same however its keys were ordered when stored
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const record = value as AuditRecord;
+    return `{${Object.keys(record).sort().map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+// Plain JSON copy of a row, as it reads back from the database (dates become ISO strings)
+function toRecord(row: object): AuditRecord {
+  return JSON.parse(JSON.stringify(row));
+}
+
+function redact(record: AuditRecord): AuditRecord {
+  const redacted = { ...record };
+  for (const field of SECRET_FIELDS) {
+    if (redacted[field] !== undefined && redacted[field] !== null) redacted[field] = REDACTED;
+  }
+  return redacted;
+}
+
+// Changed fields of an update, or null when nothing worth logging changed
+function diffRecords(entity: string, before: AuditRecord, after: AuditRecord): { before: AuditRecord; after: AuditRecord } | null {
+  const ignored = IGNORED_FIELDS[entity] ?? [];
+  const changed = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).filter(
+    field => !ignored.includes(field) && canonicalJson(before[field]) !== canonicalJson(after[field])
+  );
+  if (changed.length === 0) return null;
+  const pick = (record: AuditRecord) => Object.fromEntries(changed.map(field => [field, record[field] ?? null]));
+  return { before: redact(pick(before)), after: redact(pick(after)) };
+}
+
+export function hashAuditEntry(entry: Omit<AuditEntry, "id" | "hash">): string {
+  return createHash("sha256")
+    .update(canonicalJson({
+      userId: entry.userId ?? null,
+      action: entry.action,
+      entity: entry.entity,
+      entityId: entry.entityId ?? null,
+      before: entry.before ?? null,
+      after: entry.after ?? null,
+      ipAddress: entry.ipAddress ?? null,
+      createdAt: entry.createdAt.toISOString(),
+      previousHash: entry.previousHash,
+    }))
+    .digest("hex");
+}
+
+export interface AuditChange {
+  action: AuditAction;
+  entity: string;
+  entityId: number | null;
+  before: AuditRecord | null;
+  after: AuditRecord | null;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  checked: number;
+  // First entry whose hash or link to the previous entry doesn't match
+  brokenAt?: number;
+  // Hash of the last entry; noting it elsewhere also reveals entries removed from the end
+  latestHash: string;
+}
+
+export type AuditEntryWithActor = AuditEntry & { userFullName: string | null };
+
+// Append-only, hash-chained log of changes. Appends are queued so each entry links to the one before it.
+export class AuditLog {
+  private tail: Promise<unknown> = Promise.resolve();
+
+  constructor(private storage: IStorage) {}
+
+  record(change: AuditChange): Promise<AuditEntry> {
+    const actor = auditContext.getStore();
+    const userId = actor?.userId() ?? null;
+    const ipAddress = actor?.ipAddress ?? null;
+    const appended = this.tail.then(() => this.append({ ...change, userId, ipAddress }));
+    this.tail = appended.catch(() => undefined);
+    return appended;
+  }
+
+  async verify(): Promise<AuditVerification> {
+    const entries = await this.storage.listAuditEntries();
+    let previousHash = GENESIS_HASH;
+    for (let index = 0; index < entries.length; index++) {
+      const { id, hash, ...fields } = entries[index];
+      if (fields.previousHash !== previousHash || hashAuditEntry(fields) !== hash) {
+        return { valid: false, checked: index, brokenAt: id, latestHash: entries[entries.length - 1].hash };
+      }
+      previousHash = hash;
+    }
+    return { valid: true, checked: entries.length, latestHash: previousHash };
+  }
+
+  // Entries with the name of the user who made each change
+  async withActors(entries: AuditEntry[]): Promise<AuditEntryWithActor[]> {
+    const users = new Map((await this.storage.listUsers()).map(user => [user.id, user.fullName]));
+    return entries.map(entry => ({
+      ...entry,
+      userFullName: entry.userId === null ? null : users.get(entry.userId) ?? null,
+    }));
+  }
+
+  private async append(change: AuditChange & { userId: number | null; ipAddress: string | null }): Promise<AuditEntry> {
+    const latest = await this.storage.getLatestAuditEntry();
+    const fields: Omit<AuditEntry, "id" | "hash"> = {
+      ...change,
+      // Whole seconds, so the timestamp hashes the same whatever precision the database keeps
+      createdAt: new Date(Math.floor(Date.now() / 1000) * 1000),
+      previousHash: latest?.hash ?? GENESIS_HASH,
+    };
+    return this.storage.appendAuditEntry({ ...fields, hash: hashAuditEntry(fields) } as InsertAuditEntry);
+  }
+}
+
+type AuditedRow = { entity: string; row: object };
+
+type StorageMethod = keyof IStorage;
+type MethodArgs<K extends StorageMethod> = IStorage[K] extends (...args: infer A) => unknown ? A : never;
+type MethodResult<K extends StorageMethod> = IStorage[K] extends (...args: never[]) => infer R ? Awaited<R> : never;
+
+// How to log the calls of a storage method taking `Args` and resolving to `Result`. Hooks are declared as
+// methods so that the proxy, which doesn't know which method it wraps, can hold any of them as the default.
+interface AuditedMethod<Args extends unknown[] = unknown[], Result = unknown> {
+  entity: string;
+  action: AuditAction;
+  // Row as it was before an update or delete
+  load?(storage: IStorage, args: Args): Promise<object | undefined>;
+  // Rows written by a create, when the result isn't the row itself
+  created?(result: Result): AuditedRow[];
+  // Row after an update, when the result isn't the row itself
+  updated?(args: Args): object;
+  // Rows a delete removes, when it removes more than the row it loads
+  removed?(storage: IStorage, args: Args): Promise<AuditedRow[]>;
+  // Rows an update may change, before it and as its result returns them, when it changes several rows
+  changedBefore?(storage: IStorage, args: Args): Promise<AuditedRow[]>;
+  changedAfter?(result: Result): AuditedRow[];
+}
+
+type AuditedMethods = { [K in StorageMethod]?: AuditedMethod<MethodArgs<K>, MethodResult<K>> };
+
+// Arguments of the methods changing a record given by its id
+type ByIdArgs = [id: number, ...rest: unknown[]];
+
+// Rows deleting a record removes: the record and, children first, those its deletion cascades to, leaving out
+// the kinds of records the log doesn't follow
+function cascadedRows(entity: EntityName) {
+  return async (storage: IStorage, [id]: ByIdArgs): Promise<AuditedRow[]> => (await storage.planDeletion(entity, id))
+    .filter(step => auditedEntities().has(step.entity))
+    .flatMap(step => step.rows.map(row => ({ entity: step.entity, row })));
+}
+
+type EntityMethods<Name extends string> =
+  Record<`create${Name}`, Pick<AuditedMethod, "entity" | "action">> &
+  Record<`update${Name}`, Pick<AuditedMethod<ByIdArgs>, "entity" | "action" | "load">> &
+  Record<`delete${Name}`, Pick<AuditedMethod<ByIdArgs>, "entity" | "action" | "removed">>;
+
+function entityMethods<Name extends string>(
+  entity: EntityName,
+  name: Name,
+  load: (storage: IStorage, id: number) => Promise<object | undefined>
+): EntityMethods<Name> {
+  return {
+    [`create${name}`]: { entity, action: "create" },
+    [`update${name}`]: { entity, action: "update", load: (storage: IStorage, [id]: ByIdArgs) => load(storage, id) },
+    [`delete${name}`]: { entity, action: "delete", removed: cascadedRows(entity) },
+  } as EntityMethods<Name>;
+}
+
+// Storage methods that change records, and how to log them. Authentication bookkeeping (login sessions,
+// password reset tokens) and the logs themselves are not audited.
+const AUDITED_METHODS: AuditedMethods = {
+  ...entityMethods("users", "User", (storage, id) => storage.getUser(id)),
+  ...entityMethods("departments", "Department", (storage, id) => storage.getDepartment(id)),
+  ...entityMethods("courses", "Course", (storage, id) => storage.getCourse(id)),
+  ...entityMethods("modules", "Module", (storage, id) => storage.getModule(id)),
+  ...entityMethods("moduleElements", "ModuleElement", (storage, id) => storage.getModuleElement(id)),
+  ...entityMethods("students", "Student", (storage, id) => storage.getStudent(id)),
+  ...entityMethods("studentGroups", "StudentGroup", (storage, id) => storage.getStudentGroup(id)),
+  ...entityMethods("sessions", "Session", (storage, id) => storage.getSession(id)),
+  ...entityMethods("absences", "Absence", (storage, id) => storage.getAbsence(id)),
+  ...entityMethods("timetableSlots", "TimetableSlot", (storage, id) => storage.getTimetableSlot(id)),
+  ...entityMethods("rooms", "Room", (storage, id) => storage.getRoom(id)),
+  ...entityMethods("academicYears", "AcademicYear", (storage, id) => storage.getAcademicYear(id)),
+  ...entityMethods("semesters", "Semester", (storage, id) => storage.getSemester(id)),
+  ...entityMethods("guardians", "Guardian", (storage, id) => storage.getGuardian(id)),
+  createEnrollment: { entity: "enrollments", action: "create" },
+  deleteEnrollment: { entity: "enrollments", action: "delete", load: (storage, [id]) => storage.getEnrollment(id) },
+  assignTeacherToModuleElement: { entity: "teacherModuleElements", action: "create" },
+  removeTeacherFromModuleElement: {
+    entity: "teacherModuleElements",
+    action: "delete",
+    load: async (storage, [teacherId, moduleElementId]) =>
+      (await storage.listTeacherModuleElements(teacherId)).find(assignment => assignment.moduleElementId === moduleElementId),
+  },
+  assignStudentToGroup: { entity: "studentGroupAssignments", action: "create" },
+  removeStudentFromGroup: {
+    entity: "studentGroupAssignments",
+    action: "delete",
+    load: async (storage, [studentId, groupId]) =>
+      (await storage.listStudentGroupAssignments(groupId)).find(assignment => assignment.studentId === studentId),
+  },
+  batchCreateAbsences: { entity: "absences", action: "create" },
+  recordSessionAttendance: { entity: "absences", action: "create" },
+  planSessions: { entity: "sessions", action: "create" },
+  recordAttendance: {
+    entity: "sessions",
+    action: "create",
+    created: ({ session, absences }) => [
+      { entity: "sessions", row: session },
+      ...absences.map(absence => ({ entity: "absences", row: absence })),
+    ],
+  },
+  createJustificationRequest: { entity: "justificationRequests", action: "create" },
+  updateJustificationRequest: {
+    entity: "justificationRequests",
+    action: "update",
+    load: (storage, [id]) => storage.getJustificationRequest(id),
+  },
+  reviewJustificationRequest: {
+    entity: "justificationRequests",
+    action: "update",
+    changedBefore: async (storage, [id]) => {
+      const request = await storage.getJustificationRequest(id);
+      if (!request) return [];
+      const rows: AuditedRow[] = [{ entity: "justificationRequests", row: request }];
+      for (const link of await storage.listJustificationRequestAbsences(id)) {
+        const absence = await storage.getAbsence(link.absenceId);
+        if (absence) rows.push({ entity: "absences", row: absence });
+      }
+      return rows;
+    },
+    changedAfter: result => (result ? [
+      { entity: "justificationRequests", row: result.request },
+      ...result.absences.map(absence => ({ entity: "absences", row: absence })),
+    ] : []),
+  },
+  replaceThresholdLevels: {
+    entity: "thresholdLevels",
+    action: "update",
+    load: async (storage, [courseId]) => ({
+      levels: (await storage.listThresholdLevels(courseId)).map(({ level, threshold }) => ({ level, threshold })),
+    }),
+    updated: ([, levels]) => ({ levels }),
+  },
+  createAbsenceAlert: { entity: "absenceAlerts", action: "create" },
+  updateAbsenceAlert: {
+    entity: "absenceAlerts",
+    action: "update",
+    load: (storage, [id]) => storage.getAbsenceAlert(id),
+  },
+  replaceNotificationPreferences: {
+    entity: "notificationPreferences",
+    action: "update",
+    load: async (storage, [userId]) => ({
+      preferences: (await storage.listNotificationPreferences(userId)).map(({ event, channels }) => ({ event, channels })),
+    }),
+    updated: ([, preferences]) => ({ preferences }),
+  },
+  setSetting: {
+    entity: "settings",
+    action: "update",
+    load: async (storage, [key]) => ({ [key]: (await storage.getSetting(key)) ?? null }),
+    updated: ([key, value]) => ({ [key]: value }),
+  },
+};
+
+function auditedEntities(): Set<string> {
+  return new Set(Object.values(AUDITED_METHODS).map(method => method!.entity));
+}
+
+function auditedMethod(property: string | symbol): AuditedMethod | undefined {
+  if (typeof property !== "string" || !Object.prototype.hasOwnProperty.call(AUDITED_METHODS, property)) return undefined;
+  return AUDITED_METHODS[property as StorageMethod];
+}
+
+async function recordCall(
+  log: AuditLog,
+  method: AuditedMethod,
+  args: unknown[],
+  before: object | undefined,
+  removed: AuditedRow[] | undefined,
+  changed: AuditedRow[] | undefined,
+  result: unknown
+): Promise<void> {
+  switch (method.action) {
+    case "create": {
+      const rows = method.created?.(result) ?? (Array.isArray(result) ? result : [result])
+        .filter((row): row is object => typeof row === "object" && row !== null)
+        .map(row => ({ entity: method.entity, row }));
+      for (const { entity, row } of rows) {
+        const after = toRecord(row);
+        await log.record({ action: "create", entity, entityId: (after.id as number) ?? null, before: null, after: redact(after) });
+      }
+      return;
+    }
+    case "update": {
+      if (method.changedAfter) {
+        for (const { entity, row } of method.changedAfter(result)) {
+          const after = toRecord(row);
+          const previous = changed?.find(candidate => candidate.entity === entity && toRecord(candidate.row).id === after.id);
+          const diff = previous && diffRecords(entity, toRecord(previous.row), after);
+          if (diff) await log.record({ action: "update", entity, entityId: (after.id as number) ?? null, ...diff });
+        }
+        return;
+      }
+      const after = method.updated?.(args) ?? result;
+      if (!before || typeof after !== "object" || after === null) return;
+      const diff = diffRecords(method.entity, toRecord(before), toRecord(after));
+      if (!diff) return;
+      await log.record({ action: "update", entity: method.entity, entityId: typeof args[0] === "number" ? args[0] : null, ...diff });
+      return;
+    }
+    case "delete": {
+      if (result !== true) return;
+      const rows = removed ?? (before ? [{ entity: method.entity, row: before }] : []);
+      for (const { entity, row } of rows) {
+        const record = toRecord(row);
+        await log.record({ action: "delete", entity, entityId: (record.id as number) ?? null, before: redact(record), after: null });
+      }
+      return;
+    }
+  }
+}
+
+// Storage that logs each change it makes. Calls a storage makes to itself go straight to it, so a change
+// is logged once however it is implemented.
+export function withAuditTrail(storage: IStorage, log: AuditLog): IStorage {
+  return new Proxy(storage, {
+    get(target, property, receiver) {
+      const value: unknown = Reflect.get(target, property, receiver);
+      if (typeof value !== "function") return value;
+      const method = auditedMethod(property);
+      if (!method) return value.bind(target);
+      return async (...args: unknown[]) => {
+        const before = method.load ? await method.load(target, args) : undefined;
+        const removed = method.removed ? await method.removed(target, args) : undefined;
+        const changed = method.changedBefore ? await method.changedBefore(target, args) : undefined;
+        const result: unknown = await value.apply(target, args);
+        await recordCall(log, method, args, before, removed, changed, result);
+        return result;
+      };
+    },
+  });
+}
@@ -0,0 +1,164 @@
+import type { PasswordPolicy } from "@shared/password-policy";
+
+// Runtime configuration, read once from the environment at startup
+export type StorageDriver = "memory" | "postgres";
+
+function readStorageDriver(): StorageDriver {
+  const driver = process.env.STORAGE_DRIVER;
+  if (!driver) {
+    // Fall back to Postgres whenever a database has been provisioned
+    return process.env.DATABASE_URL ? "postgres" : "memory";
+  }
+  if (driver !== "memory" && driver !== "postgres") {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected "memory" or "postgres"`);
+  }
+  return driver;
+}
+
+function readInteger(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === "") return fallback;
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+function readBoolean(name: string, fallback: boolean): boolean {
+  const value = process.env[name];
+  if (value === undefined || value === "") return fallback;
+  return value === "true" || value === "1";
+}
+
+function readPasswordPolicy(): PasswordPolicy {
+  return {
+    minLength: readInteger("PASSWORD_MIN_LENGTH", 8),
+    requireLowercase: readBoolean("PASSWORD_REQUIRE_LOWERCASE", true),
+    requireUppercase: readBoolean("PASSWORD_REQUIRE_UPPERCASE", true),
+    requireDigit: readBoolean("PASSWORD_REQUIRE_DIGIT", true),
+    requireSymbol: readBoolean("PASSWORD_REQUIRE_SYMBOL", false),
+  };
+}
+
+export type MailTransportName = "console" | "file" | "smtp";
+
+function readMailTransport(): MailTransportName {
+  const transport = process.env.MAIL_TRANSPORT || "console";
+  if (transport !== "console" && transport !== "file" && transport !== "smtp") {
+    throw new Error(`Unknown MAIL_TRANSPORT "${transport}", expected "console", "file" or "smtp"`);
+  }
+  if (transport === "smtp" && !process.env.SMTP_HOST) {
+    throw new Error("MAIL_TRANSPORT is smtp but SMTP_HOST is not set");
+  }
+  return transport;
+}
+
+export type SmsTransportName = "console" | "file" | "http";
+
+function readSmsTransport(): SmsTransportName {
+  const transport = process.env.SMS_TRANSPORT || "console";
+  if (transport !== "console" && transport !== "file" && transport !== "http") {
+    throw new Error(`Unknown SMS_TRANSPORT "${transport}", expected "console", "file" or "http"`);
+  }
+  if (transport === "http" && !process.env.SMS_GATEWAY_URL) {
+    throw new Error("SMS_TRANSPORT is http but SMS_GATEWAY_URL is not set");
+  }
+  return transport;
+}
+
+export type SessionStoreName = "postgres" | "file";
+
+function readSessionStore(storageDriver: StorageDriver): SessionStoreName {
+  const store = process.env.SESSION_STORE;
+  if (!store) {
+    // Keep sessions next to the data when it lives in Postgres, in local files otherwise
+    return storageDriver === "postgres" ? "postgres" : "file";
+  }
+  if (store !== "postgres" && store !== "file") {
+    throw new Error(`Unknown SESSION_STORE "${store}", expected "postgres" or "file"`);
+  }
+  return store;
+}
+
+function readSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  // Development only: anyone knowing this value could forge session cookies
+  return "development-session-secret";
+}
+
+const storageDriver = readStorageDriver();
+
+export const config = {
+  storageDriver,
+  databaseUrl: process.env.DATABASE_URL,
+  session: {
+    secret: readSessionSecret(),
+    store: readSessionStore(storageDriver),
+    // Directory of the file store
+    dir: process.env.SESSION_DIR || ".sessions",
+    // Sessions end after this long without activity
+    maxAgeHours: readInteger("SESSION_MAX_AGE_HOURS", 24),
+  },
+  passwordPolicy: readPasswordPolicy(),
+  // Public address of the app, used to build links sent by email
+  appUrl: (process.env.APP_URL || "http://localhost:5000").replace(/\/$/, ""),
+  passwordResetTtlMinutes: readInteger("PASSWORD_RESET_TTL_MINUTES", 60),
+  magicLinkTtlMinutes: readInteger("MAGIC_LINK_TTL_MINUTES", 30),
+  login: {
+    // Failed attempts on one account before it is locked, and for how long
+    maxAttempts: readInteger("LOGIN_MAX_ATTEMPTS", 5),
+    lockoutMinutes: readInteger("LOGIN_LOCKOUT_MINUTES", 15),
+    // Failed attempts from one IP address within the window before further attempts are refused
+    ipMaxAttempts: readInteger("LOGIN_IP_MAX_ATTEMPTS", 20),
+    ipWindowMinutes: readInteger("LOGIN_IP_WINDOW_MINUTES", 15),
+  },
+  mail: {
+    transport: readMailTransport(),
+    from: process.env.MAIL_FROM || "SuiviScolaire <no-reply@suivi-scolaire.local>",
+    outboxDir: process.env.MAIL_OUTBOX_DIR || "outbox",
+    smtp: {
+      host: process.env.SMTP_HOST || "",
+      port: readInteger("SMTP_PORT", 587),
+      // Implicit TLS, usually on port 465; otherwise the connection is upgraded with STARTTLS when offered
+      secure: readBoolean("SMTP_SECURE", false),
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD,
+    },
+  },
+  sms: {
+    transport: readSmsTransport(),
+    // Directory of the file transport
+    outboxDir: process.env.SMS_OUTBOX_DIR || "outbox/sms",
+    // Gateway receiving a JSON POST for each message, authenticated with a bearer token when one is set
+    gatewayUrl: process.env.SMS_GATEWAY_URL || "",
+    gatewayToken: process.env.SMS_GATEWAY_TOKEN,
+    sender: process.env.SMS_SENDER || "SuiviScol",
+  },
+  notifications: {
+    // Deliveries are attempted this many times; the delay between attempts starts at retrySeconds and doubles
+    maxAttempts: readInteger("NOTIFICATION_MAX_ATTEMPTS", 5),
+    retrySeconds: readInteger("NOTIFICATION_RETRY_SECONDS", 60),
+    // How often the outbox is checked for messages to deliver
+    pollSeconds: readInteger("NOTIFICATION_POLL_SECONDS", 10),
+  },
+  attendanceReminders: {
+    // Teachers are reminded of a planned session without attendance this many hours after it started, then
+    // again after the same delay, up to maxReminders times
+    reminderHours: readInteger("ATTENDANCE_REMINDER_HOURS", 24),
+    maxReminders: readInteger("ATTENDANCE_MAX_REMINDERS", 3),
+    // Reminders about sessions older than this also go to the department heads of the course
+    escalationHours: readInteger("ATTENDANCE_ESCALATION_HOURS", 72),
+    // How often planned sessions are checked for missing attendance
+    checkMinutes: readInteger("ATTENDANCE_CHECK_MINUTES", 60),
+  },
+  uploads: {
+    // Directory holding documents attached to justification requests
+    dir: process.env.UPLOAD_DIR || "uploads",
+    maxFileSizeMb: readInteger("UPLOAD_MAX_FILE_MB", 5),
+  },
+};
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { eq } from "drizzle-orm";
+import { dataMigrations, settings, type Absence, type Course, type ModuleElement, type Student } from "@shared/schema";
+import type { Database } from "./db";
+import { DbStorage } from "./db-storage";
+import { DeleteRestrictedError, ValidationError } from "./integrity";
+import { runDataMigrations } from "./migrations";
+import { ROLE_PERMISSIONS_KEY } from "./permissions";
+import { createTestDb } from "./test-db";
+
+describe("DbStorage", () => {
+  let db: Database;
+  let close: () => Promise<void>;
+  let storage: DbStorage;
+  let course: Course;
+  let element: ModuleElement;
+  let student: Student;
+
+  beforeEach(async () => {
+    ({ db, close } = await createTestDb());
+    storage = new DbStorage(db);
+    await storage.initialize();
+    const department = await storage.createDepartment({ name: "Informatique" });
+    course = await storage.createCourse({ name: "Génie informatique", code: "GI", departmentId: department.id });
+    const module = await storage.createModule({ name: "Algorithmique", code: "M1", courseId: course.id });
+    element = await storage.createModuleElement({ name: "Tris", code: "E1", moduleId: module.id, type: "course" });
+    student = await storage.createStudent({
+      studentId: "S1", firstName: "Amine", lastName: "Benali", email: "amine@example.com", courseId: course.id,
+    });
+  }, 30_000);
+
+  afterEach(() => close());
+
+  function session(day: number) {
+    return storage.createSession({ date: new Date(2026, 9, day, 8), type: "course", moduleElementId: element.id, teacherId: 2 });
+  }
+
+  it("seeds accounts that must change their password", async () => {
+    for (const username of ["admin", "teacher", "head_d"]) {
+      expect(await storage.getUserByUsername(username)).toMatchObject({ mustChangePassword: true });
+    }
+  });
+
+  it("applies each data migration once", async () => {
+    const { id: sessionId } = await session(12);
+    await storage.createAbsence({ sessionId, studentId: student.id, status: "absent" });
+    await storage.updateSession(sessionId, { attendanceRecordedAt: null });
+    await db.delete(dataMigrations);
+    await db.insert(settings).values({
+      key: ROLE_PERMISSIONS_KEY,
+      value: JSON.stringify({ admin: ["users:manage"], teacher: ["sessions:edit:own"], departmentHead: ["reports:view"] }),
+    });
+
+    await runDataMigrations(db);
+    await runDataMigrations(db);
+
+    expect((await storage.getSession(sessionId))?.attendanceRecordedAt).toEqual(new Date(2026, 9, 12, 8));
+    const [setting] = await db.select().from(settings).where(eq(settings.key, ROLE_PERMISSIONS_KEY));
+    expect(JSON.parse(setting.value)).toEqual({
+      admin: ["users:manage", "departments:all"],
+      teacher: ["sessions:edit:own", "departments:all"],
+      departmentHead: ["reports:view"],
+    });
+    expect(await db.select().from(dataMigrations)).toHaveLength(2);
+  });
+
+  it("records when attendance was taken for a session", async () => {
+    const { id: sessionId } = await session(12);
+
+    await storage.createAbsence({ sessionId, studentId: student.id, status: "absent" });
+
+    expect((await storage.getSession(sessionId))?.attendanceRecordedAt).toBeInstanceOf(Date);
+  });
+
+  it("finds the sessions overlapping a booking, with the default length for those without an end", async () => {
+    const overlapping = await session(12);
+    await session(13);
+
+    const found = await storage.listSessionsOverlapping(
+      new Date(2026, 9, 12, 9), new Date(2026, 9, 12, 11), { teacherId: 2, groupId: null, roomId: null },
+    );
+
+    expect(found.map(row => row.id)).toEqual([overlapping.id]);
+  });
+
+  describe("reviewJustificationRequest", () => {
+    let absences: Absence[];
+    let requestId: number;
+
+    beforeEach(async () => {
+      absences = [];
+      for (const day of [12, 13]) {
+        const { id: sessionId } = await session(day);
+        absences.push(await storage.createAbsence({ sessionId, studentId: student.id, status: "absent" }));
+      }
+      ({ id: requestId } = await storage.createJustificationRequest({
+        studentId: student.id,
+        reason: "medical",
+        explanation: "Grippe",
+        status: "pending",
+        submittedById: 2,
+        submittedAt: new Date(),
+      }, absences.map(absence => absence.id), []));
+    });
+
+    const review = (status: "approved" | "rejected") =>
+      storage.reviewJustificationRequest(requestId, { status, reviewedById: 3, reviewedAt: new Date(), reviewComment: null });
+
+    it("justifies the absences still to excuse, not those corrected since the request", async () => {
+      await storage.updateAbsence(absences[1].id, { status: "present" });
+
+      const reviewed = await review("approved");
+
+      expect(reviewed?.absences.map(absence => absence.id)).toEqual([absences[0].id]);
+      expect((await storage.getAbsence(absences[0].id))?.status).toBe("justified");
+      expect((await storage.getAbsence(absences[1].id))?.status).toBe("present");
+    });
+
+    it("lets only one of two concurrent reviews through", async () => {
+      const results = await Promise.allSettled([review("rejected"), review("approved")]);
+
+      expect(results.filter(result => result.status === "fulfilled")).toHaveLength(1);
+      expect(results.find(result => result.status === "rejected")).toMatchObject({ reason: expect.any(ValidationError) });
+      const { status } = (await storage.getJustificationRequest(requestId))!;
+      expect((await storage.getAbsence(absences[0].id))?.status).toBe(status === "approved" ? "justified" : "absent");
+    });
+  });
+
+  it("refuses to delete a row still referenced by a restricting relation, and deletes nothing", async () => {
+    await expect(storage.deleteCourse(course.id)).rejects.toBeInstanceOf(DeleteRestrictedError);
+
+    expect(await storage.getModuleElement(element.id)).toBeDefined();
+  });
+});
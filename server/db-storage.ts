@@ -0,0 +1,1206 @@
+import { and, asc, desc, eq, getTableColumns, gt, inArray, isNull, lt, lte, or, sql } from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
+import {
+  users, departments, courses, modules, moduleElements, teacherModuleElements,
+  students, studentGroups, studentGroupAssignments, sessions, absences,
+  academicYears, semesters, enrollments, settings, passwordResetTokens, userSessions,
+  ownershipOverrides, auditLog, justificationRequests, justificationRequestAbsences, justificationDocuments,
+  magicLinkTokens, guardians, thresholdLevels, absenceAlerts, notificationPreferences, notificationOutbox, notifications,
+  timetableSlots, attendanceReminders, rooms, User, InsertUser, Department, InsertDepartment, Course, InsertCourse,
+  Module, InsertModule, ModuleElement, InsertModuleElement,
+  TeacherModuleElement, InsertTeacherModuleElement, Student, InsertStudent,
+  StudentGroup, InsertStudentGroup, StudentGroupAssignment, InsertStudentGroupAssignment,
+  Session, InsertSession, Absence, InsertAbsence,
+  AcademicYear, InsertAcademicYear, Semester, InsertSemester, Enrollment, InsertEnrollment,
+  PasswordResetToken, InsertPasswordResetToken, UserSession, InsertUserSession,
+  OwnershipOverride, InsertOwnershipOverride, AuditEntry, InsertAuditEntry,
+  JustificationRequest, InsertJustificationRequest, JustificationRequestAbsence,
+  JustificationDocument, InsertJustificationDocument, MagicLinkToken, InsertMagicLinkToken,
+  Guardian, InsertGuardian, ThresholdLevel, InsertThresholdLevel, AbsenceAlert, InsertAbsenceAlert,
+  NotificationPreference, InsertNotificationPreference, OutboxMessage, InsertOutboxMessage,
+  Notification, InsertNotification, TimetableSlot, InsertTimetableSlot,
+  AttendanceReminder, InsertAttendanceReminder, Room, InsertRoom
+} from "@shared/schema";
+import { UNTIMED_SESSION_HOURS } from "@shared/session-hours";
+import type { Database, Transaction } from "./db";
+import type { AttendanceEntry, IStorage, JustificationReview, SessionResources } from "./storage";
+import { planDeletion, validateRow, ForeignKeyError, ValidationError, type RowReader, type EntityName, type DeletionPlan, type StoredRow } from "./integrity";
+import { assertAttendanceRoster, JUSTIFIABLE_STATUSES } from "./attendance";
+import { runDataMigrations } from "./migrations";
+
+const tables = {
+  users,
+  departments,
+  courses,
+  modules,
+  moduleElements,
+  teacherModuleElements,
+  students,
+  studentGroups,
+  studentGroupAssignments,
+  sessions,
+  timetableSlots,
+  rooms,
+  attendanceReminders,
+  absences,
+  academicYears,
+  semesters,
+  enrollments,
+  passwordResetTokens,
+  userSessions,
+  ownershipOverrides,
+  auditLog,
+  justificationRequests,
+  justificationRequestAbsences,
+  justificationDocuments,
+  magicLinkTokens,
+  guardians,
+  thresholdLevels,
+  absenceAlerts,
+  notificationPreferences,
+  notificationOutbox,
+  notifications,
+};
+
+function column(entity: EntityName, name: string): PgColumn {
+  return (getTableColumns(tables[entity]) as Record<string, PgColumn>)[name];
+}
+
+function rowReader(tx: Database | Transaction): RowReader {
+  return {
+    async findIdsByColumn(entity, name, values) {
+      const rows = await tx
+        .select({ id: column(entity, "id") })
+        .from(tables[entity])
+        .where(inArray(column(entity, name), values));
+      return rows.map(row => row.id as number);
+    },
+    async findRowsByColumn(entity, name, values) {
+      const rows = await tx
+        .select()
+        .from(tables[entity])
+        .where(inArray(column(entity, name), values));
+      return rows as StoredRow[];
+    },
+  };
+}
+
+// Sessions that get attendance rows have had their attendance taken, however the rows were written
+async function markAttendanceRecorded(tx: Transaction, sessionIds: number[]): Promise<void> {
+  await tx
+    .update(sessions)
+    .set({ attendanceRecordedAt: new Date() })
+    .where(and(inArray(sessions.id, Array.from(new Set(sessionIds))), isNull(sessions.attendanceRecordedAt)));
+}
+
+export class DbStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  // Delete a row together with its cascading dependents, atomically, following the rules in integrity.ts
+  private async deleteCascading(entity: EntityName, id: number): Promise<boolean> {
+    return this.db.transaction(async tx => {
+      const existing = await tx
+        .select({ id: column(entity, "id") })
+        .from(tables[entity])
+        .where(eq(column(entity, "id"), id));
+      if (existing.length === 0) return false;
+
+      const plan = await planDeletion(rowReader(tx), entity, id);
+      for (const step of plan) {
+        await tx.delete(tables[step.entity]).where(inArray(column(step.entity, "id"), step.ids));
+      }
+      return true;
+    });
+  }
+
+  async planDeletion(entity: EntityName, id: number): Promise<DeletionPlan> {
+    return planDeletion(rowReader(this.db), entity, id);
+  }
+
+  // Create the default accounts on an empty database so a fresh install can log in
+  async initialize(): Promise<void> {
+    await runDataMigrations(this.db);
+
+    const existingUsers = await this.db.select({ id: users.id }).from(users).limit(1);
+    if (existingUsers.length > 0) return;
+
+    await this.db.insert(users).values([
+      {
+        username: "admin",
+        password: "admin",
+        fullName: "Administrator",
+        email: "admin@example.com",
+        role: "admin",
+        mustChangePassword: true,
+      },
+      {
+        username: "teacher",
+        password: "teacher",
+        fullName: "Teacher",
+        email: "teacher@example.com",
+        role: "teacher",
+        mustChangePassword: true,
+      },
+      {
+        username: "head_d",
+        password: "head_d",
+        fullName: "Department Head",
+        email: "head_d@example.com",
+        role: "departmentHead",
+        mustChangePassword: true,
+      },
+    ]);
+  }
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async getUserByStudentId(studentId: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.studentId, studentId));
+    return user;
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    await validateRow(rowReader(this.db), "users", user);
+    const [newUser] = await this.db.insert(users).values(user).returning();
+    return newUser;
+  }
+
+  async updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined> {
+    if (Object.keys(user).length === 0) return this.getUser(id);
+    await validateRow(rowReader(this.db), "users", user, id);
+    const [updatedUser] = await this.db.update(users).set(user).where(eq(users.id, id)).returning();
+    return updatedUser;
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    return this.deleteCascading("users", id);
+  }
+
+  async listUsers(): Promise<User[]> {
+    return this.db.select().from(users).orderBy(users.id);
+  }
+
+  // Department operations
+  async getDepartment(id: number): Promise<Department | undefined> {
+    const [department] = await this.db.select().from(departments).where(eq(departments.id, id));
+    return department;
+  }
+
+  async createDepartment(department: InsertDepartment): Promise<Department> {
+    await validateRow(rowReader(this.db), "departments", department);
+    const [newDepartment] = await this.db.insert(departments).values(department).returning();
+    return newDepartment;
+  }
+
+  async updateDepartment(id: number, department: Partial<InsertDepartment>): Promise<Department | undefined> {
+    if (Object.keys(department).length === 0) return this.getDepartment(id);
+    await validateRow(rowReader(this.db), "departments", department, id);
+    const [updatedDepartment] = await this.db
+      .update(departments)
+      .set(department)
+      .where(eq(departments.id, id))
+      .returning();
+    return updatedDepartment;
+  }
+
+  async deleteDepartment(id: number): Promise<boolean> {
+    return this.deleteCascading("departments", id);
+  }
+
+  async listDepartments(): Promise<Department[]> {
+    return this.db.select().from(departments).orderBy(departments.id);
+  }
+
+  // Course operations
+  async getCourse(id: number): Promise<Course | undefined> {
+    const [course] = await this.db.select().from(courses).where(eq(courses.id, id));
+    return course;
+  }
+
+  async createCourse(course: InsertCourse): Promise<Course> {
+    await validateRow(rowReader(this.db), "courses", course);
+    const [newCourse] = await this.db.insert(courses).values(course).returning();
+    return newCourse;
+  }
+
+  async updateCourse(id: number, course: Partial<InsertCourse>): Promise<Course | undefined> {
+    if (Object.keys(course).length === 0) return this.getCourse(id);
+    await validateRow(rowReader(this.db), "courses", course, id);
+    const [updatedCourse] = await this.db.update(courses).set(course).where(eq(courses.id, id)).returning();
+    return updatedCourse;
+  }
+
+  async deleteCourse(id: number): Promise<boolean> {
+    return this.deleteCascading("courses", id);
+  }
+
+  async listCourses(): Promise<Course[]> {
+    return this.db.select().from(courses).orderBy(courses.id);
+  }
+
+  async listCoursesByDepartment(departmentId: number): Promise<Course[]> {
+    return this.db.select().from(courses).where(eq(courses.departmentId, departmentId)).orderBy(courses.id);
+  }
+
+  // Module operations
+  async getModule(id: number): Promise<Module | undefined> {
+    const [module] = await this.db.select().from(modules).where(eq(modules.id, id));
+    return module;
+  }
+
+  async createModule(module: InsertModule): Promise<Module> {
+    await validateRow(rowReader(this.db), "modules", module);
+    const [newModule] = await this.db.insert(modules).values(module).returning();
+    return newModule;
+  }
+
+  async updateModule(id: number, module: Partial<InsertModule>): Promise<Module | undefined> {
+    if (Object.keys(module).length === 0) return this.getModule(id);
+    await validateRow(rowReader(this.db), "modules", module, id);
+    const [updatedModule] = await this.db.update(modules).set(module).where(eq(modules.id, id)).returning();
+    return updatedModule;
+  }
+
+  async deleteModule(id: number): Promise<boolean> {
+    return this.deleteCascading("modules", id);
+  }
+
+  async listModules(): Promise<Module[]> {
+    return this.db.select().from(modules).orderBy(modules.id);
+  }
+
+  async listModulesByCourse(courseId: number): Promise<Module[]> {
+    return this.db.select().from(modules).where(eq(modules.courseId, courseId)).orderBy(modules.id);
+  }
+
+  // Module Element operations
+  async getModuleElement(id: number): Promise<ModuleElement | undefined> {
+    const [moduleElement] = await this.db.select().from(moduleElements).where(eq(moduleElements.id, id));
+    return moduleElement;
+  }
+
+  async createModuleElement(moduleElement: InsertModuleElement): Promise<ModuleElement> {
+    await validateRow(rowReader(this.db), "moduleElements", moduleElement);
+    const [newModuleElement] = await this.db.insert(moduleElements).values(moduleElement).returning();
+    return newModuleElement;
+  }
+
+  async updateModuleElement(id: number, moduleElement: Partial<InsertModuleElement>): Promise<ModuleElement | undefined> {
+    if (Object.keys(moduleElement).length === 0) return this.getModuleElement(id);
+    await validateRow(rowReader(this.db), "moduleElements", moduleElement, id);
+    const [updatedModuleElement] = await this.db
+      .update(moduleElements)
+      .set(moduleElement)
+      .where(eq(moduleElements.id, id))
+      .returning();
+    return updatedModuleElement;
+  }
+
+  async deleteModuleElement(id: number): Promise<boolean> {
+    return this.deleteCascading("moduleElements", id);
+  }
+
+  async listModuleElements(): Promise<ModuleElement[]> {
+    return this.db.select().from(moduleElements).orderBy(moduleElements.id);
+  }
+
+  async listModuleElementsByModule(moduleId: number): Promise<ModuleElement[]> {
+    return this.db
+      .select()
+      .from(moduleElements)
+      .where(eq(moduleElements.moduleId, moduleId))
+      .orderBy(moduleElements.id);
+  }
+
+  // Teacher Module Element operations
+  async assignTeacherToModuleElement(assignment: InsertTeacherModuleElement): Promise<TeacherModuleElement> {
+    await validateRow(rowReader(this.db), "teacherModuleElements", assignment);
+    const [newAssignment] = await this.db.insert(teacherModuleElements).values(assignment).returning();
+    return newAssignment;
+  }
+
+  async removeTeacherFromModuleElement(teacherId: number, moduleElementId: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(teacherModuleElements)
+      .where(and(
+        eq(teacherModuleElements.teacherId, teacherId),
+        eq(teacherModuleElements.moduleElementId, moduleElementId)
+      ))
+      .returning({ id: teacherModuleElements.id });
+    return deleted.length > 0;
+  }
+
+  async listTeacherModuleElements(teacherId: number): Promise<TeacherModuleElement[]> {
+    return this.db
+      .select()
+      .from(teacherModuleElements)
+      .where(eq(teacherModuleElements.teacherId, teacherId))
+      .orderBy(teacherModuleElements.id);
+  }
+
+  // Student operations
+  async getStudent(id: number): Promise<Student | undefined> {
+    const [student] = await this.db.select().from(students).where(eq(students.id, id));
+    return student;
+  }
+
+  async createStudent(student: InsertStudent): Promise<Student> {
+    await validateRow(rowReader(this.db), "students", student);
+    const [newStudent] = await this.db.insert(students).values(student).returning();
+    return newStudent;
+  }
+
+  async updateStudent(id: number, student: Partial<InsertStudent>): Promise<Student | undefined> {
+    if (Object.keys(student).length === 0) return this.getStudent(id);
+    await validateRow(rowReader(this.db), "students", student, id);
+    const [updatedStudent] = await this.db.update(students).set(student).where(eq(students.id, id)).returning();
+    return updatedStudent;
+  }
+
+  async deleteStudent(id: number): Promise<boolean> {
+    return this.deleteCascading("students", id);
+  }
+
+  async listStudents(): Promise<Student[]> {
+    return this.db.select().from(students).orderBy(students.id);
+  }
+
+  async listStudentsByCourse(courseId: number): Promise<Student[]> {
+    return this.db.select().from(students).where(eq(students.courseId, courseId)).orderBy(students.id);
+  }
+
+  // Student Group operations
+  async getStudentGroup(id: number): Promise<StudentGroup | undefined> {
+    const [group] = await this.db.select().from(studentGroups).where(eq(studentGroups.id, id));
+    return group;
+  }
+
+  async createStudentGroup(group: InsertStudentGroup): Promise<StudentGroup> {
+    await validateRow(rowReader(this.db), "studentGroups", group);
+    const [newGroup] = await this.db.insert(studentGroups).values(group).returning();
+    return newGroup;
+  }
+
+  async updateStudentGroup(id: number, group: Partial<InsertStudentGroup>): Promise<StudentGroup | undefined> {
+    if (Object.keys(group).length === 0) return this.getStudentGroup(id);
+    await validateRow(rowReader(this.db), "studentGroups", group, id);
+    const [updatedGroup] = await this.db
+      .update(studentGroups)
+      .set(group)
+      .where(eq(studentGroups.id, id))
+      .returning();
+    return updatedGroup;
+  }
+
+  async deleteStudentGroup(id: number): Promise<boolean> {
+    return this.deleteCascading("studentGroups", id);
+  }
+
+  async listStudentGroups(): Promise<StudentGroup[]> {
+    return this.db.select().from(studentGroups).orderBy(studentGroups.id);
+  }
+
+  async listStudentGroupsByCourse(courseId: number): Promise<StudentGroup[]> {
+    return this.db
+      .select()
+      .from(studentGroups)
+      .where(eq(studentGroups.courseId, courseId))
+      .orderBy(studentGroups.id);
+  }
+
+  // Student Group Assignment operations
+  async assignStudentToGroup(assignment: InsertStudentGroupAssignment): Promise<StudentGroupAssignment> {
+    await validateRow(rowReader(this.db), "studentGroupAssignments", assignment);
+    const [newAssignment] = await this.db.insert(studentGroupAssignments).values(assignment).returning();
+    return newAssignment;
+  }
+
+  async removeStudentFromGroup(studentId: number, groupId: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(studentGroupAssignments)
+      .where(and(
+        eq(studentGroupAssignments.studentId, studentId),
+        eq(studentGroupAssignments.groupId, groupId)
+      ))
+      .returning({ id: studentGroupAssignments.id });
+    return deleted.length > 0;
+  }
+
+  async listStudentGroupAssignments(groupId: number): Promise<StudentGroupAssignment[]> {
+    return this.db
+      .select()
+      .from(studentGroupAssignments)
+      .where(eq(studentGroupAssignments.groupId, groupId))
+      .orderBy(studentGroupAssignments.id);
+  }
+
+  async listStudentsByGroup(groupId: number): Promise<Student[]> {
+    const assignments = await this.listStudentGroupAssignments(groupId);
+    const studentIds = assignments.map(assignment => assignment.studentId);
+    if (studentIds.length === 0) return [];
+    return this.db.select().from(students).where(inArray(students.id, studentIds)).orderBy(students.id);
+  }
+
+  // Session operations
+  async getSession(id: number): Promise<Session | undefined> {
+    const [session] = await this.db.select().from(sessions).where(eq(sessions.id, id));
+    return session;
+  }
+
+  async createSession(session: InsertSession): Promise<Session> {
+    await validateRow(rowReader(this.db), "sessions", session);
+    const [newSession] = await this.db.insert(sessions).values(session).returning();
+    return newSession;
+  }
+
+  async updateSession(id: number, session: Partial<InsertSession>): Promise<Session | undefined> {
+    if (Object.keys(session).length === 0) return this.getSession(id);
+    await validateRow(rowReader(this.db), "sessions", session, id);
+    const [updatedSession] = await this.db.update(sessions).set(session).where(eq(sessions.id, id)).returning();
+    return updatedSession;
+  }
+
+  async deleteSession(id: number): Promise<boolean> {
+    return this.deleteCascading("sessions", id);
+  }
+
+  async listSessions(): Promise<Session[]> {
+    return this.db.select().from(sessions).orderBy(sessions.id);
+  }
+
+  async listSessionsByTeacher(teacherId: number): Promise<Session[]> {
+    return this.db.select().from(sessions).where(eq(sessions.teacherId, teacherId)).orderBy(sessions.id);
+  }
+
+  async listSessionsByModuleElement(moduleElementId: number): Promise<Session[]> {
+    return this.db
+      .select()
+      .from(sessions)
+      .where(eq(sessions.moduleElementId, moduleElementId))
+      .orderBy(sessions.id);
+  }
+
+  async listSessionsBySlot(slotId: number): Promise<Session[]> {
+    return this.db.select().from(sessions).where(eq(sessions.slotId, slotId)).orderBy(sessions.id);
+  }
+
+  async listSessionsOverlapping(from: Date, to: Date, booking: SessionResources): Promise<Session[]> {
+    const endsAt = sql`coalesce(${sessions.endsAt}, ${sessions.date} + make_interval(hours => ${UNTIMED_SESSION_HOURS}))`;
+    const resources = booking.groupId == null
+      ? undefined
+      : or(
+        booking.roomId == null ? undefined : eq(sessions.roomId, booking.roomId),
+        eq(sessions.teacherId, booking.teacherId),
+        isNull(sessions.groupId),
+        eq(sessions.groupId, booking.groupId)
+      );
+    return this.db
+      .select()
+      .from(sessions)
+      // Compared as the timestamp column maps dates, in UTC
+      .where(and(lt(sessions.date, to), gt(endsAt, from.toISOString()), resources))
+      .orderBy(sessions.id);
+  }
+
+  async recordAttendance(session: InsertSession, attendance: AttendanceEntry[]): Promise<{ session: Session; absences: Absence[] }> {
+    await validateRow(rowReader(this.db), "sessions", session);
+    for (const entry of attendance) {
+      await validateRow(rowReader(this.db), "absences", entry);
+    }
+    await assertAttendanceRoster(this, session, attendance.map(entry => entry.studentId));
+
+    return this.db.transaction(async tx => {
+      const [newSession] = await tx.insert(sessions).values({ ...session, attendanceRecordedAt: new Date() }).returning();
+      const newAbsences = attendance.length === 0
+        ? []
+        : await tx
+          .insert(absences)
+          .values(attendance.map(entry => ({ ...entry, sessionId: newSession.id })))
+          .returning();
+      return { session: newSession, absences: newAbsences };
+    });
+  }
+
+  async recordSessionAttendance(sessionId: number, attendance: AttendanceEntry[]): Promise<Absence[]> {
+    const session = await this.getSession(sessionId);
+    if (!session) {
+      throw new ForeignKeyError("absences", "sessionId", sessionId, "sessions");
+    }
+    for (const entry of attendance) {
+      await validateRow(rowReader(this.db), "absences", entry);
+    }
+    await assertAttendanceRoster(this, session, attendance.map(entry => entry.studentId));
+
+    return this.db.transaction(async tx => {
+      // Claiming the session first makes concurrent recordings of the same session fail
+      const [claimed] = await tx
+        .update(sessions)
+        .set({ attendanceRecordedAt: new Date() })
+        .where(and(eq(sessions.id, sessionId), isNull(sessions.attendanceRecordedAt)))
+        .returning({ id: sessions.id });
+      if (!claimed) {
+        throw new ValidationError("Attendance has already been recorded for this session", "sessionId");
+      }
+      if (attendance.length === 0) return [];
+      return tx.insert(absences).values(attendance.map(entry => ({ ...entry, sessionId }))).returning();
+    });
+  }
+
+  async planSessions(plannedSessions: InsertSession[]): Promise<Session[]> {
+    for (const session of plannedSessions) {
+      await validateRow(rowReader(this.db), "sessions", session);
+    }
+    if (plannedSessions.length === 0) return [];
+    return this.db.insert(sessions).values(plannedSessions).returning();
+  }
+
+  // Room operations
+  async getRoom(id: number): Promise<Room | undefined> {
+    const [room] = await this.db.select().from(rooms).where(eq(rooms.id, id));
+    return room;
+  }
+
+  async createRoom(room: InsertRoom): Promise<Room> {
+    await validateRow(rowReader(this.db), "rooms", room);
+    const [newRoom] = await this.db.insert(rooms).values(room).returning();
+    return newRoom;
+  }
+
+  async updateRoom(id: number, room: Partial<InsertRoom>): Promise<Room | undefined> {
+    if (Object.keys(room).length === 0) return this.getRoom(id);
+    await validateRow(rowReader(this.db), "rooms", room, id);
+    const [updatedRoom] = await this.db.update(rooms).set(room).where(eq(rooms.id, id)).returning();
+    return updatedRoom;
+  }
+
+  async deleteRoom(id: number): Promise<boolean> {
+    return this.deleteCascading("rooms", id);
+  }
+
+  async listRooms(): Promise<Room[]> {
+    return this.db.select().from(rooms).orderBy(rooms.name);
+  }
+
+  // Timetable slot operations
+  async getTimetableSlot(id: number): Promise<TimetableSlot | undefined> {
+    const [slot] = await this.db.select().from(timetableSlots).where(eq(timetableSlots.id, id));
+    return slot;
+  }
+
+  async createTimetableSlot(slot: InsertTimetableSlot): Promise<TimetableSlot> {
+    await validateRow(rowReader(this.db), "timetableSlots", slot);
+    const [newSlot] = await this.db.insert(timetableSlots).values(slot).returning();
+    return newSlot;
+  }
+
+  async updateTimetableSlot(id: number, slot: Partial<InsertTimetableSlot>): Promise<TimetableSlot | undefined> {
+    if (Object.keys(slot).length === 0) return this.getTimetableSlot(id);
+    await validateRow(rowReader(this.db), "timetableSlots", slot, id);
+    const [updatedSlot] = await this.db.update(timetableSlots).set(slot).where(eq(timetableSlots.id, id)).returning();
+    return updatedSlot;
+  }
+
+  async deleteTimetableSlot(id: number): Promise<boolean> {
+    return this.deleteCascading("timetableSlots", id);
+  }
+
+  async listTimetableSlots(): Promise<TimetableSlot[]> {
+    return this.db.select().from(timetableSlots).orderBy(timetableSlots.id);
+  }
+
+  async listTimetableSlotsBySemester(semesterId: number): Promise<TimetableSlot[]> {
+    return this.db.select().from(timetableSlots).where(eq(timetableSlots.semesterId, semesterId)).orderBy(timetableSlots.id);
+  }
+
+  // Attendance reminder operations
+  async createAttendanceReminder(reminder: InsertAttendanceReminder): Promise<AttendanceReminder> {
+    await validateRow(rowReader(this.db), "attendanceReminders", reminder);
+    const [newReminder] = await this.db.insert(attendanceReminders).values(reminder).returning();
+    return newReminder;
+  }
+
+  async listAttendanceReminders(sessionId: number): Promise<AttendanceReminder[]> {
+    return this.db
+      .select()
+      .from(attendanceReminders)
+      .where(eq(attendanceReminders.sessionId, sessionId))
+      .orderBy(attendanceReminders.id);
+  }
+
+  // Absence operations
+  async getAbsence(id: number): Promise<Absence | undefined> {
+    const [absence] = await this.db.select().from(absences).where(eq(absences.id, id));
+    return absence;
+  }
+
+  async createAbsence(absence: InsertAbsence): Promise<Absence> {
+    await validateRow(rowReader(this.db), "absences", absence);
+    return this.db.transaction(async tx => {
+      const [newAbsence] = await tx.insert(absences).values(absence).returning();
+      await markAttendanceRecorded(tx, [newAbsence.sessionId]);
+      return newAbsence;
+    });
+  }
+
+  async updateAbsence(id: number, absence: Partial<InsertAbsence>): Promise<Absence | undefined> {
+    if (Object.keys(absence).length === 0) return this.getAbsence(id);
+    await validateRow(rowReader(this.db), "absences", absence, id);
+    return this.db.transaction(async tx => {
+      const [updatedAbsence] = await tx.update(absences).set(absence).where(eq(absences.id, id)).returning();
+      if (updatedAbsence) await markAttendanceRecorded(tx, [updatedAbsence.sessionId]);
+      return updatedAbsence;
+    });
+  }
+
+  async deleteAbsence(id: number): Promise<boolean> {
+    return this.deleteCascading("absences", id);
+  }
+
+  async listAbsences(): Promise<Absence[]> {
+    return this.db.select().from(absences).orderBy(absences.id);
+  }
+
+  async listAbsencesBySession(sessionId: number): Promise<Absence[]> {
+    return this.db.select().from(absences).where(eq(absences.sessionId, sessionId)).orderBy(absences.id);
+  }
+
+  async listAbsencesByStudent(studentId: number): Promise<Absence[]> {
+    return this.db.select().from(absences).where(eq(absences.studentId, studentId)).orderBy(absences.id);
+  }
+
+  async batchCreateAbsences(absenceList: InsertAbsence[]): Promise<Absence[]> {
+    if (absenceList.length === 0) return [];
+    for (const absence of absenceList) {
+      await validateRow(rowReader(this.db), "absences", absence);
+    }
+    return this.db.transaction(async tx => {
+      const newAbsences = await tx.insert(absences).values(absenceList).returning();
+      await markAttendanceRecorded(tx, newAbsences.map(absence => absence.sessionId));
+      return newAbsences;
+    });
+  }
+
+  // Academic Year operations
+  async getAcademicYear(id: number): Promise<AcademicYear | undefined> {
+    const [academicYear] = await this.db.select().from(academicYears).where(eq(academicYears.id, id));
+    return academicYear;
+  }
+
+  async createAcademicYear(academicYear: InsertAcademicYear): Promise<AcademicYear> {
+    await validateRow(rowReader(this.db), "academicYears", academicYear);
+    const [newAcademicYear] = await this.db.insert(academicYears).values(academicYear).returning();
+    return newAcademicYear;
+  }
+
+  async updateAcademicYear(id: number, academicYear: Partial<InsertAcademicYear>): Promise<AcademicYear | undefined> {
+    if (Object.keys(academicYear).length === 0) return this.getAcademicYear(id);
+    await validateRow(rowReader(this.db), "academicYears", academicYear, id);
+    const [updatedAcademicYear] = await this.db
+      .update(academicYears)
+      .set(academicYear)
+      .where(eq(academicYears.id, id))
+      .returning();
+    return updatedAcademicYear;
+  }
+
+  async deleteAcademicYear(id: number): Promise<boolean> {
+    return this.deleteCascading("academicYears", id);
+  }
+
+  async listAcademicYears(): Promise<AcademicYear[]> {
+    return this.db.select().from(academicYears).orderBy(academicYears.startDate);
+  }
+
+  // Semester operations
+  async getSemester(id: number): Promise<Semester | undefined> {
+    const [semester] = await this.db.select().from(semesters).where(eq(semesters.id, id));
+    return semester;
+  }
+
+  async createSemester(semester: InsertSemester): Promise<Semester> {
+    await validateRow(rowReader(this.db), "semesters", semester);
+    const [newSemester] = await this.db.insert(semesters).values(semester).returning();
+    return newSemester;
+  }
+
+  async updateSemester(id: number, semester: Partial<InsertSemester>): Promise<Semester | undefined> {
+    if (Object.keys(semester).length === 0) return this.getSemester(id);
+    await validateRow(rowReader(this.db), "semesters", semester, id);
+    const [updatedSemester] = await this.db.update(semesters).set(semester).where(eq(semesters.id, id)).returning();
+    return updatedSemester;
+  }
+
+  async deleteSemester(id: number): Promise<boolean> {
+    return this.deleteCascading("semesters", id);
+  }
+
+  async listSemesters(): Promise<Semester[]> {
+    return this.db.select().from(semesters).orderBy(semesters.startDate);
+  }
+
+  async listSemestersByAcademicYear(academicYearId: number): Promise<Semester[]> {
+    return this.db
+      .select()
+      .from(semesters)
+      .where(eq(semesters.academicYearId, academicYearId))
+      .orderBy(semesters.startDate);
+  }
+
+  // Enrollment operations
+  async getEnrollment(id: number): Promise<Enrollment | undefined> {
+    const [enrollment] = await this.db.select().from(enrollments).where(eq(enrollments.id, id));
+    return enrollment;
+  }
+
+  async createEnrollment(enrollment: InsertEnrollment): Promise<Enrollment> {
+    await validateRow(rowReader(this.db), "enrollments", enrollment);
+    const [newEnrollment] = await this.db.insert(enrollments).values(enrollment).returning();
+    return newEnrollment;
+  }
+
+  async deleteEnrollment(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(enrollments).where(eq(enrollments.id, id)).returning({ id: enrollments.id });
+    return deleted.length > 0;
+  }
+
+  async listEnrollmentsByStudent(studentId: number): Promise<Enrollment[]> {
+    return this.db.select().from(enrollments).where(eq(enrollments.studentId, studentId)).orderBy(enrollments.id);
+  }
+
+  async listEnrollmentsByAcademicYear(academicYearId: number): Promise<Enrollment[]> {
+    return this.db
+      .select()
+      .from(enrollments)
+      .where(eq(enrollments.academicYearId, academicYearId))
+      .orderBy(enrollments.id);
+  }
+
+  // Settings operations
+  async getSetting(key: string): Promise<string | undefined> {
+    const [setting] = await this.db.select().from(settings).where(eq(settings.key, key));
+    return setting?.value;
+  }
+
+  async setSetting(key: string, value: string): Promise<void> {
+    await this.db
+      .insert(settings)
+      .values({ key, value })
+      .onConflictDoUpdate({ target: settings.key, set: { value } });
+  }
+
+  // Password reset token operations
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    await validateRow(rowReader(this.db), "passwordResetTokens", token);
+    const [newToken] = await this.db.insert(passwordResetTokens).values(token).returning();
+    return newToken;
+  }
+
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await this.db
+      .select()
+      .from(passwordResetTokens)
+      .where(eq(passwordResetTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async consumePasswordResetToken(id: number): Promise<boolean> {
+    // The usedAt condition makes the update a compare-and-set, so concurrent redemptions can't both succeed
+    const consumed = await this.db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.id, id), isNull(passwordResetTokens.usedAt)))
+      .returning({ id: passwordResetTokens.id });
+    return consumed.length > 0;
+  }
+
+  // Magic link token operations
+  async createMagicLinkToken(token: InsertMagicLinkToken): Promise<MagicLinkToken> {
+    await validateRow(rowReader(this.db), "magicLinkTokens", token);
+    const [newToken] = await this.db.insert(magicLinkTokens).values(token).returning();
+    return newToken;
+  }
+
+  async getMagicLinkTokenByHash(tokenHash: string): Promise<MagicLinkToken | undefined> {
+    const [token] = await this.db
+      .select()
+      .from(magicLinkTokens)
+      .where(eq(magicLinkTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async consumeMagicLinkToken(id: number): Promise<boolean> {
+    const consumed = await this.db
+      .update(magicLinkTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(magicLinkTokens.id, id), isNull(magicLinkTokens.usedAt)))
+      .returning({ id: magicLinkTokens.id });
+    return consumed.length > 0;
+  }
+
+  // User session operations
+  async saveUserSession(session: InsertUserSession): Promise<UserSession> {
+    const existing = await this.getUserSessionBySid(session.sid);
+    await validateRow(rowReader(this.db), "userSessions", session, existing?.id);
+    const { sid, createdAt, ...changes } = session;
+    const [saved] = await this.db
+      .insert(userSessions)
+      .values(session)
+      .onConflictDoUpdate({ target: userSessions.sid, set: changes })
+      .returning();
+    return saved;
+  }
+
+  async getUserSession(id: number): Promise<UserSession | undefined> {
+    const [session] = await this.db.select().from(userSessions).where(eq(userSessions.id, id));
+    return session;
+  }
+
+  async getUserSessionBySid(sid: string): Promise<UserSession | undefined> {
+    const [session] = await this.db.select().from(userSessions).where(eq(userSessions.sid, sid));
+    return session;
+  }
+
+  async deleteUserSession(id: number): Promise<boolean> {
+    return this.deleteCascading("userSessions", id);
+  }
+
+  async listUserSessions(): Promise<UserSession[]> {
+    return this.db.select().from(userSessions);
+  }
+
+  async listUserSessionsByUser(userId: number): Promise<UserSession[]> {
+    return this.db.select().from(userSessions).where(eq(userSessions.userId, userId));
+  }
+
+  // Ownership override operations
+  async createOwnershipOverride(override: InsertOwnershipOverride): Promise<OwnershipOverride> {
+    await validateRow(rowReader(this.db), "ownershipOverrides", override);
+    const [newOverride] = await this.db.insert(ownershipOverrides).values(override).returning();
+    return newOverride;
+  }
+
+  async listOwnershipOverrides(): Promise<OwnershipOverride[]> {
+    return this.db.select().from(ownershipOverrides);
+  }
+
+  // Audit log operations
+  async appendAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry> {
+    await validateRow(rowReader(this.db), "auditLog", entry);
+    const [newEntry] = await this.db.insert(auditLog).values(entry).returning();
+    return newEntry;
+  }
+
+  async getLatestAuditEntry(): Promise<AuditEntry | undefined> {
+    const [entry] = await this.db.select().from(auditLog).orderBy(desc(auditLog.id)).limit(1);
+    return entry;
+  }
+
+  async listAuditEntries(): Promise<AuditEntry[]> {
+    return this.db.select().from(auditLog).orderBy(asc(auditLog.id));
+  }
+
+  async listAuditEntriesByEntity(entity: string, entityId: number): Promise<AuditEntry[]> {
+    return this.db
+      .select()
+      .from(auditLog)
+      .where(and(eq(auditLog.entity, entity), eq(auditLog.entityId, entityId)))
+      .orderBy(asc(auditLog.id));
+  }
+
+  // Justification request operations
+  async createJustificationRequest(
+    request: InsertJustificationRequest,
+    absenceIds: number[],
+    documents: Omit<InsertJustificationDocument, "requestId">[]
+  ): Promise<JustificationRequest> {
+    await validateRow(rowReader(this.db), "justificationRequests", request);
+    for (const absenceId of absenceIds) {
+      await validateRow(rowReader(this.db), "justificationRequestAbsences", { absenceId });
+    }
+    for (const document of documents) {
+      await validateRow(rowReader(this.db), "justificationDocuments", document);
+    }
+
+    return this.db.transaction(async tx => {
+      const [newRequest] = await tx.insert(justificationRequests).values(request).returning();
+      if (absenceIds.length > 0) {
+        await tx
+          .insert(justificationRequestAbsences)
+          .values(absenceIds.map(absenceId => ({ requestId: newRequest.id, absenceId })));
+      }
+      if (documents.length > 0) {
+        await tx
+          .insert(justificationDocuments)
+          .values(documents.map(document => ({ ...document, requestId: newRequest.id })));
+      }
+      return newRequest;
+    });
+  }
+
+  async getJustificationRequest(id: number): Promise<JustificationRequest | undefined> {
+    const [request] = await this.db.select().from(justificationRequests).where(eq(justificationRequests.id, id));
+    return request;
+  }
+
+  async updateJustificationRequest(id: number, request: Partial<InsertJustificationRequest>): Promise<JustificationRequest | undefined> {
+    if (Object.keys(request).length === 0) return this.getJustificationRequest(id);
+    await validateRow(rowReader(this.db), "justificationRequests", request, id);
+    const [updatedRequest] = await this.db
+      .update(justificationRequests)
+      .set(request)
+      .where(eq(justificationRequests.id, id))
+      .returning();
+    return updatedRequest;
+  }
+
+  async listJustificationRequests(): Promise<JustificationRequest[]> {
+    return this.db.select().from(justificationRequests).orderBy(justificationRequests.id);
+  }
+
+  async listJustificationRequestsByStudent(studentId: number): Promise<JustificationRequest[]> {
+    return this.db
+      .select()
+      .from(justificationRequests)
+      .where(eq(justificationRequests.studentId, studentId))
+      .orderBy(justificationRequests.id);
+  }
+
+  async listJustificationRequestAbsences(requestId: number): Promise<JustificationRequestAbsence[]> {
+    return this.db
+      .select()
+      .from(justificationRequestAbsences)
+      .where(eq(justificationRequestAbsences.requestId, requestId));
+  }
+
+  async listJustificationRequestAbsencesByAbsence(absenceId: number): Promise<JustificationRequestAbsence[]> {
+    return this.db
+      .select()
+      .from(justificationRequestAbsences)
+      .where(eq(justificationRequestAbsences.absenceId, absenceId));
+  }
+
+  async reviewJustificationRequest(
+    id: number,
+    review: JustificationReview
+  ): Promise<{ request: JustificationRequest; absences: Absence[] } | undefined> {
+    if (!(await this.getJustificationRequest(id))) return undefined;
+    await validateRow(rowReader(this.db), "justificationRequests", review, id);
+
+    return this.db.transaction(async tx => {
+      // Only a pending request is updated, so of two concurrent reviews the second one finds nothing to change
+      const [request] = await tx
+        .update(justificationRequests)
+        .set(review)
+        .where(and(eq(justificationRequests.id, id), eq(justificationRequests.status, "pending")))
+        .returning();
+      if (!request) {
+        throw new ValidationError("This request has already been reviewed", "status");
+      }
+      if (review.status !== "approved") return { request, absences: [] };
+      const covered = tx
+        .select({ absenceId: justificationRequestAbsences.absenceId })
+        .from(justificationRequestAbsences)
+        .where(eq(justificationRequestAbsences.requestId, id));
+      const justified = await tx
+        .update(absences)
+        .set({ status: "justified" })
+        .where(and(inArray(absences.id, covered), inArray(absences.status, JUSTIFIABLE_STATUSES)))
+        .returning();
+      return { request, absences: justified };
+    });
+  }
+
+  async getJustificationDocument(id: number): Promise<JustificationDocument | undefined> {
+    const [document] = await this.db.select().from(justificationDocuments).where(eq(justificationDocuments.id, id));
+    return document;
+  }
+
+  async listJustificationDocuments(requestId: number): Promise<JustificationDocument[]> {
+    return this.db
+      .select()
+      .from(justificationDocuments)
+      .where(eq(justificationDocuments.requestId, requestId))
+      .orderBy(justificationDocuments.id);
+  }
+  // Guardian operations
+  async getGuardian(id: number): Promise<Guardian | undefined> {
+    const [guardian] = await this.db.select().from(guardians).where(eq(guardians.id, id));
+    return guardian;
+  }
+
+  async createGuardian(guardian: InsertGuardian): Promise<Guardian> {
+    await validateRow(rowReader(this.db), "guardians", guardian);
+    const [newGuardian] = await this.db.insert(guardians).values(guardian).returning();
+    return newGuardian;
+  }
+
+  async updateGuardian(id: number, guardian: Partial<InsertGuardian>): Promise<Guardian | undefined> {
+    if (Object.keys(guardian).length === 0) return this.getGuardian(id);
+    await validateRow(rowReader(this.db), "guardians", guardian, id);
+    const [updatedGuardian] = await this.db.update(guardians).set(guardian).where(eq(guardians.id, id)).returning();
+    return updatedGuardian;
+  }
+
+  async deleteGuardian(id: number): Promise<boolean> {
+    return this.deleteCascading("guardians", id);
+  }
+
+  async listGuardiansByStudent(studentId: number): Promise<Guardian[]> {
+    return this.db.select().from(guardians).where(eq(guardians.studentId, studentId)).orderBy(guardians.id);
+  }
+
+  async listGuardiansByEmail(email: string): Promise<Guardian[]> {
+    return this.db
+      .select()
+      .from(guardians)
+      .where(sql`lower(${guardians.email}) = ${email.trim().toLowerCase()}`)
+      .orderBy(guardians.id);
+  }
+
+  // Threshold level operations
+  async listThresholdLevels(courseId: number): Promise<ThresholdLevel[]> {
+    return this.db.select().from(thresholdLevels).where(eq(thresholdLevels.courseId, courseId)).orderBy(thresholdLevels.id);
+  }
+
+  async replaceThresholdLevels(
+    courseId: number,
+    levels: Omit<InsertThresholdLevel, "courseId">[]
+  ): Promise<ThresholdLevel[]> {
+    await validateRow(rowReader(this.db), "thresholdLevels", { courseId });
+    return this.db.transaction(async tx => {
+      await tx.delete(thresholdLevels).where(eq(thresholdLevels.courseId, courseId));
+      if (levels.length === 0) return [];
+      return tx.insert(thresholdLevels).values(levels.map(level => ({ ...level, courseId }))).returning();
+    });
+  }
+
+  // Absence alert operations
+  async getAbsenceAlert(id: number): Promise<AbsenceAlert | undefined> {
+    const [alert] = await this.db.select().from(absenceAlerts).where(eq(absenceAlerts.id, id));
+    return alert;
+  }
+
+  async createAbsenceAlert(alert: InsertAbsenceAlert): Promise<AbsenceAlert> {
+    await validateRow(rowReader(this.db), "absenceAlerts", alert);
+    const [newAlert] = await this.db.insert(absenceAlerts).values(alert).returning();
+    return newAlert;
+  }
+
+  async updateAbsenceAlert(id: number, alert: Partial<InsertAbsenceAlert>): Promise<AbsenceAlert | undefined> {
+    if (Object.keys(alert).length === 0) return this.getAbsenceAlert(id);
+    await validateRow(rowReader(this.db), "absenceAlerts", alert, id);
+    const [updatedAlert] = await this.db.update(absenceAlerts).set(alert).where(eq(absenceAlerts.id, id)).returning();
+    return updatedAlert;
+  }
+
+  async listAbsenceAlerts(): Promise<AbsenceAlert[]> {
+    return this.db.select().from(absenceAlerts).orderBy(absenceAlerts.id);
+  }
+
+  async listAbsenceAlertsByStudent(studentId: number): Promise<AbsenceAlert[]> {
+    return this.db.select().from(absenceAlerts).where(eq(absenceAlerts.studentId, studentId)).orderBy(absenceAlerts.id);
+  }
+
+  // Notification preference operations
+  async listNotificationPreferences(userId: number): Promise<NotificationPreference[]> {
+    return this.db
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId))
+      .orderBy(notificationPreferences.id);
+  }
+
+  async replaceNotificationPreferences(
+    userId: number,
+    preferences: Omit<InsertNotificationPreference, "userId">[]
+  ): Promise<NotificationPreference[]> {
+    await validateRow(rowReader(this.db), "notificationPreferences", { userId });
+    return this.db.transaction(async tx => {
+      await tx.delete(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+      if (preferences.length === 0) return [];
+      return tx
+        .insert(notificationPreferences)
+        .values(preferences.map(preference => ({ ...preference, userId })))
+        .returning();
+    });
+  }
+
+  // Notification outbox operations
+  async createOutboxMessage(message: InsertOutboxMessage): Promise<OutboxMessage> {
+    await validateRow(rowReader(this.db), "notificationOutbox", message);
+    const [newMessage] = await this.db.insert(notificationOutbox).values(message).returning();
+    return newMessage;
+  }
+
+  async updateOutboxMessage(id: number, message: Partial<InsertOutboxMessage>): Promise<OutboxMessage | undefined> {
+    if (Object.keys(message).length === 0) {
+      const [existingMessage] = await this.db.select().from(notificationOutbox).where(eq(notificationOutbox.id, id));
+      return existingMessage;
+    }
+    await validateRow(rowReader(this.db), "notificationOutbox", message, id);
+    const [updatedMessage] = await this.db
+      .update(notificationOutbox)
+      .set(message)
+      .where(eq(notificationOutbox.id, id))
+      .returning();
+    return updatedMessage;
+  }
+
+  async listDueOutboxMessages(now: Date): Promise<OutboxMessage[]> {
+    return this.db
+      .select()
+      .from(notificationOutbox)
+      .where(and(eq(notificationOutbox.status, "pending"), lte(notificationOutbox.nextAttemptAt, now)))
+      .orderBy(notificationOutbox.id);
+  }
+
+  // In-app notification operations
+  async getNotification(id: number): Promise<Notification | undefined> {
+    const [notification] = await this.db.select().from(notifications).where(eq(notifications.id, id));
+    return notification;
+  }
+
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    await validateRow(rowReader(this.db), "notifications", notification);
+    const [newNotification] = await this.db.insert(notifications).values(notification).returning();
+    return newNotification;
+  }
+
+  async updateNotification(id: number, notification: Partial<InsertNotification>): Promise<Notification | undefined> {
+    if (Object.keys(notification).length === 0) return this.getNotification(id);
+    await validateRow(rowReader(this.db), "notifications", notification, id);
+    const [updatedNotification] = await this.db
+      .update(notifications)
+      .set(notification)
+      .where(eq(notifications.id, id))
+      .returning();
+    return updatedNotification;
+  }
+
+  async listNotificationsByUser(userId: number): Promise<Notification[]> {
+    return this.db.select().from(notifications).where(eq(notifications.userId, userId)).orderBy(notifications.id);
+  }
+
+  async markNotificationsRead(userId: number, readAt: Date): Promise<number> {
+    const updated = await this.db
+      .update(notifications)
+      .set({ readAt })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+}
@@ -0,0 +1,111 @@
+import type { User, Student, StudentGroup, Enrollment, Session, InsertSession, Absence, InsertAbsence } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { ForbiddenError } from "./integrity";
+import { hasPermission } from "./permissions";
+
+// Records a user may read and change. Users without the departments:all permission, department heads by default,
+// are limited to the courses of their own department (plus the sessions they teach themselves).
+export class DepartmentScope {
+  private constructor(
+    private storage: IStorage,
+    private userId: number,
+    private departmentId: number | null,
+    // Courses in scope, or null when the user isn't restricted
+    readonly courseIds: number[] | null
+  ) {}
+
+  static async forUser(storage: IStorage, user: User): Promise<DepartmentScope> {
+    if (await hasPermission(storage, user, "departments:all")) {
+      return new DepartmentScope(storage, user.id, null, null);
+    }
+    // A user without a department manages nothing
+    const courses = user.departmentId == null ? [] : await storage.listCoursesByDepartment(user.departmentId);
+    return new DepartmentScope(storage, user.id, user.departmentId, courses.map(course => course.id));
+  }
+
+  get restricted(): boolean {
+    return this.courseIds !== null;
+  }
+
+  includesDepartment(departmentId: number | null): boolean {
+    return !this.restricted || departmentId === this.departmentId;
+  }
+
+  includesCourse(courseId: number): boolean {
+    return this.courseIds === null || this.courseIds.includes(courseId);
+  }
+
+  assertCourse(courseId: number): void {
+    if (!this.includesCourse(courseId)) {
+      throw new ForbiddenError("This course belongs to another department");
+    }
+  }
+
+  // Missing records are left for the route to report as 404 or a foreign key error
+  async assertGroup(groupId: number): Promise<void> {
+    if (!this.restricted) return;
+    const group = await this.storage.getStudentGroup(groupId);
+    if (group) this.assertCourse(group.courseId);
+  }
+
+  async assertStudent(studentId: number): Promise<void> {
+    if (!this.restricted) return;
+    const student = await this.storage.getStudent(studentId);
+    if (student) this.assertCourse(student.courseId);
+  }
+
+  async assertSession(session: Pick<InsertSession, "groupId" | "moduleElementId" | "teacherId">): Promise<void> {
+    if (!this.restricted || session.teacherId === this.userId) return;
+    if (session.groupId != null) {
+      return this.assertGroup(session.groupId);
+    }
+    // Sessions for a whole course have no group; their course is the module's
+    const moduleElement = await this.storage.getModuleElement(session.moduleElementId);
+    const module = moduleElement && await this.storage.getModule(moduleElement.moduleId);
+    if (module) this.assertCourse(module.courseId);
+  }
+
+  async assertAbsence(absence: Pick<InsertAbsence, "studentId" | "sessionId">): Promise<void> {
+    if (!this.restricted) return;
+    const session = await this.storage.getSession(absence.sessionId);
+    if (session?.teacherId === this.userId) return;
+    await this.assertStudent(absence.studentId);
+  }
+
+  filterStudents(students: Student[]): Student[] {
+    return students.filter(student => this.includesCourse(student.courseId));
+  }
+
+  filterGroups(groups: StudentGroup[]): StudentGroup[] {
+    return groups.filter(group => this.includesCourse(group.courseId));
+  }
+
+  filterEnrollments(enrollments: Enrollment[]): Enrollment[] {
+    return enrollments.filter(enrollment => this.includesCourse(enrollment.courseId));
+  }
+
+  // Sessions, or timetable slots, which are scoped the same way
+  async filterSessions<T extends Pick<Session, "groupId" | "moduleElementId" | "teacherId">>(sessions: T[]): Promise<T[]> {
+    if (!this.restricted) return sessions;
+    const groupIds = this.filterGroups(await this.storage.listStudentGroups()).map(group => group.id);
+    const moduleIds = (await this.storage.listModules())
+      .filter(module => this.includesCourse(module.courseId))
+      .map(module => module.id);
+    const moduleElementIds = (await this.storage.listModuleElements())
+      .filter(moduleElement => moduleIds.includes(moduleElement.moduleId))
+      .map(moduleElement => moduleElement.id);
+    return sessions.filter(session =>
+      session.teacherId === this.userId ||
+      (session.groupId != null ? groupIds.includes(session.groupId) : moduleElementIds.includes(session.moduleElementId))
+    );
+  }
+
+  async filterAbsences(absences: Absence[]): Promise<Absence[]> {
+    if (!this.restricted) return absences;
+    const studentIds = this.filterStudents(await this.storage.listStudents()).map(student => student.id);
+    const ownSessionIds = (await this.storage.listSessionsByTeacher(this.userId)).map(session => session.id);
+    return absences.filter(absence =>
+      studentIds.includes(absence.studentId) || ownSessionIds.includes(absence.sessionId)
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import type session from "express-session";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { FileSessionStore } from "./file-session-store";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe("FileSessionStore", () => {
+  let dir: string;
+  let store: FileSessionStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "sessions-"));
+    store = new FileSessionStore(dir, HOUR_MS);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  function data(userId: number): session.SessionData {
+    return { cookie: { originalMaxAge: HOUR_MS, expires: new Date(Date.now() + HOUR_MS) }, passport: { user: userId } } as any;
+  }
+
+  function call(method: (callback: (error?: any) => void) => void): Promise<void> {
+    return new Promise((resolve, reject) => method(error => (error ? reject(error) : resolve())));
+  }
+
+  function get(sid: string): Promise<session.SessionData | null | undefined> {
+    return new Promise((resolve, reject) => store.get(sid, (error, session) => (error ? reject(error) : resolve(session))));
+  }
+
+  it("keeps new sessions", async () => {
+    await call(callback => store.set("abc", data(1), callback));
+
+    expect(await get("abc")).toMatchObject({ passport: { user: 1 } });
+  });
+
+  it("doesn't write back a session saved after it was destroyed", async () => {
+    await call(callback => store.set("abc", data(1), callback));
+    await call(callback => store.destroy("abc", callback));
+
+    await call(callback => store.set("abc", data(1), callback));
+    await call(callback => store.touch("abc", data(1), callback));
+
+    expect(await get("abc")).toBeNull();
+    expect(await fs.readdir(dir)).toEqual([]);
+  });
+
+  it("removes a session destroyed while it was being saved", async () => {
+    await call(callback => store.set("abc", data(1), callback));
+
+    const saving = call(callback => store.set("abc", data(1), callback));
+    await call(callback => store.destroy("abc", callback));
+    await saving;
+
+    expect(await get("abc")).toBeNull();
+  });
+});
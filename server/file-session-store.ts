@@ -0,0 +1,121 @@
+import { randomUUID } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import session from "express-session";
+
+// Session ids are generated by express-session as base64url strings, so they are safe file names
+const SID_PATTERN = /^[A-Za-z0-9_-]+$/;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+type Callback = (error?: any) => void;
+
+// express-session store keeping each session as a JSON file, so logins survive restarts without a
+// database. Expired files are removed when read and by an hourly sweep.
+export class FileSessionStore extends session.Store {
+  // Sessions destroyed by this server and when, so a request still running for one of them can't write it back.
+  // Session ids are never reused, so entries are only dropped once the session would have expired anyway.
+  private destroyed = new Map<string, number>();
+
+  constructor(private dir: string, private defaultMaxAgeMs: number) {
+    super();
+    setInterval(() => {
+      this.prune().catch(error => console.error("Error pruning session files:", error));
+    }, PRUNE_INTERVAL_MS).unref();
+  }
+
+  get(sid: string, callback: (error: any, session?: session.SessionData | null) => void): void {
+    this.read(sid).then(
+      data => callback(null, data),
+      error => callback(error)
+    );
+  }
+
+  // Saving a session that was destroyed meanwhile, e.g. revoked while the request was running, is ignored
+  set(sid: string, data: session.SessionData, callback?: Callback): void {
+    if (this.destroyed.has(sid)) {
+      callback?.();
+      return;
+    }
+    this.write(sid, data).then(() => callback?.(), error => callback?.(error));
+  }
+
+  // Only refresh sessions that still exist, so a request finishing after its session was revoked doesn't
+  // bring it back
+  touch(sid: string, data: session.SessionData, callback?: Callback): void {
+    this.read(sid)
+      .then(existing => (existing ? this.write(sid, data) : undefined))
+      .then(() => callback?.(), error => callback?.(error));
+  }
+
+  destroy(sid: string, callback?: Callback): void {
+    this.destroyed.set(sid, Date.now());
+    this.remove(sid).then(() => callback?.(), error => callback?.(error));
+  }
+
+  private filePath(sid: string): string | null {
+    return SID_PATTERN.test(sid) ? path.join(this.dir, `${sid}.json`) : null;
+  }
+
+  private expiresAt(data: session.SessionData): number {
+    const expires = data.cookie?.expires;
+    return expires ? new Date(expires).getTime() : Date.now() + this.defaultMaxAgeMs;
+  }
+
+  private async read(sid: string): Promise<session.SessionData | null> {
+    const file = this.filePath(sid);
+    if (!file) return null;
+    let data: session.SessionData;
+    try {
+      data = JSON.parse(await fs.readFile(file, "utf8"));
+    } catch (error: any) {
+      // A missing file is an unknown session; a truncated one is treated the same way
+      if (error.code === "ENOENT" || error instanceof SyntaxError) return null;
+      throw error;
+    }
+    if (this.expiresAt(data) <= Date.now()) {
+      await this.remove(sid);
+      return null;
+    }
+    return data;
+  }
+
+  // Write to a temporary file first so a crash never leaves a half-written session behind. Each write gets its
+  // own temporary file: parallel requests of the same session touch it concurrently.
+  private async write(sid: string, data: session.SessionData): Promise<void> {
+    const file = this.filePath(sid);
+    if (!file) throw new Error("Invalid session id");
+    await fs.mkdir(this.dir, { recursive: true });
+    const temporary = `${file}.${randomUUID()}.tmp`;
+    try {
+      await fs.writeFile(temporary, JSON.stringify(data), { mode: 0o600 });
+      await fs.rename(temporary, file);
+    } catch (error) {
+      await fs.rm(temporary, { force: true });
+      throw error;
+    }
+    // The session may have been destroyed while it was being written
+    if (this.destroyed.has(sid)) await this.remove(sid);
+  }
+
+  private async remove(sid: string): Promise<void> {
+    const file = this.filePath(sid);
+    if (file) await fs.rm(file, { force: true });
+  }
+
+  private async prune(): Promise<void> {
+    const cutoff = Date.now() - this.defaultMaxAgeMs;
+    for (const [sid, destroyedAt] of Array.from(this.destroyed.entries())) {
+      if (destroyedAt < cutoff) this.destroyed.delete(sid);
+    }
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch (error: any) {
+      if (error.code === "ENOENT") return;
+      throw error;
+    }
+    for (const file of files.filter(name => name.endsWith(".json"))) {
+      await this.read(file.slice(0, -".json".length));
+    }
+  }
+}
@@ -0,0 +1,151 @@
+import { createHash, randomBytes } from "crypto";
+import type { User, Guardian, Student, Semester } from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { MailTransport } from "./mail";
+import { config } from "./config";
+import { ValidationError } from "./integrity";
+import { hashPassword } from "./passwords";
+import { buildStudentPortal, type StudentPortal } from "./student-portal";
+
+const TOKEN_BYTES = 32;
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function isGuardianAccount(user: User): boolean {
+  return user.role === "guardian";
+}
+
+// Guardian account for an email that has contacts, created on first request. The account has a random
+// password nobody knows: guardians sign in with links, unless an administrator sets a password for them.
+async function guardianAccount(storage: IStorage, email: string, contacts: Guardian[]): Promise<User | undefined> {
+  const existing = await storage.getUserByEmail(email);
+  if (existing) return isGuardianAccount(existing) ? existing : undefined;
+  if (await storage.getUserByUsername(email)) return undefined;
+  return storage.createUser({
+    username: email,
+    password: await hashPassword(randomBytes(TOKEN_BYTES).toString("hex")),
+    fullName: contacts[0].fullName,
+    email,
+    role: "guardian",
+    phone: contacts.find(contact => contact.phone)?.phone ?? null,
+  });
+}
+
+// Email a sign-in link to the guardian contacts with this address. Addresses without contacts, or that
+// belong to a staff or student account, are ignored silently so the endpoint doesn't reveal who is a guardian.
+export async function requestMagicLink(storage: IStorage, mail: MailTransport, email: string): Promise<void> {
+  const normalized = normalizeEmail(email);
+  const contacts = await storage.listGuardiansByEmail(normalized);
+  if (contacts.length === 0) return;
+  const user = await guardianAccount(storage, normalized, contacts);
+  if (!user) return;
+
+  const token = randomBytes(TOKEN_BYTES).toString("base64url");
+  const expiresAt = new Date(Date.now() + config.magicLinkTtlMinutes * 60 * 1000);
+  await storage.createMagicLinkToken({ userId: user.id, tokenHash: hashToken(token), expiresAt });
+
+  const link = `${config.appUrl}/magic-login?token=${encodeURIComponent(token)}`;
+  await mail.send({
+    to: user.email,
+    subject: "Votre lien de connexion SuiviScolaire",
+    text: [
+      `Bonjour ${user.fullName},`,
+      "",
+      "Pour consulter l'assiduité des étudiants dont vous êtes le responsable, ouvrez ce lien dans les " +
+        `${config.magicLinkTtlMinutes} minutes :`,
+      link,
+      "",
+      "Ce lien ne peut servir qu'une fois. Si vous n'êtes pas à l'origine de cette demande, ignorez ce message.",
+    ].join("\n"),
+  });
+}
+
+// Redeem a sign-in link, returning the account to log in. The token is consumed first so that it can only
+// be used once, even by concurrent requests.
+export async function redeemMagicLink(storage: IStorage, token: string): Promise<User> {
+  const magicToken = await storage.getMagicLinkTokenByHash(hashToken(token));
+  if (!magicToken || magicToken.usedAt || magicToken.expiresAt.getTime() < Date.now()) {
+    throw new ValidationError("The sign-in link is invalid or has expired", "token");
+  }
+  if (!(await storage.consumeMagicLinkToken(magicToken.id))) {
+    throw new ValidationError("The sign-in link is invalid or has expired", "token");
+  }
+  const user = await storage.getUser(magicToken.userId);
+  if (!user) {
+    throw new ValidationError("The sign-in link is invalid or has expired", "token");
+  }
+  return user;
+}
+
+// Students followed by a guardian account: those with a contact sharing the account's email
+export async function listWards(storage: IStorage, user: User): Promise<Student[]> {
+  if (!isGuardianAccount(user)) return [];
+  const wards: Student[] = [];
+  for (const contact of await storage.listGuardiansByEmail(user.email)) {
+    if (wards.some(student => student.id === contact.studentId)) continue;
+    const student = await storage.getStudent(contact.studentId);
+    if (student) wards.push(student);
+  }
+  return wards;
+}
+
+// Read-only attendance summary of each student the guardian is responsible for
+export async function buildGuardianPortal(
+  storage: IStorage,
+  user: User,
+  semester?: Semester
+): Promise<StudentPortal[]> {
+  const portals: StudentPortal[] = [];
+  for (const student of await listWards(storage, user)) {
+    portals.push(await buildStudentPortal(storage, student, semester));
+  }
+  return portals;
+}
+
+export interface NotificationRecipient {
+  name: string;
+  email: string | null;
+  phone: string | null;
+  channel: Guardian["preferredChannel"];
+  guardianId: number | null;
+  // Account of the recipient, whose notification preferences then apply
+  userId: number | null;
+}
+
+// Account a guardian contact signs in with, once they have asked for a link
+async function contactAccount(storage: IStorage, contact: Guardian): Promise<User | undefined> {
+  if (!contact.email) return undefined;
+  const user = await storage.getUserByEmail(normalizeEmail(contact.email));
+  return user && isGuardianAccount(user) ? user : undefined;
+}
+
+// Who to tell about a student's attendance: the student by email, then each guardian on their preferred channel
+export async function notificationRecipients(storage: IStorage, student: Student): Promise<NotificationRecipient[]> {
+  const recipients: NotificationRecipient[] = [
+    {
+      name: `${student.firstName} ${student.lastName}`,
+      email: student.email,
+      phone: null,
+      channel: "email",
+      guardianId: null,
+      userId: (await storage.getUserByStudentId(student.id))?.id ?? null,
+    },
+  ];
+  for (const guardian of await storage.listGuardiansByStudent(student.id)) {
+    recipients.push({
+      name: guardian.fullName,
+      email: guardian.email,
+      phone: guardian.phone,
+      channel: guardian.preferredChannel,
+      guardianId: guardian.id,
+      userId: (await contactAccount(storage, guardian))?.id ?? null,
+    });
+  }
+  return recipients;
+}
@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { MemStorage } from "./storage";
+import {
+  DeleteRestrictedError,
+  ForeignKeyError,
+  UniqueConstraintError,
+  planDeletion,
+  validateRow,
+} from "./integrity";
+
+describe("planDeletion", () => {
+  let storage: MemStorage;
+
+  beforeEach(() => {
+    storage = new MemStorage();
+  });
+
+  async function course() {
+    const department = await storage.createDepartment({ name: "Informatique" });
+    return storage.createCourse({ name: "Génie informatique", code: "GI", departmentId: department.id });
+  }
+
+  it("lists the cascaded rows children first, with their values", async () => {
+    const { id: courseId } = await course();
+    const module = await storage.createModule({ name: "Algorithmique", code: "M1", courseId });
+    const element = await storage.createModuleElement({ name: "Tris", code: "E1", moduleId: module.id, type: "course" });
+
+    const plan = await planDeletion(storage, "courses", courseId);
+
+    expect(plan.map(step => step.entity)).toEqual(["moduleElements", "modules", "courses"]);
+    expect(plan[0].rows).toEqual([element]);
+    expect(plan[1].rows).toEqual([module]);
+    expect(plan[2]).toMatchObject({ ids: [courseId], rows: [{ id: courseId, code: "GI" }] });
+  });
+
+  it("refuses to delete a row still referenced by a restricting relation", async () => {
+    const { id: courseId } = await course();
+    const student = await storage.createStudent({
+      studentId: "S1", firstName: "Amine", lastName: "Benali", email: "amine@example.com", courseId,
+    });
+
+    const deletion = planDeletion(storage, "courses", courseId);
+
+    await expect(deletion).rejects.toBeInstanceOf(DeleteRestrictedError);
+    await expect(deletion).rejects.toMatchObject({ dependents: [{ entity: "students", ids: [student.id] }] });
+  });
+
+  it("finds restricting relations deep in the cascade tree", async () => {
+    const { id: courseId } = await course();
+    const module = await storage.createModule({ name: "Algorithmique", code: "M1", courseId });
+    const element = await storage.createModuleElement({ name: "Tris", code: "E1", moduleId: module.id, type: "course" });
+    await storage.createSession({ date: new Date("2026-10-12T08:00:00Z"), type: "course", moduleElementId: element.id, teacherId: 2 });
+
+    await expect(storage.deleteCourse(courseId)).rejects.toBeInstanceOf(DeleteRestrictedError);
+    expect(await storage.getModuleElement(element.id)).toBeDefined();
+  });
+});
+
+describe("validateRow", () => {
+  let storage: MemStorage;
+
+  beforeEach(() => {
+    storage = new MemStorage();
+  });
+
+  it("rejects a value already used in a unique column", async () => {
+    await storage.createDepartment({ name: "Informatique" });
+
+    await expect(validateRow(storage, "departments", { name: "Informatique" })).rejects.toBeInstanceOf(UniqueConstraintError);
+  });
+
+  it("lets a row being updated keep its own unique value", async () => {
+    const department = await storage.createDepartment({ name: "Informatique" });
+
+    await expect(validateRow(storage, "departments", { name: "Informatique" }, department.id)).resolves.toBeUndefined();
+  });
+
+  it("rejects a reference to a missing row", async () => {
+    await expect(validateRow(storage, "courses", { name: "GI", code: "GI", departmentId: 42 })).rejects.toMatchObject({
+      constructor: ForeignKeyError,
+      field: "departmentId",
+      references: "departments",
+    });
+  });
+
+  it("skips references left empty", async () => {
+    await expect(validateRow(storage, "sessions", { groupId: null, roomId: undefined })).resolves.toBeUndefined();
+  });
+});
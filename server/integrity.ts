@@ -0,0 +1,319 @@
+// Referential integrity rules shared by every IStorage implementation: unique columns, foreign keys
+// checked on create/update, and per-relation delete policies where "restrict" refuses the delete while
+// children exist and "cascade" deletes them along with the parent.
+
+export type EntityName =
+  | "users"
+  | "departments"
+  | "courses"
+  | "modules"
+  | "moduleElements"
+  | "teacherModuleElements"
+  | "students"
+  | "studentGroups"
+  | "studentGroupAssignments"
+  | "sessions"
+  | "timetableSlots"
+  | "rooms"
+  | "attendanceReminders"
+  | "absences"
+  | "academicYears"
+  | "semesters"
+  | "enrollments"
+  | "passwordResetTokens"
+  | "userSessions"
+  | "ownershipOverrides"
+  | "auditLog"
+  | "justificationRequests"
+  | "justificationRequestAbsences"
+  | "justificationDocuments"
+  | "magicLinkTokens"
+  | "guardians"
+  | "thresholdLevels"
+  | "absenceAlerts"
+  | "notificationPreferences"
+  | "notificationOutbox"
+  | "notifications";
+
+export type DeletePolicy = "restrict" | "cascade";
+
+export interface Relation {
+  parent: EntityName;
+  child: EntityName;
+  foreignKey: string;
+  onDelete: DeletePolicy;
+}
+
+export const relations: Relation[] = [
+  { parent: "departments", child: "courses", foreignKey: "departmentId", onDelete: "restrict" },
+  { parent: "departments", child: "users", foreignKey: "departmentId", onDelete: "restrict" },
+  { parent: "courses", child: "students", foreignKey: "courseId", onDelete: "restrict" },
+  { parent: "courses", child: "modules", foreignKey: "courseId", onDelete: "cascade" },
+  { parent: "courses", child: "studentGroups", foreignKey: "courseId", onDelete: "cascade" },
+  { parent: "modules", child: "moduleElements", foreignKey: "moduleId", onDelete: "cascade" },
+  { parent: "moduleElements", child: "teacherModuleElements", foreignKey: "moduleElementId", onDelete: "cascade" },
+  { parent: "moduleElements", child: "sessions", foreignKey: "moduleElementId", onDelete: "restrict" },
+  { parent: "users", child: "teacherModuleElements", foreignKey: "teacherId", onDelete: "cascade" },
+  { parent: "users", child: "sessions", foreignKey: "teacherId", onDelete: "restrict" },
+  { parent: "students", child: "studentGroupAssignments", foreignKey: "studentId", onDelete: "cascade" },
+  { parent: "students", child: "absences", foreignKey: "studentId", onDelete: "cascade" },
+  { parent: "studentGroups", child: "studentGroupAssignments", foreignKey: "groupId", onDelete: "cascade" },
+  { parent: "studentGroups", child: "sessions", foreignKey: "groupId", onDelete: "restrict" },
+  { parent: "sessions", child: "absences", foreignKey: "sessionId", onDelete: "cascade" },
+  { parent: "academicYears", child: "semesters", foreignKey: "academicYearId", onDelete: "cascade" },
+  { parent: "academicYears", child: "enrollments", foreignKey: "academicYearId", onDelete: "restrict" },
+  { parent: "semesters", child: "sessions", foreignKey: "semesterId", onDelete: "restrict" },
+  { parent: "semesters", child: "studentGroups", foreignKey: "semesterId", onDelete: "restrict" },
+  { parent: "students", child: "enrollments", foreignKey: "studentId", onDelete: "cascade" },
+  { parent: "courses", child: "enrollments", foreignKey: "courseId", onDelete: "restrict" },
+  { parent: "users", child: "passwordResetTokens", foreignKey: "userId", onDelete: "cascade" },
+  { parent: "users", child: "userSessions", foreignKey: "userId", onDelete: "cascade" },
+  { parent: "users", child: "ownershipOverrides", foreignKey: "userId", onDelete: "cascade" },
+  { parent: "students", child: "users", foreignKey: "studentId", onDelete: "cascade" },
+  { parent: "students", child: "justificationRequests", foreignKey: "studentId", onDelete: "cascade" },
+  { parent: "justificationRequests", child: "justificationRequestAbsences", foreignKey: "requestId", onDelete: "cascade" },
+  { parent: "justificationRequests", child: "justificationDocuments", foreignKey: "requestId", onDelete: "cascade" },
+  { parent: "absences", child: "justificationRequestAbsences", foreignKey: "absenceId", onDelete: "cascade" },
+  { parent: "users", child: "magicLinkTokens", foreignKey: "userId", onDelete: "cascade" },
+  { parent: "students", child: "guardians", foreignKey: "studentId", onDelete: "cascade" },
+  { parent: "courses", child: "thresholdLevels", foreignKey: "courseId", onDelete: "cascade" },
+  { parent: "students", child: "absenceAlerts", foreignKey: "studentId", onDelete: "cascade" },
+  { parent: "courses", child: "absenceAlerts", foreignKey: "courseId", onDelete: "cascade" },
+  { parent: "semesters", child: "absenceAlerts", foreignKey: "semesterId", onDelete: "cascade" },
+  { parent: "users", child: "notificationPreferences", foreignKey: "userId", onDelete: "cascade" },
+  { parent: "users", child: "notificationOutbox", foreignKey: "userId", onDelete: "cascade" },
+  { parent: "users", child: "notifications", foreignKey: "userId", onDelete: "cascade" },
+  { parent: "semesters", child: "timetableSlots", foreignKey: "semesterId", onDelete: "cascade" },
+  { parent: "moduleElements", child: "timetableSlots", foreignKey: "moduleElementId", onDelete: "restrict" },
+  { parent: "users", child: "timetableSlots", foreignKey: "teacherId", onDelete: "restrict" },
+  { parent: "studentGroups", child: "timetableSlots", foreignKey: "groupId", onDelete: "restrict" },
+  { parent: "timetableSlots", child: "sessions", foreignKey: "slotId", onDelete: "restrict" },
+  { parent: "sessions", child: "attendanceReminders", foreignKey: "sessionId", onDelete: "cascade" },
+  { parent: "rooms", child: "sessions", foreignKey: "roomId", onDelete: "restrict" },
+  { parent: "rooms", child: "timetableSlots", foreignKey: "roomId", onDelete: "restrict" },
+];
+
+// Columns that must hold a distinct value on every row, mirroring the unique() columns in shared/schema.ts
+export const uniqueFields: Partial<Record<EntityName, string[]>> = {
+  users: ["username", "email", "studentId"],
+  departments: ["name"],
+  rooms: ["name"],
+  courses: ["code"],
+  students: ["studentId", "email"],
+  academicYears: ["name"],
+  passwordResetTokens: ["tokenHash"],
+  userSessions: ["sid"],
+  auditLog: ["previousHash", "hash"],
+  justificationDocuments: ["storedName"],
+  magicLinkTokens: ["tokenHash"],
+};
+
+export interface Dependent {
+  entity: EntityName;
+  foreignKey: string;
+  ids: number[];
+}
+
+// Base class for violations the routes turn into a structured 4xx response
+export abstract class ConstraintError extends Error {
+  abstract readonly status: number;
+  abstract toJSON(): Record<string, unknown>;
+}
+
+export class DeleteRestrictedError extends ConstraintError {
+  readonly status = 409;
+
+  constructor(public entity: EntityName, public id: number, public dependents: Dependent[]) {
+    super(
+      `Cannot delete ${entity} ${id}: still referenced by ` +
+      dependents.map(dependent => `${dependent.ids.length} ${dependent.entity}`).join(", ")
+    );
+    this.name = "DeleteRestrictedError";
+  }
+
+  toJSON() {
+    return {
+      message: this.message,
+      entity: this.entity,
+      id: this.id,
+      dependents: this.dependents,
+    };
+  }
+}
+
+export class UniqueConstraintError extends ConstraintError {
+  readonly status = 409;
+
+  constructor(public entity: EntityName, public field: string, public value: unknown) {
+    super(`${entity}.${field} "${value}" is already in use`);
+    this.name = "UniqueConstraintError";
+  }
+
+  toJSON() {
+    return {
+      message: this.message,
+      code: "unique",
+      entity: this.entity,
+      field: this.field,
+      value: this.value,
+    };
+  }
+}
+
+export class ForeignKeyError extends ConstraintError {
+  readonly status = 422;
+
+  constructor(public entity: EntityName, public field: string, public value: unknown, public references: EntityName) {
+    super(`${entity}.${field} references missing ${references} ${value}`);
+    this.name = "ForeignKeyError";
+  }
+
+  toJSON() {
+    return {
+      message: this.message,
+      code: "foreignKey",
+      entity: this.entity,
+      field: this.field,
+      value: this.value,
+      references: this.references,
+    };
+  }
+}
+
+export class ValidationError extends ConstraintError {
+  readonly status = 422;
+
+  constructor(message: string, public field?: string, public details?: Record<string, unknown>) {
+    super(message);
+    this.name = "ValidationError";
+  }
+
+  toJSON() {
+    return {
+      message: this.message,
+      code: "invalid",
+      field: this.field,
+      ...this.details,
+    };
+  }
+}
+
+const BOOKED_RESOURCES: Record<string, string> = { roomId: "room", teacherId: "teacher", groupId: "group" };
+
+// A room, teacher or group booked twice at the same time, by a session or a timetable slot
+export class BookingConflictError extends ConstraintError {
+  readonly status = 409;
+
+  constructor(public entity: EntityName, public field: string, public conflictingId: number) {
+    super(`The ${BOOKED_RESOURCES[field] ?? field} is already booked by ${entity} ${conflictingId} at that time`);
+    this.name = "BookingConflictError";
+  }
+
+  toJSON() {
+    return {
+      message: this.message,
+      code: "conflict",
+      entity: this.entity,
+      field: this.field,
+      conflictingId: this.conflictingId,
+    };
+  }
+}
+
+// Access to a record outside the caller's scope, e.g. a department head reaching another department
+export class ForbiddenError extends ConstraintError {
+  readonly status = 403;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "ForbiddenError";
+  }
+
+  toJSON() {
+    return {
+      message: this.message,
+      code: "forbidden",
+    };
+  }
+}
+
+// Minimal lookup a storage backend provides so the integrity rules can be checked against its rows
+export interface RowReader {
+  findIdsByColumn(entity: EntityName, column: string, values: Array<string | number>): Promise<number[]>;
+  findRowsByColumn(entity: EntityName, column: string, values: Array<string | number>): Promise<StoredRow[]>;
+}
+
+export type StoredRow = Record<string, unknown> & { id: number };
+
+// Rows to delete, grouped by entity and ordered children first so they can be removed in sequence
+export type DeletionPlan = Array<{ entity: EntityName; ids: number[]; rows: StoredRow[] }>;
+
+// Walk the cascade tree below (entity, id) and fail if any restricting relation has dependents,
+// anywhere in the tree, before a single row is removed. The plan carries the rows themselves, as they
+// were before the delete.
+export async function planDeletion(
+  reader: RowReader,
+  entity: EntityName,
+  id: number
+): Promise<DeletionPlan> {
+  const visited = new Map<EntityName, Set<number>>([[entity, new Set([id])]]);
+  const root = { entity, ids: [id], rows: await reader.findRowsByColumn(entity, "id", [id]) };
+  const steps: DeletionPlan = [root];
+  const blockers: Dependent[] = [];
+  const queue = [root];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const relation of relations.filter(r => r.parent === current.entity)) {
+      const children = await reader.findRowsByColumn(relation.child, relation.foreignKey, current.ids);
+      if (children.length === 0) continue;
+
+      if (relation.onDelete === "restrict") {
+        blockers.push({ entity: relation.child, foreignKey: relation.foreignKey, ids: children.map(child => child.id) });
+        continue;
+      }
+
+      const seen = visited.get(relation.child) ?? new Set<number>();
+      const newRows = children.filter(child => !seen.has(child.id));
+      if (newRows.length === 0) continue;
+      newRows.forEach(child => seen.add(child.id));
+      visited.set(relation.child, seen);
+      const step = { entity: relation.child, ids: newRows.map(child => child.id), rows: newRows };
+      steps.push(step);
+      queue.push(step);
+    }
+  }
+
+  if (blockers.length > 0) {
+    throw new DeleteRestrictedError(entity, id, blockers);
+  }
+
+  return steps.reverse();
+}
+
+// Check the unique columns and outgoing foreign keys of a row about to be written.
+// `id` is the row being updated, if any, so it does not collide with itself.
+export async function validateRow(
+  reader: RowReader,
+  entity: EntityName,
+  row: Record<string, unknown>,
+  id?: number
+): Promise<void> {
+  for (const field of uniqueFields[entity] ?? []) {
+    const value = row[field];
+    if (value === undefined || value === null) continue;
+    const ids = await reader.findIdsByColumn(entity, field, [value as string | number]);
+    if (ids.some(existingId => existingId !== id)) {
+      throw new UniqueConstraintError(entity, field, value);
+    }
+  }
+
+  for (const relation of relations.filter(r => r.child === entity)) {
+    const value = row[relation.foreignKey];
+    if (value === undefined || value === null) continue;
+    const ids = await reader.findIdsByColumn(relation.parent, "id", [value as number]);
+    if (ids.length === 0) {
+      throw new ForeignKeyError(entity, relation.foreignKey, value, relation.parent);
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { Absence, JustificationRequest, User } from "@shared/schema";
+import { MemStorage, type IStorage } from "./storage";
+import { AuditLog, withAuditTrail } from "./audit";
+import { ValidationError } from "./integrity";
+import { reviewJustificationRequest } from "./justifications";
+
+describe("reviewJustificationRequest", () => {
+  let base: MemStorage;
+  let storage: IStorage;
+  let reviewer: User;
+  let absences: Absence[];
+  let request: JustificationRequest;
+
+  beforeEach(async () => {
+    base = new MemStorage();
+    storage = withAuditTrail(base, new AuditLog(base));
+    const department = await base.createDepartment({ name: "Informatique" });
+    reviewer = await base.createUser({
+      username: "cheffe", password: "secret", fullName: "Cheffe", email: "cheffe@example.com",
+      role: "departmentHead", departmentId: department.id,
+    });
+    const course = await base.createCourse({ name: "Génie informatique", code: "GI", departmentId: department.id });
+    const module = await base.createModule({ name: "Algorithmique", code: "M1", courseId: course.id });
+    const element = await base.createModuleElement({ name: "Tris", code: "E1", moduleId: module.id, type: "course" });
+    const student = await base.createStudent({
+      studentId: "S1", firstName: "Amine", lastName: "Benali", email: "amine@example.com", courseId: course.id,
+    });
+    absences = [];
+    for (const day of [12, 13]) {
+      const session = await base.createSession({
+        date: new Date(2026, 9, day, 8), type: "course", moduleElementId: element.id, teacherId: 2,
+      });
+      absences.push(await base.createAbsence({ sessionId: session.id, studentId: student.id, status: "absent" }));
+    }
+    request = await base.createJustificationRequest({
+      studentId: student.id,
+      reason: "medical",
+      explanation: "Grippe",
+      status: "pending",
+      submittedById: 2,
+      submittedAt: new Date(),
+    }, absences.map(absence => absence.id), []);
+  });
+
+  it("justifies the absences still to excuse, not those corrected since the request", async () => {
+    await base.updateAbsence(absences[1].id, { status: "present" });
+
+    const reviewed = await reviewJustificationRequest(storage, reviewer, request, "approved");
+
+    expect(reviewed).toMatchObject({ status: "approved", reviewedById: reviewer.id });
+    expect((await base.getAbsence(absences[0].id))?.status).toBe("justified");
+    expect((await base.getAbsence(absences[1].id))?.status).toBe("present");
+  });
+
+  it("lets only one of two concurrent reviews through", async () => {
+    const results = await Promise.allSettled([
+      reviewJustificationRequest(storage, reviewer, request, "rejected", "Certificat illisible"),
+      reviewJustificationRequest(storage, reviewer, request, "approved"),
+    ]);
+
+    expect(results[0].status).toBe("fulfilled");
+    expect(results[1]).toMatchObject({ status: "rejected", reason: expect.any(ValidationError) });
+    expect(await base.getJustificationRequest(request.id)).toMatchObject({ status: "rejected", reviewComment: "Certificat illisible" });
+    expect((await base.getAbsence(absences[0].id))?.status).toBe("absent");
+  });
+
+  it("logs the request and each absence it justified", async () => {
+    await base.updateAbsence(absences[1].id, { status: "present" });
+
+    await reviewJustificationRequest(storage, reviewer, request, "approved");
+
+    const entries = await base.listAuditEntries();
+    expect(entries.map(({ action, entity, entityId }) => ({ action, entity, entityId }))).toEqual([
+      { action: "update", entity: "justificationRequests", entityId: request.id },
+      { action: "update", entity: "absences", entityId: absences[0].id },
+    ]);
+    expect(entries[1]).toMatchObject({ before: { status: "absent" }, after: { status: "justified" } });
+  });
+});
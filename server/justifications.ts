@@ -0,0 +1,177 @@
+import fs from "fs";
+import path from "path";
+import { randomBytes } from "crypto";
+import type { Request, Response } from "express";
+import multer from "multer";
+import type {
+  User,
+  Absence,
+  JustificationRequest,
+  JustificationDocument,
+  JustificationPayload,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import { ValidationError } from "./integrity";
+import { JUSTIFIABLE_STATUSES } from "./attendance";
+import { config } from "./config";
+
+// Medical certificates and the like, as scans or photos
+const DOCUMENT_TYPES: Record<string, string> = {
+  "application/pdf": ".pdf",
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+};
+const MAX_DOCUMENTS = 5;
+
+const upload = multer({
+  storage: multer.diskStorage({
+    destination: (req, file, callback) => {
+      fs.mkdir(config.uploads.dir, { recursive: true }, error => callback(error, config.uploads.dir));
+    },
+    // Random names, so uploaded names never reach the file system
+    filename: (req, file, callback) => {
+      callback(null, `${randomBytes(16).toString("hex")}${DOCUMENT_TYPES[file.mimetype]}`);
+    },
+  }),
+  limits: { fileSize: config.uploads.maxFileSizeMb * 1024 * 1024, files: MAX_DOCUMENTS },
+  fileFilter: (req, file, callback) => {
+    if (file.mimetype in DOCUMENT_TYPES) return callback(null, true);
+    callback(new ValidationError("Documents must be PDF, JPEG or PNG files", "documents"));
+  },
+}).array("documents", MAX_DOCUMENTS);
+
+// Parse a multipart submission, saving its documents to the upload directory. Upload limits are reported
+// as validation errors.
+export function receiveDocuments(req: Request, res: Response): Promise<Express.Multer.File[]> {
+  return new Promise((resolve, reject) => {
+    upload(req, res, error => {
+      if (error instanceof multer.MulterError) {
+        const message = error.code === "LIMIT_FILE_SIZE"
+          ? `Documents can't be larger than ${config.uploads.maxFileSizeMb} MB`
+          : error.code === "LIMIT_FILE_COUNT" || error.code === "LIMIT_UNEXPECTED_FILE"
+            ? `A request can't have more than ${MAX_DOCUMENTS} documents`
+            : error.message;
+        return reject(new ValidationError(message, "documents"));
+      }
+      if (error) return reject(error);
+      resolve((req.files as Express.Multer.File[] | undefined) ?? []);
+    });
+  });
+}
+
+// Remove the files of a submission that was refused
+export async function discardDocuments(files: Express.Multer.File[]): Promise<void> {
+  await Promise.all(files.map(file => fs.promises.rm(file.path, { force: true })));
+}
+
+export function documentPath(document: JustificationDocument): string {
+  return path.resolve(config.uploads.dir, document.storedName);
+}
+
+// Request with what its reader needs to know about the student and the absences, who may not be allowed to
+// look them up (students don't see the session list)
+export type JustificationRequestDetails = JustificationRequest & {
+  studentName: string;
+  absences: Array<Absence & { date: Date | null }>;
+  documents: JustificationDocument[];
+};
+
+export async function justificationDetails(
+  storage: IStorage,
+  request: JustificationRequest
+): Promise<JustificationRequestDetails> {
+  const student = await storage.getStudent(request.studentId);
+  const absences: JustificationRequestDetails["absences"] = [];
+  for (const link of await storage.listJustificationRequestAbsences(request.id)) {
+    const absence = await storage.getAbsence(link.absenceId);
+    if (!absence) continue;
+    const session = await storage.getSession(absence.sessionId);
+    absences.push({ ...absence, date: session?.date ?? null });
+  }
+  return {
+    ...request,
+    studentName: student ? `${student.lastName} ${student.firstName}` : "",
+    absences,
+    documents: await storage.listJustificationDocuments(request.id),
+  };
+}
+
+// Absences of the request's student that aren't excused yet and aren't already awaiting a review. Late arrivals
+// and early departures are corrected by the teacher rather than justified.
+async function assertAbsencesJustifiable(storage: IStorage, studentId: number, absences: Absence[]): Promise<void> {
+  for (const absence of absences) {
+    if (absence.studentId !== studentId) {
+      throw new ValidationError(`Absence ${absence.id} belongs to another student`, "absenceIds");
+    }
+    if (!JUSTIFIABLE_STATUSES.includes(absence.status)) {
+      throw new ValidationError(`Absence ${absence.id} doesn't need to be justified`, "absenceIds");
+    }
+    for (const link of await storage.listJustificationRequestAbsencesByAbsence(absence.id)) {
+      const request = await storage.getJustificationRequest(link.requestId);
+      if (request?.status === "pending") {
+        throw new ValidationError(`Absence ${absence.id} is already covered by a pending request`, "absenceIds");
+      }
+    }
+  }
+}
+
+// Absences named by a submission; missing ones are reported as a validation error
+export async function loadAbsences(storage: IStorage, absenceIds: number[]): Promise<Absence[]> {
+  const absences: Absence[] = [];
+  for (const absenceId of Array.from(new Set(absenceIds))) {
+    const absence = await storage.getAbsence(absenceId);
+    if (!absence) {
+      throw new ValidationError(`Absence ${absenceId} not found`, "absenceIds");
+    }
+    absences.push(absence);
+  }
+  return absences;
+}
+
+export async function submitJustificationRequest(
+  storage: IStorage,
+  user: User,
+  payload: JustificationPayload,
+  absences: Absence[],
+  files: Express.Multer.File[]
+): Promise<JustificationRequestDetails> {
+  await assertAbsencesJustifiable(storage, payload.studentId, absences);
+  const now = new Date();
+  const request = await storage.createJustificationRequest(
+    {
+      studentId: payload.studentId,
+      reason: payload.reason,
+      explanation: payload.explanation,
+      status: "pending",
+      submittedById: user.id,
+      submittedAt: now,
+    },
+    absences.map(absence => absence.id),
+    files.map(file => ({
+      fileName: file.originalname,
+      storedName: file.filename,
+      mimeType: file.mimetype,
+      size: file.size,
+      uploadedAt: now,
+    }))
+  );
+  return justificationDetails(storage, request);
+}
+
+// Approve or reject a pending request. Approval marks the absences it covers as justified, unless they were
+// corrected, e.g. to present, since the request was submitted.
+export async function reviewJustificationRequest(
+  storage: IStorage,
+  reviewer: User,
+  request: JustificationRequest,
+  decision: "approved" | "rejected",
+  comment?: string
+): Promise<JustificationRequestDetails> {
+  const reviewed = await storage.reviewJustificationRequest(request.id, {
+    status: decision,
+    reviewedById: reviewer.id,
+    reviewedAt: new Date(),
+    reviewComment: comment || null,
+  });
+  return justificationDetails(storage, reviewed?.request ?? request);
+}
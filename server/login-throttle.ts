@@ -0,0 +1,83 @@
+import type { User } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { config } from "./config";
+
+// Base delay before answering a failed login, doubled with every further failure up to MAX_DELAY_MS
+const BASE_DELAY_MS = 250;
+const MAX_DELAY_MS = 8000;
+const PRUNE_THRESHOLD = 1000;
+
+interface IpFailures {
+  count: number;
+  windowStart: number;
+}
+
+// Brute-force protection for the login route. Failures are counted per account, persisted on the user
+// so a lockout survives restarts and can be cleared by an administrator, and per IP address in memory.
+export class LoginThrottle {
+  private ipFailures = new Map<string, IpFailures>();
+
+  constructor(private storage: IStorage) {}
+
+  // Seconds the IP address has to wait before trying again, or 0 when it may attempt a login
+  ipRetryAfter(ip: string): number {
+    const entry = this.currentIpEntry(ip);
+    if (!entry || entry.count < config.login.ipMaxAttempts) return 0;
+    return Math.ceil((entry.windowStart + this.ipWindowMs() - Date.now()) / 1000);
+  }
+
+  isLocked(user: User): boolean {
+    return !!user.lockedUntil && user.lockedUntil.getTime() > Date.now();
+  }
+
+  // Count a failed attempt and return how long to wait before answering, growing with each failure
+  async recordFailure(ip: string, user?: User): Promise<number> {
+    const entry = this.currentIpEntry(ip) ?? { count: 0, windowStart: Date.now() };
+    entry.count++;
+    this.ipFailures.set(ip, entry);
+    this.prune();
+
+    let accountFailures = 0;
+    if (user && !this.isLocked(user)) {
+      accountFailures = user.failedLoginAttempts + 1;
+      const locked = accountFailures >= config.login.maxAttempts;
+      await this.storage.updateUser(user.id, {
+        failedLoginAttempts: locked ? 0 : accountFailures,
+        lockedUntil: locked ? new Date(Date.now() + config.login.lockoutMinutes * 60 * 1000) : null,
+      });
+    }
+
+    const failures = Math.max(entry.count, accountFailures);
+    return Math.min(BASE_DELAY_MS * 2 ** (failures - 1), MAX_DELAY_MS);
+  }
+
+  // IP failures are left to expire with their window, so one valid account can't reset them
+  async recordSuccess(user: User): Promise<void> {
+    if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+      await this.storage.updateUser(user.id, { failedLoginAttempts: 0, lockedUntil: null });
+    }
+  }
+
+  async unlock(userId: number): Promise<User | undefined> {
+    return this.storage.updateUser(userId, { failedLoginAttempts: 0, lockedUntil: null });
+  }
+
+  private ipWindowMs(): number {
+    return config.login.ipWindowMinutes * 60 * 1000;
+  }
+
+  private currentIpEntry(ip: string): IpFailures | undefined {
+    const entry = this.ipFailures.get(ip);
+    if (entry && entry.windowStart + this.ipWindowMs() <= Date.now()) {
+      this.ipFailures.delete(ip);
+      return undefined;
+    }
+    return entry;
+  }
+
+  // Forget expired windows once the map grows, so a scan from many addresses doesn't pile up entries
+  private prune(): void {
+    if (this.ipFailures.size < PRUNE_THRESHOLD) return;
+    Array.from(this.ipFailures.keys()).forEach(ip => this.currentIpEntry(ip));
+  }
+}
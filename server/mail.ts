@@ -0,0 +1,79 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import nodemailer, { type Transporter } from "nodemailer";
+import { config } from "./config";
+import { log } from "./vite";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Delivers outgoing email; implementations can be swapped without touching the code that sends mail
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+function formatMessage(message: MailMessage, date: Date): string {
+  return [
+    `From: ${config.mail.from}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    `Date: ${date.toUTCString()}`,
+    "",
+    message.text,
+    "",
+  ].join("\n");
+}
+
+// Prints messages to the server log, for development
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    log(`\n${formatMessage(message, new Date())}`, "mail");
+  }
+}
+
+// Writes each message as an .eml file in an outbox directory, for local testing
+export class FileMailTransport implements MailTransport {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const date = new Date();
+    await mkdir(this.directory, { recursive: true });
+    const recipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, "_");
+    const file = path.join(this.directory, `${date.toISOString().replace(/[:.]/g, "-")}-${recipient}.eml`);
+    await writeFile(file, formatMessage(message, date));
+    log(`Wrote "${message.subject}" for ${message.to} to ${file}`, "mail");
+  }
+}
+
+// Sends messages through an SMTP server
+export class SmtpMailTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor(options: typeof config.mail.smtp) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: config.mail.from, ...message });
+  }
+}
+
+function createMailTransport(): MailTransport {
+  if (config.mail.transport === "file") {
+    return new FileMailTransport(config.mail.outboxDir);
+  }
+  if (config.mail.transport === "smtp") {
+    return new SmtpMailTransport(config.mail.smtp);
+  }
+  return new ConsoleMailTransport();
+}
+
+export const mailTransport = createMailTransport();
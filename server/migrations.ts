@@ -0,0 +1,54 @@
+import { and, eq, isNull, sql } from "drizzle-orm";
+import { absences, dataMigrations, sessions, settings } from "@shared/schema";
+import type { Database, Transaction } from "./db";
+import { ROLE_PERMISSIONS_KEY } from "./permissions";
+
+interface DataMigration {
+  name: string;
+  up(tx: Transaction): Promise<void>;
+}
+
+// Applied in order, once each. A released migration is never edited or removed; later fixes get a new one.
+const DATA_MIGRATIONS: DataMigration[] = [
+  {
+    // Sessions whose attendance was taken before the time of recording was kept are known by their rows
+    name: "0001_attendance_recorded_at",
+    async up(tx) {
+      await tx
+        .update(sessions)
+        .set({ attendanceRecordedAt: sessions.date })
+        .where(and(
+          isNull(sessions.attendanceRecordedAt),
+          sql`exists (select 1 from ${absences} where ${absences.sessionId} = ${sessions.id})`
+        ));
+    },
+  },
+  {
+    // Administrators and teachers reached every department before access to them became a permission
+    name: "0002_departments_all_permission",
+    async up(tx) {
+      const [setting] = await tx.select().from(settings).where(eq(settings.key, ROLE_PERMISSIONS_KEY));
+      if (!setting) return;
+      const mapping: Partial<Record<string, string[]>> = JSON.parse(setting.value);
+      for (const role of ["admin", "teacher"]) {
+        const permissions = mapping[role];
+        if (permissions && !permissions.includes("departments:all")) permissions.push("departments:all");
+      }
+      await tx.update(settings).set({ value: JSON.stringify(mapping) }).where(eq(settings.key, ROLE_PERMISSIONS_KEY));
+    },
+  },
+];
+
+// Runs the migrations this database hasn't had yet, in a single transaction. The lock makes servers starting
+// together wait for each other instead of applying a migration twice.
+export async function runDataMigrations(db: Database): Promise<void> {
+  await db.transaction(async tx => {
+    await tx.execute(sql`lock table ${dataMigrations} in exclusive mode`);
+    const applied = new Set((await tx.select({ name: dataMigrations.name }).from(dataMigrations)).map(row => row.name));
+    for (const migration of DATA_MIGRATIONS) {
+      if (applied.has(migration.name)) continue;
+      await migration.up(tx);
+      await tx.insert(dataMigrations).values({ name: migration.name, appliedAt: new Date() });
+    }
+  });
+}
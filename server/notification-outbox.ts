@@ -0,0 +1,109 @@
+import type { NotificationChannel, OutboxMessage } from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { MailTransport } from "./mail";
+import type { SmsTransport } from "./sms";
+import { config } from "./config";
+import { log } from "./vite";
+
+// Delivers the outbox messages of one channel
+export interface NotificationTransport {
+  deliver(message: OutboxMessage): Promise<void>;
+}
+
+export class EmailNotificationTransport implements NotificationTransport {
+  constructor(private mail: MailTransport) {}
+
+  async deliver(message: OutboxMessage): Promise<void> {
+    await this.mail.send({ to: message.recipient!, subject: message.subject, text: message.body });
+  }
+}
+
+export class SmsNotificationTransport implements NotificationTransport {
+  constructor(private sms: SmsTransport) {}
+
+  async deliver(message: OutboxMessage): Promise<void> {
+    await this.sms.send({ to: message.recipient!, text: message.body });
+  }
+}
+
+// Stores the message as a notification of its user, shown in the app
+export class InAppNotificationTransport implements NotificationTransport {
+  constructor(private storage: IStorage) {}
+
+  async deliver(message: OutboxMessage): Promise<void> {
+    await this.storage.createNotification({
+      userId: message.userId!,
+      event: message.event,
+      title: message.subject,
+      body: message.body,
+      link: message.link,
+      createdAt: new Date(),
+    });
+  }
+}
+
+// Delivers queued notifications in the background. A failed delivery is tried again after a delay that
+// doubles with each attempt, and the message is marked failed once NOTIFICATION_MAX_ATTEMPTS is reached.
+// Messages stay in storage, so those still pending when the server stops are delivered after it restarts.
+export class NotificationOutbox {
+  private timer: NodeJS.Timeout | undefined;
+  private delivering = false;
+
+  constructor(
+    private storage: IStorage,
+    private transports: Record<NotificationChannel, NotificationTransport>
+  ) {}
+
+  start(): void {
+    this.timer = setInterval(() => void this.deliverDue(), config.notifications.pollSeconds * 1000);
+    // Don't keep the process alive just for the outbox
+    this.timer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+  }
+
+  // Deliver the messages that are due, one run at a time
+  async deliverDue(now = new Date()): Promise<void> {
+    if (this.delivering) return;
+    this.delivering = true;
+    try {
+      for (const message of await this.storage.listDueOutboxMessages(now)) {
+        await this.deliver(message);
+      }
+    } catch (error) {
+      log(`Couldn't read the notification outbox: ${error instanceof Error ? error.message : error}`, "notifications");
+    } finally {
+      this.delivering = false;
+    }
+  }
+
+  private async deliver(message: OutboxMessage): Promise<void> {
+    const attempts = message.attempts + 1;
+    try {
+      await this.transports[message.channel].deliver(message);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      const failed = attempts >= config.notifications.maxAttempts;
+      const delayMs = config.notifications.retrySeconds * 1000 * 2 ** (attempts - 1);
+      await this.storage.updateOutboxMessage(message.id, {
+        attempts,
+        lastError: reason,
+        status: failed ? "failed" : "pending",
+        nextAttemptAt: new Date(Date.now() + delayMs),
+      });
+      log(
+        `Delivering ${message.channel} notification ${message.id} failed (attempt ${attempts}): ${reason}`,
+        "notifications"
+      );
+      return;
+    }
+    await this.storage.updateOutboxMessage(message.id, {
+      attempts,
+      status: "sent",
+      sentAt: new Date(),
+      lastError: null,
+    });
+  }
+}
@@ -0,0 +1,96 @@
+import type { NotificationEvent } from "@shared/schema";
+
+export type Locale = "fr";
+
+// Text of one kind of notification. Placeholders such as {{studentName}} are replaced with the event's values.
+// The summary is the one-line form used by text messages and in-app notifications.
+interface NotificationTemplate {
+  subject: string;
+  text: string;
+  summary: string;
+}
+
+const TEMPLATES: Record<Locale, Record<NotificationEvent, NotificationTemplate>> = {
+  fr: {
+    absenceRecorded: {
+      subject: "Absence de {{studentName}} le {{date}}",
+      text: [
+        "Bonjour {{recipientName}},",
+        "",
+        "{{studentName}} a été noté(e) absent(e) le {{date}} ({{moduleElement}}, {{sessionType}}).",
+        "",
+        "Une absence peut être justifiée en déposant un justificatif depuis le portail SuiviScolaire : {{link}}",
+      ].join("\n"),
+      summary: "{{studentName}} absent(e) le {{date}} ({{moduleElement}}).",
+    },
+    absenceAlert: {
+      subject: "{{level}} : absences de {{studentName}}",
+      text: [
+        "Bonjour {{recipientName}},",
+        "",
+        "{{studentName}} compte {{unexcused}} en {{courseName}}, au-delà du seuil de {{threshold}} fixé pour " +
+          "le niveau « {{level}} ».",
+        "",
+        "Détails : {{link}}",
+      ].join("\n"),
+      summary: "{{level}} pour {{studentName}} : {{unexcused}} en {{courseName}}.",
+    },
+    justificationSubmitted: {
+      subject: "Justificatif à examiner pour {{studentName}}",
+      text: [
+        "Bonjour {{recipientName}},",
+        "",
+        "Une demande de justification a été déposée pour {{studentName}} ({{reason}}), couvrant {{absenceCount}} " +
+          "absence(s). Elle attend votre décision.",
+        "",
+        "Examiner la demande : {{link}}",
+      ].join("\n"),
+      summary: "Justificatif de {{studentName}} à examiner ({{absenceCount}} absence(s)).",
+    },
+    justificationReviewed: {
+      subject: "Demande de justification {{decision}} pour {{studentName}}",
+      text: [
+        "Bonjour {{recipientName}},",
+        "",
+        "La demande de justification déposée le {{submittedAt}} pour {{studentName}} a été {{decision}}.",
+        "{{comment}}",
+        "",
+        "Détails : {{link}}",
+      ].join("\n"),
+      summary: "Demande de justification de {{studentName}} {{decision}}.",
+    },
+    attendanceMissing: {
+      subject: "Absences à saisir : {{moduleElement}} du {{date}}",
+      text: [
+        "Bonjour {{recipientName}},",
+        "",
+        "Les absences de la séance de {{moduleElement}} ({{sessionType}}, {{groupName}}) du {{date}}, assurée par " +
+          "{{teacherName}}, n'ont pas encore été saisies.",
+        "{{reminder}}",
+        "",
+        "Saisir les absences : {{link}}",
+      ].join("\n"),
+      summary: "Absences non saisies : {{moduleElement}} ({{groupName}}) du {{date}}, {{teacherName}}.",
+    },
+  },
+};
+
+export type RenderedNotification = NotificationTemplate;
+
+function fill(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (placeholder, name) => values[name] ?? placeholder);
+}
+
+export function renderNotification(
+  event: NotificationEvent,
+  values: Record<string, string>,
+  locale: Locale = "fr"
+): RenderedNotification {
+  const template = TEMPLATES[locale][event];
+  return {
+    subject: fill(template.subject, values),
+    // Lines left empty by an optional value are dropped
+    text: fill(template.text, values).replace(/\n{3,}/g, "\n\n"),
+    summary: fill(template.summary, values),
+  };
+}
@@ -0,0 +1,338 @@
+import {
+  NOTIFICATION_EVENTS,
+  type User,
+  type Absence,
+  type AbsenceAlert,
+  type JustificationRequest,
+  type Notification,
+  type NotificationChannel,
+  type NotificationEvent,
+  type NotificationSettings,
+  type Session,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import { config } from "./config";
+import { log } from "./vite";
+import { ValidationError } from "./integrity";
+import { isGuardianAccount, notificationRecipients, type NotificationRecipient } from "./guardians";
+import { renderNotification } from "./notification-templates";
+import { UNEXCUSED_STATUSES } from "./student-portal";
+
+// Channels of an account for events it has no preference for
+const DEFAULT_CHANNELS: NotificationChannel[] = ["email", "inApp"];
+
+const SESSION_TYPE_LABELS: Record<Session["type"], string> = { course: "cours", TD: "TD", TP: "TP" };
+const JUSTIFICATION_REASON_LABELS: Record<JustificationRequest["reason"], string> = {
+  medical: "raison médicale",
+  family: "raison familiale",
+  administrative: "démarche administrative",
+  transport: "problème de transport",
+  other: "autre motif",
+};
+const ESCALATION_LEVEL_LABELS: Record<AbsenceAlert["level"], string> = {
+  warning: "Avertissement",
+  convocation: "Convocation",
+  exclusion: "Exclusion",
+};
+
+// Someone to notify about one event, with the channels to use and the page of the app the event is about
+interface Addressee {
+  userId: number | null;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  channels: NotificationChannel[];
+  link: string;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("fr-FR", { day: "numeric", month: "long", year: "numeric" });
+}
+
+function formatHours(hours: number): string {
+  return `${hours.toLocaleString("fr-FR", { maximumFractionDigits: 2 })} heure${hours >= 2 ? "s" : ""}`;
+}
+
+// Guardians keep the channels chosen on their contact records until they set their own preferences
+async function defaultChannels(storage: IStorage, user: User): Promise<NotificationChannel[]> {
+  if (!isGuardianAccount(user)) return DEFAULT_CHANNELS;
+  const channels = new Set<NotificationChannel>();
+  for (const contact of await storage.listGuardiansByEmail(user.email)) {
+    channels.add(contact.preferredChannel);
+  }
+  return channels.size === 0 ? DEFAULT_CHANNELS : [...Array.from(channels), "inApp"];
+}
+
+async function userAddressee(
+  storage: IStorage,
+  user: User,
+  event: NotificationEvent,
+  link: string
+): Promise<Addressee> {
+  const preference = (await storage.listNotificationPreferences(user.id)).find(p => p.event === event);
+  return {
+    userId: user.id,
+    name: user.fullName,
+    email: user.email,
+    phone: user.phone,
+    channels: preference?.channels ?? (await defaultChannels(storage, user)),
+    link,
+  };
+}
+
+// Students and guardians with an account follow its preferences; the others are reached on the channel of
+// their record
+async function recipientAddressee(
+  storage: IStorage,
+  recipient: NotificationRecipient,
+  event: NotificationEvent,
+  link: string
+): Promise<Addressee> {
+  const user = recipient.userId !== null ? await storage.getUser(recipient.userId) : undefined;
+  if (user) {
+    const addressee = await userAddressee(storage, user, event, link);
+    return { ...addressee, phone: addressee.phone ?? recipient.phone };
+  }
+  return {
+    userId: null,
+    name: recipient.name,
+    email: recipient.email,
+    phone: recipient.phone,
+    channels: [recipient.channel],
+    link,
+  };
+}
+
+// Queue one message per addressee and channel. Channels an addressee can't be reached on are skipped, as are
+// repeats, such as a guardian who is also the submitter of a request.
+async function enqueue(
+  storage: IStorage,
+  event: NotificationEvent,
+  addressees: Addressee[],
+  values: Record<string, string>
+): Promise<void> {
+  const now = new Date();
+  const queued = new Set<string>();
+  for (const addressee of addressees) {
+    const message = renderNotification(event, {
+      ...values,
+      recipientName: addressee.name,
+      link: `${config.appUrl}${addressee.link}`,
+    });
+    for (const channel of addressee.channels) {
+      const recipient = channel === "email" ? addressee.email : channel === "sms" ? addressee.phone : null;
+      if (channel === "inApp" ? addressee.userId === null : !recipient) continue;
+      const key = channel === "inApp" ? `inApp:${addressee.userId}` : `${channel}:${recipient!.toLowerCase()}`;
+      if (queued.has(key)) continue;
+      queued.add(key);
+
+      await storage.createOutboxMessage({
+        event,
+        channel,
+        userId: addressee.userId,
+        recipient,
+        subject: message.subject,
+        body: channel === "email" ? message.text : channel === "sms" ? `SuiviScolaire : ${message.summary}` : message.summary,
+        link: addressee.link,
+        nextAttemptAt: now,
+        createdAt: now,
+      });
+    }
+  }
+}
+
+// Notifications are a side effect: failing to queue them is logged rather than failing the change itself
+async function publish(event: NotificationEvent, queue: () => Promise<void>): Promise<void> {
+  try {
+    await queue();
+  } catch (error) {
+    log(`Couldn't queue ${event} notifications: ${error instanceof Error ? error.message : error}`, "notifications");
+  }
+}
+
+// Tell the student and their guardians about newly recorded absences; presences and excused absences are skipped
+export async function notifyAbsencesRecorded(storage: IStorage, absences: Absence[]): Promise<void> {
+  await publish("absenceRecorded", async () => {
+    for (const absence of absences) {
+      if (!UNEXCUSED_STATUSES.includes(absence.status)) continue;
+      const student = await storage.getStudent(absence.studentId);
+      const session = await storage.getSession(absence.sessionId);
+      if (!student || !session) continue;
+      const moduleElement = await storage.getModuleElement(session.moduleElementId);
+
+      const addressees: Addressee[] = [];
+      for (const recipient of await notificationRecipients(storage, student)) {
+        addressees.push(await recipientAddressee(storage, recipient, "absenceRecorded", "/"));
+      }
+      await enqueue(storage, "absenceRecorded", addressees, {
+        studentName: `${student.firstName} ${student.lastName}`,
+        date: formatDate(session.date),
+        moduleElement: moduleElement?.name ?? "",
+        sessionType: SESSION_TYPE_LABELS[session.type],
+      });
+    }
+  });
+}
+
+// Tell the student, their guardians and the department heads of the course that an escalation level was crossed
+export async function notifyAbsenceAlert(storage: IStorage, alert: AbsenceAlert): Promise<void> {
+  await publish("absenceAlert", async () => {
+    const student = await storage.getStudent(alert.studentId);
+    const course = await storage.getCourse(alert.courseId);
+    if (!student || !course) return;
+
+    const addressees: Addressee[] = [];
+    for (const recipient of await notificationRecipients(storage, student)) {
+      addressees.push(await recipientAddressee(storage, recipient, "absenceAlert", "/"));
+    }
+    for (const user of await departmentHeads(storage, course.id)) {
+      addressees.push(await userAddressee(storage, user, "absenceAlert", "/alerts"));
+    }
+    await enqueue(storage, "absenceAlert", addressees, {
+      studentName: `${student.firstName} ${student.lastName}`,
+      courseName: course.name,
+      level: ESCALATION_LEVEL_LABELS[alert.level],
+      threshold: alert.unit === "hours" ? formatHours(alert.threshold) : `${alert.threshold} absences`,
+      unexcused: alert.unit === "hours"
+        ? `${formatHours(alert.unexcusedHours)} d'absence non justifiée${alert.unexcusedHours >= 2 ? "s" : ""}`
+        : `${alert.unexcusedCount} absences non justifiées`,
+    });
+  });
+}
+
+// Department heads of a course's department, who review its justifications and follow its alerts
+async function departmentHeads(storage: IStorage, courseId: number): Promise<User[]> {
+  const course = await storage.getCourse(courseId);
+  if (!course) return [];
+  return (await storage.listUsers()).filter(
+    user => user.role === "departmentHead" && user.departmentId === course.departmentId
+  );
+}
+
+// Tell the department heads of the student's course that a justification request awaits their review
+export async function notifyJustificationSubmitted(
+  storage: IStorage,
+  request: JustificationRequest,
+  absenceCount: number
+): Promise<void> {
+  await publish("justificationSubmitted", async () => {
+    const student = await storage.getStudent(request.studentId);
+    if (!student) return;
+
+    const addressees: Addressee[] = [];
+    for (const user of await departmentHeads(storage, student.courseId)) {
+      addressees.push(await userAddressee(storage, user, "justificationSubmitted", "/justifications"));
+    }
+    await enqueue(storage, "justificationSubmitted", addressees, {
+      studentName: `${student.firstName} ${student.lastName}`,
+      reason: JUSTIFICATION_REASON_LABELS[request.reason],
+      absenceCount: absenceCount.toString(),
+    });
+  });
+}
+
+// Tell whoever submitted a justification request, the student and their guardians about the decision
+export async function notifyJustificationReviewed(storage: IStorage, request: JustificationRequest): Promise<void> {
+  await publish("justificationReviewed", async () => {
+    const student = await storage.getStudent(request.studentId);
+    if (!student) return;
+
+    const addressees: Addressee[] = [];
+    const submitter = await storage.getUser(request.submittedById);
+    if (submitter) {
+      addressees.push(await userAddressee(storage, submitter, "justificationReviewed", "/justifications"));
+    }
+    for (const recipient of await notificationRecipients(storage, student)) {
+      addressees.push(await recipientAddressee(storage, recipient, "justificationReviewed", "/"));
+    }
+    await enqueue(storage, "justificationReviewed", addressees, {
+      studentName: `${student.firstName} ${student.lastName}`,
+      submittedAt: formatDate(request.submittedAt),
+      decision: request.status === "approved" ? "approuvée" : "refusée",
+      comment: request.reviewComment ? `Commentaire : ${request.reviewComment}` : "",
+    });
+  });
+}
+
+// Remind the teacher of a planned session that its attendance is missing. Once the reminder is escalated, the
+// department heads of the course are told as well.
+export async function notifyAttendanceMissing(
+  storage: IStorage,
+  session: Session,
+  step: number,
+  escalated: boolean
+): Promise<void> {
+  await publish("attendanceMissing", async () => {
+    const teacher = await storage.getUser(session.teacherId);
+    const moduleElement = await storage.getModuleElement(session.moduleElementId);
+    const module = moduleElement ? await storage.getModule(moduleElement.moduleId) : undefined;
+    const course = module ? await storage.getCourse(module.courseId) : undefined;
+    if (!teacher || !moduleElement || !course) return;
+    const group = session.groupId !== null ? await storage.getStudentGroup(session.groupId) : undefined;
+
+    const addressees: Addressee[] = [await userAddressee(storage, teacher, "attendanceMissing", "/record-absences")];
+    if (escalated) {
+      for (const user of await departmentHeads(storage, course.id)) {
+        addressees.push(await userAddressee(storage, user, "attendanceMissing", "/"));
+      }
+    }
+    await enqueue(storage, "attendanceMissing", addressees, {
+      teacherName: teacher.fullName,
+      date: formatDate(session.date),
+      moduleElement: moduleElement.name,
+      sessionType: SESSION_TYPE_LABELS[session.type],
+      groupName: group?.name ?? `toute la filière ${course.name}`,
+      reminder: [
+        step > 1 ? `Ceci est le rappel n° ${step}.` : "",
+        escalated ? "Le chef de département en est informé." : "",
+      ].filter(Boolean).join(" "),
+    });
+  });
+}
+
+// A user's phone number and their channels for every event, defaults included
+export async function notificationSettings(storage: IStorage, user: User): Promise<NotificationSettings> {
+  const preferences = await storage.listNotificationPreferences(user.id);
+  const channels = await defaultChannels(storage, user);
+  return {
+    phone: user.phone,
+    preferences: NOTIFICATION_EVENTS.map(event => ({
+      event,
+      channels: preferences.find(preference => preference.event === event)?.channels ?? channels,
+    })),
+  };
+}
+
+// Save a user's settings. Events left out of the request keep their current channels.
+export async function saveNotificationSettings(
+  storage: IStorage,
+  user: User,
+  settings: NotificationSettings
+): Promise<NotificationSettings> {
+  const current = await notificationSettings(storage, user);
+  const preferences = current.preferences.map(preference =>
+    settings.preferences.find(update => update.event === preference.event) ?? preference
+  );
+  if (!settings.phone && preferences.some(preference => preference.channels.includes("sms"))) {
+    throw new ValidationError("SMS notifications need a phone number", "phone");
+  }
+  const updatedUser = user.phone === settings.phone ? user : await storage.updateUser(user.id, { phone: settings.phone });
+  await storage.replaceNotificationPreferences(user.id, preferences);
+  return notificationSettings(storage, updatedUser ?? user);
+}
+
+const LISTED_NOTIFICATIONS = 50;
+
+// Latest in-app notifications of a user, newest first, with how many of all their notifications are unread
+export async function listUserNotifications(
+  storage: IStorage,
+  user: User
+): Promise<{ notifications: Notification[]; unreadCount: number }> {
+  const notifications = await storage.listNotificationsByUser(user.id);
+  return {
+    notifications: notifications
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(0, LISTED_NOTIFICATIONS),
+    unreadCount: notifications.filter(notification => !notification.readAt).length,
+  };
+}
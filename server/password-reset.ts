@@ -0,0 +1,65 @@
+import { createHash, randomBytes } from "crypto";
+import type { IStorage } from "./storage";
+import type { MailTransport } from "./mail";
+import { config } from "./config";
+import { ValidationError } from "./integrity";
+import { assertPasswordPolicy, hashPassword } from "./passwords";
+
+const TOKEN_BYTES = 32;
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Email a reset link to the account matching the username or email. Unknown identifiers are ignored
+// silently so the endpoint can't be used to find out which accounts exist.
+export async function requestPasswordReset(
+  storage: IStorage,
+  mail: MailTransport,
+  identifier: string
+): Promise<void> {
+  const user = (await storage.getUserByUsername(identifier)) ?? (await storage.getUserByEmail(identifier));
+  if (!user) return;
+
+  const token = randomBytes(TOKEN_BYTES).toString("base64url");
+  const expiresAt = new Date(Date.now() + config.passwordResetTtlMinutes * 60 * 1000);
+  await storage.createPasswordResetToken({ userId: user.id, tokenHash: hashToken(token), expiresAt });
+
+  const link = `${config.appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+  await mail.send({
+    to: user.email,
+    subject: "Réinitialisation de votre mot de passe SuiviScolaire",
+    text: [
+      `Bonjour ${user.fullName},`,
+      "",
+      "Une réinitialisation du mot de passe de votre compte SuiviScolaire a été demandée.",
+      `Pour choisir un nouveau mot de passe, ouvrez ce lien dans les ${config.passwordResetTtlMinutes} minutes :`,
+      link,
+      "",
+      "Si vous n'êtes pas à l'origine de cette demande, ignorez ce message : votre mot de passe reste inchangé.",
+    ].join("\n"),
+  });
+}
+
+// Redeem a reset token and set the new password, returning the id of the user. The token is consumed before
+// the password is written so that it can only be used once, even by concurrent requests.
+export async function resetPassword(storage: IStorage, token: string, password: string): Promise<number> {
+  const resetToken = await storage.getPasswordResetTokenByHash(hashToken(token));
+  if (!resetToken || resetToken.usedAt || resetToken.expiresAt.getTime() < Date.now()) {
+    throw new ValidationError("The reset link is invalid or has expired", "token");
+  }
+
+  assertPasswordPolicy(password);
+  const hashedPassword = await hashPassword(password);
+  if (!(await storage.consumePasswordResetToken(resetToken.id))) {
+    throw new ValidationError("The reset link is invalid or has expired", "token");
+  }
+  // Proving ownership of the mailbox also lifts a lockout from failed logins
+  await storage.updateUser(resetToken.userId, {
+    password: hashedPassword,
+    mustChangePassword: false,
+    failedLoginAttempts: 0,
+    lockedUntil: null,
+  });
+  return resetToken.userId;
+}
@@ -0,0 +1,81 @@
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from "crypto";
+import type { User } from "@shared/schema";
+import { passwordPolicyViolations } from "@shared/password-policy";
+import { config } from "./config";
+import { ValidationError } from "./integrity";
+
+// Stored hashes look like "scrypt$<N>$<r>$<p>$<salt>$<hash>" (salt and hash base64-encoded) so the
+// cost parameters can be raised later and older hashes recognised and upgraded on the next login.
+const SCHEME = "scrypt";
+const COST = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+function deriveKey(password: string, salt: Buffer, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, options, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await deriveKey(password, salt, COST);
+  return [SCHEME, COST.N, COST.r, COST.p, salt.toString("base64"), key.toString("base64")].join("$");
+}
+
+export interface PasswordCheck {
+  valid: boolean;
+  // The stored value is plaintext or uses outdated parameters and should be replaced by a fresh hash
+  needsRehash: boolean;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<PasswordCheck> {
+  const parts = stored.split("$");
+  if (parts.length !== 6 || parts[0] !== SCHEME) {
+    // Legacy plaintext password, kept until the user next logs in
+    return { valid: safeEqual(Buffer.from(password), Buffer.from(stored)), needsRehash: true };
+  }
+
+  const [, N, r, p, salt, hash] = parts;
+  const options = { N: Number(N), r: Number(r), p: Number(p) };
+  const expected = Buffer.from(hash, "base64");
+  const key = await deriveKey(password, Buffer.from(salt, "base64"), options);
+  return {
+    valid: safeEqual(key, expected),
+    needsRehash: options.N !== COST.N || options.r !== COST.r || options.p !== COST.p,
+  };
+}
+
+// Hash checked when there is no account to verify against, so a failed login takes as long either way
+let decoyHash: Promise<string> | undefined;
+
+export async function verifyDecoyPassword(password: string): Promise<PasswordCheck> {
+  decoyHash ??= hashPassword(randomBytes(SALT_LENGTH).toString("hex"));
+  await verifyPassword(password, await decoyHash);
+  return { valid: false, needsRehash: false };
+}
+
+function safeEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// Reject passwords that do not satisfy the configured policy
+export function assertPasswordPolicy(password: string): void {
+  const violations = passwordPolicyViolations(password, config.passwordPolicy);
+  if (violations.length > 0) {
+    throw new ValidationError("The password does not satisfy the password policy", "password", {
+      violations,
+      policy: config.passwordPolicy,
+    });
+  }
+}
+
+export type PublicUser = Omit<User, "password" | "totpSecret" | "totpRecoveryCodes" | "totpLastUsedStep"> & {
+  twoFactorEnabled: boolean;
+};
+
+// User as returned by the API, without the password hash or the two-factor secrets
+export function toPublicUser(user: User): PublicUser {
+  const { password, totpSecret, totpRecoveryCodes, totpLastUsedStep, ...publicUser } = user;
+  return { ...publicUser, twoFactorEnabled: !!totpSecret };
+}
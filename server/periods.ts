@@ -0,0 +1,82 @@
+import type { AcademicYear, Semester, Absence } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { ValidationError } from "./integrity";
+
+// Settings key holding the id of the semester new records and default list views are scoped to
+export const ACTIVE_SEMESTER_KEY = "activeSemesterId";
+
+export interface ActivePeriod {
+  academicYear: AcademicYear | null;
+  semester: Semester | null;
+}
+
+export async function getActivePeriod(storage: IStorage): Promise<ActivePeriod> {
+  const value = await storage.getSetting(ACTIVE_SEMESTER_KEY);
+  const semester = value ? await storage.getSemester(parseInt(value, 10)) : undefined;
+  if (!semester) {
+    return { academicYear: null, semester: null };
+  }
+  const academicYear = await storage.getAcademicYear(semester.academicYearId);
+  return { academicYear: academicYear ?? null, semester };
+}
+
+export async function setActivePeriod(storage: IStorage, semesterId: number): Promise<ActivePeriod> {
+  const semester = await storage.getSemester(semesterId);
+  if (!semester) {
+    throw new ValidationError("Semester not found", "semesterId");
+  }
+  await storage.setSetting(ACTIVE_SEMESTER_KEY, semesterId.toString());
+  return getActivePeriod(storage);
+}
+
+// Semester a list route is scoped to: `?semesterId=<id>` picks a past one, `?semesterId=all`
+// disables scoping, and by default the active semester is used (no scoping when none is set).
+export async function resolveSemesterFilter(
+  storage: IStorage,
+  semesterIdParam: unknown
+): Promise<Semester | undefined> {
+  if (semesterIdParam === "all") return undefined;
+  if (typeof semesterIdParam === "string" && semesterIdParam !== "") {
+    const semester = await storage.getSemester(parseInt(semesterIdParam, 10));
+    if (!semester) {
+      throw new ValidationError("Semester not found", "semesterId");
+    }
+    return semester;
+  }
+  return (await getActivePeriod(storage)).semester ?? undefined;
+}
+
+const toDay = (date: Date | string) => new Date(date).toISOString().slice(0, 10);
+
+// Semester a new session falls in: the one covering its date, else the active one
+export async function semesterForDate(storage: IStorage, date: Date): Promise<Semester | undefined> {
+  const day = toDay(date);
+  const covering = (await storage.listSemesters()).find(
+    semester => semester.startDate <= day && day <= semester.endDate
+  );
+  return covering ?? (await getActivePeriod(storage)).semester ?? undefined;
+}
+
+export function assertDateRange(startDate: string, endDate: string): void {
+  if (startDate > endDate) {
+    throw new ValidationError("The start date must be before the end date", "endDate");
+  }
+}
+
+export function assertSemesterWithinYear(
+  semester: { startDate: string; endDate: string },
+  academicYear: AcademicYear
+): void {
+  assertDateRange(semester.startDate, semester.endDate);
+  if (semester.startDate < academicYear.startDate || semester.endDate > academicYear.endDate) {
+    throw new ValidationError("The semester must fall within its academic year", "startDate");
+  }
+}
+
+// Absences recorded during the given semester, i.e. whose session is scoped to it
+export async function listAbsencesInSemester(storage: IStorage, semester: Semester, absences?: Absence[]) {
+  const sessionIds = (await storage.listSessions())
+    .filter(session => session.semesterId === semester.id)
+    .map(session => session.id);
+  return (absences ?? await storage.listAbsences()).filter(absence => sessionIds.includes(absence.sessionId));
+}
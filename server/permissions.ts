@@ -0,0 +1,63 @@
+import {
+  ROLES,
+  DEFAULT_ROLE_PERMISSIONS,
+  LOCKED_ADMIN_PERMISSIONS,
+  isPermission,
+  type Permission,
+  type Role,
+  type RolePermissions,
+} from "@shared/permissions";
+import type { User } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { ValidationError } from "./integrity";
+
+// Settings key holding the JSON role→permissions mapping chosen by administrators
+export const ROLE_PERMISSIONS_KEY = "rolePermissions";
+
+// Roles missing from the stored mapping, e.g. added since it was saved, keep their default permissions
+export async function getRolePermissions(storage: IStorage): Promise<RolePermissions> {
+  const value = await storage.getSetting(ROLE_PERMISSIONS_KEY);
+  const stored: Partial<Record<string, string[]>> = value ? JSON.parse(value) : {};
+  const mapping = { ...DEFAULT_ROLE_PERMISSIONS };
+  for (const role of ROLES) {
+    const permissions = stored[role];
+    if (permissions) mapping[role] = permissions.filter(isPermission);
+  }
+  return mapping;
+}
+
+export async function setRolePermissions(
+  storage: IStorage,
+  mapping: Partial<Record<string, string[]>>
+): Promise<RolePermissions> {
+  const unknownRole = Object.keys(mapping).find(role => !(ROLES as readonly string[]).includes(role));
+  if (unknownRole) {
+    throw new ValidationError(`Unknown role "${unknownRole}"`, "roles");
+  }
+  const current = await getRolePermissions(storage);
+  for (const role of ROLES) {
+    const permissions = mapping[role];
+    if (!permissions) continue;
+    const unknownPermission = permissions.find(permission => !isPermission(permission));
+    if (unknownPermission) {
+      throw new ValidationError(`Unknown permission "${unknownPermission}"`, "permissions");
+    }
+    current[role] = Array.from(new Set(permissions as Permission[]));
+  }
+  const missing = LOCKED_ADMIN_PERMISSIONS.find(permission => !current.admin.includes(permission));
+  if (missing) {
+    throw new ValidationError(`Administrators can't lose the "${missing}" permission`, "permissions");
+  }
+  await storage.setSetting(ROLE_PERMISSIONS_KEY, JSON.stringify(current));
+  return current;
+}
+
+export async function permissionsFor(storage: IStorage, user: User): Promise<Permission[]> {
+  return (await getRolePermissions(storage))[user.role as Role] ?? [];
+}
+
+// True when the user holds at least one of the permissions
+export async function hasPermission(storage: IStorage, user: User, ...permissions: Permission[]): Promise<boolean> {
+  const granted = await permissionsFor(storage, user);
+  return permissions.some(permission => granted.includes(permission));
+}
@@ -0,0 +1,250 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import express from "express";
+import request from "supertest";
+import type { Absence, Session, Student, User } from "@shared/schema";
+
+// The configuration is read when the server modules load: sessions go to a scratch directory, and accounts
+// and addresses are throttled after a few failures so the tests don't wait on the growing delays
+await vi.hoisted(async () => {
+  const { mkdtempSync } = await import("fs");
+  const { tmpdir } = await import("os");
+  const path = await import("path");
+  process.env.SESSION_DIR = mkdtempSync(path.join(tmpdir(), "sessions-"));
+  process.env.LOGIN_MAX_ATTEMPTS = "2";
+  process.env.LOGIN_IP_MAX_ATTEMPTS = "3";
+});
+
+const { registerRoutes } = await import("./routes");
+const { storage } = await import("./storage");
+const { mailTransport } = await import("./mail");
+const { hashPassword } = await import("./passwords");
+
+const PASSWORD = "Secret123";
+
+let app: express.Express;
+let admin: User;
+let head: User;
+let teacher: User;
+let otherTeacher: User;
+let student: Student;
+let otherStudent: Student;
+let session: Session;
+let otherSession: Session;
+
+// Each test logs in from an address of its own, so failed logins in one don't throttle the others
+let lastAddress = 0;
+const nextAddress = () => `10.0.0.${++lastAddress}`;
+
+async function login(user: User, address = nextAddress()) {
+  const agent = request.agent(app).set("X-Forwarded-For", address);
+  await agent.post("/api/auth/login").send({ username: user.username, password: PASSWORD }).expect(200);
+  return agent;
+}
+
+beforeAll(async () => {
+  app = express();
+  app.set("trust proxy", true);
+  app.use(express.json());
+  await registerRoutes(app);
+
+  const password = await hashPassword(PASSWORD);
+  const createUser = (username: string, role: User["role"], departmentId: number | null = null) =>
+    storage.createUser({
+      username, password, fullName: username, email: `${username}@example.com`, role, departmentId, mustChangePassword: false,
+    });
+
+  const departments = [];
+  const students = [];
+  const elements = [];
+  for (const name of ["Informatique", "Mathématiques"]) {
+    const department = await storage.createDepartment({ name });
+    const course = await storage.createCourse({ name, code: name.slice(0, 3), departmentId: department.id });
+    const module = await storage.createModule({ name: `${name} 1`, code: `${course.code}1`, courseId: course.id });
+    elements.push(await storage.createModuleElement({ name: `${name} 1.1`, code: `${course.code}11`, moduleId: module.id, type: "course" }));
+    students.push(await storage.createStudent({
+      studentId: `S${department.id}`, firstName: "Amine", lastName: name, email: `amine.${department.id}@example.com`, courseId: course.id,
+    }));
+    departments.push(department);
+  }
+  [student, otherStudent] = students;
+
+  admin = await createUser("directrice", "admin");
+  head = await createUser("cheffe", "departmentHead", departments[0].id);
+  teacher = await createUser("prof", "teacher");
+  otherTeacher = await createUser("collegue", "teacher");
+  await storage.assignTeacherToModuleElement({ teacherId: teacher.id, moduleElementId: elements[0].id });
+  session = await storage.createSession({
+    date: new Date(2026, 9, 12, 8), type: "course", moduleElementId: elements[0].id, teacherId: teacher.id,
+  });
+  otherSession = await storage.createSession({
+    date: new Date(2026, 9, 12, 10), type: "course", moduleElementId: elements[1].id, teacherId: otherTeacher.id,
+  });
+});
+
+describe("permissions", () => {
+  it("turns away requests without a session", async () => {
+    await request(app).get("/api/statistics").expect(401);
+  });
+
+  it("requires reports:view for the statistics", async () => {
+    await (await login(teacher)).get("/api/statistics").expect(403);
+    await (await login(head)).get("/api/statistics").expect(200);
+  });
+
+  it("keeps users who must change their password to the auth routes", async () => {
+    const user = await storage.createUser({
+      username: "nouveau", password: await hashPassword(PASSWORD), fullName: "Nouveau", email: "nouveau@example.com",
+      role: "teacher", mustChangePassword: true,
+    });
+    const agent = await login(user);
+
+    const response = await agent.get("/api/sessions").expect(403);
+    expect(response.body).toMatchObject({ code: "passwordChangeRequired" });
+    await agent.post("/api/auth/change-password").send({ currentPassword: PASSWORD, newPassword: "Nouveau456" }).expect(200);
+    await agent.get("/api/sessions").expect(200);
+  });
+});
+
+describe("department scope", () => {
+  it("limits department heads to the students of their department", async () => {
+    const agent = await login(head);
+
+    await agent.get(`/api/students/${student.id}`).expect(200);
+    await agent.get(`/api/students/${otherStudent.id}`).expect(403);
+  });
+
+  it("lists only the enrollments of the department", async () => {
+    const year = await storage.createAcademicYear({ name: "2026-2027", startDate: "2026-09-01", endDate: "2027-06-30" });
+    const enrollments = [];
+    for (const { id, courseId } of [student, otherStudent]) {
+      enrollments.push(await storage.createEnrollment({ studentId: id, courseId, academicYearId: year.id }));
+    }
+    const agent = await login(head);
+
+    const response = await agent.get(`/api/enrollments?academicYearId=${year.id}`).expect(200);
+    expect(response.body.map((enrollment: { id: number }) => enrollment.id)).toEqual([enrollments[0].id]);
+    const all = await (await login(admin)).get(`/api/enrollments?academicYearId=${year.id}`).expect(200);
+    expect(all.body).toHaveLength(2);
+  });
+});
+
+describe("session ownership", () => {
+  it("lets teachers record attendance only for their own sessions", async () => {
+    const agent = await login(teacher);
+    const absences = [{ studentId: student.id, status: "absent" }];
+
+    await agent.post(`/api/sessions/${otherSession.id}/attendance`).send({ absences }).expect(403);
+    await agent.post(`/api/sessions/${session.id}/attendance`).send({ absences }).expect(201);
+  });
+});
+
+describe("statistics", () => {
+  it("shows only sessions whose attendance was taken among the recent activities", async () => {
+    const response = await (await login(admin)).get("/api/statistics/recent-activities").expect(200);
+
+    expect(response.body.map((activity: { sessionId: number }) => activity.sessionId)).toEqual([session.id]);
+  });
+});
+
+describe("justification review", () => {
+  let absence: Absence;
+  let requestId: number;
+
+  beforeAll(async () => {
+    absence = await storage.createAbsence({ sessionId: otherSession.id, studentId: student.id, status: "absent" });
+    ({ id: requestId } = await storage.createJustificationRequest({
+      studentId: student.id,
+      reason: "medical",
+      explanation: "Grippe",
+      status: "pending",
+      submittedById: teacher.id,
+      submittedAt: new Date(),
+    }, [absence.id], []));
+  });
+
+  it("justifies the absences once, for reviewers of the student's department", async () => {
+    const agent = await login(head);
+
+    await (await login(teacher)).post(`/api/justification-requests/${requestId}/review`).send({ decision: "approved" }).expect(403);
+    const response = await agent.post(`/api/justification-requests/${requestId}/review`).send({ decision: "approved" }).expect(200);
+    expect(response.body).toMatchObject({ status: "approved", reviewedById: head.id });
+    expect((await storage.getAbsence(absence.id))?.status).toBe("justified");
+    await agent.post(`/api/justification-requests/${requestId}/review`).send({ decision: "rejected" }).expect(422);
+  });
+
+  it("refuses reviewers of another department", async () => {
+    const otherAbsence = await storage.createAbsence({ sessionId: otherSession.id, studentId: otherStudent.id, status: "absent" });
+    const { id } = await storage.createJustificationRequest({
+      studentId: otherStudent.id,
+      reason: "medical",
+      explanation: "Grippe",
+      status: "pending",
+      submittedById: otherTeacher.id,
+      submittedAt: new Date(),
+    }, [otherAbsence.id], []);
+
+    await (await login(head)).post(`/api/justification-requests/${id}/review`).send({ decision: "approved" }).expect(403);
+    expect((await storage.getAbsence(otherAbsence.id))?.status).toBe("absent");
+  });
+});
+
+describe("login throttling", () => {
+  it("locks an account after repeated failures, even for the right password", async () => {
+    const user = await storage.createUser({
+      username: "distrait", password: await hashPassword(PASSWORD), fullName: "Distrait", email: "distrait@example.com",
+      role: "teacher", mustChangePassword: false,
+    });
+    for (let attempt = 0; attempt < 2; attempt++) {
+      await request(app).post("/api/auth/login").set("X-Forwarded-For", nextAddress())
+        .send({ username: user.username, password: "wrong" }).expect(401);
+    }
+
+    await request(app).post("/api/auth/login").set("X-Forwarded-For", nextAddress())
+      .send({ username: user.username, password: PASSWORD }).expect(401);
+    expect((await storage.getUser(user.id))?.lockedUntil).toBeInstanceOf(Date);
+  });
+
+  it("refuses further attempts from an address that failed too often", async () => {
+    const address = nextAddress();
+    for (const username of ["inconnu1", "inconnu2", "inconnu3"]) {
+      await request(app).post("/api/auth/login").set("X-Forwarded-For", address)
+        .send({ username, password: "wrong" }).expect(401);
+    }
+
+    const response = await request(app).post("/api/auth/login").set("X-Forwarded-For", address)
+      .send({ username: teacher.username, password: PASSWORD }).expect(429);
+    expect(Number(response.headers["retry-after"])).toBeGreaterThan(0);
+    await login(teacher);
+  });
+});
+
+describe("passwords", () => {
+  it("resets a forgotten password once with the emailed link, ending the account's sessions", async () => {
+    const user = await storage.createUser({
+      username: "oublieux", password: await hashPassword(PASSWORD), fullName: "Oublieux", email: "oublieux@example.com",
+      role: "teacher", mustChangePassword: false,
+    });
+    const send = vi.spyOn(mailTransport, "send").mockResolvedValue();
+    const agent = await login(user);
+
+    await request(app).post("/api/auth/password-reset/request").send({ identifier: user.email }).expect(202);
+    const token = new URL(send.mock.calls[0][0].text.match(/https?:\S+/)![0]).searchParams.get("token");
+    await request(app).post("/api/auth/password-reset/confirm").send({ token, password: "Nouveau456" }).expect(200);
+
+    await agent.get("/api/auth/session").expect(401);
+    await request(app).post("/api/auth/password-reset/confirm").send({ token, password: "Encore789" }).expect(422);
+    await request(app).post("/api/auth/login").set("X-Forwarded-For", nextAddress())
+      .send({ username: user.username, password: "Nouveau456" }).expect(200);
+    send.mockRestore();
+  });
+
+  it("logs a user out everywhere when an administrator sets their password", async () => {
+    const agent = await login(otherTeacher);
+    const adminAgent = await login(admin);
+
+    await adminAgent.put(`/api/users/${otherTeacher.id}`).send({ password: "Nouveau456" }).expect(200);
+
+    await agent.get("/api/auth/session").expect(401);
+    await adminAgent.get("/api/auth/session").expect(200);
+  });
+});
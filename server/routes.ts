@@ -1,9 +1,10 @@
 import express, { type Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, auditLog } from "./storage";
 import { 
-  insertUserSchema, 
-  insertDepartmentSchema, 
+  userPayloadSchema, 
+  insertDepartmentSchema,
+  roomPayloadSchema,
   insertCourseSchema, 
   insertModuleSchema, 
   insertModuleElementSchema, 
@@ -11,32 +12,130 @@ import {
   insertStudentSchema, 
   insertStudentGroupSchema, 
   insertStudentGroupAssignmentSchema, 
-  insertSessionSchema, 
-  insertAbsenceSchema 
+  insertAbsenceSchema,
+  insertAcademicYearSchema,
+  insertSemesterSchema,
+  insertEnrollmentSchema,
+  sessionPayloadSchema,
+  recordAttendanceSchema,
+  sessionAttendanceSchema,
+  timetableSlotPayloadSchema,
+  justificationPayloadSchema,
+  justificationReviewSchema,
+  insertGuardianSchema,
+  thresholdLevelsPayloadSchema,
+  absenceAlertClosingSchema,
+  notificationSettingsSchema,
+  type Absence,
+  type JustificationRequest
 } from "@shared/schema";
 import { z } from "zod";
+import { ConstraintError, ForbiddenError } from "./integrity";
+import { hashPassword, verifyPassword, verifyDecoyPassword, assertPasswordPolicy, toPublicUser } from "./passwords";
+import { config } from "./config";
+import { mailTransport } from "./mail";
+import { smsTransport } from "./sms";
+import {
+  NotificationOutbox,
+  EmailNotificationTransport,
+  SmsNotificationTransport,
+  InAppNotificationTransport,
+} from "./notification-outbox";
+import {
+  notifyAbsencesRecorded,
+  notifyJustificationSubmitted,
+  notifyJustificationReviewed,
+  notificationSettings,
+  listUserNotifications,
+  saveNotificationSettings,
+} from "./notifications";
+import { requestPasswordReset, resetPassword } from "./password-reset";
+import { LoginThrottle } from "./login-throttle";
+import {
+  TWO_FACTOR_ROLES,
+  PENDING_LOGIN_TTL_MS,
+  getTwoFactorPolicy,
+  setTwoFactorPolicy,
+  isTwoFactorRequired,
+  createTwoFactorSetup,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  verifySecondFactor
+} from "./two-factor";
+import {
+  getActivePeriod,
+  setActivePeriod,
+  resolveSemesterFilter,
+  semesterForDate,
+  listAbsencesInSemester,
+  assertDateRange,
+  assertSemesterWithinYear
+} from "./periods";
+import { DepartmentScope } from "./department-scope";
+import { SessionOwnership } from "./session-ownership";
+import { getRolePermissions, setRolePermissions, permissionsFor, hasPermission } from "./permissions";
+import type { Permission } from "@shared/permissions";
+import { isLateness } from "@shared/lateness";
+import { auditContext } from "./audit";
+import {
+  receiveDocuments,
+  discardDocuments,
+  documentPath,
+  loadAbsences,
+  justificationDetails,
+  submitJustificationRequest,
+  reviewJustificationRequest
+} from "./justifications";
+import {
+  assertStudentLink,
+  isStudentAccount,
+  assertOwnStudent,
+  buildStudentPortal,
+  UNEXCUSED_STATUSES,
+  convertedLateness,
+} from "./student-portal";
+import { requestMagicLink, redeemMagicLink, buildGuardianPortal } from "./guardians";
+import {
+  escalationLevels,
+  setEscalationLevels,
+  evaluateThresholds,
+  closeAbsenceAlert,
+  absenceAlertDetails
+} from "./threshold-alerts";
+import {
+  createTimetableSlot,
+  updateTimetableSlot,
+  deleteTimetableSlot,
+  listPendingSessions
+} from "./timetable";
+import { assertLatenessMinutes, assertNotJustified, assertSessionTimes } from "./attendance";
+import { assertSessionBookings, capacityWarnings } from "./scheduling";
+import { absenceHours, absenceTotals } from "./absence-totals";
+import {
+  AttendanceReminders,
+  listMissingAttendance,
+  missingAttendanceDetails,
+  attendanceCompletion
+} from "./attendance-reminders";
+import { SessionRegistry, createSessionStore, sessionMaxAgeMs, toPublicUserSession } from "./user-sessions";
 import session from "express-session";
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import MemoryStore from "memorystore";
-
-// Session setup
-const MemoryStoreSession = MemoryStore(session);
 
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
+  const sessionStore = createSessionStore();
 
   // Set up session middleware
   app.use(
     session({
-      secret: "absence-management-system-secret",
+      secret: config.session.secret,
       resave: false,
       saveUninitialized: false,
-      store: new MemoryStoreSession({
-        checkPeriod: 86400000, // prune expired entries every 24h
-      }),
+      store: sessionStore,
       cookie: {
-        maxAge: 24 * 60 * 60 * 1000, // 24 hours
+        maxAge: sessionMaxAgeMs(),
         secure: process.env.NODE_ENV === "production",
       },
     })
@@ -46,17 +145,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use(passport.initialize());
   app.use(passport.session());
 
+  const loginThrottle = new LoginThrottle(storage);
+  const sessionRegistry = new SessionRegistry(storage, sessionStore);
+  const notificationOutbox = new NotificationOutbox(storage, {
+    email: new EmailNotificationTransport(mailTransport),
+    sms: new SmsNotificationTransport(smsTransport),
+    inApp: new InAppNotificationTransport(storage),
+  });
+  notificationOutbox.start();
+  new AttendanceReminders(storage).start();
+  const clientIp = (req: Request) => req.ip ?? req.socket.remoteAddress ?? "unknown";
+
+  // Changes made while handling a request are logged with its user and address
+  app.use("/api", (req, res, next) => {
+    auditContext.run({ userId: () => (req.user as any)?.id ?? null, ipAddress: clientIp(req) }, next);
+  });
+
+  // Record the device and last activity of logged-in sessions
+  app.use("/api", async (req, res, next) => {
+    try {
+      await sessionRegistry.track(req, clientIp(req));
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // Configure passport local strategy
   passport.use(
-    new LocalStrategy(async (username, password, done) => {
+    new LocalStrategy({ passReqToCallback: true }, async (req, username, password, done) => {
       try {
         const user = await storage.getUserByUsername(username);
-        if (!user) {
-          return done(null, false, { message: "Invalid username" });
+        // Unknown users, locked accounts and wrong passwords all get the same answer, after a delay
+        // that grows with each failure, so responses don't reveal which accounts exist
+        const { valid, needsRehash } = user && !loginThrottle.isLocked(user)
+          ? await verifyPassword(password, user.password)
+          : await verifyDecoyPassword(password);
+        if (!user || !valid) {
+          const delay = await loginThrottle.recordFailure(clientIp(req), user);
+          await new Promise(resolve => setTimeout(resolve, delay));
+          return done(null, false, { message: "Invalid username or password" });
         }
-        // In a real app, you'd use a proper password hashing library like bcrypt
-        if (user.password !== password) {
-          return done(null, false, { message: "Invalid password" });
+
+        await loginThrottle.recordSuccess(user);
+        // Upgrade plaintext or outdated hashes now that the password is known
+        if (needsRehash) {
+          await storage.updateUser(user.id, { password: await hashPassword(password) });
         }
         return done(null, user);
       } catch (error) {
@@ -78,6 +212,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Current user as sent to the client, with whether the two-factor policy still requires enrollment
+  const toSessionUser = async (user: any) => ({
+    ...toPublicUser(user),
+    twoFactorSetupRequired: !user.totpSecret && await isTwoFactorRequired(storage, user),
+    permissions: await permissionsFor(storage, user),
+  });
+
+  // Until users replace a password chosen by an administrator, or enroll in two-factor authentication
+  // when the policy requires it for their role, only the auth routes are open to them
+  app.use("/api", async (req, res, next) => {
+    if (!req.isAuthenticated() || req.path.startsWith("/auth/")) {
+      return next();
+    }
+    const user = req.user as any;
+    if (user.mustChangePassword) {
+      return res.status(403).json({ message: "Password change required", code: "passwordChangeRequired" });
+    }
+    try {
+      if (!user.totpSecret && await isTwoFactorRequired(storage, user)) {
+        return res.status(403).json({ message: "Two-factor authentication setup required", code: "twoFactorSetupRequired" });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // Authentication middleware
   const isAuthenticated = (req: Request, res: Response, next: Function) => {
     if (req.isAuthenticated()) {
@@ -86,37 +247,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.status(401).json({ message: "Unauthorized" });
   };
 
-  const isAdmin = (req: Request, res: Response, next: Function) => {
-    if (req.isAuthenticated() && req.user && (req.user as any).role === "admin") {
-      return next();
-    }
-    res.status(403).json({ message: "Forbidden - Admin access required" });
-  };
+  // Only lets through users whose role grants at least one of the permissions
+  const requirePermission = (...permissions: Permission[]) =>
+    async (req: Request, res: Response, next: Function) => {
+      if (!req.isAuthenticated() || !req.user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      try {
+        if (await hasPermission(storage, req.user as any, ...permissions)) {
+          return next();
+        }
+        res.status(403).json({ message: "Forbidden - Missing permission", permissions });
+      } catch (error) {
+        next(error);
+      }
+    };
 
-  const isDepartmentHead = (req: Request, res: Response, next: Function) => {
-    if (
-      req.isAuthenticated() && 
-      req.user && 
-      ((req.user as any).role === "departmentHead" || (req.user as any).role === "admin")
-    ) {
-      return next();
-    }
-    res.status(403).json({ message: "Forbidden - Department Head access required" });
-  };
+  // Records the current user may reach; without departments:all, only those of their own department
+  const scopeFor = (req: Request) => DepartmentScope.forUser(storage, req.user as any);
 
-  const isTeacher = (req: Request, res: Response, next: Function) => {
-    if (
-      req.isAuthenticated() && 
-      req.user && 
-      ((req.user as any).role === "teacher" || (req.user as any).role === "departmentHead" || (req.user as any).role === "admin")
-    ) {
-      return next();
+  // Sessions and attendance the current user may change; teachers are limited to their own
+  const ownershipFor = (req: Request) => SessionOwnership.forUser(storage, req.user as any);
+
+  // Justification requests are visible to whoever submitted them and to reviewers of the student's department;
+  // students see every request about themselves
+  const assertJustificationAccess = async (req: Request, request: JustificationRequest) => {
+    const user = req.user as any;
+    if (isStudentAccount(user)) return assertOwnStudent(user, request.studentId);
+    if (request.submittedById === user.id) return;
+    if (!(await hasPermission(storage, user, "justifications:review"))) {
+      throw new ForbiddenError("This justification request was submitted by someone else");
     }
-    res.status(403).json({ message: "Forbidden - Teacher access required" });
+    await (await scopeFor(req)).assertStudent(request.studentId);
   };
 
   // Auth routes
   app.post("/api/auth/login", (req, res, next) => {
+    const retryAfter = loginThrottle.ipRetryAfter(clientIp(req));
+    if (retryAfter > 0) {
+      res.set("Retry-After", retryAfter.toString());
+      return res.status(429).json({ message: "Too many failed login attempts, try again later", retryAfter });
+    }
+
     passport.authenticate("local", (err: any, user: any, info: any) => {
       if (err) {
         return res.status(500).json({ message: "Internal server error" });
@@ -124,849 +296,2475 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!user) {
         return res.status(401).json({ message: info.message });
       }
-      req.logIn(user, (loginErr) => {
+      // The password is right, but the session is only opened once the second factor is verified
+      if (user.totpSecret) {
+        req.session.pendingTwoFactor = { userId: user.id, expiresAt: Date.now() + PENDING_LOGIN_TTL_MS };
+        return res.json({ twoFactorRequired: true });
+      }
+      req.logIn(user, async (loginErr) => {
         if (loginErr) {
           return res.status(500).json({ message: "Internal server error" });
         }
-        return res.json({
-          id: user.id,
-          username: user.username,
-          fullName: user.fullName,
-          email: user.email,
-          role: user.role,
-          departmentId: user.departmentId
-        });
+        try {
+          await sessionRegistry.track(req, clientIp(req), true);
+          return res.json(await toSessionUser(user));
+        } catch (error) {
+          return res.status(500).json({ message: "Internal server error" });
+        }
       });
     })(req, res, next);
   });
 
-  app.post("/api/auth/logout", (req, res) => {
-    req.logout(function(err) {
-      if (err) { return res.status(500).json({ message: "Error logging out" }); }
-      res.json({ message: "Logged out successfully" });
-    });
-  });
+  app.post("/api/auth/2fa/verify", async (req, res) => {
+    try {
+      const factor = z.object({
+        code: z.string().optional(),
+        recoveryCode: z.string().optional(),
+      }).parse(req.body);
 
-  app.get("/api/auth/session", (req, res) => {
-    if (!req.isAuthenticated() || !req.user) {
-      return res.status(401).json({ authenticated: false });
-    }
-    
-    const user = req.user as any;
-    return res.json({
-      authenticated: true,
-      user: {
-        id: user.id,
-        username: user.username,
-        fullName: user.fullName,
-        email: user.email,
-        role: user.role,
-        departmentId: user.departmentId
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "No pending login, sign in again", code: "twoFactorLoginExpired" });
+      }
+      const retryAfter = loginThrottle.ipRetryAfter(clientIp(req));
+      if (retryAfter > 0) {
+        res.set("Retry-After", retryAfter.toString());
+        return res.status(429).json({ message: "Too many failed login attempts, try again later", retryAfter });
       }
-    });
-  });
 
-  // User routes
-  app.get("/api/users", isAdmin, async (req, res) => {
-    try {
-      const users = await storage.listUsers();
-      res.json(users.map(user => ({
-        id: user.id,
-        username: user.username,
-        fullName: user.fullName,
-        email: user.email,
-        role: user.role,
-        departmentId: user.departmentId
-      })));
-    } catch (error) {
-      res.status(500).json({ message: "Error fetching users" });
-    }
-  });
+      const user = await storage.getUser(pending.userId);
+      // Wrong codes count as failed logins, so guessing codes locks the account like guessing passwords
+      if (!user || loginThrottle.isLocked(user) || !(await verifySecondFactor(storage, user, factor))) {
+        const delay = await loginThrottle.recordFailure(clientIp(req), user);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        return res.status(401).json({ message: "Invalid verification code" });
+      }
 
-  app.post("/api/users", isAdmin, async (req, res) => {
-    try {
-      const userData = insertUserSchema.parse(req.body);
-      const user = await storage.createUser(userData);
-      res.status(201).json({
-        id: user.id,
-        username: user.username,
-        fullName: user.fullName,
-        email: user.email,
-        role: user.role,
-        departmentId: user.departmentId
+      await loginThrottle.recordSuccess(user);
+      delete req.session.pendingTwoFactor;
+      req.logIn(user, async (loginErr) => {
+        if (loginErr) {
+          return res.status(500).json({ message: "Internal server error" });
+        }
+        try {
+          await sessionRegistry.track(req, clientIp(req), true);
+          return res.json(await toSessionUser(user));
+        } catch (error) {
+          return res.status(500).json({ message: "Internal server error" });
+        }
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid user data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid verification data", errors: error.errors });
       }
-      res.status(500).json({ message: "Error creating user" });
+      res.status(500).json({ message: "Error verifying code" });
     }
   });
 
-  app.get("/api/users/:id", isAdmin, async (req, res) => {
+  app.get("/api/auth/2fa/status", isAuthenticated, async (req, res) => {
     try {
-      const id = parseInt(req.params.id, 10);
-      const user = await storage.getUser(id);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
-      }
+      const user = req.user as any;
       res.json({
-        id: user.id,
-        username: user.username,
-        fullName: user.fullName,
-        email: user.email,
-        role: user.role,
-        departmentId: user.departmentId
+        enabled: !!user.totpSecret,
+        required: await isTwoFactorRequired(storage, user),
+        recoveryCodesRemaining: user.totpRecoveryCodes?.length ?? 0,
       });
     } catch (error) {
-      res.status(500).json({ message: "Error fetching user" });
+      res.status(500).json({ message: "Error fetching two-factor status" });
     }
   });
 
-  app.put("/api/users/:id", isAdmin, async (req, res) => {
+  app.post("/api/auth/2fa/setup", isAuthenticated, async (req, res) => {
     try {
-      const id = parseInt(req.params.id, 10);
-      const userData = insertUserSchema.partial().parse(req.body);
-      const updatedUser = await storage.updateUser(id, userData);
-      if (!updatedUser) {
-        return res.status(404).json({ message: "User not found" });
+      const user = req.user as any;
+      if (user.totpSecret) {
+        return res.status(409).json({ message: "Two-factor authentication is already enabled", code: "conflict" });
       }
-      res.json({
-        id: updatedUser.id,
-        username: updatedUser.username,
-        fullName: updatedUser.fullName,
-        email: updatedUser.email,
-        role: updatedUser.role,
-        departmentId: updatedUser.departmentId
-      });
+      const setup = await createTwoFactorSetup(user);
+      req.session.pendingTotpSecret = setup.secret;
+      res.json(setup);
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid user data", errors: error.errors });
-      }
-      res.status(500).json({ message: "Error updating user" });
+      res.status(500).json({ message: "Error starting two-factor setup" });
     }
   });
 
-  app.delete("/api/users/:id", isAdmin, async (req, res) => {
+  app.post("/api/auth/2fa/enable", isAuthenticated, async (req, res) => {
     try {
-      const id = parseInt(req.params.id, 10);
-      const success = await storage.deleteUser(id);
-      if (!success) {
-        return res.status(404).json({ message: "User not found" });
-      }
-      res.json({ message: "User deleted successfully" });
+      const { code } = z.object({ code: z.string().min(1) }).parse(req.body);
+      const secret = req.session.pendingTotpSecret;
+      if (!secret) {
+        return res.status(422).json({ message: "Start the two-factor setup first", code: "invalid", field: "code" });
+      }
+      const recoveryCodes = await enableTwoFactor(storage, req.user as any, secret, code);
+      delete req.session.pendingTotpSecret;
+      res.json({ recoveryCodes });
     } catch (error) {
-      res.status(500).json({ message: "Error deleting user" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid verification data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error enabling two-factor authentication" });
     }
   });
 
-  // Department routes
-  app.get("/api/departments", isAuthenticated, async (req, res) => {
+  app.post("/api/auth/2fa/disable", isAuthenticated, async (req, res) => {
     try {
-      const departments = await storage.listDepartments();
-      res.json(departments);
+      const { password } = z.object({ password: z.string() }).parse(req.body);
+      const user = req.user as any;
+      const { valid } = await verifyPassword(password, user.password);
+      if (!valid) {
+        return res.status(422).json({ message: "Password is incorrect", code: "invalid", field: "password" });
+      }
+      if (await isTwoFactorRequired(storage, user)) {
+        return res.status(422).json({ message: "Two-factor authentication is required for your role", code: "invalid" });
+      }
+      const updatedUser = await disableTwoFactor(storage, user.id);
+      res.json(toPublicUser(updatedUser!));
     } catch (error) {
-      res.status(500).json({ message: "Error fetching departments" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid password data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error disabling two-factor authentication" });
     }
   });
 
-  app.post("/api/departments", isAdmin, async (req, res) => {
+  app.post("/api/auth/2fa/recovery-codes", isAuthenticated, async (req, res) => {
     try {
-      const departmentData = insertDepartmentSchema.parse(req.body);
-      const department = await storage.createDepartment(departmentData);
-      res.status(201).json(department);
+      const { password } = z.object({ password: z.string() }).parse(req.body);
+      const user = req.user as any;
+      if (!user.totpSecret) {
+        return res.status(422).json({ message: "Two-factor authentication is not enabled", code: "invalid" });
+      }
+      const { valid } = await verifyPassword(password, user.password);
+      if (!valid) {
+        return res.status(422).json({ message: "Password is incorrect", code: "invalid", field: "password" });
+      }
+      res.json({ recoveryCodes: await regenerateRecoveryCodes(storage, user) });
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid department data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid password data", errors: error.errors });
       }
-      res.status(500).json({ message: "Error creating department" });
+      res.status(500).json({ message: "Error generating recovery codes" });
     }
   });
 
-  app.get("/api/departments/:id", isAuthenticated, async (req, res) => {
-    try {
-      const id = parseInt(req.params.id, 10);
-      const department = await storage.getDepartment(id);
-      if (!department) {
-        return res.status(404).json({ message: "Department not found" });
+  app.post("/api/auth/logout", (req, res) => {
+    const sid = req.sessionID;
+    req.logout(async function(err) {
+      if (err) { return res.status(500).json({ message: "Error logging out" }); }
+      try {
+        await sessionRegistry.forget(sid);
+      } catch (error) {
+        return res.status(500).json({ message: "Error logging out" });
       }
-      res.json(department);
+      res.json({ message: "Logged out successfully" });
+    });
+  });
+
+  app.get("/api/auth/sessions", isAuthenticated, async (req, res) => {
+    try {
+      const userSessions = await sessionRegistry.listActive((req.user as any).id);
+      res.json(userSessions.map(userSession => toPublicUserSession(userSession, req.sessionID)));
     } catch (error) {
-      res.status(500).json({ message: "Error fetching department" });
+      res.status(500).json({ message: "Error fetching sessions" });
     }
   });
 
-  app.put("/api/departments/:id", isAdmin, async (req, res) => {
+  // Log out every other session of the current user
+  app.delete("/api/auth/sessions", isAuthenticated, async (req, res) => {
     try {
-      const id = parseInt(req.params.id, 10);
-      const departmentData = insertDepartmentSchema.partial().parse(req.body);
-      const updatedDepartment = await storage.updateDepartment(id, departmentData);
-      if (!updatedDepartment) {
-        return res.status(404).json({ message: "Department not found" });
-      }
-      res.json(updatedDepartment);
+      const revoked = await sessionRegistry.revokeAll((req.user as any).id, req.sessionID);
+      res.json({ revoked });
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid department data", errors: error.errors });
-      }
-      res.status(500).json({ message: "Error updating department" });
+      res.status(500).json({ message: "Error revoking sessions" });
     }
   });
 
-  app.delete("/api/departments/:id", isAdmin, async (req, res) => {
+  app.delete("/api/auth/sessions/:id", isAuthenticated, async (req, res) => {
     try {
       const id = parseInt(req.params.id, 10);
-      const success = await storage.deleteDepartment(id);
-      if (!success) {
-        return res.status(404).json({ message: "Department not found" });
+      const userSession = await storage.getUserSession(id);
+      if (!userSession || userSession.userId !== (req.user as any).id) {
+        return res.status(404).json({ message: "Session not found" });
       }
-      res.json({ message: "Department deleted successfully" });
+      await sessionRegistry.revoke(userSession);
+      if (userSession.sid === req.sessionID) {
+        // Revoking the current session logs out; destroying it here stops it from being saved again
+        return req.session.destroy(() => res.json({ message: "Session revoked successfully" }));
+      }
+      res.json({ message: "Session revoked successfully" });
     } catch (error) {
-      res.status(500).json({ message: "Error deleting department" });
+      res.status(500).json({ message: "Error revoking session" });
     }
   });
 
-  // Course routes
-  app.get("/api/courses", isAuthenticated, async (req, res) => {
+  app.get("/api/auth/notification-settings", isAuthenticated, async (req, res) => {
     try {
-      const departmentId = req.query.departmentId ? parseInt(req.query.departmentId as string, 10) : undefined;
-      let courses;
-      
-      if (departmentId) {
-        courses = await storage.listCoursesByDepartment(departmentId);
-      } else {
-        courses = await storage.listCourses();
-      }
-      
-      res.json(courses);
+      res.json(await notificationSettings(storage, req.user as any));
     } catch (error) {
-      res.status(500).json({ message: "Error fetching courses" });
+      res.status(500).json({ message: "Error fetching notification settings" });
     }
   });
 
-  app.post("/api/courses", isAdmin, async (req, res) => {
+  app.put("/api/auth/notification-settings", isAuthenticated, async (req, res) => {
     try {
-      const courseData = insertCourseSchema.parse(req.body);
-      const course = await storage.createCourse(courseData);
-      res.status(201).json(course);
+      const settings = notificationSettingsSchema.parse(req.body);
+      res.json(await saveNotificationSettings(storage, req.user as any, settings));
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid course data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid notification settings", errors: error.errors });
       }
-      res.status(500).json({ message: "Error creating course" });
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error saving notification settings" });
     }
   });
 
-  app.get("/api/courses/:id", isAuthenticated, async (req, res) => {
-    try {
-      const id = parseInt(req.params.id, 10);
-      const course = await storage.getCourse(id);
-      if (!course) {
-        return res.status(404).json({ message: "Course not found" });
-      }
-      res.json(course);
-    } catch (error) {
-      res.status(500).json({ message: "Error fetching course" });
-    }
+  app.get("/api/auth/password-policy", (req, res) => {
+    res.json(config.passwordPolicy);
   });
 
-  app.put("/api/courses/:id", isAdmin, async (req, res) => {
+  app.post("/api/auth/change-password", isAuthenticated, async (req, res) => {
     try {
-      const id = parseInt(req.params.id, 10);
-      const courseData = insertCourseSchema.partial().parse(req.body);
-      const updatedCourse = await storage.updateCourse(id, courseData);
-      if (!updatedCourse) {
-        return res.status(404).json({ message: "Course not found" });
-      }
-      res.json(updatedCourse);
+      const { currentPassword, newPassword } = z.object({
+        currentPassword: z.string(),
+        newPassword: z.string(),
+      }).parse(req.body);
+      const user = req.user as any;
+
+      const { valid } = await verifyPassword(currentPassword, user.password);
+      if (!valid) {
+        return res.status(422).json({ message: "Current password is incorrect", code: "invalid", field: "currentPassword" });
+      }
+      assertPasswordPolicy(newPassword);
+      const updatedUser = await storage.updateUser(user.id, {
+        password: await hashPassword(newPassword),
+        mustChangePassword: false,
+      });
+      // Whoever else holds a session of the account, possibly with the old password, is logged out
+      await sessionRegistry.revokeAll(user.id, req.sessionID);
+      res.json(toPublicUser(updatedUser!));
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid course data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid password data", errors: error.errors });
       }
-      res.status(500).json({ message: "Error updating course" });
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error changing password" });
     }
   });
 
-  app.delete("/api/courses/:id", isAdmin, async (req, res) => {
+  app.post("/api/auth/password-reset/request", async (req, res) => {
     try {
-      const id = parseInt(req.params.id, 10);
-      const success = await storage.deleteCourse(id);
-      if (!success) {
-        return res.status(404).json({ message: "Course not found" });
-      }
-      res.json({ message: "Course deleted successfully" });
+      const { identifier } = z.object({ identifier: z.string().min(1) }).parse(req.body);
+      await requestPasswordReset(storage, mailTransport, identifier);
+      // Same answer whether or not the account exists
+      res.status(202).json({ message: "If the account exists, a reset link has been sent" });
     } catch (error) {
-      res.status(500).json({ message: "Error deleting course" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid reset request", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error requesting password reset" });
     }
   });
 
-  // Module routes
-  app.get("/api/modules", isAuthenticated, async (req, res) => {
+  app.post("/api/auth/password-reset/confirm", async (req, res) => {
     try {
-      const courseId = req.query.courseId ? parseInt(req.query.courseId as string, 10) : undefined;
-      let modules;
-      
-      if (courseId) {
-        modules = await storage.listModulesByCourse(courseId);
-      } else {
-        modules = await storage.listModules();
-      }
-      
-      res.json(modules);
+      const { token, password } = z.object({ token: z.string().min(1), password: z.string() }).parse(req.body);
+      const userId = await resetPassword(storage, token, password);
+      // A reset may follow a stolen password: every session of the account ends with it
+      await sessionRegistry.revokeAll(userId);
+      res.json({ message: "Password reset successfully" });
     } catch (error) {
-      res.status(500).json({ message: "Error fetching modules" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid reset data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error resetting password" });
     }
   });
 
-  app.post("/api/modules", isAdmin, async (req, res) => {
+  // Guardians sign in with a single-use link sent to the email of their contact record
+  app.post("/api/auth/magic-link/request", async (req, res) => {
     try {
-      const moduleData = insertModuleSchema.parse(req.body);
-      const module = await storage.createModule(moduleData);
-      res.status(201).json(module);
+      const { email } = z.object({ email: z.string().trim().email() }).parse(req.body);
+      await requestMagicLink(storage, mailTransport, email);
+      // Same answer whether or not the address belongs to a guardian
+      res.status(202).json({ message: "If the address belongs to a guardian, a sign-in link has been sent" });
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid module data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid sign-in link request", errors: error.errors });
       }
-      res.status(500).json({ message: "Error creating module" });
+      res.status(500).json({ message: "Error requesting sign-in link" });
     }
   });
 
-  app.get("/api/modules/:id", isAuthenticated, async (req, res) => {
+  app.post("/api/auth/magic-link/verify", async (req, res) => {
     try {
-      const id = parseInt(req.params.id, 10);
-      const module = await storage.getModule(id);
-      if (!module) {
-        return res.status(404).json({ message: "Module not found" });
+      const { token } = z.object({ token: z.string().min(1) }).parse(req.body);
+      const user = await redeemMagicLink(storage, token);
+      if (loginThrottle.isLocked(user)) {
+        return res.status(401).json({ message: "This account is locked, try again later" });
       }
-      res.json(module);
+      // A link stands in for the password only; an enrolled second factor is still asked for
+      if (user.totpSecret) {
+        req.session.pendingTwoFactor = { userId: user.id, expiresAt: Date.now() + PENDING_LOGIN_TTL_MS };
+        return res.json({ twoFactorRequired: true });
+      }
+      req.logIn(user, async (loginErr) => {
+        if (loginErr) {
+          return res.status(500).json({ message: "Internal server error" });
+        }
+        try {
+          await sessionRegistry.track(req, clientIp(req), true);
+          return res.json(await toSessionUser(user));
+        } catch (error) {
+          return res.status(500).json({ message: "Internal server error" });
+        }
+      });
     } catch (error) {
-      res.status(500).json({ message: "Error fetching module" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid sign-in link", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error verifying sign-in link" });
     }
   });
 
-  app.put("/api/modules/:id", isAdmin, async (req, res) => {
+  app.get("/api/auth/session", async (req, res) => {
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ authenticated: false });
+    }
+    
+    const user = req.user as any;
     try {
-      const id = parseInt(req.params.id, 10);
-      const moduleData = insertModuleSchema.partial().parse(req.body);
-      const updatedModule = await storage.updateModule(id, moduleData);
-      if (!updatedModule) {
-        return res.status(404).json({ message: "Module not found" });
-      }
-      res.json(updatedModule);
+      return res.json({
+        authenticated: true,
+        user: await toSessionUser(user)
+      });
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid module data", errors: error.errors });
-      }
-      res.status(500).json({ message: "Error updating module" });
+      return res.status(500).json({ message: "Error fetching session" });
     }
   });
 
-  app.delete("/api/modules/:id", isAdmin, async (req, res) => {
+  // User routes
+  app.get("/api/users", requirePermission("users:manage", "structure:manage", "security:manage", "audit:view", "timetable:manage"), async (req, res) => {
+    try {
+      const users = await storage.listUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching users" });
+    }
+  });
+
+  app.post("/api/users", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const userData = userPayloadSchema.parse(req.body);
+      assertStudentLink(userData);
+      assertPasswordPolicy(userData.password);
+      const user = await storage.createUser({
+        ...userData,
+        password: await hashPassword(userData.password),
+        // The administrator chose this password, so the user replaces it on first login
+        mustChangePassword: userData.mustChangePassword ?? true,
+      });
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid user data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error creating user" });
+    }
+  });
+
+  app.get("/api/users/locked", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const users = await storage.listUsers();
+      res.json(users.filter(user => loginThrottle.isLocked(user)).map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching locked users" });
+    }
+  });
+
+  app.post("/api/users/:id/unlock", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const user = await loginThrottle.unlock(id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      res.status(500).json({ message: "Error unlocking user" });
+    }
+  });
+
+  app.post("/api/users/:id/2fa/reset", requirePermission("security:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const user = await disableTwoFactor(storage, id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      res.status(500).json({ message: "Error resetting two-factor authentication" });
+    }
+  });
+
+  // Force-logout: end every session of the user
+  app.post("/api/users/:id/logout", requirePermission("security:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const revoked = await sessionRegistry.revokeAll(id);
+      res.json({ revoked });
+    } catch (error) {
+      res.status(500).json({ message: "Error logging out user" });
+    }
+  });
+
+  app.get("/api/user-sessions", requirePermission("security:manage"), async (req, res) => {
+    try {
+      const userSessions = await sessionRegistry.listActive();
+      res.json(userSessions.map(userSession => toPublicUserSession(userSession, req.sessionID)));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching sessions" });
+    }
+  });
+
+  app.get("/api/settings/two-factor", requirePermission("security:manage"), async (req, res) => {
+    try {
+      res.json({ ...(await getTwoFactorPolicy(storage)), availableRoles: TWO_FACTOR_ROLES });
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching two-factor policy" });
+    }
+  });
+
+  app.put("/api/settings/two-factor", requirePermission("security:manage"), async (req, res) => {
+    try {
+      const { requiredRoles } = z.object({ requiredRoles: z.array(z.string()) }).parse(req.body);
+      res.json({ ...(await setTwoFactorPolicy(storage, requiredRoles)), availableRoles: TWO_FACTOR_ROLES });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid two-factor policy", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error updating two-factor policy" });
+    }
+  });
+
+  app.get("/api/settings/permissions", requirePermission("security:manage"), async (req, res) => {
+    try {
+      res.json(await getRolePermissions(storage));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching role permissions" });
+    }
+  });
+
+  app.put("/api/settings/permissions", requirePermission("security:manage"), async (req, res) => {
+    try {
+      const mapping = z.record(z.array(z.string())).parse(req.body);
+      res.json(await setRolePermissions(storage, mapping));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid role permissions", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error updating role permissions" });
+    }
+  });
+
+  app.get("/api/users/:id", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching user" });
+    }
+  });
+
+  app.put("/api/users/:id", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const userData = userPayloadSchema.partial().parse(req.body);
+      const existing = await storage.getUser(id);
+      if (!existing) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      assertStudentLink({ ...existing, ...userData });
+      if (userData.password !== undefined) {
+        assertPasswordPolicy(userData.password);
+        userData.password = await hashPassword(userData.password);
+        userData.mustChangePassword = userData.mustChangePassword ?? true;
+      }
+      const updatedUser = await storage.updateUser(id, userData);
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      // A password set by an administrator ends the account's sessions, except the one making the change
+      if (userData.password !== undefined) {
+        await sessionRegistry.revokeAll(id, id === (req.user as any).id ? req.sessionID : undefined);
+      }
+      res.json(toPublicUser(updatedUser));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid user data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error updating user" });
+    }
+  });
+
+  app.delete("/api/users/:id", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const success = await storage.deleteUser(id);
+      if (!success) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json({ message: "User deleted successfully" });
+    } catch (error) {
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error deleting user" });
+    }
+  });
+
+  // Academic period routes
+  app.get("/api/periods/active", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await getActivePeriod(storage));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching active period" });
+    }
+  });
+
+  app.put("/api/periods/active", requirePermission("periods:manage"), async (req, res) => {
+    try {
+      const { semesterId } = z.object({ semesterId: z.number().int() }).parse(req.body);
+      const period = await setActivePeriod(storage, semesterId);
+      // Alerts follow the absences of the semester now in effect
+      await evaluateThresholds(storage, (await storage.listStudents()).map(student => student.id));
+      res.json(period);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid period data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error updating active period" });
+    }
+  });
+
+  app.get("/api/academic-years", isAuthenticated, async (req, res) => {
+    try {
+      const academicYears = await storage.listAcademicYears();
+      res.json(academicYears);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching academic years" });
+    }
+  });
+
+  app.post("/api/academic-years", requirePermission("periods:manage"), async (req, res) => {
+    try {
+      const academicYearData = insertAcademicYearSchema.parse(req.body);
+      assertDateRange(academicYearData.startDate, academicYearData.endDate);
+      const academicYear = await storage.createAcademicYear(academicYearData);
+      res.status(201).json(academicYear);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid academic year data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error creating academic year" });
+    }
+  });
+
+  app.put("/api/academic-years/:id", requirePermission("periods:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const academicYearData = insertAcademicYearSchema.partial().parse(req.body);
+      const existing = await storage.getAcademicYear(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Academic year not found" });
+      }
+      assertDateRange(academicYearData.startDate ?? existing.startDate, academicYearData.endDate ?? existing.endDate);
+      const updatedAcademicYear = await storage.updateAcademicYear(id, academicYearData);
+      res.json(updatedAcademicYear);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid academic year data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error updating academic year" });
+    }
+  });
+
+  app.delete("/api/academic-years/:id", requirePermission("periods:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const success = await storage.deleteAcademicYear(id);
+      if (!success) {
+        return res.status(404).json({ message: "Academic year not found" });
+      }
+      res.json({ message: "Academic year deleted successfully" });
+    } catch (error) {
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error deleting academic year" });
+    }
+  });
+
+  app.get("/api/semesters", isAuthenticated, async (req, res) => {
+    try {
+      const academicYearId = req.query.academicYearId ? parseInt(req.query.academicYearId as string, 10) : undefined;
+      let semesters;
+
+      if (academicYearId) {
+        semesters = await storage.listSemestersByAcademicYear(academicYearId);
+      } else {
+        semesters = await storage.listSemesters();
+      }
+
+      res.json(semesters);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching semesters" });
+    }
+  });
+
+  app.post("/api/semesters", requirePermission("periods:manage"), async (req, res) => {
+    try {
+      const semesterData = insertSemesterSchema.parse(req.body);
+      const academicYear = await storage.getAcademicYear(semesterData.academicYearId);
+      if (academicYear) {
+        assertSemesterWithinYear(semesterData, academicYear);
+      }
+      const semester = await storage.createSemester(semesterData);
+      res.status(201).json(semester);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid semester data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error creating semester" });
+    }
+  });
+
+  app.put("/api/semesters/:id", requirePermission("periods:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const semesterData = insertSemesterSchema.partial().parse(req.body);
+      const existing = await storage.getSemester(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Semester not found" });
+      }
+      const merged = { ...existing, ...semesterData };
+      const academicYear = await storage.getAcademicYear(merged.academicYearId);
+      if (academicYear) {
+        assertSemesterWithinYear(merged, academicYear);
+      }
+      const updatedSemester = await storage.updateSemester(id, semesterData);
+      res.json(updatedSemester);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid semester data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error updating semester" });
+    }
+  });
+
+  app.delete("/api/semesters/:id", requirePermission("periods:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const success = await storage.deleteSemester(id);
+      if (!success) {
+        return res.status(404).json({ message: "Semester not found" });
+      }
+      res.json({ message: "Semester deleted successfully" });
+    } catch (error) {
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error deleting semester" });
+    }
+  });
+
+  // Enrollment routes, limited to the courses in the user's scope
+  app.get("/api/enrollments", requirePermission("periods:manage", "students:manage", "groups:manage"), async (req, res) => {
+    try {
+      const studentId = req.query.studentId ? parseInt(req.query.studentId as string, 10) : undefined;
+      const academicYearId = req.query.academicYearId ? parseInt(req.query.academicYearId as string, 10) : undefined;
+      const scope = await scopeFor(req);
+
+      if (studentId) {
+        const enrollments = await storage.listEnrollmentsByStudent(studentId);
+        return res.json(scope.filterEnrollments(enrollments)
+          .filter(enrollment => !academicYearId || enrollment.academicYearId === academicYearId));
+      }
+      if (academicYearId) {
+        return res.json(scope.filterEnrollments(await storage.listEnrollmentsByAcademicYear(academicYearId)));
+      }
+      res.status(400).json({ message: "studentId or academicYearId is required" });
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching enrollments" });
+    }
+  });
+
+  app.post("/api/enrollments", requirePermission("periods:manage"), async (req, res) => {
+    try {
+      const enrollmentData = insertEnrollmentSchema.parse(req.body);
+      (await scopeFor(req)).assertCourse(enrollmentData.courseId);
+      const enrollment = await storage.createEnrollment(enrollmentData);
+      res.status(201).json(enrollment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid enrollment data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error creating enrollment" });
+    }
+  });
+
+  app.delete("/api/enrollments/:id", requirePermission("periods:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const enrollment = await storage.getEnrollment(id);
+      if (!enrollment) {
+        return res.status(404).json({ message: "Enrollment not found" });
+      }
+      (await scopeFor(req)).assertCourse(enrollment.courseId);
+      await storage.deleteEnrollment(id);
+      res.json({ message: "Enrollment deleted successfully" });
+    } catch (error) {
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error deleting enrollment" });
+    }
+  });
+
+  // Department routes
+  app.get("/api/departments", isAuthenticated, async (req, res) => {
+    try {
+      const departments = await storage.listDepartments();
+      res.json(departments);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching departments" });
+    }
+  });
+
+  app.post("/api/departments", requirePermission("structure:manage"), async (req, res) => {
+    try {
+      const departmentData = insertDepartmentSchema.parse(req.body);
+      const department = await storage.createDepartment(departmentData);
+      res.status(201).json(department);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid department data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error creating department" });
+    }
+  });
+
+  app.get("/api/departments/:id", isAuthenticated, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const department = await storage.getDepartment(id);
+      if (!department) {
+        return res.status(404).json({ message: "Department not found" });
+      }
+      res.json(department);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching department" });
+    }
+  });
+
+  app.put("/api/departments/:id", requirePermission("structure:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const departmentData = insertDepartmentSchema.partial().parse(req.body);
+      const updatedDepartment = await storage.updateDepartment(id, departmentData);
+      if (!updatedDepartment) {
+        return res.status(404).json({ message: "Department not found" });
+      }
+      res.json(updatedDepartment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid department data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error updating department" });
+    }
+  });
+
+  app.delete("/api/departments/:id", requirePermission("structure:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const success = await storage.deleteDepartment(id);
+      if (!success) {
+        return res.status(404).json({ message: "Department not found" });
+      }
+      res.json({ message: "Department deleted successfully" });
+    } catch (error) {
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error deleting department" });
+    }
+  });
+
+  // Room routes
+  app.get("/api/rooms", requirePermission("structure:manage", "timetable:manage", "sessions:edit:own", "sessions:edit:any"), async (req, res) => {
+    try {
+      res.json(await storage.listRooms());
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching rooms" });
+    }
+  });
+
+  app.post("/api/rooms", requirePermission("structure:manage"), async (req, res) => {
+    try {
+      const roomData = roomPayloadSchema.parse(req.body);
+      const room = await storage.createRoom(roomData);
+      res.status(201).json(room);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid room data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error creating room" });
+    }
+  });
+
+  app.put("/api/rooms/:id", requirePermission("structure:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const roomData = roomPayloadSchema.partial().parse(req.body);
+      const updatedRoom = await storage.updateRoom(id, roomData);
+      if (!updatedRoom) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+      res.json(updatedRoom);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid room data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error updating room" });
+    }
+  });
+
+  app.delete("/api/rooms/:id", requirePermission("structure:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const success = await storage.deleteRoom(id);
+      if (!success) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+      res.json({ message: "Room deleted successfully" });
+    } catch (error) {
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error deleting room" });
+    }
+  });
+
+  // Course routes
+  app.get("/api/courses", isAuthenticated, async (req, res) => {
+    try {
+      const departmentId = req.query.departmentId ? parseInt(req.query.departmentId as string, 10) : undefined;
+      let courses;
+      
+      if (departmentId) {
+        courses = await storage.listCoursesByDepartment(departmentId);
+      } else {
+        courses = await storage.listCourses();
+      }
+      
+      res.json(courses);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching courses" });
+    }
+  });
+
+  app.post("/api/courses", requirePermission("structure:manage"), async (req, res) => {
+    try {
+      const courseData = insertCourseSchema.parse(req.body);
+      const course = await storage.createCourse(courseData);
+      res.status(201).json(course);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid course data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error creating course" });
+    }
+  });
+
+  app.get("/api/courses/:id", isAuthenticated, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const course = await storage.getCourse(id);
+      if (!course) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+      res.json(course);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching course" });
+    }
+  });
+
+  app.put("/api/courses/:id", requirePermission("structure:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const courseData = insertCourseSchema.partial().parse(req.body);
+      const updatedCourse = await storage.updateCourse(id, courseData);
+      if (!updatedCourse) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+      if (
+        courseData.absenceThreshold !== undefined ||
+        courseData.thresholdUnit !== undefined ||
+        courseData.latesPerAbsence !== undefined ||
+        courseData.lateAbsentAfterMinutes !== undefined
+      ) {
+        await evaluateThresholds(storage, (await storage.listStudentsByCourse(id)).map(student => student.id));
+      }
+      res.json(updatedCourse);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid course data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error updating course" });
+    }
+  });
+
+  app.delete("/api/courses/:id", requirePermission("structure:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const success = await storage.deleteCourse(id);
+      if (!success) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+      res.json({ message: "Course deleted successfully" });
+    } catch (error) {
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error deleting course" });
+    }
+  });
+
+  // Module routes
+  app.get("/api/modules", isAuthenticated, async (req, res) => {
+    try {
+      const courseId = req.query.courseId ? parseInt(req.query.courseId as string, 10) : undefined;
+      let modules;
+      
+      if (courseId) {
+        modules = await storage.listModulesByCourse(courseId);
+      } else {
+        modules = await storage.listModules();
+      }
+      
+      res.json(modules);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching modules" });
+    }
+  });
+
+  app.post("/api/modules", requirePermission("structure:manage"), async (req, res) => {
+    try {
+      const moduleData = insertModuleSchema.parse(req.body);
+      const module = await storage.createModule(moduleData);
+      res.status(201).json(module);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid module data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error creating module" });
+    }
+  });
+
+  app.get("/api/modules/:id", isAuthenticated, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const module = await storage.getModule(id);
+      if (!module) {
+        return res.status(404).json({ message: "Module not found" });
+      }
+      res.json(module);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching module" });
+    }
+  });
+
+  app.put("/api/modules/:id", requirePermission("structure:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const moduleData = insertModuleSchema.partial().parse(req.body);
+      const updatedModule = await storage.updateModule(id, moduleData);
+      if (!updatedModule) {
+        return res.status(404).json({ message: "Module not found" });
+      }
+      res.json(updatedModule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid module data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error updating module" });
+    }
+  });
+
+  app.delete("/api/modules/:id", requirePermission("structure:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const success = await storage.deleteModule(id);
+      if (!success) {
+        return res.status(404).json({ message: "Module not found" });
+      }
+      res.json({ message: "Module deleted successfully" });
+    } catch (error) {
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error deleting module" });
+    }
+  });
+
+  // Module Element routes
+  app.get("/api/module-elements", isAuthenticated, async (req, res) => {
+    try {
+      const moduleId = req.query.moduleId ? parseInt(req.query.moduleId as string, 10) : undefined;
+      let moduleElements;
+      
+      if (moduleId) {
+        moduleElements = await storage.listModuleElementsByModule(moduleId);
+      } else {
+        moduleElements = await storage.listModuleElements();
+      }
+      
+      res.json(moduleElements);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching module elements" });
+    }
+  });
+
+  app.post("/api/module-elements", requirePermission("structure:manage"), async (req, res) => {
+    try {
+      const elementData = insertModuleElementSchema.parse(req.body);
+      const moduleElement = await storage.createModuleElement(elementData);
+      res.status(201).json(moduleElement);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid module element data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error creating module element" });
+    }
+  });
+
+  app.get("/api/module-elements/:id", isAuthenticated, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const moduleElement = await storage.getModuleElement(id);
+      if (!moduleElement) {
+        return res.status(404).json({ message: "Module element not found" });
+      }
+      res.json(moduleElement);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching module element" });
+    }
+  });
+
+  app.put("/api/module-elements/:id", requirePermission("structure:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const elementData = insertModuleElementSchema.partial().parse(req.body);
+      const updatedElement = await storage.updateModuleElement(id, elementData);
+      if (!updatedElement) {
+        return res.status(404).json({ message: "Module element not found" });
+      }
+      res.json(updatedElement);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid module element data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error updating module element" });
+    }
+  });
+
+  app.delete("/api/module-elements/:id", requirePermission("structure:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const success = await storage.deleteModuleElement(id);
+      if (!success) {
+        return res.status(404).json({ message: "Module element not found" });
+      }
+      res.json({ message: "Module element deleted successfully" });
+    } catch (error) {
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error deleting module element" });
+    }
+  });
+
+  // Teacher Module Element Assignment routes
+  app.post("/api/teacher-module-elements", requirePermission("structure:manage"), async (req, res) => {
+    try {
+      const assignmentData = insertTeacherModuleElementSchema.parse(req.body);
+      const assignment = await storage.assignTeacherToModuleElement(assignmentData);
+      res.status(201).json(assignment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid assignment data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error creating assignment" });
+    }
+  });
+
+  app.delete("/api/teacher-module-elements", requirePermission("structure:manage"), async (req, res) => {
+    try {
+      const teacherId = parseInt(req.query.teacherId as string, 10);
+      const moduleElementId = parseInt(req.query.moduleElementId as string, 10);
+      
+      if (isNaN(teacherId) || isNaN(moduleElementId)) {
+        return res.status(400).json({ message: "Invalid teacher ID or module element ID" });
+      }
+      
+      const success = await storage.removeTeacherFromModuleElement(teacherId, moduleElementId);
+      if (!success) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+      
+      res.json({ message: "Assignment removed successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Error deleting assignment" });
+    }
+  });
+
+  app.get("/api/teacher-module-elements", requirePermission("structure:manage", "timetable:manage", "sessions:edit:own", "sessions:edit:any"), async (req, res) => {
+    try {
+      const teacherId = parseInt(req.query.teacherId as string, 10);
+      
+      if (isNaN(teacherId)) {
+        return res.status(400).json({ message: "Invalid teacher ID" });
+      }
+      
+      const assignments = await storage.listTeacherModuleElements(teacherId);
+      res.json(assignments);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching assignments" });
+    }
+  });
+
+  // Student routes
+  app.get("/api/students", requirePermission("students:manage", "groups:manage", "sessions:edit:own", "sessions:edit:any", "reports:view"), async (req, res) => {
+    try {
+      const courseId = req.query.courseId ? parseInt(req.query.courseId as string, 10) : undefined;
+      let students;
+      
+      if (courseId) {
+        students = await storage.listStudentsByCourse(courseId);
+      } else {
+        students = await storage.listStudents();
+      }
+
+      // Only students enrolled during the selected period's academic year
+      const semester = await resolveSemesterFilter(storage, req.query.semesterId);
+      if (semester) {
+        const enrolledIds = (await storage.listEnrollmentsByAcademicYear(semester.academicYearId))
+          .map(enrollment => enrollment.studentId);
+        students = students.filter(student => enrolledIds.includes(student.id));
+      }
+      
+      res.json((await scopeFor(req)).filterStudents(students));
+    } catch (error) {
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error fetching students" });
+    }
+  });
+
+  app.post("/api/students", requirePermission("students:manage"), async (req, res) => {
+    try {
+      const studentData = insertStudentSchema.parse(req.body);
+      const student = await storage.createStudent(studentData);
+
+      // New students are enrolled in their course for the active academic year
+      const { academicYear } = await getActivePeriod(storage);
+      if (academicYear) {
+        await storage.createEnrollment({
+          studentId: student.id,
+          courseId: student.courseId,
+          academicYearId: academicYear.id,
+        });
+      }
+      res.status(201).json(student);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid student data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error creating student" });
+    }
+  });
+
+  app.get("/api/students/:id", requirePermission("students:manage", "groups:manage", "sessions:edit:own", "sessions:edit:any", "reports:view"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const student = await storage.getStudent(id);
+      if (!student) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+      (await scopeFor(req)).assertCourse(student.courseId);
+      res.json(student);
+    } catch (error) {
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error fetching student" });
+    }
+  });
+
+  app.put("/api/students/:id", requirePermission("students:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const studentData = insertStudentSchema.partial().parse(req.body);
+      const updatedStudent = await storage.updateStudent(id, studentData);
+      if (!updatedStudent) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+
+      // A change of course moves the student's enrollment for the active academic year
+      const { academicYear } = await getActivePeriod(storage);
+      if (academicYear && studentData.courseId !== undefined) {
+        const current = (await storage.listEnrollmentsByStudent(id))
+          .find(enrollment => enrollment.academicYearId === academicYear.id);
+        if (current?.courseId !== updatedStudent.courseId) {
+          if (current) {
+            await storage.deleteEnrollment(current.id);
+          }
+          await storage.createEnrollment({
+            studentId: id,
+            courseId: updatedStudent.courseId,
+            academicYearId: academicYear.id,
+          });
+        }
+      }
+      if (studentData.courseId !== undefined) {
+        await evaluateThresholds(storage, [id]);
+      }
+      res.json(updatedStudent);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid student data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error updating student" });
+    }
+  });
+
+  app.delete("/api/students/:id", requirePermission("students:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const success = await storage.deleteStudent(id);
+      if (!success) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+      res.json({ message: "Student deleted successfully" });
+    } catch (error) {
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error deleting student" });
+    }
+  });
+
+  // Guardian contact routes
+  app.get("/api/students/:id/guardians", requirePermission("students:manage"), async (req, res) => {
+    try {
+      const studentId = parseInt(req.params.id, 10);
+      const student = await storage.getStudent(studentId);
+      if (!student) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+      (await scopeFor(req)).assertCourse(student.courseId);
+      res.json(await storage.listGuardiansByStudent(studentId));
+    } catch (error) {
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error fetching guardians" });
+    }
+  });
+
+  app.post("/api/students/:id/guardians", requirePermission("students:manage"), async (req, res) => {
+    try {
+      const studentId = parseInt(req.params.id, 10);
+      const guardianData = insertGuardianSchema.parse({ ...req.body, studentId });
+      const guardian = await storage.createGuardian(guardianData);
+      res.status(201).json(guardian);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid guardian data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error creating guardian" });
+    }
+  });
+
+  app.put("/api/guardians/:id", requirePermission("students:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const existing = await storage.getGuardian(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Guardian not found" });
+      }
+      // Validated as a whole, since the preferred channel depends on the email and phone; the student stays
+      const guardianData = insertGuardianSchema.parse({ ...existing, ...req.body, studentId: existing.studentId });
+      res.json(await storage.updateGuardian(id, guardianData));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid guardian data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error updating guardian" });
+    }
+  });
+
+  app.delete("/api/guardians/:id", requirePermission("students:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const success = await storage.deleteGuardian(id);
+      if (!success) {
+        return res.status(404).json({ message: "Guardian not found" });
+      }
+      res.json({ message: "Guardian deleted successfully" });
+    } catch (error) {
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error deleting guardian" });
+    }
+  });
+
+  // Student Group routes
+  app.get("/api/student-groups", requirePermission("groups:manage", "timetable:manage", "sessions:edit:own", "sessions:edit:any", "reports:view"), async (req, res) => {
+    try {
+      const courseId = req.query.courseId ? parseInt(req.query.courseId as string, 10) : undefined;
+      let groups;
+      
+      if (courseId) {
+        groups = await storage.listStudentGroupsByCourse(courseId);
+      } else {
+        groups = await storage.listStudentGroups();
+      }
+
+      const semester = await resolveSemesterFilter(storage, req.query.semesterId);
+      if (semester) {
+        groups = groups.filter(group => group.semesterId === semester.id);
+      }
+      
+      res.json((await scopeFor(req)).filterGroups(groups));
+    } catch (error) {
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error fetching student groups" });
+    }
+  });
+
+  app.post("/api/student-groups", requirePermission("groups:manage"), async (req, res) => {
+    try {
+      const groupData = insertStudentGroupSchema.parse(req.body);
+      (await scopeFor(req)).assertCourse(groupData.courseId);
+      if (groupData.semesterId === undefined) {
+        groupData.semesterId = (await getActivePeriod(storage)).semester?.id;
+      }
+      const group = await storage.createStudentGroup(groupData);
+      res.status(201).json(group);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid group data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error creating student group" });
+    }
+  });
+
+  app.get("/api/student-groups/:id", requirePermission("groups:manage", "timetable:manage", "sessions:edit:own", "sessions:edit:any", "reports:view"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const group = await storage.getStudentGroup(id);
+      if (!group) {
+        return res.status(404).json({ message: "Student group not found" });
+      }
+      (await scopeFor(req)).assertCourse(group.courseId);
+      res.json(group);
+    } catch (error) {
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error fetching student group" });
+    }
+  });
+
+  app.put("/api/student-groups/:id", requirePermission("groups:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const groupData = insertStudentGroupSchema.partial().parse(req.body);
+      // The group must be in scope, and stay there if it moves to another course
+      const scope = await scopeFor(req);
+      await scope.assertGroup(id);
+      if (groupData.courseId !== undefined) {
+        scope.assertCourse(groupData.courseId);
+      }
+      const updatedGroup = await storage.updateStudentGroup(id, groupData);
+      if (!updatedGroup) {
+        return res.status(404).json({ message: "Student group not found" });
+      }
+      res.json(updatedGroup);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid group data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error updating student group" });
+    }
+  });
+
+  app.delete("/api/student-groups/:id", requirePermission("groups:manage"), async (req, res) => {
     try {
       const id = parseInt(req.params.id, 10);
-      const success = await storage.deleteModule(id);
+      await (await scopeFor(req)).assertGroup(id);
+      const success = await storage.deleteStudentGroup(id);
       if (!success) {
-        return res.status(404).json({ message: "Module not found" });
+        return res.status(404).json({ message: "Student group not found" });
       }
-      res.json({ message: "Module deleted successfully" });
+      res.json({ message: "Student group deleted successfully" });
     } catch (error) {
-      res.status(500).json({ message: "Error deleting module" });
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error deleting student group" });
     }
   });
 
-  // Module Element routes
-  app.get("/api/module-elements", isAuthenticated, async (req, res) => {
+  // Student Group Assignment routes
+  app.post("/api/student-group-assignments", requirePermission("groups:manage"), async (req, res) => {
     try {
-      const moduleId = req.query.moduleId ? parseInt(req.query.moduleId as string, 10) : undefined;
-      let moduleElements;
+      const assignmentData = insertStudentGroupAssignmentSchema.parse(req.body);
+      const scope = await scopeFor(req);
+      await scope.assertGroup(assignmentData.groupId);
+      await scope.assertStudent(assignmentData.studentId);
+      const assignment = await storage.assignStudentToGroup(assignmentData);
+      res.status(201).json(assignment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid assignment data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error creating assignment" });
+    }
+  });
+
+  app.delete("/api/student-group-assignments", requirePermission("groups:manage"), async (req, res) => {
+    try {
+      const studentId = parseInt(req.query.studentId as string, 10);
+      const groupId = parseInt(req.query.groupId as string, 10);
       
-      if (moduleId) {
-        moduleElements = await storage.listModuleElementsByModule(moduleId);
+      if (isNaN(studentId) || isNaN(groupId)) {
+        return res.status(400).json({ message: "Invalid student ID or group ID" });
+      }
+      
+      const scope = await scopeFor(req);
+      await scope.assertGroup(groupId);
+      await scope.assertStudent(studentId);
+      const success = await storage.removeStudentFromGroup(studentId, groupId);
+      if (!success) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+      
+      res.json({ message: "Assignment removed successfully" });
+    } catch (error) {
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error deleting assignment" });
+    }
+  });
+
+  app.get("/api/student-groups/:groupId/students", requirePermission("groups:manage", "sessions:edit:own", "sessions:edit:any", "reports:view"), async (req, res) => {
+    try {
+      const groupId = parseInt(req.params.groupId, 10);
+      await (await scopeFor(req)).assertGroup(groupId);
+      const students = await storage.listStudentsByGroup(groupId);
+      res.json(students);
+    } catch (error) {
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error fetching students by group" });
+    }
+  });
+
+  // Session routes
+  app.get("/api/sessions", requirePermission("sessions:edit:own", "sessions:edit:any", "reports:view"), async (req, res) => {
+    try {
+      const teacherId = req.query.teacherId ? parseInt(req.query.teacherId as string, 10) : undefined;
+      const moduleElementId = req.query.moduleElementId ? parseInt(req.query.moduleElementId as string, 10) : undefined;
+      
+      let sessions;
+      
+      if (teacherId) {
+        sessions = await storage.listSessionsByTeacher(teacherId);
+      } else if (moduleElementId) {
+        sessions = await storage.listSessionsByModuleElement(moduleElementId);
       } else {
-        moduleElements = await storage.listModuleElements();
+        sessions = await storage.listSessions();
+      }
+
+      const semester = await resolveSemesterFilter(storage, req.query.semesterId);
+      if (semester) {
+        sessions = sessions.filter(session => session.semesterId === semester.id);
       }
       
-      res.json(moduleElements);
+      res.json(await (await scopeFor(req)).filterSessions(sessions));
     } catch (error) {
-      res.status(500).json({ message: "Error fetching module elements" });
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error fetching sessions" });
     }
   });
 
-  app.post("/api/module-elements", isAdmin, async (req, res) => {
+  // Sessions planned from the timetable that still wait for their attendance, for the logged-in teacher or,
+  // for users allowed to act for others, the one given with ?teacherId
+  app.get("/api/sessions/pending", requirePermission("sessions:edit:own", "sessions:edit:any"), async (req, res) => {
     try {
-      const elementData = insertModuleElementSchema.parse(req.body);
-      const moduleElement = await storage.createModuleElement(elementData);
-      res.status(201).json(moduleElement);
+      const ownership = await ownershipFor(req);
+      const teacherId = ownership.resolveTeacher(req.query.teacherId ? parseInt(req.query.teacherId as string, 10) : undefined);
+      let sessions = await listPendingSessions(storage, teacherId);
+
+      const semester = await resolveSemesterFilter(storage, req.query.semesterId);
+      if (semester) {
+        sessions = sessions.filter(session => session.semesterId === semester.id);
+      }
+
+      res.json(await (await scopeFor(req)).filterSessions(sessions));
+    } catch (error) {
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error fetching pending sessions" });
+    }
+  });
+
+  // Planned sessions that took place without their attendance being recorded. Teachers see their own; users
+  // who may edit any session see those of every teacher in their scope.
+  app.get("/api/attendance/missing", requirePermission("sessions:edit:own", "sessions:edit:any"), async (req, res) => {
+    try {
+      const user = req.user as any;
+      const semester = await resolveSemesterFilter(storage, req.query.semesterId);
+      let sessions = (await storage.listSessions())
+        .filter(session => !semester || session.semesterId === semester.id);
+      if (!(await hasPermission(storage, user, "sessions:edit:any"))) {
+        sessions = sessions.filter(session => session.teacherId === user.id);
+      }
+
+      const missing = listMissingAttendance(await (await scopeFor(req)).filterSessions(sessions));
+      res.json(await Promise.all(missing.map(session => missingAttendanceDetails(storage, session))));
+    } catch (error) {
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error fetching missing attendance" });
+    }
+  });
+
+  app.post("/api/sessions", requirePermission("sessions:edit:own", "sessions:edit:any"), async (req, res) => {
+    try {
+      const payload = sessionPayloadSchema.parse(req.body);
+      const ownership = await ownershipFor(req);
+      const sessionData = { ...payload, teacherId: ownership.resolveTeacher(payload.teacherId) };
+      assertSessionTimes(sessionData);
+      await ownership.assertSession(sessionData);
+      await (await scopeFor(req)).assertSession(sessionData);
+      await assertSessionBookings(storage, sessionData);
+      if (sessionData.semesterId === undefined) {
+        sessionData.semesterId = (await semesterForDate(storage, sessionData.date))?.id;
+      }
+      const session = await storage.createSession(sessionData);
+      await ownership.recordOverride("sessions", session.id, "create", session.teacherId);
+      res.status(201).json({ ...session, warnings: await capacityWarnings(storage, session) });
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid module element data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid session data", errors: error.errors });
       }
-      res.status(500).json({ message: "Error creating module element" });
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error creating session" });
     }
   });
 
-  app.get("/api/module-elements/:id", isAuthenticated, async (req, res) => {
+  app.post("/api/sessions/with-attendance", requirePermission("sessions:edit:own", "sessions:edit:any"), async (req, res) => {
+    try {
+      const { session: payload, absences } = recordAttendanceSchema.parse(req.body);
+      const ownership = await ownershipFor(req);
+      const session = { ...payload, teacherId: ownership.resolveTeacher(payload.teacherId) };
+      assertSessionTimes(session);
+      absences.forEach(assertLatenessMinutes);
+      absences.forEach(absence => assertNotJustified(absence));
+      await ownership.assertSession(session);
+      await (await scopeFor(req)).assertSession(session);
+      await assertSessionBookings(storage, session);
+      if (session.semesterId === undefined) {
+        session.semesterId = (await semesterForDate(storage, session.date))?.id;
+      }
+      const result = await storage.recordAttendance(session, absences);
+      await ownership.recordOverride("sessions", result.session.id, "create", result.session.teacherId);
+      await notifyAbsencesRecorded(storage, result.absences);
+      await evaluateThresholds(storage, result.absences.map(absence => absence.studentId));
+      res.status(201).json({ ...result, warnings: await capacityWarnings(storage, result.session) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid attendance data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error recording attendance" });
+    }
+  });
+
+  // Record the attendance of a session that already exists, such as one planned from the timetable
+  app.post("/api/sessions/:id/attendance", requirePermission("sessions:edit:own", "sessions:edit:any"), async (req, res) => {
     try {
       const id = parseInt(req.params.id, 10);
-      const moduleElement = await storage.getModuleElement(id);
-      if (!moduleElement) {
-        return res.status(404).json({ message: "Module element not found" });
+      const { absences } = sessionAttendanceSchema.parse(req.body);
+      absences.forEach(assertLatenessMinutes);
+      absences.forEach(absence => assertNotJustified(absence));
+      const session = await storage.getSession(id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
       }
-      res.json(moduleElement);
+      const ownership = await ownershipFor(req);
+      await ownership.assertSession(session);
+      await (await scopeFor(req)).assertSession(session);
+      const recorded = await storage.recordSessionAttendance(id, absences);
+      for (const absence of recorded) {
+        await ownership.recordAttendanceOverride(id, absence.id, "create");
+      }
+      await notifyAbsencesRecorded(storage, recorded);
+      await evaluateThresholds(storage, recorded.map(absence => absence.studentId));
+      res.status(201).json({ session, absences: recorded });
     } catch (error) {
-      res.status(500).json({ message: "Error fetching module element" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid attendance data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error recording attendance" });
     }
   });
 
-  app.put("/api/module-elements/:id", isAdmin, async (req, res) => {
+  app.get("/api/sessions/:id", requirePermission("sessions:edit:own", "sessions:edit:any", "reports:view"), async (req, res) => {
     try {
       const id = parseInt(req.params.id, 10);
-      const elementData = insertModuleElementSchema.partial().parse(req.body);
-      const updatedElement = await storage.updateModuleElement(id, elementData);
-      if (!updatedElement) {
-        return res.status(404).json({ message: "Module element not found" });
+      const session = await storage.getSession(id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
       }
-      res.json(updatedElement);
+      await (await scopeFor(req)).assertSession(session);
+      res.json(session);
+    } catch (error) {
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error fetching session" });
+    }
+  });
+
+  app.put("/api/sessions/:id", requirePermission("sessions:edit:own", "sessions:edit:any"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const sessionData = sessionPayloadSchema.partial().parse(req.body);
+      const existing = await storage.getSession(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      assertSessionTimes({ ...existing, ...sessionData });
+      const ownership = await ownershipFor(req);
+      await ownership.assertSession(existing);
+      await ownership.assertSession({ ...existing, ...sessionData });
+      const scope = await scopeFor(req);
+      await scope.assertSession(existing);
+      await scope.assertSession({ ...existing, ...sessionData });
+      // Changing only the notes of a session doesn't book anything
+      const booked = ["date", "endsAt", "moduleElementId", "teacherId", "groupId", "roomId"] as const;
+      if (booked.some(field => sessionData[field] !== undefined)) {
+        await assertSessionBookings(storage, { ...existing, ...sessionData }, id);
+      }
+      const updatedSession = await storage.updateSession(id, sessionData);
+      if (!updatedSession) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      await ownership.recordOverride("sessions", id, "update", existing.teacherId, updatedSession.teacherId);
+      // Moving a session to another semester, or changing its length, changes what its absences count for
+      // toward the thresholds
+      if (
+        updatedSession.semesterId !== existing.semesterId ||
+        updatedSession.date.getTime() !== existing.date.getTime() ||
+        updatedSession.endsAt?.getTime() !== existing.endsAt?.getTime()
+      ) {
+        await evaluateThresholds(storage, (await storage.listAbsencesBySession(id)).map(absence => absence.studentId));
+      }
+      res.json({ ...updatedSession, warnings: await capacityWarnings(storage, updatedSession) });
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid module element data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid session data", errors: error.errors });
       }
-      res.status(500).json({ message: "Error updating module element" });
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error updating session" });
     }
   });
 
-  app.delete("/api/module-elements/:id", isAdmin, async (req, res) => {
+  app.delete("/api/sessions/:id", requirePermission("sessions:edit:own", "sessions:edit:any"), async (req, res) => {
     try {
       const id = parseInt(req.params.id, 10);
-      const success = await storage.deleteModuleElement(id);
+      const existing = await storage.getSession(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      const ownership = await ownershipFor(req);
+      await ownership.assertSession(existing);
+      await (await scopeFor(req)).assertSession(existing);
+      const attendees = (await storage.listAbsencesBySession(id)).map(absence => absence.studentId);
+      const success = await storage.deleteSession(id);
       if (!success) {
-        return res.status(404).json({ message: "Module element not found" });
+        return res.status(404).json({ message: "Session not found" });
       }
-      res.json({ message: "Module element deleted successfully" });
+      await ownership.recordOverride("sessions", id, "delete", existing.teacherId);
+      await evaluateThresholds(storage, attendees);
+      res.json({ message: "Session deleted successfully" });
     } catch (error) {
-      res.status(500).json({ message: "Error deleting module element" });
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error deleting session" });
     }
   });
 
-  // Teacher Module Element Assignment routes
-  app.post("/api/teacher-module-elements", isAdmin, async (req, res) => {
+  // Timetable routes. Teachers see their own slots; the timetable is managed with "timetable:manage".
+  app.get("/api/timetable-slots", requirePermission("timetable:manage", "sessions:edit:own", "sessions:edit:any"), async (req, res) => {
     try {
-      const assignmentData = insertTeacherModuleElementSchema.parse(req.body);
-      const assignment = await storage.assignTeacherToModuleElement(assignmentData);
-      res.status(201).json(assignment);
+      const user = req.user as any;
+      const semester = await resolveSemesterFilter(storage, req.query.semesterId);
+      let slots = semester ? await storage.listTimetableSlotsBySemester(semester.id) : await storage.listTimetableSlots();
+
+      if (!(await hasPermission(storage, user, "timetable:manage", "sessions:edit:any"))) {
+        slots = slots.filter(slot => slot.teacherId === user.id);
+      }
+      const teacherId = req.query.teacherId ? parseInt(req.query.teacherId as string, 10) : undefined;
+      if (teacherId) {
+        slots = slots.filter(slot => slot.teacherId === teacherId);
+      }
+
+      res.json(await (await scopeFor(req)).filterSessions(slots));
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid assignment data", errors: error.errors });
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
       }
-      res.status(500).json({ message: "Error creating assignment" });
+      res.status(500).json({ message: "Error fetching timetable" });
     }
   });
 
-  app.delete("/api/teacher-module-elements", isAdmin, async (req, res) => {
+  app.post("/api/timetable-slots", requirePermission("timetable:manage"), async (req, res) => {
     try {
-      const teacherId = parseInt(req.query.teacherId as string, 10);
-      const moduleElementId = parseInt(req.query.moduleElementId as string, 10);
-      
-      if (isNaN(teacherId) || isNaN(moduleElementId)) {
-        return res.status(400).json({ message: "Invalid teacher ID or module element ID" });
+      const slotData = timetableSlotPayloadSchema.parse(req.body);
+      await (await scopeFor(req)).assertSession(slotData);
+      res.status(201).json(await createTimetableSlot(storage, slotData));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid timetable slot data", errors: error.errors });
       }
-      
-      const success = await storage.removeTeacherFromModuleElement(teacherId, moduleElementId);
-      if (!success) {
-        return res.status(404).json({ message: "Assignment not found" });
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
       }
-      
-      res.json({ message: "Assignment removed successfully" });
+      res.status(500).json({ message: "Error creating timetable slot" });
+    }
+  });
+
+  app.put("/api/timetable-slots/:id", requirePermission("timetable:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const slotData = timetableSlotPayloadSchema.partial().parse(req.body);
+      const existing = await storage.getTimetableSlot(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Timetable slot not found" });
+      }
+      const scope = await scopeFor(req);
+      await scope.assertSession(existing);
+      await scope.assertSession({ ...existing, ...slotData });
+      res.json(await updateTimetableSlot(storage, existing, slotData));
     } catch (error) {
-      res.status(500).json({ message: "Error deleting assignment" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid timetable slot data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error updating timetable slot" });
     }
   });
 
-  app.get("/api/teacher-module-elements", isAuthenticated, async (req, res) => {
+  app.delete("/api/timetable-slots/:id", requirePermission("timetable:manage"), async (req, res) => {
     try {
-      const teacherId = parseInt(req.query.teacherId as string, 10);
-      
-      if (isNaN(teacherId)) {
-        return res.status(400).json({ message: "Invalid teacher ID" });
+      const id = parseInt(req.params.id, 10);
+      const existing = await storage.getTimetableSlot(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Timetable slot not found" });
       }
-      
-      const assignments = await storage.listTeacherModuleElements(teacherId);
-      res.json(assignments);
+      await (await scopeFor(req)).assertSession(existing);
+      const success = await deleteTimetableSlot(storage, existing);
+      if (!success) {
+        return res.status(404).json({ message: "Timetable slot not found" });
+      }
+      res.json({ message: "Timetable slot deleted successfully" });
     } catch (error) {
-      res.status(500).json({ message: "Error fetching assignments" });
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error deleting timetable slot" });
     }
   });
 
-  // Student routes
-  app.get("/api/students", isAuthenticated, async (req, res) => {
+  // Absence routes
+  app.get("/api/absences", requirePermission("sessions:edit:own", "sessions:edit:any", "reports:view", "justifications:review"), async (req, res) => {
     try {
-      const courseId = req.query.courseId ? parseInt(req.query.courseId as string, 10) : undefined;
-      let students;
+      const sessionId = req.query.sessionId ? parseInt(req.query.sessionId as string, 10) : undefined;
+      const studentId = req.query.studentId ? parseInt(req.query.studentId as string, 10) : undefined;
       
-      if (courseId) {
-        students = await storage.listStudentsByCourse(courseId);
+      let absences;
+      
+      if (sessionId) {
+        absences = await storage.listAbsencesBySession(sessionId);
+      } else if (studentId) {
+        absences = await storage.listAbsencesByStudent(studentId);
       } else {
-        students = await storage.listStudents();
+        absences = await storage.listAbsences();
+      }
+
+      // Absences belong to the period of their session
+      const semester = await resolveSemesterFilter(storage, req.query.semesterId);
+      if (semester) {
+        absences = await listAbsencesInSemester(storage, semester, absences);
       }
       
-      res.json(students);
+      res.json(await (await scopeFor(req)).filterAbsences(absences));
     } catch (error) {
-      res.status(500).json({ message: "Error fetching students" });
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error fetching absences" });
     }
   });
 
-  app.post("/api/students", isAdmin, async (req, res) => {
+  app.post("/api/absences", requirePermission("sessions:edit:own", "sessions:edit:any"), async (req, res) => {
     try {
-      const studentData = insertStudentSchema.parse(req.body);
-      const student = await storage.createStudent(studentData);
-      res.status(201).json(student);
+      const absenceData = insertAbsenceSchema.parse(req.body);
+      assertLatenessMinutes(absenceData);
+      assertNotJustified(absenceData);
+      const ownership = await ownershipFor(req);
+      await ownership.assertAttendance(absenceData.sessionId);
+      await (await scopeFor(req)).assertAbsence(absenceData);
+      const absence = await storage.createAbsence(absenceData);
+      await ownership.recordAttendanceOverride(absence.sessionId, absence.id, "create");
+      await notifyAbsencesRecorded(storage, [absence]);
+      await evaluateThresholds(storage, [absence.studentId]);
+      res.status(201).json(absence);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid absence data", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error creating absence" });
+    }
+  });
+
+  app.post("/api/absences/batch", requirePermission("sessions:edit:own", "sessions:edit:any"), async (req, res) => {
+    try {
+      const absencesArray = z.array(insertAbsenceSchema).parse(req.body);
+      absencesArray.forEach(assertLatenessMinutes);
+      absencesArray.forEach(absence => assertNotJustified(absence));
+      const ownership = await ownershipFor(req);
+      const scope = await scopeFor(req);
+      for (const absenceData of absencesArray) {
+        await ownership.assertAttendance(absenceData.sessionId);
+        await scope.assertAbsence(absenceData);
+      }
+      const absences = await storage.batchCreateAbsences(absencesArray);
+      for (const absence of absences) {
+        await ownership.recordAttendanceOverride(absence.sessionId, absence.id, "create");
+      }
+      await notifyAbsencesRecorded(storage, absences);
+      await evaluateThresholds(storage, absences.map(absence => absence.studentId));
+      res.status(201).json(absences);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid student data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid absences data", errors: error.errors });
       }
-      res.status(500).json({ message: "Error creating student" });
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error creating absences" });
     }
   });
 
-  app.get("/api/students/:id", isAuthenticated, async (req, res) => {
+  app.get("/api/absences/:id", requirePermission("sessions:edit:own", "sessions:edit:any", "reports:view", "justifications:review"), async (req, res) => {
     try {
       const id = parseInt(req.params.id, 10);
-      const student = await storage.getStudent(id);
-      if (!student) {
-        return res.status(404).json({ message: "Student not found" });
+      const absence = await storage.getAbsence(id);
+      if (!absence) {
+        return res.status(404).json({ message: "Absence not found" });
       }
-      res.json(student);
+      await (await scopeFor(req)).assertAbsence(absence);
+      res.json(absence);
     } catch (error) {
-      res.status(500).json({ message: "Error fetching student" });
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error fetching absence" });
     }
   });
 
-  app.put("/api/students/:id", isAdmin, async (req, res) => {
+  app.put("/api/absences/:id", requirePermission("sessions:edit:own", "sessions:edit:any"), async (req, res) => {
     try {
       const id = parseInt(req.params.id, 10);
-      const studentData = insertStudentSchema.partial().parse(req.body);
-      const updatedStudent = await storage.updateStudent(id, studentData);
-      if (!updatedStudent) {
-        return res.status(404).json({ message: "Student not found" });
+      const absenceData = insertAbsenceSchema.partial().parse(req.body);
+      const existing = await storage.getAbsence(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Absence not found" });
       }
-      res.json(updatedStudent);
+      // Minutes go away with the lateness when the status changes to anything else
+      if (absenceData.status && !isLateness(absenceData.status) && absenceData.minutes === undefined) {
+        absenceData.minutes = null;
+      }
+      assertLatenessMinutes({ ...existing, ...absenceData });
+      assertNotJustified(absenceData, existing);
+      const ownership = await ownershipFor(req);
+      await ownership.assertAttendance(existing.sessionId);
+      if (absenceData.sessionId !== undefined) {
+        await ownership.assertAttendance(absenceData.sessionId);
+      }
+      const scope = await scopeFor(req);
+      await scope.assertAbsence(existing);
+      await scope.assertAbsence({ ...existing, ...absenceData });
+      const updatedAbsence = await storage.updateAbsence(id, absenceData);
+      if (!updatedAbsence) {
+        return res.status(404).json({ message: "Absence not found" });
+      }
+      await ownership.recordAttendanceOverride(updatedAbsence.sessionId, id, "update");
+      // A presence turned into an absence is news to the student; other corrections aren't
+      if (!UNEXCUSED_STATUSES.includes(existing.status)) {
+        await notifyAbsencesRecorded(storage, [updatedAbsence]);
+      }
+      await evaluateThresholds(storage, [existing.studentId, updatedAbsence.studentId]);
+      res.json(updatedAbsence);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid student data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid absence data", errors: error.errors });
       }
-      res.status(500).json({ message: "Error updating student" });
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error updating absence" });
     }
   });
 
-  app.delete("/api/students/:id", isAdmin, async (req, res) => {
+  app.delete("/api/absences/:id", requirePermission("sessions:edit:own", "sessions:edit:any"), async (req, res) => {
     try {
       const id = parseInt(req.params.id, 10);
-      const success = await storage.deleteStudent(id);
+      const existing = await storage.getAbsence(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Absence not found" });
+      }
+      const ownership = await ownershipFor(req);
+      await ownership.assertAttendance(existing.sessionId);
+      await (await scopeFor(req)).assertAbsence(existing);
+      const success = await storage.deleteAbsence(id);
       if (!success) {
-        return res.status(404).json({ message: "Student not found" });
+        return res.status(404).json({ message: "Absence not found" });
       }
-      res.json({ message: "Student deleted successfully" });
+      await ownership.recordAttendanceOverride(existing.sessionId, id, "delete");
+      await evaluateThresholds(storage, [existing.studentId]);
+      res.json({ message: "Absence deleted successfully" });
     } catch (error) {
-      res.status(500).json({ message: "Error deleting student" });
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error deleting absence" });
     }
   });
 
-  // Student Group routes
-  app.get("/api/student-groups", isAuthenticated, async (req, res) => {
+  // Student portal: the logged-in student's absences per module element, standing against the course threshold
+  // and groups, for the active semester unless `?semesterId=` says otherwise
+  app.get("/api/portal", requirePermission("portal:view"), async (req, res) => {
     try {
-      const courseId = req.query.courseId ? parseInt(req.query.courseId as string, 10) : undefined;
-      let groups;
-      
-      if (courseId) {
-        groups = await storage.listStudentGroupsByCourse(courseId);
-      } else {
-        groups = await storage.listStudentGroups();
+      const user = req.user as any;
+      const student = user.studentId == null ? undefined : await storage.getStudent(user.studentId);
+      if (!student) {
+        return res.status(404).json({ message: "No student record is linked to this account" });
       }
-      
-      res.json(groups);
+      const semester = await resolveSemesterFilter(storage, req.query.semesterId);
+      res.json(await buildStudentPortal(storage, student, semester));
     } catch (error) {
-      res.status(500).json({ message: "Error fetching student groups" });
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error fetching student portal" });
     }
   });
 
-  app.post("/api/student-groups", isDepartmentHead, async (req, res) => {
+  // Escalation levels of a course's absence policy; see threshold-alerts.ts
+  app.get("/api/courses/:id/threshold-levels", requirePermission("reports:view", "alerts:manage"), async (req, res) => {
     try {
-      const groupData = insertStudentGroupSchema.parse(req.body);
-      const group = await storage.createStudentGroup(groupData);
-      res.status(201).json(group);
+      const course = await storage.getCourse(parseInt(req.params.id, 10));
+      if (!course) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+      (await scopeFor(req)).assertCourse(course.id);
+      res.json(await escalationLevels(storage, course));
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid group data", errors: error.errors });
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
       }
-      res.status(500).json({ message: "Error creating student group" });
+      res.status(500).json({ message: "Error fetching threshold levels" });
     }
   });
 
-  app.get("/api/student-groups/:id", isAuthenticated, async (req, res) => {
+  app.put("/api/courses/:id/threshold-levels", requirePermission("alerts:manage"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id, 10);
-      const group = await storage.getStudentGroup(id);
-      if (!group) {
-        return res.status(404).json({ message: "Student group not found" });
+      const { levels, ...policy } = thresholdLevelsPayloadSchema.parse(req.body);
+      const course = await storage.getCourse(parseInt(req.params.id, 10));
+      if (!course) {
+        return res.status(404).json({ message: "Course not found" });
       }
-      res.json(group);
+      (await scopeFor(req)).assertCourse(course.id);
+      res.json(await setEscalationLevels(storage, course, levels, policy));
     } catch (error) {
-      res.status(500).json({ message: "Error fetching student group" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid threshold levels", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error updating threshold levels" });
     }
   });
 
-  app.put("/api/student-groups/:id", isDepartmentHead, async (req, res) => {
+  // Absence alerts, newest first. Staff see the alerts of the courses in their scope; `?status=` and
+  // `?courseId=` narrow the list.
+  app.get("/api/absence-alerts", requirePermission("reports:view", "alerts:manage"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id, 10);
-      const groupData = insertStudentGroupSchema.partial().parse(req.body);
-      const updatedGroup = await storage.updateStudentGroup(id, groupData);
-      if (!updatedGroup) {
-        return res.status(404).json({ message: "Student group not found" });
-      }
-      res.json(updatedGroup);
+      const filters = z.object({
+        status: z.enum(["open", "dismissed", "resolved"]).optional(),
+        courseId: z.coerce.number().int().optional(),
+      }).parse(req.query);
+      const scope = await scopeFor(req);
+      const alerts = (await storage.listAbsenceAlerts())
+        .filter(alert =>
+          scope.includesCourse(alert.courseId) &&
+          (filters.status === undefined || alert.status === filters.status) &&
+          (filters.courseId === undefined || alert.courseId === filters.courseId)
+        )
+        .reverse();
+      res.json(await Promise.all(alerts.map(alert => absenceAlertDetails(storage, alert))));
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid group data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid alert filters", errors: error.errors });
       }
-      res.status(500).json({ message: "Error updating student group" });
+      res.status(500).json({ message: "Error fetching absence alerts" });
     }
   });
 
-  app.delete("/api/student-groups/:id", isDepartmentHead, async (req, res) => {
+  app.post("/api/absence-alerts/:id/close", requirePermission("alerts:manage"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id, 10);
-      const success = await storage.deleteStudentGroup(id);
-      if (!success) {
-        return res.status(404).json({ message: "Student group not found" });
-      }
-      res.json({ message: "Student group deleted successfully" });
+      const { status, note } = absenceAlertClosingSchema.parse(req.body);
+      const alert = await storage.getAbsenceAlert(parseInt(req.params.id, 10));
+      if (!alert) {
+        return res.status(404).json({ message: "Absence alert not found" });
+      }
+      (await scopeFor(req)).assertCourse(alert.courseId);
+      const closed = await closeAbsenceAlert(storage, req.user as any, alert, status, note);
+      res.json(await absenceAlertDetails(storage, closed));
     } catch (error) {
-      res.status(500).json({ message: "Error deleting student group" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid alert closing", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error closing absence alert" });
     }
   });
 
-  // Student Group Assignment routes
-  app.post("/api/student-group-assignments", isDepartmentHead, async (req, res) => {
+  // In-app notifications of the current user
+  app.get("/api/notifications", isAuthenticated, async (req, res) => {
     try {
-      const assignmentData = insertStudentGroupAssignmentSchema.parse(req.body);
-      const assignment = await storage.assignStudentToGroup(assignmentData);
-      res.status(201).json(assignment);
+      res.json(await listUserNotifications(storage, req.user as any));
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid assignment data", errors: error.errors });
-      }
-      res.status(500).json({ message: "Error creating assignment" });
+      res.status(500).json({ message: "Error fetching notifications" });
     }
   });
 
-  app.delete("/api/student-group-assignments", isDepartmentHead, async (req, res) => {
+  app.post("/api/notifications/read-all", isAuthenticated, async (req, res) => {
     try {
-      const studentId = parseInt(req.query.studentId as string, 10);
-      const groupId = parseInt(req.query.groupId as string, 10);
-      
-      if (isNaN(studentId) || isNaN(groupId)) {
-        return res.status(400).json({ message: "Invalid student ID or group ID" });
-      }
-      
-      const success = await storage.removeStudentFromGroup(studentId, groupId);
-      if (!success) {
-        return res.status(404).json({ message: "Assignment not found" });
-      }
-      
-      res.json({ message: "Assignment removed successfully" });
+      const read = await storage.markNotificationsRead((req.user as any).id, new Date());
+      res.json({ read });
     } catch (error) {
-      res.status(500).json({ message: "Error deleting assignment" });
+      res.status(500).json({ message: "Error marking notifications as read" });
     }
   });
 
-  app.get("/api/student-groups/:groupId/students", isAuthenticated, async (req, res) => {
+  app.post("/api/notifications/:id/read", isAuthenticated, async (req, res) => {
     try {
-      const groupId = parseInt(req.params.groupId, 10);
-      const students = await storage.listStudentsByGroup(groupId);
-      res.json(students);
+      const id = parseInt(req.params.id, 10);
+      const notification = await storage.getNotification(id);
+      if (!notification || notification.userId !== (req.user as any).id) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      res.json(notification.readAt ? notification : await storage.updateNotification(id, { readAt: new Date() }));
     } catch (error) {
-      res.status(500).json({ message: "Error fetching students by group" });
+      res.status(500).json({ message: "Error marking notification as read" });
     }
   });
 
-  // Session routes
-  app.get("/api/sessions", isTeacher, async (req, res) => {
+  // Guardian portal: the same read-only summary as the student portal, for each student the guardian is
+  // responsible for
+  app.get("/api/guardian-portal", requirePermission("wards:view"), async (req, res) => {
     try {
-      const teacherId = req.query.teacherId ? parseInt(req.query.teacherId as string, 10) : undefined;
-      const moduleElementId = req.query.moduleElementId ? parseInt(req.query.moduleElementId as string, 10) : undefined;
-      
-      let sessions;
-      
-      if (teacherId) {
-        sessions = await storage.listSessionsByTeacher(teacherId);
-      } else if (moduleElementId) {
-        sessions = await storage.listSessionsByModuleElement(moduleElementId);
-      } else {
-        sessions = await storage.listSessions();
-      }
-      
-      res.json(sessions);
+      const semester = await resolveSemesterFilter(storage, req.query.semesterId);
+      res.json(await buildGuardianPortal(storage, req.user as any, semester));
     } catch (error) {
-      res.status(500).json({ message: "Error fetching sessions" });
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error fetching guardian portal" });
     }
   });
 
-  app.post("/api/sessions", isTeacher, async (req, res) => {
+  // Justification routes. Requests are sent as multipart form data with their documents under "documents".
+  app.post("/api/justification-requests", requirePermission("justifications:submit"), async (req, res) => {
+    let files: Express.Multer.File[] = [];
     try {
-      const sessionData = insertSessionSchema.parse(req.body);
-      const session = await storage.createSession(sessionData);
-      res.status(201).json(session);
+      files = await receiveDocuments(req, res);
+      const payload = justificationPayloadSchema.parse(req.body);
+      const absences = await loadAbsences(storage, payload.absenceIds);
+      // Students justify their own absences; staff those of students and sessions they manage
+      if (isStudentAccount(req.user as any)) {
+        assertOwnStudent(req.user as any, payload.studentId);
+      } else {
+        await (await scopeFor(req)).assertStudent(payload.studentId);
+        const ownership = await ownershipFor(req);
+        for (const absence of absences) {
+          await ownership.assertAttendance(absence.sessionId);
+        }
+      }
+      const request = await submitJustificationRequest(storage, req.user as any, payload, absences, files);
+      await notifyJustificationSubmitted(storage, request, absences.length);
+      res.status(201).json(request);
     } catch (error) {
+      await discardDocuments(files);
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid session data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid justification request", errors: error.errors });
       }
-      res.status(500).json({ message: "Error creating session" });
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error submitting justification request" });
     }
   });
 
-  app.get("/api/sessions/:id", isTeacher, async (req, res) => {
+  // Reviewers see the requests of their department, students the requests about them and others the requests
+  // they submitted; newest first
+  app.get("/api/justification-requests", requirePermission("justifications:submit", "justifications:review"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id, 10);
-      const session = await storage.getSession(id);
-      if (!session) {
-        return res.status(404).json({ message: "Session not found" });
+      const status = req.query.status as string | undefined;
+      const studentId = req.query.studentId ? parseInt(req.query.studentId as string, 10) : undefined;
+      const user = req.user as any;
+
+      let requests = studentId
+        ? await storage.listJustificationRequestsByStudent(studentId)
+        : await storage.listJustificationRequests();
+      if (isStudentAccount(user)) {
+        requests = requests.filter(request => request.studentId === user.studentId);
+      } else if (await hasPermission(storage, user, "justifications:review")) {
+        const studentIds = (await scopeFor(req)).filterStudents(await storage.listStudents()).map(student => student.id);
+        requests = requests.filter(request => request.submittedById === user.id || studentIds.includes(request.studentId));
+      } else {
+        requests = requests.filter(request => request.submittedById === user.id);
       }
-      res.json(session);
+      if (status) {
+        requests = requests.filter(request => request.status === status);
+      }
+
+      requests.sort((a, b) => b.submittedAt.getTime() - a.submittedAt.getTime());
+      res.json(await Promise.all(requests.map(request => justificationDetails(storage, request))));
     } catch (error) {
-      res.status(500).json({ message: "Error fetching session" });
+      res.status(500).json({ message: "Error fetching justification requests" });
     }
   });
 
-  app.put("/api/sessions/:id", isTeacher, async (req, res) => {
+  app.get("/api/justification-requests/:id", requirePermission("justifications:submit", "justifications:review"), async (req, res) => {
     try {
       const id = parseInt(req.params.id, 10);
-      const sessionData = insertSessionSchema.partial().parse(req.body);
-      const updatedSession = await storage.updateSession(id, sessionData);
-      if (!updatedSession) {
-        return res.status(404).json({ message: "Session not found" });
+      const request = await storage.getJustificationRequest(id);
+      if (!request) {
+        return res.status(404).json({ message: "Justification request not found" });
       }
-      res.json(updatedSession);
+      await assertJustificationAccess(req, request);
+      res.json(await justificationDetails(storage, request));
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid session data", errors: error.errors });
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
       }
-      res.status(500).json({ message: "Error updating session" });
+      res.status(500).json({ message: "Error fetching justification request" });
     }
   });
 
-  app.delete("/api/sessions/:id", isTeacher, async (req, res) => {
+  app.post("/api/justification-requests/:id/review", requirePermission("justifications:review"), async (req, res) => {
     try {
       const id = parseInt(req.params.id, 10);
-      const success = await storage.deleteSession(id);
-      if (!success) {
-        return res.status(404).json({ message: "Session not found" });
-      }
-      res.json({ message: "Session deleted successfully" });
+      const review = justificationReviewSchema.parse(req.body);
+      const request = await storage.getJustificationRequest(id);
+      if (!request) {
+        return res.status(404).json({ message: "Justification request not found" });
+      }
+      await (await scopeFor(req)).assertStudent(request.studentId);
+      const reviewed = await reviewJustificationRequest(storage, req.user as any, request, review.decision, review.comment);
+      await evaluateThresholds(storage, [request.studentId]);
+      await notifyJustificationReviewed(storage, reviewed);
+      res.json(reviewed);
     } catch (error) {
-      res.status(500).json({ message: "Error deleting session" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid review", errors: error.errors });
+      }
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error reviewing justification request" });
     }
   });
 
-  // Absence routes
-  app.get("/api/absences", isAuthenticated, async (req, res) => {
+  app.get("/api/justification-documents/:id", requirePermission("justifications:submit", "justifications:review"), async (req, res) => {
     try {
-      const sessionId = req.query.sessionId ? parseInt(req.query.sessionId as string, 10) : undefined;
-      const studentId = req.query.studentId ? parseInt(req.query.studentId as string, 10) : undefined;
-      
-      let absences;
-      
-      if (sessionId) {
-        absences = await storage.listAbsencesBySession(sessionId);
-      } else if (studentId) {
-        absences = await storage.listAbsencesByStudent(studentId);
-      } else {
-        absences = await storage.listAbsences();
-      }
-      
-      res.json(absences);
+      const id = parseInt(req.params.id, 10);
+      const document = await storage.getJustificationDocument(id);
+      const request = document && await storage.getJustificationRequest(document.requestId);
+      if (!document || !request) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      await assertJustificationAccess(req, request);
+      res.type(document.mimeType);
+      res.download(documentPath(document), document.fileName, error => {
+        if (error && !res.headersSent) {
+          res.status(404).json({ message: "Document not found" });
+        }
+      });
     } catch (error) {
-      res.status(500).json({ message: "Error fetching absences" });
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error fetching document" });
     }
   });
 
-  app.post("/api/absences", isTeacher, async (req, res) => {
+  // Changes made by heads and administrators to other teachers' sessions, newest first
+  app.get("/api/ownership-overrides", requirePermission("audit:view"), async (req, res) => {
     try {
-      const absenceData = insertAbsenceSchema.parse(req.body);
-      const absence = await storage.createAbsence(absenceData);
-      res.status(201).json(absence);
+      const overrides = await storage.listOwnershipOverrides();
+      res.json(overrides.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()));
     } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid absence data", errors: error.errors });
-      }
-      res.status(500).json({ message: "Error creating absence" });
+      res.status(500).json({ message: "Error fetching ownership overrides" });
     }
   });
 
-  app.post("/api/absences/batch", isTeacher, async (req, res) => {
+  // Audit log, newest first, filtered by user, entity type and date range (inclusive, as YYYY-MM-DD)
+  app.get("/api/audit-log", requirePermission("audit:view"), async (req, res) => {
     try {
-      const absencesArray = z.array(insertAbsenceSchema).parse(req.body);
-      const absences = await storage.batchCreateAbsences(absencesArray);
-      res.status(201).json(absences);
+      const filters = z.object({
+        userId: z.coerce.number().int().optional(),
+        entity: z.string().optional(),
+        from: z.string().date().optional(),
+        to: z.string().date().optional(),
+        limit: z.coerce.number().int().positive().max(1000).default(200),
+      }).parse(req.query);
+      const from = filters.from ? new Date(`${filters.from}T00:00:00`) : undefined;
+      const to = filters.to ? new Date(`${filters.to}T23:59:59.999`) : undefined;
+
+      const entries = (await storage.listAuditEntries())
+        .filter(entry =>
+          (filters.userId === undefined || entry.userId === filters.userId) &&
+          (filters.entity === undefined || entry.entity === filters.entity) &&
+          (!from || entry.createdAt >= from) &&
+          (!to || entry.createdAt <= to)
+        )
+        .reverse()
+        .slice(0, filters.limit);
+      res.json(await auditLog.withActors(entries));
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid absences data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid audit log filters", errors: error.errors });
       }
-      res.status(500).json({ message: "Error creating absences" });
+      res.status(500).json({ message: "Error fetching audit log" });
     }
   });
 
-  app.get("/api/absences/:id", isAuthenticated, async (req, res) => {
+  // Recompute the hash chain to detect entries edited or removed since they were written
+  app.get("/api/audit-log/verify", requirePermission("audit:view"), async (req, res) => {
     try {
-      const id = parseInt(req.params.id, 10);
-      const absence = await storage.getAbsence(id);
-      if (!absence) {
-        return res.status(404).json({ message: "Absence not found" });
-      }
-      res.json(absence);
+      res.json(await auditLog.verify());
     } catch (error) {
-      res.status(500).json({ message: "Error fetching absence" });
+      res.status(500).json({ message: "Error verifying audit log" });
     }
   });
 
-  app.put("/api/absences/:id", isTeacher, async (req, res) => {
+  // Changes made to one absence, oldest first
+  app.get("/api/absences/:id/history", requirePermission("sessions:edit:own", "sessions:edit:any", "audit:view"), async (req, res) => {
     try {
       const id = parseInt(req.params.id, 10);
-      const absenceData = insertAbsenceSchema.partial().parse(req.body);
-      const updatedAbsence = await storage.updateAbsence(id, absenceData);
-      if (!updatedAbsence) {
+      const entries = await storage.listAuditEntriesByEntity("absences", id);
+      if (entries.length === 0) {
         return res.status(404).json({ message: "Absence not found" });
       }
-      res.json(updatedAbsence);
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid absence data", errors: error.errors });
-      }
-      res.status(500).json({ message: "Error updating absence" });
-    }
-  });
-
-  app.delete("/api/absences/:id", isTeacher, async (req, res) => {
-    try {
-      const id = parseInt(req.params.id, 10);
-      const success = await storage.deleteAbsence(id);
-      if (!success) {
+      // Deleted absences are checked against the full row logged when they were deleted or created
+      const logged = entries.find(entry => entry.action === "delete")?.before
+        ?? entries.find(entry => entry.action === "create")?.after;
+      const absence = await storage.getAbsence(id) ?? (logged as Absence | undefined);
+      if (!absence) {
         return res.status(404).json({ message: "Absence not found" });
       }
-      res.json({ message: "Absence deleted successfully" });
+      await (await scopeFor(req)).assertAbsence(absence);
+      res.json(await auditLog.withActors(entries));
     } catch (error) {
-      res.status(500).json({ message: "Error deleting absence" });
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error fetching absence history" });
     }
   });
 
   // Statistics routes for dashboard
-  app.get("/api/statistics", isAuthenticated, async (req, res) => {
+  app.get("/api/statistics", requirePermission("reports:view"), async (req, res) => {
     try {
-      const studentsCount = (await storage.listStudents()).length;
-      const departmentsCount = (await storage.listDepartments()).length;
-      const coursesCount = (await storage.listCourses()).length;
-      const teachersCount = (await storage.listUsers()).filter(user => user.role === "teacher").length;
-      const modulesCount = (await storage.listModules()).length;
-      const absencesCount = (await storage.listAbsences()).length;
+      // Department heads get the figures of their own department
+      const scope = await scopeFor(req);
+      const studentsCount = scope.filterStudents(await storage.listStudents()).length;
+      const departmentsCount = (await storage.listDepartments())
+        .filter(department => scope.includesDepartment(department.id)).length;
+      const coursesCount = (await storage.listCourses())
+        .filter(course => scope.includesCourse(course.id)).length;
+      const teachersCount = (await storage.listUsers())
+        .filter(user => user.role === "teacher" && scope.includesDepartment(user.departmentId)).length;
+      const modulesCount = (await storage.listModules())
+        .filter(module => scope.includesCourse(module.courseId)).length;
+      const semester = await resolveSemesterFilter(storage, req.query.semesterId);
+      const absencesCount = (await scope.filterAbsences(semester
+        ? await listAbsencesInSemester(storage, semester)
+        : await storage.listAbsences())).length;
 
       res.json({
         studentsCount,
@@ -977,51 +2775,103 @@ export async function registerRoutes(app: Express): Promise<Server> {
         absencesCount
       });
     } catch (error) {
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
       res.status(500).json({ message: "Error fetching statistics" });
     }
   });
 
   // Top absentees for dashboard
-  app.get("/api/statistics/top-absentees", isAuthenticated, async (req, res) => {
+  app.get("/api/statistics/top-absentees", requirePermission("reports:view"), async (req, res) => {
     try {
       const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 5;
-      const absences = await storage.listAbsences();
+      const semester = await resolveSemesterFilter(storage, req.query.semesterId);
+      const absences = await (await scopeFor(req)).filterAbsences(semester
+        ? await listAbsencesInSemester(storage, semester)
+        : await storage.listAbsences());
       const students = await storage.listStudents();
       
-      // Count absences by student
-      const absencesByStudent = new Map<number, number>();
+      // Group absences by student, with the late arrivals their course counts as absences
+      const absencesByStudent = new Map<number, typeof absences>();
       
-      for (const absence of absences) {
-        if (absence.status === "absent") {
-          const count = absencesByStudent.get(absence.studentId) || 0;
-          absencesByStudent.set(absence.studentId, count + 1);
-        }
+      const counted = [
+        ...absences.filter(absence => absence.status === "absent"),
+        ...await convertedLateness(storage, absences),
+      ];
+      for (const absence of counted) {
+        absencesByStudent.set(absence.studentId, [...(absencesByStudent.get(absence.studentId) || []), absence]);
       }
       
-      // Convert to array and sort
-      const topAbsentees = Array.from(absencesByStudent.entries())
-        .map(([studentId, count]) => {
+      // Convert to array and sort, by the hours missed so that a long TP weighs more than a short class
+      const ranked = await Promise.all(Array.from(absencesByStudent.entries())
+        .map(async ([studentId, studentAbsences]) => {
           const student = students.find(s => s.id === studentId);
           return {
             studentId,
             studentName: student ? `${student.firstName} ${student.lastName}` : "Unknown",
-            absenceCount: count
+            absenceCount: studentAbsences.length,
+            absenceHours: await absenceHours(storage, studentAbsences)
           };
-        })
-        .sort((a, b) => b.absenceCount - a.absenceCount)
+        }));
+      const topAbsentees = ranked
+        .sort((a, b) => b.absenceHours - a.absenceHours || b.absenceCount - a.absenceCount)
         .slice(0, limit);
       
       res.json(topAbsentees);
     } catch (error) {
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
       res.status(500).json({ message: "Error fetching top absentees" });
     }
   });
 
-  // Recent activities for dashboard
-  app.get("/api/statistics/recent-activities", isAuthenticated, async (req, res) => {
+  // Absences counted and in hours, per module element, module and course
+  app.get("/api/statistics/absence-totals", requirePermission("reports:view"), async (req, res) => {
+    try {
+      const semester = await resolveSemesterFilter(storage, req.query.semesterId);
+      const absences = await (await scopeFor(req)).filterAbsences(semester
+        ? await listAbsencesInSemester(storage, semester)
+        : await storage.listAbsences());
+      res.json(await absenceTotals(storage, absences));
+    } catch (error) {
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error fetching absence totals" });
+    }
+  });
+
+  // Share of planned sessions with their attendance recorded, per teacher, for the dashboard
+  app.get("/api/statistics/attendance-completion", requirePermission("reports:view", "sessions:edit:own", "sessions:edit:any"), async (req, res) => {
+    try {
+      const user = req.user as any;
+      const semester = await resolveSemesterFilter(storage, req.query.semesterId);
+      let sessions = (await storage.listSessions())
+        .filter(session => !semester || session.semesterId === semester.id);
+      if (!(await hasPermission(storage, user, "sessions:edit:any"))) {
+        sessions = sessions.filter(session => session.teacherId === user.id);
+      }
+
+      res.json(await attendanceCompletion(storage, await (await scopeFor(req)).filterSessions(sessions)));
+    } catch (error) {
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
+      res.status(500).json({ message: "Error fetching attendance completion" });
+    }
+  });
+
+  // Recent activities for dashboard: the latest sessions whose attendance was recorded, leaving out those only
+  // planned by the timetable
+  app.get("/api/statistics/recent-activities", requirePermission("reports:view"), async (req, res) => {
     try {
       const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 5;
-      const sessions = await storage.listSessions();
+      const semester = await resolveSemesterFilter(storage, req.query.semesterId);
+      const sessions = await (await scopeFor(req)).filterSessions((await storage.listSessions())
+        .filter(session => session.attendanceRecordedAt !== null)
+        .filter(session => !semester || session.semesterId === semester.id));
       const teachers = (await storage.listUsers()).filter(user => user.role === "teacher");
       const moduleElements = await storage.listModuleElements();
       
@@ -1048,6 +2898,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json(activities);
     } catch (error) {
+      if (error instanceof ConstraintError) {
+        return res.status(error.status).json(error.toJSON());
+      }
       res.status(500).json({ message: "Error fetching recent activities" });
     }
   });
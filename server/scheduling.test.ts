@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { InsertSession } from "@shared/schema";
+import { MemStorage } from "./storage";
+import { BookingConflictError } from "./integrity";
+import { assertSessionBookings, capacityWarnings } from "./scheduling";
+
+describe("assertSessionBookings", () => {
+  let storage: MemStorage;
+  let moduleElementId: number;
+  let groupIds: number[];
+  let roomIds: number[];
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    const department = await storage.createDepartment({ name: "Informatique" });
+    const course = await storage.createCourse({ name: "Génie informatique", code: "GI", departmentId: department.id });
+    const module = await storage.createModule({ name: "Algorithmique", code: "M1", courseId: course.id });
+    moduleElementId = (await storage.createModuleElement({ name: "Tris", code: "E1", moduleId: module.id, type: "course" })).id;
+    groupIds = [
+      (await storage.createStudentGroup({ name: "G1", type: "TD", courseId: course.id })).id,
+      (await storage.createStudentGroup({ name: "G2", type: "TD", courseId: course.id })).id,
+    ];
+    roomIds = [
+      (await storage.createRoom({ name: "B12", building: "B", capacity: 1, type: "classroom" })).id,
+      (await storage.createRoom({ name: "Amphi A", building: "A", capacity: 200, type: "lectureHall" })).id,
+    ];
+  });
+
+  // A TD of October 12th, 2026 between the given UTC hours
+  function session(from: number, to: number, booking: Partial<InsertSession>): InsertSession {
+    return {
+      date: new Date(Date.UTC(2026, 9, 12, from)),
+      endsAt: new Date(Date.UTC(2026, 9, 12, to)),
+      type: "TD",
+      moduleElementId,
+      teacherId: 1,
+      ...booking,
+    };
+  }
+
+  async function conflict(candidate: InsertSession, sessionId?: number) {
+    return assertSessionBookings(storage, candidate, sessionId).then(() => null, error => error);
+  }
+
+  it("rejects a room booked twice at overlapping times", async () => {
+    const booked = await storage.createSession(session(8, 10, { groupId: groupIds[0], roomId: roomIds[0] }));
+
+    const error = await conflict(session(9, 11, { teacherId: 2, groupId: groupIds[1], roomId: roomIds[0] }));
+
+    expect(error).toBeInstanceOf(BookingConflictError);
+    expect(error).toMatchObject({ status: 409, field: "roomId", conflictingId: booked.id });
+  });
+
+  it("rejects a teacher teaching two sessions at once", async () => {
+    await storage.createSession(session(8, 10, { groupId: groupIds[0], roomId: roomIds[0] }));
+
+    expect(await conflict(session(9, 11, { groupId: groupIds[1], roomId: roomIds[1] }))).toMatchObject({ field: "teacherId" });
+  });
+
+  it("rejects a group in two sessions at once, a session of the whole course taking every group", async () => {
+    await storage.createSession(session(8, 10, { groupId: groupIds[0] }));
+
+    expect(await conflict(session(9, 11, { teacherId: 2, groupId: groupIds[0] }))).toMatchObject({ field: "groupId" });
+    expect(await conflict(session(9, 11, { teacherId: 2, type: "course" }))).toMatchObject({ field: "groupId" });
+    expect(await conflict(session(9, 11, { teacherId: 2, groupId: groupIds[1] }))).toBeNull();
+  });
+
+  it("lets a session start when the previous one ends", async () => {
+    await storage.createSession(session(8, 10, { groupId: groupIds[0], roomId: roomIds[0] }));
+
+    expect(await conflict(session(10, 12, { groupId: groupIds[0], roomId: roomIds[0] }))).toBeNull();
+  });
+
+  it("counts a session without an end time for two hours", async () => {
+    await storage.createSession({ ...session(8, 10, { roomId: roomIds[0] }), endsAt: null });
+
+    expect(await conflict(session(9, 11, { teacherId: 2, groupId: groupIds[1], roomId: roomIds[0] }))).toMatchObject({ field: "roomId" });
+    expect(await conflict(session(10, 11, { teacherId: 2, groupId: groupIds[1], roomId: roomIds[0] }))).toBeNull();
+  });
+
+  it("leaves out the session being changed", async () => {
+    const booked = await storage.createSession(session(8, 10, { groupId: groupIds[0], roomId: roomIds[0] }));
+
+    expect(await conflict(session(9, 11, { groupId: groupIds[0], roomId: roomIds[0] }), booked.id)).toBeNull();
+  });
+});
+
+describe("capacityWarnings", () => {
+  it("warns when the students expected outnumber the seats of the room", async () => {
+    const storage = new MemStorage();
+    const department = await storage.createDepartment({ name: "Informatique" });
+    const course = await storage.createCourse({ name: "Génie informatique", code: "GI", departmentId: department.id });
+    const module = await storage.createModule({ name: "Algorithmique", code: "M1", courseId: course.id });
+    const element = await storage.createModuleElement({ name: "Tris", code: "E1", moduleId: module.id, type: "course" });
+    const group = await storage.createStudentGroup({ name: "G1", type: "TD", courseId: course.id });
+    for (const index of [1, 2]) {
+      const student = await storage.createStudent({
+        studentId: `S${index}`, firstName: "Étudiant", lastName: `${index}`, email: `s${index}@example.com`, courseId: course.id,
+      });
+      await storage.assignStudentToGroup({ studentId: student.id, groupId: group.id });
+    }
+    const small = await storage.createRoom({ name: "B12", building: "B", capacity: 1, type: "classroom" });
+    const large = await storage.createRoom({ name: "B13", building: "B", capacity: 2, type: "classroom" });
+
+    expect(await capacityWarnings(storage, { moduleElementId: element.id, groupId: group.id, roomId: small.id })).toMatchObject([
+      { roomId: small.id, capacity: 1, students: 2 },
+    ]);
+    expect(await capacityWarnings(storage, { moduleElementId: element.id, groupId: group.id, roomId: large.id })).toEqual([]);
+    expect(await capacityWarnings(storage, { moduleElementId: element.id, groupId: group.id, roomId: null })).toEqual([]);
+  });
+});
@@ -0,0 +1,121 @@
+import type { InsertSession, InsertTimetableSlot } from "@shared/schema";
+import { sessionHours } from "@shared/session-hours";
+import type { IStorage } from "./storage";
+import { BookingConflictError } from "./integrity";
+import { getSessionRoster } from "./attendance";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// What a session or a slot occupies: its room, its teacher, and its group, or the whole course when it has none
+type Booking = Pick<InsertSession, "moduleElementId" | "teacherId" | "groupId" | "roomId">;
+
+// Course of each module element, looked up once per check
+function courseLookup(storage: IStorage): (moduleElementId: number) => Promise<number | undefined> {
+  const courses = new Map<number, number | undefined>();
+  return async moduleElementId => {
+    if (!courses.has(moduleElementId)) {
+      const moduleElement = await storage.getModuleElement(moduleElementId);
+      const module = moduleElement && await storage.getModule(moduleElement.moduleId);
+      courses.set(moduleElementId, module?.courseId);
+    }
+    return courses.get(moduleElementId);
+  };
+}
+
+// Field of the resource two bookings at the same time both need, or null when they can take place together.
+// A session of the whole course needs every group of the course.
+async function sharedResource(
+  courseOf: (moduleElementId: number) => Promise<number | undefined>,
+  booking: Booking,
+  other: Booking
+): Promise<string | null> {
+  if (booking.roomId != null && booking.roomId === other.roomId) return "roomId";
+  if (booking.teacherId === other.teacherId) return "teacherId";
+  const groupId = booking.groupId ?? null;
+  const otherGroupId = other.groupId ?? null;
+  if (groupId !== null && otherGroupId !== null) {
+    return groupId === otherGroupId ? "groupId" : null;
+  }
+  const courseId = await courseOf(booking.moduleElementId);
+  return courseId !== undefined && courseId === await courseOf(other.moduleElementId) ? "groupId" : null;
+}
+
+// Sessions planned before end times were kept last as long as they are counted
+function sessionEnd(session: Pick<InsertSession, "date" | "endsAt">): number {
+  return session.date.getTime() + sessionHours({ date: session.date, endsAt: session.endsAt ?? null }) * HOUR_MS;
+}
+
+// Reject a session whose room, teacher or group is already taken by another session overlapping it. The
+// session being changed, if any, is left out.
+export async function assertSessionBookings(storage: IStorage, session: InsertSession, sessionId?: number): Promise<void> {
+  const courseOf = courseLookup(storage);
+  const start = session.date.getTime();
+  const end = sessionEnd(session);
+  for (const other of await storage.listSessionsOverlapping(new Date(start), new Date(end), session)) {
+    if (other.id === sessionId) continue;
+    const field = await sharedResource(courseOf, session, other);
+    if (field) throw new BookingConflictError("sessions", field, other.id);
+  }
+}
+
+// Days are handled as "YYYY-MM-DD" strings and times of day as "HH:MM", in the server's time zone like the
+// sessions planned from slots
+function localTime(date: Date): { day: string; time: string } {
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  return {
+    day: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+    time: `${pad(date.getHours())}:${pad(date.getMinutes())}`,
+  };
+}
+
+// Reject a slot whose room, teacher or group is already taken, on the same weekday and at overlapping times, by
+// another slot of its semester or by a coming session outside the timetable, such as a make-up class
+export async function assertSlotBookings(storage: IStorage, slot: InsertTimetableSlot, slotId?: number): Promise<void> {
+  const courseOf = courseLookup(storage);
+  for (const other of await storage.listTimetableSlotsBySemester(slot.semesterId)) {
+    if (other.id === slotId || other.weekday !== slot.weekday) continue;
+    if (other.startTime >= slot.endTime || other.endTime <= slot.startTime) continue;
+    const field = await sharedResource(courseOf, slot, other);
+    if (field) throw new BookingConflictError("timetableSlots", field, other.id);
+  }
+
+  const now = Date.now();
+  for (const session of await storage.listSessions()) {
+    if (session.slotId !== null || session.semesterId !== slot.semesterId || session.date.getTime() < now) continue;
+    const start = localTime(session.date);
+    const end = localTime(new Date(sessionEnd(session)));
+    // 1 for Monday to 7 for Sunday
+    if ((session.date.getDay() || 7) !== slot.weekday || end.day !== start.day) continue;
+    if (start.time >= slot.endTime || end.time <= slot.startTime) continue;
+    const field = await sharedResource(courseOf, slot, session);
+    if (field) throw new BookingConflictError("sessions", field, session.id);
+  }
+}
+
+// A room too small for the students of the session or slot booked in it. Only a warning: a room can still be
+// booked, as not everyone attends.
+export interface CapacityWarning {
+  message: string;
+  roomId: number;
+  roomName: string;
+  capacity: number;
+  students: number;
+}
+
+export async function capacityWarnings(
+  storage: IStorage,
+  booking: Pick<InsertSession, "moduleElementId" | "groupId" | "roomId">
+): Promise<CapacityWarning[]> {
+  if (booking.roomId == null) return [];
+  const room = await storage.getRoom(booking.roomId);
+  if (!room) return [];
+  const students = (await getSessionRoster(storage, booking)).length;
+  if (students <= room.capacity) return [];
+  return [{
+    message: `Room ${room.name} seats ${room.capacity} but ${students} students are expected`,
+    roomId: room.id,
+    roomName: room.name,
+    capacity: room.capacity,
+    students,
+  }];
+}
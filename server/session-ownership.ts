@@ -0,0 +1,67 @@
+import type { User, InsertSession, OwnershipOverride } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { ForbiddenError } from "./integrity";
+import { hasPermission } from "./permissions";
+
+// Who may record and change a session and its attendance. Teachers only manage their own sessions, for
+// module elements they are assigned to; users with the "sessions:edit:any" permission (department heads
+// and administrators by default) may act for any teacher, and each time they do is recorded.
+export class SessionOwnership {
+  private constructor(private storage: IStorage, private user: User, readonly canOverride: boolean) {}
+
+  static async forUser(storage: IStorage, user: User): Promise<SessionOwnership> {
+    return new SessionOwnership(storage, user, await hasPermission(storage, user, "sessions:edit:any"));
+  }
+
+  // Teacher of a new session: the logged-in user unless someone allowed to override names another
+  resolveTeacher(teacherId?: number): number {
+    if (teacherId === undefined || teacherId === this.user.id) return this.user.id;
+    if (!this.canOverride) {
+      throw new ForbiddenError("Teachers can only record their own sessions");
+    }
+    return teacherId;
+  }
+
+  async assertSession(session: Pick<InsertSession, "teacherId" | "moduleElementId">): Promise<void> {
+    if (this.canOverride) return;
+    if (session.teacherId !== this.user.id) {
+      throw new ForbiddenError("This session belongs to another teacher");
+    }
+    const assignments = await this.storage.listTeacherModuleElements(this.user.id);
+    if (!assignments.some(assignment => assignment.moduleElementId === session.moduleElementId)) {
+      throw new ForbiddenError("You are not assigned to this module element");
+    }
+  }
+
+  // Attendance follows its session; missing sessions are left for the route to report
+  async assertAttendance(sessionId: number): Promise<void> {
+    if (this.canOverride) return;
+    const session = await this.storage.getSession(sessionId);
+    if (session) await this.assertSession(session);
+  }
+
+  // Record the change when it was made to another teacher's session. A session handed over from one teacher
+  // to another is checked against both.
+  async recordOverride(
+    entity: OwnershipOverride["entity"],
+    entityId: number,
+    action: OwnershipOverride["action"],
+    ...teacherIds: number[]
+  ): Promise<void> {
+    const teacherId = teacherIds.find(id => id !== this.user.id);
+    if (teacherId === undefined) return;
+    await this.storage.createOwnershipOverride({
+      userId: this.user.id,
+      teacherId,
+      entity,
+      entityId,
+      action,
+      createdAt: new Date(),
+    });
+  }
+
+  async recordAttendanceOverride(sessionId: number, absenceId: number, action: OwnershipOverride["action"]): Promise<void> {
+    const session = await this.storage.getSession(sessionId);
+    if (session) await this.recordOverride("absences", absenceId, action, session.teacherId);
+  }
+}
@@ -0,0 +1,68 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { config } from "./config";
+import { log } from "./vite";
+
+export interface SmsMessage {
+  to: string;
+  text: string;
+}
+
+// Delivers text messages; implementations can be swapped like mail transports
+export interface SmsTransport {
+  send(message: SmsMessage): Promise<void>;
+}
+
+// Prints messages to the server log, for development
+export class ConsoleSmsTransport implements SmsTransport {
+  async send(message: SmsMessage): Promise<void> {
+    log(`\nTo: ${message.to}\n${message.text}\n`, "sms");
+  }
+}
+
+// Writes each message as a .txt file in an outbox directory, for local testing
+export class FileSmsTransport implements SmsTransport {
+  constructor(private directory: string) {}
+
+  async send(message: SmsMessage): Promise<void> {
+    const date = new Date();
+    await mkdir(this.directory, { recursive: true });
+    const recipient = message.to.replace(/[^0-9+]/g, "_");
+    const file = path.join(this.directory, `${date.toISOString().replace(/[:.]/g, "-")}-${recipient}.txt`);
+    await writeFile(file, `To: ${message.to}\nDate: ${date.toUTCString()}\n\n${message.text}\n`);
+    log(`Wrote a text message for ${message.to} to ${file}`, "sms");
+  }
+}
+
+// Posts each message as JSON ({ from, to, text }) to an SMS gateway. Any status other than 2xx is a failure,
+// so the message is tried again later.
+export class HttpSmsTransport implements SmsTransport {
+  constructor(private options: typeof config.sms) {}
+
+  async send(message: SmsMessage): Promise<void> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.options.gatewayToken) {
+      headers.Authorization = `Bearer ${this.options.gatewayToken}`;
+    }
+    const response = await fetch(this.options.gatewayUrl, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ from: this.options.sender, to: message.to, text: message.text }),
+    });
+    if (!response.ok) {
+      throw new Error(`SMS gateway answered ${response.status}: ${(await response.text()).slice(0, 200)}`);
+    }
+  }
+}
+
+function createSmsTransport(): SmsTransport {
+  if (config.sms.transport === "file") {
+    return new FileSmsTransport(config.sms.outboxDir);
+  }
+  if (config.sms.transport === "http") {
+    return new HttpSmsTransport(config.sms);
+  }
+  return new ConsoleSmsTransport();
+}
+
+export const smsTransport = createSmsTransport();
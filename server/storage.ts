@@ -3,13 +3,43 @@ import {
   Module, InsertModule, ModuleElement, InsertModuleElement, 
   TeacherModuleElement, InsertTeacherModuleElement, Student, InsertStudent,
   StudentGroup, InsertStudentGroup, StudentGroupAssignment, InsertStudentGroupAssignment,
-  Session, InsertSession, Absence, InsertAbsence
+  Session, InsertSession, Absence, InsertAbsence,
+  AcademicYear, InsertAcademicYear, Semester, InsertSemester, Enrollment, InsertEnrollment,
+  PasswordResetToken, InsertPasswordResetToken, UserSession, InsertUserSession,
+  OwnershipOverride, InsertOwnershipOverride, AuditEntry, InsertAuditEntry,
+  JustificationRequest, InsertJustificationRequest, JustificationRequestAbsence,
+  JustificationDocument, InsertJustificationDocument, MagicLinkToken, InsertMagicLinkToken,
+  Guardian, InsertGuardian, ThresholdLevel, InsertThresholdLevel, AbsenceAlert, InsertAbsenceAlert,
+  NotificationPreference, InsertNotificationPreference, OutboxMessage, InsertOutboxMessage,
+  Notification, InsertNotification, TimetableSlot, InsertTimetableSlot,
+  AttendanceReminder, InsertAttendanceReminder, Room, InsertRoom
 } from "@shared/schema";
+import { sessionHours } from "@shared/session-hours";
+import { config } from "./config";
+import { createDb } from "./db";
+import { DbStorage } from "./db-storage";
+import { planDeletion, validateRow, ForeignKeyError, ValidationError, type RowReader, type EntityName, type DeletionPlan, type StoredRow } from "./integrity";
+import { assertAttendanceRoster, JUSTIFIABLE_STATUSES } from "./attendance";
+import { AuditLog, withAuditTrail } from "./audit";
+
+export type AttendanceEntry = Omit<InsertAbsence, "sessionId">;
+
+// What a session books besides its time
+export type SessionResources = Pick<InsertSession, "teacherId" | "groupId" | "roomId">;
+
+export type JustificationReview = Required<Pick<InsertJustificationRequest, "reviewedById" | "reviewedAt" | "reviewComment">> & {
+  status: "approved" | "rejected";
+};
+
+const HOUR_MS = 60 * 60 * 1000;
 
 export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  // Account of a student record, if the student has one
+  getUserByStudentId(studentId: number): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined>;
   deleteUser(id: number): Promise<boolean>;
@@ -81,6 +111,37 @@ export interface IStorage {
   listSessions(): Promise<Session[]>;
   listSessionsByTeacher(teacherId: number): Promise<Session[]>;
   listSessionsByModuleElement(moduleElementId: number): Promise<Session[]>;
+  listSessionsBySlot(slotId: number): Promise<Session[]>;
+  // Sessions taking place between `from` and `to` that could book the same resources: those in the same room or
+  // with the same teacher, and those of the same group or of a whole course. Every session between the two
+  // times is returned when `booking` is itself for a whole course.
+  listSessionsOverlapping(from: Date, to: Date, booking: SessionResources): Promise<Session[]>;
+  // Create a session and all of its attendance rows atomically: either everything is saved or nothing is
+  recordAttendance(session: InsertSession, attendance: AttendanceEntry[]): Promise<{ session: Session; absences: Absence[] }>;
+  // Record the attendance of an existing session, such as a planned one, atomically. Refused once the
+  // session has attendance.
+  recordSessionAttendance(sessionId: number, attendance: AttendanceEntry[]): Promise<Absence[]>;
+  // Create the sessions planned from a timetable slot at once
+  planSessions(sessions: InsertSession[]): Promise<Session[]>;
+
+  // Room operations
+  getRoom(id: number): Promise<Room | undefined>;
+  createRoom(room: InsertRoom): Promise<Room>;
+  updateRoom(id: number, room: Partial<InsertRoom>): Promise<Room | undefined>;
+  deleteRoom(id: number): Promise<boolean>;
+  listRooms(): Promise<Room[]>;
+
+  // Timetable slot operations
+  getTimetableSlot(id: number): Promise<TimetableSlot | undefined>;
+  createTimetableSlot(slot: InsertTimetableSlot): Promise<TimetableSlot>;
+  updateTimetableSlot(id: number, slot: Partial<InsertTimetableSlot>): Promise<TimetableSlot | undefined>;
+  deleteTimetableSlot(id: number): Promise<boolean>;
+  listTimetableSlots(): Promise<TimetableSlot[]>;
+  listTimetableSlotsBySemester(semesterId: number): Promise<TimetableSlot[]>;
+
+  // Attendance reminder operations
+  createAttendanceReminder(reminder: InsertAttendanceReminder): Promise<AttendanceReminder>;
+  listAttendanceReminders(sessionId: number): Promise<AttendanceReminder[]>;
   
   // Absence operations
   getAbsence(id: number): Promise<Absence | undefined>;
@@ -91,9 +152,135 @@ export interface IStorage {
   listAbsencesBySession(sessionId: number): Promise<Absence[]>;
   listAbsencesByStudent(studentId: number): Promise<Absence[]>;
   batchCreateAbsences(absences: InsertAbsence[]): Promise<Absence[]>;
+
+  // Academic Year operations
+  getAcademicYear(id: number): Promise<AcademicYear | undefined>;
+  createAcademicYear(academicYear: InsertAcademicYear): Promise<AcademicYear>;
+  updateAcademicYear(id: number, academicYear: Partial<InsertAcademicYear>): Promise<AcademicYear | undefined>;
+  deleteAcademicYear(id: number): Promise<boolean>;
+  listAcademicYears(): Promise<AcademicYear[]>;
+
+  // Semester operations
+  getSemester(id: number): Promise<Semester | undefined>;
+  createSemester(semester: InsertSemester): Promise<Semester>;
+  updateSemester(id: number, semester: Partial<InsertSemester>): Promise<Semester | undefined>;
+  deleteSemester(id: number): Promise<boolean>;
+  listSemesters(): Promise<Semester[]>;
+  listSemestersByAcademicYear(academicYearId: number): Promise<Semester[]>;
+
+  // Enrollment operations
+  getEnrollment(id: number): Promise<Enrollment | undefined>;
+  createEnrollment(enrollment: InsertEnrollment): Promise<Enrollment>;
+  deleteEnrollment(id: number): Promise<boolean>;
+  listEnrollmentsByStudent(studentId: number): Promise<Enrollment[]>;
+  listEnrollmentsByAcademicYear(academicYearId: number): Promise<Enrollment[]>;
+
+  // Settings operations
+  getSetting(key: string): Promise<string | undefined>;
+  setSetting(key: string, value: string): Promise<void>;
+
+  // Password reset token operations
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  // Mark the token used; false when it was already used, so a token can only be redeemed once
+  consumePasswordResetToken(id: number): Promise<boolean>;
+
+  // Magic link token operations
+  createMagicLinkToken(token: InsertMagicLinkToken): Promise<MagicLinkToken>;
+  getMagicLinkTokenByHash(tokenHash: string): Promise<MagicLinkToken | undefined>;
+  // Mark the token used; false when it was already used, so a link can only sign in once
+  consumeMagicLinkToken(id: number): Promise<boolean>;
+
+  // User session operations
+  // Insert the session or, when one with the same sid exists, update it
+  saveUserSession(session: InsertUserSession): Promise<UserSession>;
+  getUserSession(id: number): Promise<UserSession | undefined>;
+  getUserSessionBySid(sid: string): Promise<UserSession | undefined>;
+  deleteUserSession(id: number): Promise<boolean>;
+  listUserSessions(): Promise<UserSession[]>;
+  listUserSessionsByUser(userId: number): Promise<UserSession[]>;
+
+  // Ownership override operations
+  createOwnershipOverride(override: InsertOwnershipOverride): Promise<OwnershipOverride>;
+  listOwnershipOverrides(): Promise<OwnershipOverride[]>;
+
+  // Audit log operations; entries are never changed or deleted
+  appendAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry>;
+  getLatestAuditEntry(): Promise<AuditEntry | undefined>;
+  // Entries in the order they were appended
+  listAuditEntries(): Promise<AuditEntry[]>;
+  listAuditEntriesByEntity(entity: string, entityId: number): Promise<AuditEntry[]>;
+
+  // Justification request operations
+  // Create the request together with the absences it covers and its documents
+  createJustificationRequest(
+    request: InsertJustificationRequest,
+    absenceIds: number[],
+    documents: Omit<InsertJustificationDocument, "requestId">[]
+  ): Promise<JustificationRequest>;
+  getJustificationRequest(id: number): Promise<JustificationRequest | undefined>;
+  updateJustificationRequest(id: number, request: Partial<InsertJustificationRequest>): Promise<JustificationRequest | undefined>;
+  listJustificationRequests(): Promise<JustificationRequest[]>;
+  listJustificationRequestsByStudent(studentId: number): Promise<JustificationRequest[]>;
+  listJustificationRequestAbsences(requestId: number): Promise<JustificationRequestAbsence[]>;
+  listJustificationRequestAbsencesByAbsence(absenceId: number): Promise<JustificationRequestAbsence[]>;
+  // Decide a pending request atomically; refused once it has been reviewed. An approval justifies the absences
+  // it covers that can still be, leaving alone those corrected since, and returns them.
+  reviewJustificationRequest(
+    id: number,
+    review: JustificationReview
+  ): Promise<{ request: JustificationRequest; absences: Absence[] } | undefined>;
+  getJustificationDocument(id: number): Promise<JustificationDocument | undefined>;
+  listJustificationDocuments(requestId: number): Promise<JustificationDocument[]>;
+
+  // Guardian operations
+  getGuardian(id: number): Promise<Guardian | undefined>;
+  createGuardian(guardian: InsertGuardian): Promise<Guardian>;
+  updateGuardian(id: number, guardian: Partial<InsertGuardian>): Promise<Guardian | undefined>;
+  deleteGuardian(id: number): Promise<boolean>;
+  listGuardiansByStudent(studentId: number): Promise<Guardian[]>;
+  // Contacts with this email, compared case-insensitively
+  listGuardiansByEmail(email: string): Promise<Guardian[]>;
+
+  // Threshold level operations
+  listThresholdLevels(courseId: number): Promise<ThresholdLevel[]>;
+  // Replace all the escalation levels of a course at once
+  replaceThresholdLevels(courseId: number, levels: Omit<InsertThresholdLevel, "courseId">[]): Promise<ThresholdLevel[]>;
+
+  // Absence alert operations
+  getAbsenceAlert(id: number): Promise<AbsenceAlert | undefined>;
+  createAbsenceAlert(alert: InsertAbsenceAlert): Promise<AbsenceAlert>;
+  updateAbsenceAlert(id: number, alert: Partial<InsertAbsenceAlert>): Promise<AbsenceAlert | undefined>;
+  listAbsenceAlerts(): Promise<AbsenceAlert[]>;
+  listAbsenceAlertsByStudent(studentId: number): Promise<AbsenceAlert[]>;
+
+  // Notification preference operations
+  listNotificationPreferences(userId: number): Promise<NotificationPreference[]>;
+  // Replace all the preferences of a user at once
+  replaceNotificationPreferences(
+    userId: number,
+    preferences: Omit<InsertNotificationPreference, "userId">[]
+  ): Promise<NotificationPreference[]>;
+
+  // Notification outbox operations
+  createOutboxMessage(message: InsertOutboxMessage): Promise<OutboxMessage>;
+  updateOutboxMessage(id: number, message: Partial<InsertOutboxMessage>): Promise<OutboxMessage | undefined>;
+  // Pending messages whose next attempt is due, oldest first
+  listDueOutboxMessages(now: Date): Promise<OutboxMessage[]>;
+
+  // In-app notification operations
+  getNotification(id: number): Promise<Notification | undefined>;
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  updateNotification(id: number, notification: Partial<InsertNotification>): Promise<Notification | undefined>;
+  listNotificationsByUser(userId: number): Promise<Notification[]>;
+  // Mark every unread notification of a user as read, returning how many were
+  markNotificationsRead(userId: number, readAt: Date): Promise<number>;
+
+  // Rows deleting (entity, id) would remove, the cascades included; throws when a restricting relation blocks it
+  planDeletion(entity: EntityName, id: number): Promise<DeletionPlan>;
 }
 
-export class MemStorage implements IStorage {
+export class MemStorage implements IStorage, RowReader {
   private users: Map<number, User>;
   private departments: Map<number, Department>;
   private courses: Map<number, Course>;
@@ -104,7 +291,28 @@ export class MemStorage implements IStorage {
   private studentGroups: Map<number, StudentGroup>;
   private studentGroupAssignments: Map<number, StudentGroupAssignment>;
   private sessions: Map<number, Session>;
+  private timetableSlots: Map<number, TimetableSlot>;
+  private rooms: Map<number, Room>;
+  private attendanceReminders: Map<number, AttendanceReminder>;
   private absences: Map<number, Absence>;
+  private academicYears: Map<number, AcademicYear>;
+  private semesters: Map<number, Semester>;
+  private enrollments: Map<number, Enrollment>;
+  private settings: Map<string, string>;
+  private passwordResetTokens: Map<number, PasswordResetToken>;
+  private userSessions: Map<number, UserSession>;
+  private ownershipOverrides: Map<number, OwnershipOverride>;
+  private auditLog: Map<number, AuditEntry>;
+  private justificationRequests: Map<number, JustificationRequest>;
+  private justificationRequestAbsences: Map<number, JustificationRequestAbsence>;
+  private justificationDocuments: Map<number, JustificationDocument>;
+  private magicLinkTokens: Map<number, MagicLinkToken>;
+  private guardians: Map<number, Guardian>;
+  private thresholdLevels: Map<number, ThresholdLevel>;
+  private absenceAlerts: Map<number, AbsenceAlert>;
+  private notificationPreferences: Map<number, NotificationPreference>;
+  private notificationOutbox: Map<number, OutboxMessage>;
+  private notifications: Map<number, Notification>;
 
   private nextIds: {
     users: number;
@@ -117,7 +325,27 @@ export class MemStorage implements IStorage {
     studentGroups: number;
     studentGroupAssignments: number;
     sessions: number;
+    timetableSlots: number;
+    rooms: number;
+    attendanceReminders: number;
     absences: number;
+    academicYears: number;
+    semesters: number;
+    enrollments: number;
+    passwordResetTokens: number;
+    userSessions: number;
+    ownershipOverrides: number;
+    auditLog: number;
+    justificationRequests: number;
+    justificationRequestAbsences: number;
+    justificationDocuments: number;
+    magicLinkTokens: number;
+    guardians: number;
+    thresholdLevels: number;
+    absenceAlerts: number;
+    notificationPreferences: number;
+    notificationOutbox: number;
+    notifications: number;
   };
 
   constructor() {
@@ -131,7 +359,28 @@ export class MemStorage implements IStorage {
     this.studentGroups = new Map();
     this.studentGroupAssignments = new Map();
     this.sessions = new Map();
+    this.timetableSlots = new Map();
+    this.rooms = new Map();
+    this.attendanceReminders = new Map();
     this.absences = new Map();
+    this.academicYears = new Map();
+    this.semesters = new Map();
+    this.enrollments = new Map();
+    this.settings = new Map();
+    this.passwordResetTokens = new Map();
+    this.userSessions = new Map();
+    this.ownershipOverrides = new Map();
+    this.auditLog = new Map();
+    this.justificationRequests = new Map();
+    this.justificationRequestAbsences = new Map();
+    this.justificationDocuments = new Map();
+    this.magicLinkTokens = new Map();
+    this.guardians = new Map();
+    this.thresholdLevels = new Map();
+    this.absenceAlerts = new Map();
+    this.notificationPreferences = new Map();
+    this.notificationOutbox = new Map();
+    this.notifications = new Map();
 
     this.nextIds = {
       users: 1,
@@ -144,7 +393,27 @@ export class MemStorage implements IStorage {
       studentGroups: 1,
       studentGroupAssignments: 1,
       sessions: 1,
+      timetableSlots: 1,
+      rooms: 1,
+      attendanceReminders: 1,
       absences: 1,
+      academicYears: 1,
+      semesters: 1,
+      enrollments: 1,
+      passwordResetTokens: 1,
+      userSessions: 1,
+      ownershipOverrides: 1,
+      auditLog: 1,
+      justificationRequests: 1,
+      justificationRequestAbsences: 1,
+      justificationDocuments: 1,
+      magicLinkTokens: 1,
+      guardians: 1,
+      thresholdLevels: 1,
+      absenceAlerts: 1,
+      notificationPreferences: 1,
+      notificationOutbox: 1,
+      notifications: 1,
     };
 
     // Initialize with admin user
@@ -154,6 +423,7 @@ export class MemStorage implements IStorage {
       fullName: "Administrator",
       email: "admin@example.com",
       role: "admin",
+      mustChangePassword: true,
     });
     
     // Initialize with teacher user
@@ -163,6 +433,7 @@ export class MemStorage implements IStorage {
       fullName: "Teacher",
       email: "teacher@example.com",
       role: "teacher",
+      mustChangePassword: true,
     });
     
     // Initialize with department head user
@@ -172,9 +443,40 @@ export class MemStorage implements IStorage {
       fullName: "Department Head",
       email: "head_d@example.com",
       role: "departmentHead",
+      mustChangePassword: true,
     });
   }
 
+  private table(entity: EntityName): Map<number, { id: number }> {
+    return this[entity] as Map<number, { id: number }>;
+  }
+
+  async findIdsByColumn(entity: EntityName, column: string, values: Array<string | number>): Promise<number[]> {
+    return Array.from(this.table(entity).values())
+      .filter(row => values.includes((row as Record<string, any>)[column]))
+      .map(row => row.id);
+  }
+
+  async findRowsByColumn(entity: EntityName, column: string, values: Array<string | number>): Promise<StoredRow[]> {
+    return Array.from(this.table(entity).values())
+      .filter(row => values.includes((row as Record<string, any>)[column])) as StoredRow[];
+  }
+
+  async planDeletion(entity: EntityName, id: number): Promise<DeletionPlan> {
+    return planDeletion(this, entity, id);
+  }
+
+  // Delete a row together with its cascading dependents, following the rules in integrity.ts
+  private async deleteCascading(entity: EntityName, id: number): Promise<boolean> {
+    if (!this.table(entity).has(id)) return false;
+
+    const plan = await this.planDeletion(entity, id);
+    for (const step of plan) {
+      step.ids.forEach(stepId => this.table(step.entity).delete(stepId));
+    }
+    return true;
+  }
+
   // User operations
   async getUser(id: number): Promise<User | undefined> {
     return this.users.get(id);
@@ -184,9 +486,30 @@ export class MemStorage implements IStorage {
     return Array.from(this.users.values()).find(user => user.username === username);
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.email === email);
+  }
+
+  async getUserByStudentId(studentId: number): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.studentId === studentId);
+  }
+
   async createUser(user: InsertUser): Promise<User> {
+    await validateRow(this, "users", user);
     const id = this.nextIds.users++;
-    const newUser: User = { ...user, id };
+    const newUser: User = {
+      ...user,
+      id,
+      departmentId: user.departmentId ?? null,
+      studentId: user.studentId ?? null,
+      mustChangePassword: user.mustChangePassword ?? false,
+      failedLoginAttempts: user.failedLoginAttempts ?? 0,
+      lockedUntil: user.lockedUntil ?? null,
+      totpSecret: user.totpSecret ?? null,
+      totpRecoveryCodes: user.totpRecoveryCodes ?? null,
+      totpLastUsedStep: user.totpLastUsedStep ?? null,
+      phone: user.phone ?? null,
+    };
     this.users.set(id, newUser);
     return newUser;
   }
@@ -194,6 +517,7 @@ export class MemStorage implements IStorage {
   async updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined> {
     const existingUser = this.users.get(id);
     if (!existingUser) return undefined;
+    await validateRow(this, "users", user, id);
 
     const updatedUser: User = { ...existingUser, ...user };
     this.users.set(id, updatedUser);
@@ -201,7 +525,7 @@ export class MemStorage implements IStorage {
   }
 
   async deleteUser(id: number): Promise<boolean> {
-    return this.users.delete(id);
+    return this.deleteCascading("users", id);
   }
 
   async listUsers(): Promise<User[]> {
@@ -214,8 +538,9 @@ export class MemStorage implements IStorage {
   }
 
   async createDepartment(department: InsertDepartment): Promise<Department> {
+    await validateRow(this, "departments", department);
     const id = this.nextIds.departments++;
-    const newDepartment: Department = { ...department, id };
+    const newDepartment: Department = { ...department, id, description: department.description ?? null };
     this.departments.set(id, newDepartment);
     return newDepartment;
   }
@@ -223,6 +548,7 @@ export class MemStorage implements IStorage {
   async updateDepartment(id: number, department: Partial<InsertDepartment>): Promise<Department | undefined> {
     const existingDepartment = this.departments.get(id);
     if (!existingDepartment) return undefined;
+    await validateRow(this, "departments", department, id);
 
     const updatedDepartment: Department = { ...existingDepartment, ...department };
     this.departments.set(id, updatedDepartment);
@@ -230,7 +556,7 @@ export class MemStorage implements IStorage {
   }
 
   async deleteDepartment(id: number): Promise<boolean> {
-    return this.departments.delete(id);
+    return this.deleteCascading("departments", id);
   }
 
   async listDepartments(): Promise<Department[]> {
@@ -243,8 +569,17 @@ export class MemStorage implements IStorage {
   }
 
   async createCourse(course: InsertCourse): Promise<Course> {
+    await validateRow(this, "courses", course);
     const id = this.nextIds.courses++;
-    const newCourse: Course = { ...course, id };
+    const newCourse: Course = {
+      ...course,
+      id,
+      description: course.description ?? null,
+      absenceThreshold: course.absenceThreshold ?? 3,
+      thresholdUnit: course.thresholdUnit ?? "count",
+      latesPerAbsence: course.latesPerAbsence ?? null,
+      lateAbsentAfterMinutes: course.lateAbsentAfterMinutes ?? null,
+    };
     this.courses.set(id, newCourse);
     return newCourse;
   }
@@ -252,6 +587,7 @@ export class MemStorage implements IStorage {
   async updateCourse(id: number, course: Partial<InsertCourse>): Promise<Course | undefined> {
     const existingCourse = this.courses.get(id);
     if (!existingCourse) return undefined;
+    await validateRow(this, "courses", course, id);
 
     const updatedCourse: Course = { ...existingCourse, ...course };
     this.courses.set(id, updatedCourse);
@@ -259,7 +595,7 @@ export class MemStorage implements IStorage {
   }
 
   async deleteCourse(id: number): Promise<boolean> {
-    return this.courses.delete(id);
+    return this.deleteCascading("courses", id);
   }
 
   async listCourses(): Promise<Course[]> {
@@ -276,8 +612,9 @@ export class MemStorage implements IStorage {
   }
 
   async createModule(module: InsertModule): Promise<Module> {
+    await validateRow(this, "modules", module);
     const id = this.nextIds.modules++;
-    const newModule: Module = { ...module, id };
+    const newModule: Module = { ...module, id, description: module.description ?? null };
     this.modules.set(id, newModule);
     return newModule;
   }
@@ -285,6 +622,7 @@ export class MemStorage implements IStorage {
   async updateModule(id: number, module: Partial<InsertModule>): Promise<Module | undefined> {
     const existingModule = this.modules.get(id);
     if (!existingModule) return undefined;
+    await validateRow(this, "modules", module, id);
 
     const updatedModule: Module = { ...existingModule, ...module };
     this.modules.set(id, updatedModule);
@@ -292,7 +630,7 @@ export class MemStorage implements IStorage {
   }
 
   async deleteModule(id: number): Promise<boolean> {
-    return this.modules.delete(id);
+    return this.deleteCascading("modules", id);
   }
 
   async listModules(): Promise<Module[]> {
@@ -309,8 +647,9 @@ export class MemStorage implements IStorage {
   }
 
   async createModuleElement(moduleElement: InsertModuleElement): Promise<ModuleElement> {
+    await validateRow(this, "moduleElements", moduleElement);
     const id = this.nextIds.moduleElements++;
-    const newModuleElement: ModuleElement = { ...moduleElement, id };
+    const newModuleElement: ModuleElement = { ...moduleElement, id, description: moduleElement.description ?? null };
     this.moduleElements.set(id, newModuleElement);
     return newModuleElement;
   }
@@ -318,6 +657,7 @@ export class MemStorage implements IStorage {
   async updateModuleElement(id: number, moduleElement: Partial<InsertModuleElement>): Promise<ModuleElement | undefined> {
     const existingModuleElement = this.moduleElements.get(id);
     if (!existingModuleElement) return undefined;
+    await validateRow(this, "moduleElements", moduleElement, id);
 
     const updatedModuleElement: ModuleElement = { ...existingModuleElement, ...moduleElement };
     this.moduleElements.set(id, updatedModuleElement);
@@ -325,7 +665,7 @@ export class MemStorage implements IStorage {
   }
 
   async deleteModuleElement(id: number): Promise<boolean> {
-    return this.moduleElements.delete(id);
+    return this.deleteCascading("moduleElements", id);
   }
 
   async listModuleElements(): Promise<ModuleElement[]> {
@@ -338,6 +678,7 @@ export class MemStorage implements IStorage {
 
   // Teacher Module Element operations
   async assignTeacherToModuleElement(assignment: InsertTeacherModuleElement): Promise<TeacherModuleElement> {
+    await validateRow(this, "teacherModuleElements", assignment);
     const id = this.nextIds.teacherModuleElements++;
     const newAssignment: TeacherModuleElement = { ...assignment, id };
     this.teacherModuleElements.set(id, newAssignment);
@@ -365,6 +706,7 @@ export class MemStorage implements IStorage {
   }
 
   async createStudent(student: InsertStudent): Promise<Student> {
+    await validateRow(this, "students", student);
     const id = this.nextIds.students++;
     const newStudent: Student = { ...student, id };
     this.students.set(id, newStudent);
@@ -374,6 +716,7 @@ export class MemStorage implements IStorage {
   async updateStudent(id: number, student: Partial<InsertStudent>): Promise<Student | undefined> {
     const existingStudent = this.students.get(id);
     if (!existingStudent) return undefined;
+    await validateRow(this, "students", student, id);
 
     const updatedStudent: Student = { ...existingStudent, ...student };
     this.students.set(id, updatedStudent);
@@ -381,7 +724,7 @@ export class MemStorage implements IStorage {
   }
 
   async deleteStudent(id: number): Promise<boolean> {
-    return this.students.delete(id);
+    return this.deleteCascading("students", id);
   }
 
   async listStudents(): Promise<Student[]> {
@@ -398,8 +741,9 @@ export class MemStorage implements IStorage {
   }
 
   async createStudentGroup(group: InsertStudentGroup): Promise<StudentGroup> {
+    await validateRow(this, "studentGroups", group);
     const id = this.nextIds.studentGroups++;
-    const newGroup: StudentGroup = { ...group, id };
+    const newGroup: StudentGroup = { ...group, id, semesterId: group.semesterId ?? null };
     this.studentGroups.set(id, newGroup);
     return newGroup;
   }
@@ -407,6 +751,7 @@ export class MemStorage implements IStorage {
   async updateStudentGroup(id: number, group: Partial<InsertStudentGroup>): Promise<StudentGroup | undefined> {
     const existingGroup = this.studentGroups.get(id);
     if (!existingGroup) return undefined;
+    await validateRow(this, "studentGroups", group, id);
 
     const updatedGroup: StudentGroup = { ...existingGroup, ...group };
     this.studentGroups.set(id, updatedGroup);
@@ -414,7 +759,7 @@ export class MemStorage implements IStorage {
   }
 
   async deleteStudentGroup(id: number): Promise<boolean> {
-    return this.studentGroups.delete(id);
+    return this.deleteCascading("studentGroups", id);
   }
 
   async listStudentGroups(): Promise<StudentGroup[]> {
@@ -427,6 +772,7 @@ export class MemStorage implements IStorage {
 
   // Student Group Assignment operations
   async assignStudentToGroup(assignment: InsertStudentGroupAssignment): Promise<StudentGroupAssignment> {
+    await validateRow(this, "studentGroupAssignments", assignment);
     const id = this.nextIds.studentGroupAssignments++;
     const newAssignment: StudentGroupAssignment = { ...assignment, id };
     this.studentGroupAssignments.set(id, newAssignment);
@@ -462,8 +808,19 @@ export class MemStorage implements IStorage {
   }
 
   async createSession(session: InsertSession): Promise<Session> {
+    await validateRow(this, "sessions", session);
     const id = this.nextIds.sessions++;
-    const newSession: Session = { ...session, id };
+    const newSession: Session = {
+      ...session,
+      id,
+      endsAt: session.endsAt ?? null,
+      groupId: session.groupId ?? null,
+      roomId: session.roomId ?? null,
+      semesterId: session.semesterId ?? null,
+      slotId: session.slotId ?? null,
+      notes: session.notes ?? null,
+      attendanceRecordedAt: null,
+    };
     this.sessions.set(id, newSession);
     return newSession;
   }
@@ -471,6 +828,7 @@ export class MemStorage implements IStorage {
   async updateSession(id: number, session: Partial<InsertSession>): Promise<Session | undefined> {
     const existingSession = this.sessions.get(id);
     if (!existingSession) return undefined;
+    await validateRow(this, "sessions", session, id);
 
     const updatedSession: Session = { ...existingSession, ...session };
     this.sessions.set(id, updatedSession);
@@ -478,7 +836,7 @@ export class MemStorage implements IStorage {
   }
 
   async deleteSession(id: number): Promise<boolean> {
-    return this.sessions.delete(id);
+    return this.deleteCascading("sessions", id);
   }
 
   async listSessions(): Promise<Session[]> {
@@ -493,29 +851,208 @@ export class MemStorage implements IStorage {
     return Array.from(this.sessions.values()).filter(session => session.moduleElementId === moduleElementId);
   }
 
+  async listSessionsBySlot(slotId: number): Promise<Session[]> {
+    return Array.from(this.sessions.values()).filter(session => session.slotId === slotId);
+  }
+
+  async listSessionsOverlapping(from: Date, to: Date, booking: SessionResources): Promise<Session[]> {
+    return Array.from(this.sessions.values()).filter(session =>
+      session.date.getTime() < to.getTime() &&
+      session.date.getTime() + sessionHours(session) * HOUR_MS > from.getTime() &&
+      ((booking.roomId != null && session.roomId === booking.roomId) ||
+        session.teacherId === booking.teacherId ||
+        booking.groupId == null ||
+        session.groupId === null ||
+        session.groupId === booking.groupId)
+    );
+  }
+
+  async recordAttendance(session: InsertSession, attendance: AttendanceEntry[]): Promise<{ session: Session; absences: Absence[] }> {
+    await validateRow(this, "sessions", session);
+    for (const entry of attendance) {
+      await validateRow(this, "absences", entry);
+    }
+    await assertAttendanceRoster(this, session, attendance.map(entry => entry.studentId));
+
+    // Everything is validated: write the session and its rows without yielding so no partial state is visible
+    const sessionId = this.nextIds.sessions++;
+    const newSession: Session = {
+      ...session,
+      id: sessionId,
+      endsAt: session.endsAt ?? null,
+      groupId: session.groupId ?? null,
+      roomId: session.roomId ?? null,
+      semesterId: session.semesterId ?? null,
+      slotId: session.slotId ?? null,
+      notes: session.notes ?? null,
+      attendanceRecordedAt: new Date(),
+    };
+    this.sessions.set(sessionId, newSession);
+
+    const newAbsences = attendance.map(entry => {
+      const id = this.nextIds.absences++;
+      const newAbsence: Absence = { ...entry, id, sessionId, minutes: entry.minutes ?? null, notes: entry.notes ?? null };
+      this.absences.set(id, newAbsence);
+      return newAbsence;
+    });
+
+    return { session: newSession, absences: newAbsences };
+  }
+
+  async recordSessionAttendance(sessionId: number, attendance: AttendanceEntry[]): Promise<Absence[]> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new ForeignKeyError("absences", "sessionId", sessionId, "sessions");
+    }
+    for (const entry of attendance) {
+      await validateRow(this, "absences", entry);
+    }
+    await assertAttendanceRoster(this, session, attendance.map(entry => entry.studentId));
+    if (session.attendanceRecordedAt !== null) {
+      throw new ValidationError("Attendance has already been recorded for this session", "sessionId");
+    }
+
+    this.sessions.set(sessionId, { ...session, attendanceRecordedAt: new Date() });
+    return attendance.map(entry => {
+      const id = this.nextIds.absences++;
+      const newAbsence: Absence = { ...entry, id, sessionId, minutes: entry.minutes ?? null, notes: entry.notes ?? null };
+      this.absences.set(id, newAbsence);
+      return newAbsence;
+    });
+  }
+
+  async planSessions(sessions: InsertSession[]): Promise<Session[]> {
+    // Validate every session up front so a bad one doesn't leave half of the plan saved
+    for (const session of sessions) {
+      await validateRow(this, "sessions", session);
+    }
+
+    const plannedSessions: Session[] = [];
+    for (const session of sessions) {
+      plannedSessions.push(await this.createSession(session));
+    }
+    return plannedSessions;
+  }
+
+  // Room operations
+  async getRoom(id: number): Promise<Room | undefined> {
+    return this.rooms.get(id);
+  }
+
+  async createRoom(room: InsertRoom): Promise<Room> {
+    await validateRow(this, "rooms", room);
+    const id = this.nextIds.rooms++;
+    const newRoom: Room = { ...room, id };
+    this.rooms.set(id, newRoom);
+    return newRoom;
+  }
+
+  async updateRoom(id: number, room: Partial<InsertRoom>): Promise<Room | undefined> {
+    const existingRoom = this.rooms.get(id);
+    if (!existingRoom) return undefined;
+    await validateRow(this, "rooms", room, id);
+
+    const updatedRoom: Room = { ...existingRoom, ...room };
+    this.rooms.set(id, updatedRoom);
+    return updatedRoom;
+  }
+
+  async deleteRoom(id: number): Promise<boolean> {
+    return this.deleteCascading("rooms", id);
+  }
+
+  async listRooms(): Promise<Room[]> {
+    return Array.from(this.rooms.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // Timetable slot operations
+  async getTimetableSlot(id: number): Promise<TimetableSlot | undefined> {
+    return this.timetableSlots.get(id);
+  }
+
+  async createTimetableSlot(slot: InsertTimetableSlot): Promise<TimetableSlot> {
+    await validateRow(this, "timetableSlots", slot);
+    const id = this.nextIds.timetableSlots++;
+    const newSlot: TimetableSlot = {
+      ...slot,
+      id,
+      groupId: slot.groupId ?? null,
+      roomId: slot.roomId ?? null,
+    };
+    this.timetableSlots.set(id, newSlot);
+    return newSlot;
+  }
+
+  async updateTimetableSlot(id: number, slot: Partial<InsertTimetableSlot>): Promise<TimetableSlot | undefined> {
+    const existingSlot = this.timetableSlots.get(id);
+    if (!existingSlot) return undefined;
+    await validateRow(this, "timetableSlots", slot, id);
+
+    const updatedSlot: TimetableSlot = { ...existingSlot, ...slot };
+    this.timetableSlots.set(id, updatedSlot);
+    return updatedSlot;
+  }
+
+  async deleteTimetableSlot(id: number): Promise<boolean> {
+    return this.deleteCascading("timetableSlots", id);
+  }
+
+  async listTimetableSlots(): Promise<TimetableSlot[]> {
+    return Array.from(this.timetableSlots.values());
+  }
+
+  async listTimetableSlotsBySemester(semesterId: number): Promise<TimetableSlot[]> {
+    return Array.from(this.timetableSlots.values()).filter(slot => slot.semesterId === semesterId);
+  }
+
+  // Attendance reminder operations
+  async createAttendanceReminder(reminder: InsertAttendanceReminder): Promise<AttendanceReminder> {
+    await validateRow(this, "attendanceReminders", reminder);
+    const id = this.nextIds.attendanceReminders++;
+    const newReminder: AttendanceReminder = { ...reminder, id };
+    this.attendanceReminders.set(id, newReminder);
+    return newReminder;
+  }
+
+  async listAttendanceReminders(sessionId: number): Promise<AttendanceReminder[]> {
+    return Array.from(this.attendanceReminders.values()).filter(reminder => reminder.sessionId === sessionId);
+  }
+
   // Absence operations
   async getAbsence(id: number): Promise<Absence | undefined> {
     return this.absences.get(id);
   }
 
   async createAbsence(absence: InsertAbsence): Promise<Absence> {
+    await validateRow(this, "absences", absence);
     const id = this.nextIds.absences++;
-    const newAbsence: Absence = { ...absence, id };
+    const newAbsence: Absence = { ...absence, id, minutes: absence.minutes ?? null, notes: absence.notes ?? null };
     this.absences.set(id, newAbsence);
+    this.markAttendanceRecorded(newAbsence.sessionId);
     return newAbsence;
   }
 
   async updateAbsence(id: number, absence: Partial<InsertAbsence>): Promise<Absence | undefined> {
     const existingAbsence = this.absences.get(id);
     if (!existingAbsence) return undefined;
+    await validateRow(this, "absences", absence, id);
 
     const updatedAbsence: Absence = { ...existingAbsence, ...absence };
     this.absences.set(id, updatedAbsence);
+    this.markAttendanceRecorded(updatedAbsence.sessionId);
     return updatedAbsence;
   }
 
+  // Sessions that get attendance rows have had their attendance taken, however the rows were written
+  private markAttendanceRecorded(sessionId: number): void {
+    const session = this.sessions.get(sessionId);
+    if (session && session.attendanceRecordedAt === null) {
+      this.sessions.set(sessionId, { ...session, attendanceRecordedAt: new Date() });
+    }
+  }
+
   async deleteAbsence(id: number): Promise<boolean> {
-    return this.absences.delete(id);
+    return this.deleteCascading("absences", id);
   }
 
   async listAbsences(): Promise<Absence[]> {
@@ -531,6 +1068,11 @@ export class MemStorage implements IStorage {
   }
 
   async batchCreateAbsences(absences: InsertAbsence[]): Promise<Absence[]> {
+    // Validate the whole batch up front so a bad row doesn't leave half of it saved
+    for (const absence of absences) {
+      await validateRow(this, "absences", absence);
+    }
+
     const createdAbsences: Absence[] = [];
     for (const absence of absences) {
       const createdAbsence = await this.createAbsence(absence);
@@ -538,6 +1080,556 @@ export class MemStorage implements IStorage {
     }
     return createdAbsences;
   }
+
+  // Academic Year operations
+  async getAcademicYear(id: number): Promise<AcademicYear | undefined> {
+    return this.academicYears.get(id);
+  }
+
+  async createAcademicYear(academicYear: InsertAcademicYear): Promise<AcademicYear> {
+    await validateRow(this, "academicYears", academicYear);
+    const id = this.nextIds.academicYears++;
+    const newAcademicYear: AcademicYear = { ...academicYear, id };
+    this.academicYears.set(id, newAcademicYear);
+    return newAcademicYear;
+  }
+
+  async updateAcademicYear(id: number, academicYear: Partial<InsertAcademicYear>): Promise<AcademicYear | undefined> {
+    const existingAcademicYear = this.academicYears.get(id);
+    if (!existingAcademicYear) return undefined;
+    await validateRow(this, "academicYears", academicYear, id);
+
+    const updatedAcademicYear: AcademicYear = { ...existingAcademicYear, ...academicYear };
+    this.academicYears.set(id, updatedAcademicYear);
+    return updatedAcademicYear;
+  }
+
+  async deleteAcademicYear(id: number): Promise<boolean> {
+    return this.deleteCascading("academicYears", id);
+  }
+
+  async listAcademicYears(): Promise<AcademicYear[]> {
+    return Array.from(this.academicYears.values());
+  }
+
+  // Semester operations
+  async getSemester(id: number): Promise<Semester | undefined> {
+    return this.semesters.get(id);
+  }
+
+  async createSemester(semester: InsertSemester): Promise<Semester> {
+    await validateRow(this, "semesters", semester);
+    const id = this.nextIds.semesters++;
+    const newSemester: Semester = { ...semester, id };
+    this.semesters.set(id, newSemester);
+    return newSemester;
+  }
+
+  async updateSemester(id: number, semester: Partial<InsertSemester>): Promise<Semester | undefined> {
+    const existingSemester = this.semesters.get(id);
+    if (!existingSemester) return undefined;
+    await validateRow(this, "semesters", semester, id);
+
+    const updatedSemester: Semester = { ...existingSemester, ...semester };
+    this.semesters.set(id, updatedSemester);
+    return updatedSemester;
+  }
+
+  async deleteSemester(id: number): Promise<boolean> {
+    return this.deleteCascading("semesters", id);
+  }
+
+  async listSemesters(): Promise<Semester[]> {
+    return Array.from(this.semesters.values());
+  }
+
+  async listSemestersByAcademicYear(academicYearId: number): Promise<Semester[]> {
+    return Array.from(this.semesters.values()).filter(semester => semester.academicYearId === academicYearId);
+  }
+
+  // Enrollment operations
+  async getEnrollment(id: number): Promise<Enrollment | undefined> {
+    return this.enrollments.get(id);
+  }
+
+  async createEnrollment(enrollment: InsertEnrollment): Promise<Enrollment> {
+    await validateRow(this, "enrollments", enrollment);
+    const id = this.nextIds.enrollments++;
+    const newEnrollment: Enrollment = { ...enrollment, id };
+    this.enrollments.set(id, newEnrollment);
+    return newEnrollment;
+  }
+
+  async deleteEnrollment(id: number): Promise<boolean> {
+    return this.enrollments.delete(id);
+  }
+
+  async listEnrollmentsByStudent(studentId: number): Promise<Enrollment[]> {
+    return Array.from(this.enrollments.values()).filter(enrollment => enrollment.studentId === studentId);
+  }
+
+  async listEnrollmentsByAcademicYear(academicYearId: number): Promise<Enrollment[]> {
+    return Array.from(this.enrollments.values()).filter(enrollment => enrollment.academicYearId === academicYearId);
+  }
+
+  // Settings operations
+  async getSetting(key: string): Promise<string | undefined> {
+    return this.settings.get(key);
+  }
+
+  async setSetting(key: string, value: string): Promise<void> {
+    this.settings.set(key, value);
+  }
+
+  // Password reset token operations
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    await validateRow(this, "passwordResetTokens", token);
+    const id = this.nextIds.passwordResetTokens++;
+    const newToken: PasswordResetToken = { ...token, id, usedAt: token.usedAt ?? null };
+    this.passwordResetTokens.set(id, newToken);
+    return newToken;
+  }
+
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    return Array.from(this.passwordResetTokens.values()).find(token => token.tokenHash === tokenHash);
+  }
+
+  async consumePasswordResetToken(id: number): Promise<boolean> {
+    const token = this.passwordResetTokens.get(id);
+    if (!token || token.usedAt) return false;
+    this.passwordResetTokens.set(id, { ...token, usedAt: new Date() });
+    return true;
+  }
+
+  // Magic link token operations
+  async createMagicLinkToken(token: InsertMagicLinkToken): Promise<MagicLinkToken> {
+    await validateRow(this, "magicLinkTokens", token);
+    const id = this.nextIds.magicLinkTokens++;
+    const newToken: MagicLinkToken = { ...token, id, usedAt: token.usedAt ?? null };
+    this.magicLinkTokens.set(id, newToken);
+    return newToken;
+  }
+
+  async getMagicLinkTokenByHash(tokenHash: string): Promise<MagicLinkToken | undefined> {
+    return Array.from(this.magicLinkTokens.values()).find(token => token.tokenHash === tokenHash);
+  }
+
+  async consumeMagicLinkToken(id: number): Promise<boolean> {
+    const token = this.magicLinkTokens.get(id);
+    if (!token || token.usedAt) return false;
+    this.magicLinkTokens.set(id, { ...token, usedAt: new Date() });
+    return true;
+  }
+
+  // User session operations
+  async saveUserSession(session: InsertUserSession): Promise<UserSession> {
+    const existing = await this.getUserSessionBySid(session.sid);
+    await validateRow(this, "userSessions", session, existing?.id);
+    if (existing) {
+      const updated: UserSession = { ...existing, ...session, createdAt: existing.createdAt };
+      this.userSessions.set(existing.id, updated);
+      return updated;
+    }
+    const id = this.nextIds.userSessions++;
+    const newSession: UserSession = {
+      ...session,
+      id,
+      userAgent: session.userAgent ?? null,
+      ipAddress: session.ipAddress ?? null,
+    };
+    this.userSessions.set(id, newSession);
+    return newSession;
+  }
+
+  async getUserSession(id: number): Promise<UserSession | undefined> {
+    return this.userSessions.get(id);
+  }
+
+  async getUserSessionBySid(sid: string): Promise<UserSession | undefined> {
+    return Array.from(this.userSessions.values()).find(session => session.sid === sid);
+  }
+
+  async deleteUserSession(id: number): Promise<boolean> {
+    return this.deleteCascading("userSessions", id);
+  }
+
+  async listUserSessions(): Promise<UserSession[]> {
+    return Array.from(this.userSessions.values());
+  }
+
+  async listUserSessionsByUser(userId: number): Promise<UserSession[]> {
+    return Array.from(this.userSessions.values()).filter(session => session.userId === userId);
+  }
+
+  // Ownership override operations
+  async createOwnershipOverride(override: InsertOwnershipOverride): Promise<OwnershipOverride> {
+    await validateRow(this, "ownershipOverrides", override);
+    const id = this.nextIds.ownershipOverrides++;
+    const newOverride: OwnershipOverride = { ...override, id };
+    this.ownershipOverrides.set(id, newOverride);
+    return newOverride;
+  }
+
+  async listOwnershipOverrides(): Promise<OwnershipOverride[]> {
+    return Array.from(this.ownershipOverrides.values());
+  }
+
+  // Audit log operations
+  async appendAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry> {
+    await validateRow(this, "auditLog", entry);
+    const id = this.nextIds.auditLog++;
+    const newEntry: AuditEntry = {
+      ...entry,
+      id,
+      userId: entry.userId ?? null,
+      entityId: entry.entityId ?? null,
+      before: entry.before ?? null,
+      after: entry.after ?? null,
+      ipAddress: entry.ipAddress ?? null,
+    };
+    this.auditLog.set(id, newEntry);
+    return newEntry;
+  }
+
+  async getLatestAuditEntry(): Promise<AuditEntry | undefined> {
+    return this.auditLog.get(this.nextIds.auditLog - 1);
+  }
+
+  async listAuditEntries(): Promise<AuditEntry[]> {
+    return Array.from(this.auditLog.values());
+  }
+
+  async listAuditEntriesByEntity(entity: string, entityId: number): Promise<AuditEntry[]> {
+    return Array.from(this.auditLog.values()).filter(
+      entry => entry.entity === entity && entry.entityId === entityId
+    );
+  }
+
+  // Justification request operations
+  async createJustificationRequest(
+    request: InsertJustificationRequest,
+    absenceIds: number[],
+    documents: Omit<InsertJustificationDocument, "requestId">[]
+  ): Promise<JustificationRequest> {
+    await validateRow(this, "justificationRequests", request);
+    for (const absenceId of absenceIds) {
+      await validateRow(this, "justificationRequestAbsences", { absenceId });
+    }
+    for (const document of documents) {
+      await validateRow(this, "justificationDocuments", document);
+    }
+
+    const id = this.nextIds.justificationRequests++;
+    const newRequest: JustificationRequest = {
+      ...request,
+      id,
+      status: request.status ?? "pending",
+      reviewedById: request.reviewedById ?? null,
+      reviewedAt: request.reviewedAt ?? null,
+      reviewComment: request.reviewComment ?? null,
+    };
+    this.justificationRequests.set(id, newRequest);
+    for (const absenceId of absenceIds) {
+      const linkId = this.nextIds.justificationRequestAbsences++;
+      this.justificationRequestAbsences.set(linkId, { id: linkId, requestId: id, absenceId });
+    }
+    for (const document of documents) {
+      const documentId = this.nextIds.justificationDocuments++;
+      this.justificationDocuments.set(documentId, { ...document, id: documentId, requestId: id });
+    }
+    return newRequest;
+  }
+
+  async getJustificationRequest(id: number): Promise<JustificationRequest | undefined> {
+    return this.justificationRequests.get(id);
+  }
+
+  async updateJustificationRequest(id: number, request: Partial<InsertJustificationRequest>): Promise<JustificationRequest | undefined> {
+    const existingRequest = this.justificationRequests.get(id);
+    if (!existingRequest) return undefined;
+    await validateRow(this, "justificationRequests", request, id);
+
+    const updatedRequest: JustificationRequest = { ...existingRequest, ...request };
+    this.justificationRequests.set(id, updatedRequest);
+    return updatedRequest;
+  }
+
+  async listJustificationRequests(): Promise<JustificationRequest[]> {
+    return Array.from(this.justificationRequests.values());
+  }
+
+  async listJustificationRequestsByStudent(studentId: number): Promise<JustificationRequest[]> {
+    return Array.from(this.justificationRequests.values()).filter(request => request.studentId === studentId);
+  }
+
+  async listJustificationRequestAbsences(requestId: number): Promise<JustificationRequestAbsence[]> {
+    return Array.from(this.justificationRequestAbsences.values()).filter(link => link.requestId === requestId);
+  }
+
+  async listJustificationRequestAbsencesByAbsence(absenceId: number): Promise<JustificationRequestAbsence[]> {
+    return Array.from(this.justificationRequestAbsences.values()).filter(link => link.absenceId === absenceId);
+  }
+
+  async reviewJustificationRequest(
+    id: number,
+    review: JustificationReview
+  ): Promise<{ request: JustificationRequest; absences: Absence[] } | undefined> {
+    if (!this.justificationRequests.has(id)) return undefined;
+    await validateRow(this, "justificationRequests", review, id);
+
+    // Checked once validated, with nothing awaited from here on, so that two reviews can't both pass it
+    const existingRequest = this.justificationRequests.get(id);
+    if (!existingRequest) return undefined;
+    if (existingRequest.status !== "pending") {
+      throw new ValidationError("This request has already been reviewed", "status");
+    }
+    const request: JustificationRequest = { ...existingRequest, ...review };
+    this.justificationRequests.set(id, request);
+    const justified: Absence[] = [];
+    if (review.status === "approved") {
+      for (const link of Array.from(this.justificationRequestAbsences.values())) {
+        const absence = link.requestId === id ? this.absences.get(link.absenceId) : undefined;
+        if (!absence || !JUSTIFIABLE_STATUSES.includes(absence.status)) continue;
+        const updatedAbsence: Absence = { ...absence, status: "justified" };
+        this.absences.set(absence.id, updatedAbsence);
+        justified.push(updatedAbsence);
+      }
+    }
+    return { request, absences: justified };
+  }
+
+  async getJustificationDocument(id: number): Promise<JustificationDocument | undefined> {
+    return this.justificationDocuments.get(id);
+  }
+
+  async listJustificationDocuments(requestId: number): Promise<JustificationDocument[]> {
+    return Array.from(this.justificationDocuments.values()).filter(document => document.requestId === requestId);
+  }
+
+  // Guardian operations
+  async getGuardian(id: number): Promise<Guardian | undefined> {
+    return this.guardians.get(id);
+  }
+
+  async createGuardian(guardian: InsertGuardian): Promise<Guardian> {
+    await validateRow(this, "guardians", guardian);
+    const id = this.nextIds.guardians++;
+    const newGuardian: Guardian = {
+      ...guardian,
+      id,
+      email: guardian.email ?? null,
+      phone: guardian.phone ?? null,
+      preferredChannel: guardian.preferredChannel ?? "email",
+    };
+    this.guardians.set(id, newGuardian);
+    return newGuardian;
+  }
+
+  async updateGuardian(id: number, guardian: Partial<InsertGuardian>): Promise<Guardian | undefined> {
+    const existingGuardian = this.guardians.get(id);
+    if (!existingGuardian) return undefined;
+    await validateRow(this, "guardians", guardian, id);
+
+    const updatedGuardian: Guardian = { ...existingGuardian, ...guardian };
+    this.guardians.set(id, updatedGuardian);
+    return updatedGuardian;
+  }
+
+  async deleteGuardian(id: number): Promise<boolean> {
+    return this.deleteCascading("guardians", id);
+  }
+
+  async listGuardiansByStudent(studentId: number): Promise<Guardian[]> {
+    return Array.from(this.guardians.values()).filter(guardian => guardian.studentId === studentId);
+  }
+
+  async listGuardiansByEmail(email: string): Promise<Guardian[]> {
+    const normalized = email.trim().toLowerCase();
+    return Array.from(this.guardians.values()).filter(guardian => guardian.email?.toLowerCase() === normalized);
+  }
+
+  // Threshold level operations
+  async listThresholdLevels(courseId: number): Promise<ThresholdLevel[]> {
+    return Array.from(this.thresholdLevels.values()).filter(level => level.courseId === courseId);
+  }
+
+  async replaceThresholdLevels(
+    courseId: number,
+    levels: Omit<InsertThresholdLevel, "courseId">[]
+  ): Promise<ThresholdLevel[]> {
+    await validateRow(this, "thresholdLevels", { courseId });
+    for (const level of await this.listThresholdLevels(courseId)) {
+      this.thresholdLevels.delete(level.id);
+    }
+    return levels.map(level => {
+      const id = this.nextIds.thresholdLevels++;
+      const newLevel: ThresholdLevel = { ...level, id, courseId };
+      this.thresholdLevels.set(id, newLevel);
+      return newLevel;
+    });
+  }
+
+  // Absence alert operations
+  async getAbsenceAlert(id: number): Promise<AbsenceAlert | undefined> {
+    return this.absenceAlerts.get(id);
+  }
+
+  async createAbsenceAlert(alert: InsertAbsenceAlert): Promise<AbsenceAlert> {
+    await validateRow(this, "absenceAlerts", alert);
+    const id = this.nextIds.absenceAlerts++;
+    const newAlert: AbsenceAlert = {
+      ...alert,
+      id,
+      semesterId: alert.semesterId ?? null,
+      unit: alert.unit ?? "count",
+      unexcusedHours: alert.unexcusedHours ?? 0,
+      status: alert.status ?? "open",
+      clearedAt: alert.clearedAt ?? null,
+      closedById: alert.closedById ?? null,
+      closedAt: alert.closedAt ?? null,
+      closingNote: alert.closingNote ?? null,
+    };
+    this.absenceAlerts.set(id, newAlert);
+    return newAlert;
+  }
+
+  async updateAbsenceAlert(id: number, alert: Partial<InsertAbsenceAlert>): Promise<AbsenceAlert | undefined> {
+    const existingAlert = this.absenceAlerts.get(id);
+    if (!existingAlert) return undefined;
+    await validateRow(this, "absenceAlerts", alert, id);
+
+    const updatedAlert: AbsenceAlert = { ...existingAlert, ...alert };
+    this.absenceAlerts.set(id, updatedAlert);
+    return updatedAlert;
+  }
+
+  async listAbsenceAlerts(): Promise<AbsenceAlert[]> {
+    return Array.from(this.absenceAlerts.values());
+  }
+
+  async listAbsenceAlertsByStudent(studentId: number): Promise<AbsenceAlert[]> {
+    return Array.from(this.absenceAlerts.values()).filter(alert => alert.studentId === studentId);
+  }
+
+  // Notification preference operations
+  async listNotificationPreferences(userId: number): Promise<NotificationPreference[]> {
+    return Array.from(this.notificationPreferences.values()).filter(preference => preference.userId === userId);
+  }
+
+  async replaceNotificationPreferences(
+    userId: number,
+    preferences: Omit<InsertNotificationPreference, "userId">[]
+  ): Promise<NotificationPreference[]> {
+    await validateRow(this, "notificationPreferences", { userId });
+    for (const preference of await this.listNotificationPreferences(userId)) {
+      this.notificationPreferences.delete(preference.id);
+    }
+    return preferences.map(preference => {
+      const id = this.nextIds.notificationPreferences++;
+      const newPreference: NotificationPreference = { ...preference, id, userId };
+      this.notificationPreferences.set(id, newPreference);
+      return newPreference;
+    });
+  }
+
+  // Notification outbox operations
+  async createOutboxMessage(message: InsertOutboxMessage): Promise<OutboxMessage> {
+    await validateRow(this, "notificationOutbox", message);
+    const id = this.nextIds.notificationOutbox++;
+    const newMessage: OutboxMessage = {
+      ...message,
+      id,
+      userId: message.userId ?? null,
+      recipient: message.recipient ?? null,
+      link: message.link ?? null,
+      status: message.status ?? "pending",
+      attempts: message.attempts ?? 0,
+      lastError: message.lastError ?? null,
+      sentAt: message.sentAt ?? null,
+    };
+    this.notificationOutbox.set(id, newMessage);
+    return newMessage;
+  }
+
+  async updateOutboxMessage(id: number, message: Partial<InsertOutboxMessage>): Promise<OutboxMessage | undefined> {
+    const existingMessage = this.notificationOutbox.get(id);
+    if (!existingMessage) return undefined;
+    await validateRow(this, "notificationOutbox", message, id);
+
+    const updatedMessage: OutboxMessage = { ...existingMessage, ...message };
+    this.notificationOutbox.set(id, updatedMessage);
+    return updatedMessage;
+  }
+
+  async listDueOutboxMessages(now: Date): Promise<OutboxMessage[]> {
+    return Array.from(this.notificationOutbox.values()).filter(
+      message => message.status === "pending" && message.nextAttemptAt.getTime() <= now.getTime()
+    );
+  }
+
+  // In-app notification operations
+  async getNotification(id: number): Promise<Notification | undefined> {
+    return this.notifications.get(id);
+  }
+
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    await validateRow(this, "notifications", notification);
+    const id = this.nextIds.notifications++;
+    const newNotification: Notification = {
+      ...notification,
+      id,
+      link: notification.link ?? null,
+      readAt: notification.readAt ?? null,
+    };
+    this.notifications.set(id, newNotification);
+    return newNotification;
+  }
+
+  async updateNotification(id: number, notification: Partial<InsertNotification>): Promise<Notification | undefined> {
+    const existingNotification = this.notifications.get(id);
+    if (!existingNotification) return undefined;
+    await validateRow(this, "notifications", notification, id);
+
+    const updatedNotification: Notification = { ...existingNotification, ...notification };
+    this.notifications.set(id, updatedNotification);
+    return updatedNotification;
+  }
+
+  async listNotificationsByUser(userId: number): Promise<Notification[]> {
+    return Array.from(this.notifications.values()).filter(notification => notification.userId === userId);
+  }
+
+  async markNotificationsRead(userId: number, readAt: Date): Promise<number> {
+    let count = 0;
+    for (const notification of await this.listNotificationsByUser(userId)) {
+      if (notification.readAt) continue;
+      this.notifications.set(notification.id, { ...notification, readAt });
+      count++;
+    }
+    return count;
+  }
+}
+
+function createStorage(): IStorage {
+  if (config.storageDriver === "postgres") {
+    if (!config.databaseUrl) {
+      throw new Error("STORAGE_DRIVER is postgres but DATABASE_URL is not set");
+    }
+    return new DbStorage(createDb(config.databaseUrl));
+  }
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+const baseStorage = createStorage();
+
+// Audit log of the changes made through the application's storage
+export const auditLog = new AuditLog(baseStorage);
+
+export const storage = withAuditTrail(baseStorage, auditLog);
+
+// Prepare the selected backend before the server starts accepting requests
+export async function initializeStorage(): Promise<void> {
+  if (storage instanceof DbStorage) {
+    await storage.initialize();
+  }
+}
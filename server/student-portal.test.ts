@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { Absence, Student } from "@shared/schema";
+import { MemStorage } from "./storage";
+import { convertedLateness, unexcusedAbsences } from "./student-portal";
+
+describe("convertedLateness", () => {
+  let storage: MemStorage;
+  let student: Student;
+  let moduleElementId: number;
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    const department = await storage.createDepartment({ name: "Informatique" });
+    const course = await storage.createCourse({
+      name: "Génie informatique",
+      code: "GI",
+      departmentId: department.id,
+      latesPerAbsence: 3,
+      lateAbsentAfterMinutes: 15,
+    });
+    const module = await storage.createModule({ name: "Algorithmique", code: "M1", courseId: course.id });
+    moduleElementId = (await storage.createModuleElement({ name: "Tris", code: "E1", moduleId: module.id, type: "course" })).id;
+    student = await storage.createStudent({
+      studentId: "S1", firstName: "Amine", lastName: "Benali", email: "amine@example.com", courseId: course.id,
+    });
+  });
+
+  // One attendance row in a session of its own on the given day of October 2026
+  async function record(day: number, status: Absence["status"], minutes: number | null = null): Promise<Absence> {
+    const date = new Date(`2026-10-${day.toString().padStart(2, "0")}T08:00:00Z`);
+    const session = await storage.createSession({ date, type: "course", moduleElementId, teacherId: 2 });
+    return storage.createAbsence({ sessionId: session.id, studentId: student.id, status, minutes });
+  }
+
+  it("counts every third late arrival, in the order they happened", async () => {
+    const third = await record(14, "late", 5);
+    await record(12, "late", 5);
+    await record(13, "leftEarly", 10);
+    await record(15, "late", 5);
+
+    expect(await convertedLateness(storage, await storage.listAbsences())).toEqual([third]);
+  });
+
+  it("counts a late arrival past the minutes allowed on its own, without it counting toward the others", async () => {
+    await record(12, "late", 5);
+    const long = await record(13, "late", 20);
+    await record(14, "late", 5);
+
+    expect(await convertedLateness(storage, await storage.listAbsences())).toEqual([long]);
+  });
+
+  it("leaves late arrivals alone when the course has no rule", async () => {
+    await storage.updateCourse(student.courseId, { latesPerAbsence: null, lateAbsentAfterMinutes: null });
+    await record(12, "late", 30);
+
+    expect(await convertedLateness(storage, await storage.listAbsences())).toEqual([]);
+  });
+
+  it("adds the converted late arrivals to the unexcused absences", async () => {
+    const absent = await record(12, "absent");
+    await record(13, "justified");
+    await record(14, "present");
+    const long = await record(15, "late", 40);
+
+    expect(await unexcusedAbsences(storage, await storage.listAbsences())).toEqual([absent, long]);
+  });
+});
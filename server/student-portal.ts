@@ -0,0 +1,190 @@
+import type {
+  User,
+  InsertUser,
+  Student,
+  StudentGroup,
+  Course,
+  Absence,
+  Semester,
+  Session,
+  AbsenceAlert,
+  ThresholdUnit,
+} from "@shared/schema";
+import { roundHours, sessionHours } from "@shared/session-hours";
+import { convertLateness, isLateness } from "@shared/lateness";
+import type { IStorage } from "./storage";
+import { ForbiddenError, ValidationError } from "./integrity";
+import { listAbsencesInSemester } from "./periods";
+
+// Absence statuses that count toward the course threshold: neither excused nor marked present
+export const UNEXCUSED_STATUSES: Absence["status"][] = ["absent", "unjustified"];
+
+// Late arrivals and early departures that count as unjustified absences under the rule of each student's
+// course. The absences may be of several students; each student's are converted on their own.
+export async function convertedLateness(storage: IStorage, absences: Absence[]): Promise<Absence[]> {
+  const byStudent = new Map<number, Array<Absence & { date: Date }>>();
+  for (const absence of absences.filter(record => isLateness(record.status))) {
+    const session = await storage.getSession(absence.sessionId);
+    if (!session) continue;
+    byStudent.set(absence.studentId, [...(byStudent.get(absence.studentId) ?? []), { ...absence, date: session.date }]);
+  }
+
+  const converted: Absence[] = [];
+  for (const [studentId, lateness] of Array.from(byStudent.entries())) {
+    const student = await storage.getStudent(studentId);
+    const course = student && await storage.getCourse(student.courseId);
+    converted.push(...convertLateness(course, lateness).map(({ date, ...absence }) => absence));
+  }
+  return converted;
+}
+
+// Absences that count toward the course threshold, including the late arrivals counted as absences
+export async function unexcusedAbsences(storage: IStorage, absences: Absence[]): Promise<Absence[]> {
+  return [
+    ...absences.filter(absence => UNEXCUSED_STATUSES.includes(absence.status)),
+    ...await convertedLateness(storage, absences),
+  ];
+}
+
+// Student accounts are linked to their student record, and only student accounts are
+export function assertStudentLink(user: Pick<InsertUser, "role" | "studentId">): void {
+  if (user.role === "student" && user.studentId == null) {
+    throw new ValidationError("Student accounts must be linked to a student", "studentId");
+  }
+  if (user.role !== "student" && user.studentId != null) {
+    throw new ValidationError("Only student accounts can be linked to a student", "studentId");
+  }
+}
+
+export function isStudentAccount(user: User): boolean {
+  return user.role === "student";
+}
+
+export function assertOwnStudent(user: User, studentId: number): void {
+  if (user.studentId !== studentId) {
+    throw new ForbiddenError("Students can only access their own records");
+  }
+}
+
+export interface PortalModuleElement {
+  moduleElementId: number;
+  name: string;
+  code: string;
+  moduleName: string;
+  absent: number;
+  unjustified: number;
+  justified: number;
+  late: number;
+  leftEarly: number;
+  // Hours of the sessions missed, excused or not, counting the late arrivals the course turns into absences
+  hours: number;
+}
+
+export type PortalAbsence = Absence & Pick<Session, "date" | "endsAt" | "type" | "moduleElementId"> & {
+  hours: number;
+  // A late arrival or early departure the course counts as an unjustified absence
+  countedAsAbsence: boolean;
+};
+
+export interface StudentPortal {
+  student: Student;
+  course: Course | null;
+  groups: StudentGroup[];
+  semester: Semester | null;
+  // Unexcused absences allowed by the course before action is taken, as a number of absences or of hours
+  threshold: number | null;
+  thresholdUnit: ThresholdUnit;
+  unexcusedCount: number;
+  unexcusedHours: number;
+  exceeded: boolean;
+  moduleElements: PortalModuleElement[];
+  // Absences of the period, newest first; attendance marked present is left out
+  absences: PortalAbsence[];
+  // Escalation levels the student is currently above, unless staff dismissed the alert
+  alerts: AbsenceAlert[];
+}
+
+export async function buildStudentPortal(
+  storage: IStorage,
+  student: Student,
+  semester?: Semester
+): Promise<StudentPortal> {
+  const course = await storage.getCourse(student.courseId);
+  const groups: StudentGroup[] = [];
+  for (const group of await storage.listStudentGroupsByCourse(student.courseId)) {
+    const assignments = await storage.listStudentGroupAssignments(group.id);
+    if (assignments.some(assignment => assignment.studentId === student.id)) groups.push(group);
+  }
+
+  const studentAbsences = await storage.listAbsencesByStudent(student.id);
+  const records = semester ? await listAbsencesInSemester(storage, semester, studentAbsences) : studentAbsences;
+  const converted = new Set((await convertedLateness(storage, records)).map(absence => absence.id));
+  const absences: PortalAbsence[] = [];
+  for (const absence of records.filter(record => record.status !== "present")) {
+    const session = await storage.getSession(absence.sessionId);
+    if (session) {
+      absences.push({
+        ...absence,
+        date: session.date,
+        endsAt: session.endsAt,
+        type: session.type,
+        moduleElementId: session.moduleElementId,
+        hours: sessionHours(session),
+        countedAsAbsence: converted.has(absence.id),
+      });
+    }
+  }
+  absences.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+  const moduleElements = new Map<number, PortalModuleElement>();
+  for (const absence of absences) {
+    let entry = moduleElements.get(absence.moduleElementId);
+    if (!entry) {
+      const moduleElement = await storage.getModuleElement(absence.moduleElementId);
+      const module = moduleElement && await storage.getModule(moduleElement.moduleId);
+      entry = {
+        moduleElementId: absence.moduleElementId,
+        name: moduleElement?.name ?? "",
+        code: moduleElement?.code ?? "",
+        moduleName: module?.name ?? "",
+        absent: 0,
+        unjustified: 0,
+        justified: 0,
+        late: 0,
+        leftEarly: 0,
+        hours: 0,
+      };
+      moduleElements.set(absence.moduleElementId, entry);
+    }
+    if (!isLateness(absence.status) || absence.countedAsAbsence) {
+      entry.hours = roundHours(entry.hours + absence.hours);
+    }
+    if (absence.status !== "present") {
+      entry[absence.status]++;
+    }
+  }
+
+  const alerts = (await storage.listAbsenceAlertsByStudent(student.id))
+    .filter(alert => alert.clearedAt === null && alert.status !== "dismissed");
+
+  const threshold = course?.absenceThreshold ?? null;
+  const thresholdUnit = course?.thresholdUnit ?? "count";
+  const unexcused = absences.filter(absence => UNEXCUSED_STATUSES.includes(absence.status) || absence.countedAsAbsence);
+  const unexcusedCount = unexcused.length;
+  const unexcusedHours = roundHours(unexcused.reduce((hours, absence) => hours + absence.hours, 0));
+  const measure = thresholdUnit === "hours" ? unexcusedHours : unexcusedCount;
+  return {
+    student,
+    course: course ?? null,
+    groups,
+    semester: semester ?? null,
+    threshold,
+    thresholdUnit,
+    unexcusedCount,
+    unexcusedHours,
+    exceeded: threshold !== null && measure > threshold,
+    moduleElements: Array.from(moduleElements.values()),
+    absences,
+    alerts,
+  };
+}
@@ -0,0 +1,20 @@
+import { createRequire } from "module";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+import type { Database } from "./db";
+
+const require = createRequire(import.meta.url);
+// The test runner can't load the ESM build of drizzle-kit's API, only its CommonJS one
+const { generateDrizzleJson, generateMigration }: typeof import("drizzle-kit/api") = require("drizzle-kit/api");
+
+// Fresh PostgreSQL database, running in process, with the tables db:push creates from shared/schema.ts
+export async function createTestDb(): Promise<{ db: Database; close: () => Promise<void> }> {
+  const client = new PGlite();
+  for (const statement of await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema))) {
+    await client.exec(statement);
+  }
+  // Same query builder as the node-postgres one the server uses, over another driver
+  const db = drizzle(client, { schema }) as unknown as Database;
+  return { db, close: () => client.close() };
+}
@@ -0,0 +1,158 @@
+import {
+  ESCALATION_LEVELS,
+  type Course,
+  type Student,
+  type Semester,
+  type User,
+  type AbsenceAlert,
+  type ThresholdLevelsPayload,
+  type ThresholdUnit,
+} from "@shared/schema";
+import type { LatenessRule } from "@shared/lateness";
+import type { IStorage } from "./storage";
+import { ValidationError } from "./integrity";
+import { getActivePeriod, listAbsencesInSemester } from "./periods";
+import { unexcusedAbsences } from "./student-portal";
+import { notifyAbsenceAlert } from "./notifications";
+import { absenceHours } from "./absence-totals";
+
+export type EscalationLevel = ThresholdLevelsPayload["levels"][number];
+
+// Escalation levels of a course, mildest first. A course that was never given levels keeps its single
+// absence threshold as a warning.
+export async function escalationLevels(storage: IStorage, course: Course): Promise<EscalationLevel[]> {
+  const levels = await storage.listThresholdLevels(course.id);
+  if (levels.length === 0) {
+    return course.absenceThreshold == null ? [] : [{ level: "warning", threshold: course.absenceThreshold }];
+  }
+  return levels
+    .map(({ level, threshold }) => ({ level, threshold }))
+    .sort((a, b) => ESCALATION_LEVELS.indexOf(a.level) - ESCALATION_LEVELS.indexOf(b.level));
+}
+
+// Replace the levels of a course, the unit they are measured in and the rule turning late arrivals into
+// absences. The course threshold follows the first level, so the reports and the portals flag students from
+// the first escalation on.
+export async function setEscalationLevels(
+  storage: IStorage,
+  course: Course,
+  levels: EscalationLevel[],
+  { unit, latesPerAbsence, lateAbsentAfterMinutes }: LatenessRule & { unit: ThresholdUnit }
+): Promise<EscalationLevel[]> {
+  await storage.replaceThresholdLevels(course.id, levels);
+  const updated = await storage.updateCourse(course.id, {
+    absenceThreshold: levels.length === 0 ? null : Math.min(...levels.map(level => level.threshold)),
+    thresholdUnit: unit,
+    latesPerAbsence,
+    lateAbsentAfterMinutes,
+  });
+  await evaluateThresholds(storage, (await storage.listStudentsByCourse(course.id)).map(student => student.id));
+  return escalationLevels(storage, updated ?? course);
+}
+
+// Alert of a level the student is still above; alerts are cleared once the student falls back under
+function isCurrent(alert: AbsenceAlert): boolean {
+  return alert.clearedAt === null;
+}
+
+async function clearAlert(storage: IStorage, alert: AbsenceAlert, now: Date): Promise<void> {
+  // Nobody has to act on an open alert any more once the absences were excused
+  await storage.updateAbsenceAlert(alert.id, alert.status === "open"
+    ? { clearedAt: now, status: "resolved", closedAt: now }
+    : { clearedAt: now });
+}
+
+async function evaluateStudent(storage: IStorage, student: Student, semester: Semester | null): Promise<AbsenceAlert[]> {
+  const course = await storage.getCourse(student.courseId);
+  const levels = course ? await escalationLevels(storage, course) : [];
+  const unit = course?.thresholdUnit ?? "count";
+
+  const studentAbsences = await storage.listAbsencesByStudent(student.id);
+  const absences = semester ? await listAbsencesInSemester(storage, semester, studentAbsences) : studentAbsences;
+  const unexcused = await unexcusedAbsences(storage, absences);
+  const unexcusedCount = unexcused.length;
+  const unexcusedHours = await absenceHours(storage, unexcused);
+  const measure = unit === "hours" ? unexcusedHours : unexcusedCount;
+
+  const now = new Date();
+  const current = (await storage.listAbsenceAlertsByStudent(student.id)).filter(isCurrent);
+  const raised: AbsenceAlert[] = [];
+  for (const { level, threshold } of levels) {
+    const alert = current.find(candidate =>
+      candidate.courseId === student.courseId && candidate.level === level && candidate.unit === unit
+    );
+    if (measure > threshold && !alert) {
+      const raisedAlert = await storage.createAbsenceAlert({
+        studentId: student.id,
+        courseId: student.courseId,
+        semesterId: semester?.id ?? null,
+        level,
+        unit,
+        threshold,
+        unexcusedCount,
+        unexcusedHours,
+        status: "open",
+        raisedAt: now,
+      });
+      await notifyAbsenceAlert(storage, raisedAlert);
+      raised.push(raisedAlert);
+    } else if (measure <= threshold && alert) {
+      await clearAlert(storage, alert, now);
+    }
+  }
+  // Alerts of a level the course dropped or measured in another unit, or of the student's former course
+  for (const alert of current) {
+    if (
+      alert.courseId !== student.courseId ||
+      alert.unit !== unit ||
+      !levels.some(({ level }) => level === alert.level)
+    ) {
+      await clearAlert(storage, alert, now);
+    }
+  }
+  return raised;
+}
+
+// Compare the unexcused absences of the active semester with the escalation levels of each student's
+// course, raising an alert for each level newly exceeded. Called whenever absences are recorded or change.
+export async function evaluateThresholds(storage: IStorage, studentIds: number[]): Promise<AbsenceAlert[]> {
+  const { semester } = await getActivePeriod(storage);
+  const raised: AbsenceAlert[] = [];
+  for (const studentId of Array.from(new Set(studentIds))) {
+    const student = await storage.getStudent(studentId);
+    if (student) raised.push(...await evaluateStudent(storage, student, semester));
+  }
+  return raised;
+}
+
+export async function closeAbsenceAlert(
+  storage: IStorage,
+  user: User,
+  alert: AbsenceAlert,
+  status: "dismissed" | "resolved",
+  note?: string
+): Promise<AbsenceAlert> {
+  if (alert.status !== "open") {
+    throw new ValidationError("This alert has already been closed", "status");
+  }
+  const closed = await storage.updateAbsenceAlert(alert.id, {
+    status,
+    closedById: user.id,
+    closedAt: new Date(),
+    closingNote: note || null,
+  });
+  return closed ?? alert;
+}
+
+// Alert with the names its reader needs, who may not be allowed to look up the student or the course
+export type AbsenceAlertDetails = AbsenceAlert & { studentName: string; courseName: string };
+
+export async function absenceAlertDetails(storage: IStorage, alert: AbsenceAlert): Promise<AbsenceAlertDetails> {
+  const student = await storage.getStudent(alert.studentId);
+  const course = await storage.getCourse(alert.courseId);
+  return {
+    ...alert,
+    studentName: student ? `${student.lastName} ${student.firstName}` : "",
+    courseName: course?.name ?? "",
+  };
+}
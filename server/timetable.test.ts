@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Student, TimetableSlot } from "@shared/schema";
+import { MemStorage } from "./storage";
+import { listMissingAttendance } from "./attendance-reminders";
+import { createTimetableSlot, deleteTimetableSlot, updateTimetableSlot } from "./timetable";
+
+describe("timetable slots", () => {
+  let storage: MemStorage;
+  let student: Student;
+  let slot: TimetableSlot;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    // Wednesday October 14th 2026, at noon in the server's time zone
+    vi.setSystemTime(new Date(2026, 9, 14, 12));
+
+    storage = new MemStorage();
+    const year = await storage.createAcademicYear({ name: "2026-2027", startDate: "2026-09-01", endDate: "2027-07-31" });
+    const semester = await storage.createSemester({
+      name: "S1", academicYearId: year.id, startDate: "2026-09-01", endDate: "2026-12-31",
+    });
+    const department = await storage.createDepartment({ name: "Informatique" });
+    const course = await storage.createCourse({ name: "Génie informatique", code: "GI", departmentId: department.id });
+    const module = await storage.createModule({ name: "Algorithmique", code: "M1", courseId: course.id });
+    const element = await storage.createModuleElement({ name: "Tris", code: "E1", moduleId: module.id, type: "course" });
+    await storage.assignTeacherToModuleElement({ teacherId: 2, moduleElementId: element.id });
+    const group = await storage.createStudentGroup({ name: "G1", type: "TD", courseId: course.id, semesterId: semester.id });
+    student = await storage.createStudent({
+      studentId: "S1", firstName: "Amine", lastName: "Benali", email: "amine@example.com", courseId: course.id,
+    });
+    await storage.assignStudentToGroup({ studentId: student.id, groupId: group.id });
+
+    ({ slot } = await createTimetableSlot(storage, {
+      semesterId: semester.id,
+      moduleElementId: element.id,
+      teacherId: 2,
+      groupId: group.id,
+      type: "TD",
+      weekday: 3,
+      startTime: "08:00",
+      endTime: "10:00",
+    }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function plannedOn(day: number) {
+    return (await storage.listSessionsBySlot(slot.id)).find(session => session.date.getDate() === day && session.date.getMonth() === 9)!;
+  }
+
+  it("keeps sessions whose attendance was entered row by row when the slot changes", async () => {
+    const session = await plannedOn(21);
+    const absence = await storage.createAbsence({ sessionId: session.id, studentId: student.id, status: "absent" });
+
+    await updateTimetableSlot(storage, slot, { startTime: "08:30" });
+
+    expect(await storage.getAbsence(absence.id)).toEqual(absence);
+    expect(await storage.getSession(session.id)).toMatchObject({ id: session.id, attendanceRecordedAt: expect.any(Date) });
+  });
+
+  it("keeps the sessions that have started, without attendance, when the slot changes", async () => {
+    const [held, today, coming] = [await plannedOn(14), await plannedOn(21), await plannedOn(28)];
+    vi.setSystemTime(new Date(2026, 9, 21, 12));
+
+    await updateTimetableSlot(storage, slot, { startTime: "08:30" });
+
+    expect(await storage.getSession(held.id)).toEqual(held);
+    expect(await storage.getSession(today.id)).toEqual(today);
+    expect(await storage.getSession(coming.id)).toBeUndefined();
+    expect((await plannedOn(28)).date).toEqual(new Date(2026, 9, 28, 8, 30));
+  });
+
+  it("keeps the sessions that have started, without attendance, when the slot is deleted", async () => {
+    const [held, today, coming] = [await plannedOn(14), await plannedOn(21), await plannedOn(28)];
+    vi.setSystemTime(new Date(2026, 9, 21, 12));
+
+    await deleteTimetableSlot(storage, slot);
+
+    expect(await storage.getSession(held.id)).toEqual({ ...held, slotId: null });
+    expect(await storage.getSession(today.id)).toEqual({ ...today, slotId: null });
+    expect(await storage.getSession(coming.id)).toBeUndefined();
+    expect(listMissingAttendance(await storage.listSessionsByTeacher(2)).map(session => session.id)).toEqual([held.id, today.id]);
+  });
+});
@@ -0,0 +1,129 @@
+import type { InsertSession, InsertTimetableSlot, Session, TimetableSlot } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { ValidationError } from "./integrity";
+import { getSessionRoster } from "./attendance";
+import { assertSlotBookings, capacityWarnings, type CapacityWarning } from "./scheduling";
+
+// Days are handled as "YYYY-MM-DD" strings, like the dates of semesters
+function nextDay(day: string): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().slice(0, 10);
+}
+
+// 1 for Monday to 7 for Sunday
+function weekday(day: string): number {
+  return new Date(`${day}T00:00:00Z`).getUTCDay() || 7;
+}
+
+// Day of a session in the server's time zone, which planned sessions are created in
+function localDay(date: Date): string {
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// A slot is checked like a session would be: its group belongs to the course of its module element, its
+// teacher is assigned to that module element so they can record the attendance of the sessions planned from it,
+// and its room, teacher and group are free at that time
+async function assertSlot(storage: IStorage, slot: InsertTimetableSlot, slotId?: number): Promise<void> {
+  if (slot.startTime >= slot.endTime) {
+    throw new ValidationError("The slot must end after it starts", "endTime");
+  }
+  await getSessionRoster(storage, slot);
+  const assignments = await storage.listTeacherModuleElements(slot.teacherId);
+  if (!assignments.some(assignment => assignment.moduleElementId === slot.moduleElementId)) {
+    throw new ValidationError("The teacher is not assigned to this module element", "teacherId");
+  }
+  await assertSlotBookings(storage, slot, slotId);
+}
+
+// Plan one session a week on the slot's weekday, up to the end of its semester. Planning starts today, or on
+// the first day of the semester when it is still ahead: a timetable entered mid-semester doesn't leave behind
+// sessions nobody recorded. Days that already have a session of the slot are skipped.
+async function planSlot(storage: IStorage, slot: TimetableSlot): Promise<Session[]> {
+  const semester = await storage.getSemester(slot.semesterId);
+  if (!semester) return [];
+  const today = localDay(new Date());
+  const plannedDays = new Set((await storage.listSessionsBySlot(slot.id)).map(session => localDay(session.date)));
+
+  const sessions: InsertSession[] = [];
+  for (let day = today > semester.startDate ? today : semester.startDate; day <= semester.endDate; day = nextDay(day)) {
+    if (weekday(day) !== slot.weekday || plannedDays.has(day)) continue;
+    sessions.push({
+      date: new Date(`${day}T${slot.startTime}:00`),
+      endsAt: new Date(`${day}T${slot.endTime}:00`),
+      type: slot.type,
+      moduleElementId: slot.moduleElementId,
+      teacherId: slot.teacherId,
+      groupId: slot.groupId,
+      roomId: slot.roomId,
+      semesterId: slot.semesterId,
+      slotId: slot.id,
+    });
+  }
+  return storage.planSessions(sessions);
+}
+
+// Remove the coming sessions of a slot that have no attendance yet. Sessions that have started are kept, recorded
+// or not, so a missing attendance is still reported.
+async function unplanSlot(storage: IStorage, slot: TimetableSlot): Promise<void> {
+  const now = Date.now();
+  for (const session of await storage.listSessionsBySlot(slot.id)) {
+    if (session.date.getTime() <= now || session.attendanceRecordedAt !== null) continue;
+    await storage.deleteSession(session.id);
+  }
+}
+
+export interface PlannedSlot {
+  slot: TimetableSlot;
+  sessions: Session[];
+  warnings: CapacityWarning[];
+}
+
+export async function createTimetableSlot(storage: IStorage, slot: InsertTimetableSlot): Promise<PlannedSlot> {
+  await assertSlot(storage, slot);
+  const newSlot = await storage.createTimetableSlot(slot);
+  return {
+    slot: newSlot,
+    sessions: await planSlot(storage, newSlot),
+    warnings: await capacityWarnings(storage, newSlot),
+  };
+}
+
+// Change a slot and plan its coming sessions again. Sessions that have started, and those with attendance, are
+// left as they were.
+export async function updateTimetableSlot(
+  storage: IStorage,
+  slot: TimetableSlot,
+  changes: Partial<InsertTimetableSlot>
+): Promise<PlannedSlot> {
+  await assertSlot(storage, { ...slot, ...changes }, slot.id);
+  const updatedSlot = (await storage.updateTimetableSlot(slot.id, changes)) ?? slot;
+  const warnings = await capacityWarnings(storage, updatedSlot);
+  const replan = Object.entries(changes).some(([field, value]) => value !== slot[field as keyof TimetableSlot]);
+  if (!replan) {
+    return { slot: updatedSlot, sessions: [], warnings };
+  }
+  await unplanSlot(storage, slot);
+  return { slot: updatedSlot, sessions: await planSlot(storage, updatedSlot), warnings };
+}
+
+// Delete a slot with its coming sessions that have no attendance. Those that have started are kept, and no longer
+// linked to the slot.
+export async function deleteTimetableSlot(storage: IStorage, slot: TimetableSlot): Promise<boolean> {
+  await unplanSlot(storage, slot);
+  for (const session of await storage.listSessionsBySlot(slot.id)) {
+    await storage.updateSession(session.id, { slotId: null });
+  }
+  return storage.deleteTimetableSlot(slot.id);
+}
+
+// Sessions of a teacher whose attendance hasn't been recorded yet, earliest first
+export async function listPendingSessions(storage: IStorage, teacherId: number): Promise<Session[]> {
+  const pending: Session[] = [];
+  for (const session of await storage.listSessionsByTeacher(teacherId)) {
+    if (session.attendanceRecordedAt !== null) continue;
+    pending.push(session);
+  }
+  return pending.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
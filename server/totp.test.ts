@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MemStorage } from "./storage";
+import { currentTotpStep, verifyTotp } from "./totp";
+import { generateRecoveryCodes, verifySecondFactor } from "./two-factor";
+
+// Seed of the RFC 6238 test vectors, "12345678901234567890" in base32. The expected codes are the last six
+// digits of the RFC's eight-digit SHA-1 codes.
+const SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+function at(seconds: number): void {
+  vi.setSystemTime(seconds * 1000);
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("verifyTotp", () => {
+  it("accepts the code of the current step and returns the step", () => {
+    at(59);
+    expect(verifyTotp(SECRET, "287082")).toBe(1);
+    at(1111111109);
+    expect(verifyTotp(SECRET, "081804")).toBe(currentTotpStep());
+    at(2000000000);
+    expect(verifyTotp(SECRET, "279037")).toBe(currentTotpStep());
+  });
+
+  it("allows one step of clock drift either way, and no more", () => {
+    const step = Math.floor(1111111109 / 30);
+    at(1111111109 + 30);
+    expect(verifyTotp(SECRET, "081804")).toBe(step);
+    at(1111111109 - 30);
+    expect(verifyTotp(SECRET, "081804")).toBe(step);
+    at(1111111109 + 60);
+    expect(verifyTotp(SECRET, "081804")).toBeNull();
+  });
+
+  it("refuses a code whose step was already used", () => {
+    at(59);
+    expect(verifyTotp(SECRET, "287082", 0)).toBe(1);
+    expect(verifyTotp(SECRET, "287082", 1)).toBeNull();
+  });
+
+  it("ignores spaces but rejects codes of the wrong shape", () => {
+    at(59);
+    expect(verifyTotp(SECRET, "287 082")).toBe(1);
+    expect(verifyTotp(SECRET, "28708")).toBeNull();
+    expect(verifyTotp(SECRET, "2870822")).toBeNull();
+    expect(verifyTotp(SECRET, "28708a")).toBeNull();
+  });
+});
+
+describe("verifySecondFactor", () => {
+  let storage: MemStorage;
+
+  beforeEach(() => {
+    storage = new MemStorage();
+  });
+
+  async function enrolledUser(recoveryCodeHashes: string[] = []) {
+    return storage.createUser({
+      username: "enseignant",
+      password: "secret",
+      fullName: "Enseignant",
+      email: "enseignant@example.com",
+      role: "teacher",
+      totpSecret: SECRET,
+      totpRecoveryCodes: recoveryCodeHashes,
+    });
+  }
+
+  it("accepts a code once and refuses it when replayed", async () => {
+    at(59);
+    const user = await enrolledUser();
+
+    expect(await verifySecondFactor(storage, user, { code: "287082" })).toBe(true);
+    const updated = (await storage.getUser(user.id))!;
+    expect(updated.totpLastUsedStep).toBe(1);
+    expect(await verifySecondFactor(storage, updated, { code: "287082" })).toBe(false);
+  });
+
+  it("uses up a recovery code", async () => {
+    const { codes, hashes } = generateRecoveryCodes();
+    const user = await enrolledUser(hashes);
+
+    expect(await verifySecondFactor(storage, user, { recoveryCode: codes[0] })).toBe(true);
+    const updated = (await storage.getUser(user.id))!;
+    expect(updated.totpRecoveryCodes).toHaveLength(hashes.length - 1);
+    expect(await verifySecondFactor(storage, updated, { recoveryCode: codes[0] })).toBe(false);
+    expect(await verifySecondFactor(storage, updated, { recoveryCode: codes[1] })).toBe(true);
+  });
+
+  it("refuses every code for a user who hasn't enrolled", async () => {
+    at(59);
+    const user = await storage.createUser({
+      username: "sans2fa", password: "secret", fullName: "Sans 2FA", email: "sans2fa@example.com", role: "teacher",
+    });
+
+    expect(await verifySecondFactor(storage, user, { code: "287082" })).toBe(false);
+  });
+});
@@ -0,0 +1,122 @@
+import { createHash, randomBytes } from "crypto";
+import QRCode from "qrcode";
+import type { User } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { ValidationError } from "./integrity";
+import { generateTotpSecret, totpProvisioningUri, verifyTotp } from "./totp";
+
+declare module "express-session" {
+  interface SessionData {
+    // Set once the password has been checked, until the second factor is verified
+    pendingTwoFactor?: { userId: number; expiresAt: number };
+    // Secret shown during enrollment, saved on the user only once a code generated from it is confirmed
+    pendingTotpSecret?: string;
+  }
+}
+
+// Settings key holding the JSON list of roles that must enroll in two-factor authentication
+export const TWO_FACTOR_POLICY_KEY = "twoFactorRequiredRoles";
+// Roles the policy can make two-factor authentication mandatory for
+export const TWO_FACTOR_ROLES = ["admin", "departmentHead"] as const;
+
+const ISSUER = "SuiviScolaire";
+const RECOVERY_CODE_COUNT = 10;
+// Time allowed between the password step and the code step of a login
+export const PENDING_LOGIN_TTL_MS = 5 * 60 * 1000;
+
+export interface TwoFactorPolicy {
+  requiredRoles: string[];
+}
+
+export async function getTwoFactorPolicy(storage: IStorage): Promise<TwoFactorPolicy> {
+  const value = await storage.getSetting(TWO_FACTOR_POLICY_KEY);
+  return { requiredRoles: value ? JSON.parse(value) : [] };
+}
+
+export async function setTwoFactorPolicy(storage: IStorage, requiredRoles: string[]): Promise<TwoFactorPolicy> {
+  const unknownRole = requiredRoles.find(role => !(TWO_FACTOR_ROLES as readonly string[]).includes(role));
+  if (unknownRole) {
+    throw new ValidationError(`Two-factor authentication can't be required for role "${unknownRole}"`, "requiredRoles");
+  }
+  await storage.setSetting(TWO_FACTOR_POLICY_KEY, JSON.stringify(Array.from(new Set(requiredRoles))));
+  return getTwoFactorPolicy(storage);
+}
+
+export async function isTwoFactorRequired(storage: IStorage, user: User): Promise<boolean> {
+  const { requiredRoles } = await getTwoFactorPolicy(storage);
+  return requiredRoles.includes(user.role);
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(code.replace(/\s/g, "").toLowerCase()).digest("hex");
+}
+
+// Single-use codes for when the authenticator is lost. Only their hashes are stored, so the plaintext
+// codes are shown to the user once.
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+  qrCode: string;
+}
+
+export async function createTwoFactorSetup(user: User): Promise<TwoFactorSetup> {
+  const secret = generateTotpSecret();
+  const otpauthUri = totpProvisioningUri(secret, user.username, ISSUER);
+  return { secret, otpauthUri, qrCode: await QRCode.toDataURL(otpauthUri) };
+}
+
+// Save the secret once the user has proved their authenticator produces matching codes
+export async function enableTwoFactor(storage: IStorage, user: User, secret: string, code: string): Promise<string[]> {
+  const step = verifyTotp(secret, code);
+  if (step === null) {
+    throw new ValidationError("The verification code is invalid", "code");
+  }
+  const { codes, hashes } = generateRecoveryCodes();
+  await storage.updateUser(user.id, { totpSecret: secret, totpRecoveryCodes: hashes, totpLastUsedStep: step });
+  return codes;
+}
+
+export async function regenerateRecoveryCodes(storage: IStorage, user: User): Promise<string[]> {
+  const { codes, hashes } = generateRecoveryCodes();
+  await storage.updateUser(user.id, { totpRecoveryCodes: hashes });
+  return codes;
+}
+
+export async function disableTwoFactor(storage: IStorage, userId: number): Promise<User | undefined> {
+  return storage.updateUser(userId, { totpSecret: null, totpRecoveryCodes: null, totpLastUsedStep: null });
+}
+
+// Check a code from the authenticator app or a recovery code. Accepted codes are used up: the TOTP step
+// is remembered so the same code can't be replayed, and the recovery code is removed.
+export async function verifySecondFactor(
+  storage: IStorage,
+  user: User,
+  factor: { code?: string; recoveryCode?: string }
+): Promise<boolean> {
+  if (!user.totpSecret) return false;
+
+  if (factor.code) {
+    const step = verifyTotp(user.totpSecret, factor.code, user.totpLastUsedStep);
+    if (step === null) return false;
+    await storage.updateUser(user.id, { totpLastUsedStep: step });
+    return true;
+  }
+
+  if (factor.recoveryCode) {
+    const hash = hashRecoveryCode(factor.recoveryCode);
+    const remaining = user.totpRecoveryCodes ?? [];
+    if (!remaining.includes(hash)) return false;
+    await storage.updateUser(user.id, { totpRecoveryCodes: remaining.filter(existing => existing !== hash) });
+    return true;
+  }
+
+  return false;
+}
@@ -0,0 +1,118 @@
+import type { Request } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import type { UserSession } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { config } from "./config";
+import { FileSessionStore } from "./file-session-store";
+
+declare module "express-session" {
+  interface SessionData {
+    // When the session's activity was last recorded, to limit writes to one a minute
+    lastSeenAt?: number;
+  }
+}
+
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+export function sessionMaxAgeMs(): number {
+  return config.session.maxAgeHours * 60 * 60 * 1000;
+}
+
+export function createSessionStore(): session.Store {
+  if (config.session.store === "postgres") {
+    if (!config.databaseUrl) {
+      throw new Error("SESSION_STORE is postgres but DATABASE_URL is not set");
+    }
+    const PgStore = connectPgSimple(session);
+    return new PgStore({ conString: config.databaseUrl, tableName: "http_sessions" });
+  }
+  return new FileSessionStore(config.session.dir, sessionMaxAgeMs());
+}
+
+export interface PublicUserSession {
+  id: number;
+  userId: number;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  // The session the request was made with
+  current: boolean;
+}
+
+// Session as returned by the API: the session id stays on the server, since it identifies the cookie
+export function toPublicUserSession(userSession: UserSession, currentSid?: string): PublicUserSession {
+  const { sid, ...publicSession } = userSession;
+  return { ...publicSession, current: sid === currentSid };
+}
+
+// Keeps track of who is logged in where, next to the session store, so users can review their sessions
+// and revoke them. The store itself can't be searched by user, so each logged-in session is recorded in
+// storage with its device and last activity.
+export class SessionRegistry {
+  constructor(private storage: IStorage, private store: session.Store) {}
+
+  // Record the session of an authenticated request; `force` bypasses the once-a-minute limit, on login
+  async track(req: Request, ipAddress: string, force = false): Promise<void> {
+    if (!req.isAuthenticated() || !req.user) return;
+    const now = Date.now();
+    if (!force && req.session.lastSeenAt && now - req.session.lastSeenAt < TOUCH_INTERVAL_MS) return;
+
+    req.session.lastSeenAt = now;
+    await this.storage.saveUserSession({
+      sid: req.sessionID,
+      userId: (req.user as any).id,
+      userAgent: req.get("user-agent") ?? null,
+      ipAddress,
+      createdAt: new Date(now),
+      lastSeenAt: new Date(now),
+    });
+  }
+
+  // Sessions still alive, optionally for one user. Records of sessions that expired are dropped.
+  async listActive(userId?: number): Promise<UserSession[]> {
+    const userSessions = userId === undefined
+      ? await this.storage.listUserSessions()
+      : await this.storage.listUserSessionsByUser(userId);
+    const cutoff = Date.now() - sessionMaxAgeMs();
+    const active: UserSession[] = [];
+    for (const userSession of userSessions) {
+      if (userSession.lastSeenAt.getTime() < cutoff) {
+        await this.storage.deleteUserSession(userSession.id);
+      } else {
+        active.push(userSession);
+      }
+    }
+    return active.sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime());
+  }
+
+  async revoke(userSession: UserSession): Promise<void> {
+    await this.destroy(userSession.sid);
+    await this.storage.deleteUserSession(userSession.id);
+  }
+
+  // Log the user out everywhere, except from the session `exceptSid` when given
+  async revokeAll(userId: number, exceptSid?: string): Promise<number> {
+    const userSessions = await this.storage.listUserSessionsByUser(userId);
+    const revoked = userSessions.filter(userSession => userSession.sid !== exceptSid);
+    for (const userSession of revoked) {
+      await this.revoke(userSession);
+    }
+    return revoked.length;
+  }
+
+  // Drop the record of a session ended by logging out
+  async forget(sid: string): Promise<void> {
+    const userSession = await this.storage.getUserSessionBySid(sid);
+    if (userSession) {
+      await this.storage.deleteUserSession(userSession.id);
+    }
+  }
+
+  private destroy(sid: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.store.destroy(sid, error => (error ? reject(error) : resolve()));
+    });
+  }
+}
@@ -0,0 +1,42 @@
+// Late arrivals and early departures, and the rule each course uses to turn them into unjustified absences.
+// Shared by the API, which counts them toward the thresholds, and the client, which charts them.
+
+export const LATENESS_STATUSES = ["late", "leftEarly"] as const;
+
+export interface LatenessRule {
+  // Every this many late arrivals or early departures count as one unjustified absence
+  latesPerAbsence: number | null;
+  // A late arrival or early departure of more than this many minutes counts as an unjustified absence
+  lateAbsentAfterMinutes: number | null;
+}
+
+export interface LatenessRecord {
+  status: string;
+  minutes: number | null;
+  date: Date | string;
+}
+
+export function isLateness(status: string): boolean {
+  return (LATENESS_STATUSES as readonly string[]).includes(status);
+}
+
+// The late arrivals and early departures of one student that count as unjustified absences: those longer than
+// the rule allows, then every latesPerAbsence-th of the others in the order they happened
+export function convertLateness<T extends LatenessRecord>(rule: LatenessRule | null | undefined, records: T[]): T[] {
+  if (!rule) return [];
+  const lateness = records
+    .filter(record => isLateness(record.status))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const { latesPerAbsence, lateAbsentAfterMinutes } = rule;
+  const tooLong = (record: T) => lateAbsentAfterMinutes !== null && (record.minutes ?? 0) > lateAbsentAfterMinutes;
+
+  const converted = lateness.filter(tooLong);
+  if (latesPerAbsence !== null) {
+    lateness
+      .filter(record => !tooLong(record))
+      .forEach((record, index) => {
+        if ((index + 1) % latesPerAbsence === 0) converted.push(record);
+      });
+  }
+  return converted;
+}
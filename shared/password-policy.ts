@@ -0,0 +1,22 @@
+// Password rules shared by the API, which enforces them, and the client, which checks them as the user types
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireLowercase: boolean;
+  requireUppercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+}
+
+export type PasswordRule = "minLength" | "lowercase" | "uppercase" | "digit" | "symbol";
+
+// Rules of the policy the password does not satisfy, empty when it is acceptable
+export function passwordPolicyViolations(password: string, policy: PasswordPolicy): PasswordRule[] {
+  const violations: PasswordRule[] = [];
+  if (password.length < policy.minLength) violations.push("minLength");
+  if (policy.requireLowercase && !/[a-z]/.test(password)) violations.push("lowercase");
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) violations.push("uppercase");
+  if (policy.requireDigit && !/[0-9]/.test(password)) violations.push("digit");
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) violations.push("symbol");
+  return violations;
+}
@@ -0,0 +1,75 @@
+// Permissions shared by the API, which enforces them, and the client, which shows navigation and actions
+// accordingly. Each role is granted a set of permissions; administrators can change the mapping.
+
+export const PERMISSIONS = [
+  "users:manage",
+  "security:manage",
+  "structure:manage",
+  "students:manage",
+  "periods:manage",
+  "groups:manage",
+  "timetable:manage",
+  "sessions:edit:own",
+  "sessions:edit:any",
+  "reports:view",
+  "departments:all",
+  "alerts:manage",
+  "justifications:submit",
+  "justifications:review",
+  "audit:view",
+  "portal:view",
+  "wards:view",
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export const ROLES = ["admin", "departmentHead", "teacher", "student", "guardian"] as const;
+
+export type Role = typeof ROLES[number];
+
+export type RolePermissions = Record<Role, Permission[]>;
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  "users:manage": "Gérer les comptes utilisateurs",
+  "security:manage": "Configurer la sécurité et les permissions",
+  "structure:manage": "Gérer départements, filières et modules",
+  "students:manage": "Gérer les étudiants",
+  "periods:manage": "Gérer les périodes académiques",
+  "groups:manage": "Gérer les groupes d'étudiants",
+  "timetable:manage": "Gérer l'emploi du temps",
+  "sessions:edit:own": "Saisir ses séances et leurs absences",
+  "sessions:edit:any": "Modifier les séances des autres enseignants",
+  "reports:view": "Consulter les rapports d'absences",
+  "departments:all": "Accéder aux données de tous les départements",
+  "alerts:manage": "Configurer les seuils d'absences et traiter les alertes",
+  "justifications:submit": "Déposer des justificatifs d'absence",
+  "justifications:review": "Valider ou refuser les justificatifs",
+  "audit:view": "Consulter le journal des modifications",
+  "portal:view": "Consulter son espace étudiant",
+  "wards:view": "Consulter l'assiduité des étudiants dont on est le responsable",
+};
+
+// Mapping in effect until an administrator changes it, matching the access each role had before permissions
+export const DEFAULT_ROLE_PERMISSIONS: RolePermissions = {
+  admin: PERMISSIONS.filter(permission => permission !== "portal:view" && permission !== "wards:view"),
+  departmentHead: [
+    "groups:manage",
+    "timetable:manage",
+    "sessions:edit:own",
+    "sessions:edit:any",
+    "reports:view",
+    "alerts:manage",
+    "justifications:submit",
+    "justifications:review",
+  ],
+  teacher: ["sessions:edit:own", "departments:all", "justifications:submit"],
+  student: ["portal:view", "justifications:submit"],
+  guardian: ["wards:view"],
+};
+
+// Kept by administrators whatever the mapping says, so nobody can lock themselves out of the permission editor
+export const LOCKED_ADMIN_PERMISSIONS: Permission[] = ["security:manage"];
+
+export function isPermission(value: string): value is Permission {
+  return (PERMISSIONS as readonly string[]).includes(value);
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, primaryKey, uniqueIndex } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, real, boolean, timestamp, date, primaryKey, uniqueIndex, varchar, json, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -9,8 +9,22 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   fullName: text("full_name").notNull(),
   email: text("email").notNull().unique(),
-  role: text("role", { enum: ["admin", "departmentHead", "teacher"] }).notNull(),
+  role: text("role", { enum: ["admin", "departmentHead", "teacher", "student", "guardian"] }).notNull(),
   departmentId: integer("department_id"),
+  // Student record of a student account; other roles have none
+  studentId: integer("student_id").unique(),
+  // Set when an administrator chooses the password, so the user picks their own on first login
+  mustChangePassword: boolean("must_change_password").notNull().default(false),
+  // Consecutive failed logins; reaching the limit locks the account until lockedUntil
+  failedLoginAttempts: integer("failed_login_attempts").notNull().default(0),
+  lockedUntil: timestamp("locked_until"),
+  // TOTP two-factor authentication: the shared secret once enrollment is confirmed, SHA-256 hashes of the
+  // unused recovery codes, and the last accepted time step so a code can't be replayed
+  totpSecret: text("totp_secret"),
+  totpRecoveryCodes: text("totp_recovery_codes").array(),
+  totpLastUsedStep: integer("totp_last_used_step"),
+  // Mobile number for SMS notifications
+  phone: text("phone"),
 });
 
 // Department model
@@ -20,6 +34,9 @@ export const departments = pgTable("departments", {
   description: text("description"),
 });
 
+// What a course's absence thresholds are measured in: a number of absences, or the hours of sessions missed
+export const THRESHOLD_UNITS = ["count", "hours"] as const;
+
 // Course model (Filière)
 export const courses = pgTable("courses", {
   id: serial("id").primaryKey(),
@@ -28,6 +45,10 @@ export const courses = pgTable("courses", {
   description: text("description"),
   departmentId: integer("department_id").notNull(),
   absenceThreshold: integer("absence_threshold").default(3), // Default threshold for absences before action is taken
+  thresholdUnit: text("threshold_unit", { enum: THRESHOLD_UNITS }).notNull().default("count"),
+  // Conversion of late arrivals and early departures into unjustified absences, see shared/lateness.ts
+  latesPerAbsence: integer("lates_per_absence"),
+  lateAbsentAfterMinutes: integer("late_absent_after_minutes"),
 });
 
 // Module model
@@ -71,6 +92,7 @@ export const studentGroups = pgTable("student_groups", {
   name: text("name").notNull(),
   type: text("type", { enum: ["TD", "TP"] }).notNull(),
   courseId: integer("course_id").notNull(),
+  semesterId: integer("semester_id"),
 });
 
 // Student to Group relation
@@ -80,15 +102,57 @@ export const studentGroupAssignments = pgTable("student_group_assignments", {
   groupId: integer("group_id").notNull(),
 });
 
-// Session model (for attendance recording)
+// Kinds of rooms sessions take place in
+export const ROOM_TYPES = ["lectureHall", "classroom", "lab"] as const;
+
+// Room model, the place of sessions and timetable slots
+export const rooms = pgTable("rooms", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  building: text("building").notNull(),
+  capacity: integer("capacity").notNull(),
+  type: text("type", { enum: ROOM_TYPES }).notNull(),
+});
+
+// Session model (for attendance recording). Sessions planned from the timetable keep their slot.
 export const sessions = pgTable("sessions", {
   id: serial("id").primaryKey(),
+  // When the session starts and ends. Sessions recorded before end times were kept have none.
   date: timestamp("date").notNull(),
+  endsAt: timestamp("ends_at"),
   type: text("type", { enum: ["course", "TD", "TP"] }).notNull(),
   moduleElementId: integer("module_element_id").notNull(),
   teacherId: integer("teacher_id").notNull(),
   groupId: integer("group_id"),
+  roomId: integer("room_id"),
+  semesterId: integer("semester_id"),
+  slotId: integer("slot_id"),
   notes: text("notes"),
+  // When the attendance was taken; a planned session has none until then, even if it has no students
+  attendanceRecordedAt: timestamp("attendance_recorded_at"),
+});
+
+// Reminder sent about a planned session whose attendance wasn't recorded, one row per step of the escalation
+export const attendanceReminders = pgTable("attendance_reminders", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull(),
+  step: integer("step").notNull(),
+  sentAt: timestamp("sent_at").notNull(),
+});
+
+// Weekly class of the timetable, repeated over its semester. Weekdays run from 1 (Monday) to 7 (Sunday) and
+// times are "HH:MM".
+export const timetableSlots = pgTable("timetable_slots", {
+  id: serial("id").primaryKey(),
+  semesterId: integer("semester_id").notNull(),
+  moduleElementId: integer("module_element_id").notNull(),
+  teacherId: integer("teacher_id").notNull(),
+  groupId: integer("group_id"),
+  type: text("type", { enum: ["course", "TD", "TP"] }).notNull(),
+  weekday: integer("weekday").notNull(),
+  startTime: text("start_time").notNull(),
+  endTime: text("end_time").notNull(),
+  roomId: integer("room_id"),
 });
 
 // Absence model
@@ -96,10 +160,242 @@ export const absences = pgTable("absences", {
   id: serial("id").primaryKey(),
   sessionId: integer("session_id").notNull(),
   studentId: integer("student_id").notNull(),
-  status: text("status", { enum: ["present", "absent", "justified", "unjustified"] }).notNull(),
+  status: text("status", { enum: ["present", "absent", "justified", "unjustified", "late", "leftEarly"] }).notNull(),
+  // How late the student arrived, or how early they left
+  minutes: integer("minutes"),
   notes: text("notes"),
 });
 
+// Academic year model (e.g. 2025-2026)
+export const academicYears = pgTable("academic_years", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date").notNull(),
+});
+
+// Semester model, the period sessions and groups are scoped to
+export const semesters = pgTable("semesters", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  academicYearId: integer("academic_year_id").notNull(),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date").notNull(),
+});
+
+// Enrollment of a student in a course for one academic year
+export const enrollments = pgTable("enrollments", {
+  id: serial("id").primaryKey(),
+  studentId: integer("student_id").notNull(),
+  courseId: integer("course_id").notNull(),
+  academicYearId: integer("academic_year_id").notNull(),
+});
+
+// Application-wide settings stored as key/value pairs (e.g. the active semester)
+export const settings = pgTable("settings", {
+  key: text("key").primaryKey(),
+  value: text("value").notNull(),
+});
+
+// Single-use password reset token; only a SHA-256 hash of the token sent by email is stored
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+});
+
+// One-time sign-in links mailed to guardians, who log in without a password
+export const magicLinkTokens = pgTable("magic_link_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+});
+
+// Login sessions as written by connect-pg-simple when sessions are kept in PostgreSQL. Declared here so
+// that db:push creates the table and leaves it alone.
+export const httpSessions = pgTable("http_sessions", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [index("http_sessions_expire_idx").on(table.expire)]);
+
+// Device and activity of a logged-in session, listed to its user so sessions can be revoked
+export const userSessions = pgTable("user_sessions", {
+  id: serial("id").primaryKey(),
+  sid: text("sid").notNull().unique(),
+  userId: integer("user_id").notNull(),
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").notNull(),
+  lastSeenAt: timestamp("last_seen_at").notNull(),
+});
+
+// Change made by a department head or administrator to a session, or its attendance, taught by another teacher
+export const ownershipOverrides = pgTable("ownership_overrides", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  teacherId: integer("teacher_id").notNull(),
+  entity: text("entity", { enum: ["sessions", "absences"] }).notNull(),
+  entityId: integer("entity_id").notNull(),
+  action: text("action", { enum: ["create", "update", "delete"] }).notNull(),
+  createdAt: timestamp("created_at").notNull(),
+});
+
+// Request to excuse one or more absences of a student, reviewed by the department head
+export const justificationRequests = pgTable("justification_requests", {
+  id: serial("id").primaryKey(),
+  studentId: integer("student_id").notNull(),
+  reason: text("reason", { enum: ["medical", "family", "administrative", "transport", "other"] }).notNull(),
+  explanation: text("explanation").notNull(),
+  status: text("status", { enum: ["pending", "approved", "rejected"] }).notNull().default("pending"),
+  submittedById: integer("submitted_by_id").notNull(),
+  submittedAt: timestamp("submitted_at").notNull(),
+  reviewedById: integer("reviewed_by_id"),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewComment: text("review_comment"),
+});
+
+// Absences covered by a justification request
+export const justificationRequestAbsences = pgTable("justification_request_absences", {
+  id: serial("id").primaryKey(),
+  requestId: integer("request_id").notNull(),
+  absenceId: integer("absence_id").notNull(),
+});
+
+// Supporting document of a justification request; the file itself is kept on disk under storedName
+export const justificationDocuments = pgTable("justification_documents", {
+  id: serial("id").primaryKey(),
+  requestId: integer("request_id").notNull(),
+  fileName: text("file_name").notNull(),
+  storedName: text("stored_name").notNull().unique(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  uploadedAt: timestamp("uploaded_at").notNull(),
+});
+
+// Parent or guardian of a student. A guardian account sees the students whose contacts share its email.
+export const guardians = pgTable("guardians", {
+  id: serial("id").primaryKey(),
+  studentId: integer("student_id").notNull(),
+  fullName: text("full_name").notNull(),
+  relationship: text("relationship", { enum: ["mother", "father", "legalGuardian", "sponsor", "other"] }).notNull(),
+  email: text("email"),
+  phone: text("phone"),
+  // How the guardian wants to be notified about the student's attendance
+  preferredChannel: text("preferred_channel", { enum: ["email", "sms"] }).notNull().default("email"),
+});
+
+// Escalation steps of a course's absence policy, from the mildest. A student reaches a level once their
+// unexcused absences exceed its threshold.
+export const ESCALATION_LEVELS = ["warning", "convocation", "exclusion"] as const;
+
+export const thresholdLevels = pgTable("threshold_levels", {
+  id: serial("id").primaryKey(),
+  courseId: integer("course_id").notNull(),
+  level: text("level", { enum: ESCALATION_LEVELS }).notNull(),
+  threshold: integer("threshold").notNull(),
+});
+
+// Raised when a student reaches an escalation level, for the department head and the student to see.
+// clearedAt is set once the student falls back under the level, so that reaching it again raises a new alert.
+export const absenceAlerts = pgTable("absence_alerts", {
+  id: serial("id").primaryKey(),
+  studentId: integer("student_id").notNull(),
+  courseId: integer("course_id").notNull(),
+  semesterId: integer("semester_id"),
+  level: text("level", { enum: ESCALATION_LEVELS }).notNull(),
+  // The threshold is in the unit the course measured absences in when the alert was raised
+  unit: text("unit", { enum: THRESHOLD_UNITS }).notNull().default("count"),
+  threshold: integer("threshold").notNull(),
+  unexcusedCount: integer("unexcused_count").notNull(),
+  unexcusedHours: real("unexcused_hours").notNull().default(0),
+  status: text("status", { enum: ["open", "dismissed", "resolved"] }).notNull().default("open"),
+  raisedAt: timestamp("raised_at").notNull(),
+  clearedAt: timestamp("cleared_at"),
+  // Who dismissed or resolved the alert; null when it was resolved because the student fell back under the level
+  closedById: integer("closed_by_id"),
+  closedAt: timestamp("closed_at"),
+  closingNote: text("closing_note"),
+});
+
+export const NOTIFICATION_EVENTS = [
+  "absenceRecorded",
+  "absenceAlert",
+  "justificationSubmitted",
+  "justificationReviewed",
+  "attendanceMissing",
+] as const;
+export const NOTIFICATION_CHANNELS = ["email", "sms", "inApp"] as const;
+
+// Channels a user wants to be told about one kind of event on. Events without a row use the default channels.
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  event: text("event", { enum: NOTIFICATION_EVENTS }).notNull(),
+  channels: text("channels", { enum: NOTIFICATION_CHANNELS }).array().notNull(),
+});
+
+// Messages waiting to be delivered, or that were. A failed delivery is retried at nextAttemptAt until the
+// attempts run out. The recipient is an email address or a phone number; in-app messages go to userId.
+export const notificationOutbox = pgTable("notification_outbox", {
+  id: serial("id").primaryKey(),
+  event: text("event", { enum: NOTIFICATION_EVENTS }).notNull(),
+  channel: text("channel", { enum: NOTIFICATION_CHANNELS }).notNull(),
+  userId: integer("user_id"),
+  recipient: text("recipient"),
+  subject: text("subject").notNull(),
+  body: text("body").notNull(),
+  // Page of the app the message is about, for in-app messages
+  link: text("link"),
+  status: text("status", { enum: ["pending", "sent", "failed"] }).notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").notNull(),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").notNull(),
+  sentAt: timestamp("sent_at"),
+});
+
+// Notifications delivered in the app, shown to their user until read
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  event: text("event", { enum: NOTIFICATION_EVENTS }).notNull(),
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  link: text("link"),
+  createdAt: timestamp("created_at").notNull(),
+  readAt: timestamp("read_at"),
+});
+
+// Append-only record of a change. Each entry's hash covers the previous entry's hash, so editing or removing
+// an entry breaks the chain from there on.
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  // Null for changes made outside a logged-in request
+  userId: integer("user_id"),
+  action: text("action", { enum: ["create", "update", "delete"] }).notNull(),
+  entity: text("entity").notNull(),
+  entityId: integer("entity_id"),
+  // Full row for creates and deletes, changed fields only for updates
+  before: json("before"),
+  after: json("after"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").notNull(),
+  previousHash: text("previous_hash").notNull().unique(),
+  hash: text("hash").notNull().unique(),
+});
+
+// Changes made to existing rows once db:push has brought the tables in line with this schema, by name, so each
+// runs a single time
+export const dataMigrations = pgTable("data_migrations", {
+  name: text("name").primaryKey(),
+  appliedAt: timestamp("applied_at").notNull(),
+});
+
 // Create insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({ id: true });
 export const insertDepartmentSchema = createInsertSchema(departments).omit({ id: true });
@@ -110,8 +406,131 @@ export const insertTeacherModuleElementSchema = createInsertSchema(teacherModule
 export const insertStudentSchema = createInsertSchema(students).omit({ id: true });
 export const insertStudentGroupSchema = createInsertSchema(studentGroups).omit({ id: true });
 export const insertStudentGroupAssignmentSchema = createInsertSchema(studentGroupAssignments).omit({ id: true });
-export const insertSessionSchema = createInsertSchema(sessions).omit({ id: true });
+export const insertRoomSchema = createInsertSchema(rooms).omit({ id: true });
+export const insertSessionSchema = createInsertSchema(sessions).omit({ id: true, attendanceRecordedAt: true });
+export const insertTimetableSlotSchema = createInsertSchema(timetableSlots).omit({ id: true });
+export const insertAttendanceReminderSchema = createInsertSchema(attendanceReminders).omit({ id: true });
 export const insertAbsenceSchema = createInsertSchema(absences).omit({ id: true });
+export const insertAcademicYearSchema = createInsertSchema(academicYears).omit({ id: true });
+export const insertSemesterSchema = createInsertSchema(semesters).omit({ id: true });
+export const insertEnrollmentSchema = createInsertSchema(enrollments).omit({ id: true });
+export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTokens).omit({ id: true });
+export const insertUserSessionSchema = createInsertSchema(userSessions).omit({ id: true });
+export const insertOwnershipOverrideSchema = createInsertSchema(ownershipOverrides).omit({ id: true });
+export const insertAuditEntrySchema = createInsertSchema(auditLog).omit({ id: true });
+export const insertJustificationRequestSchema = createInsertSchema(justificationRequests).omit({ id: true });
+export const insertJustificationRequestAbsenceSchema = createInsertSchema(justificationRequestAbsences).omit({ id: true });
+export const insertJustificationDocumentSchema = createInsertSchema(justificationDocuments).omit({ id: true });
+export const insertThresholdLevelSchema = createInsertSchema(thresholdLevels).omit({ id: true });
+export const insertAbsenceAlertSchema = createInsertSchema(absenceAlerts).omit({ id: true });
+export const insertNotificationPreferenceSchema = createInsertSchema(notificationPreferences).omit({ id: true });
+export const insertOutboxMessageSchema = createInsertSchema(notificationOutbox).omit({ id: true });
+export const insertNotificationSchema = createInsertSchema(notifications).omit({ id: true });
+export const insertMagicLinkTokenSchema = createInsertSchema(magicLinkTokens).omit({ id: true });
+// A contact must be reachable on the channel it prefers
+export const insertGuardianSchema = createInsertSchema(guardians, {
+  fullName: schema => schema.trim().min(1),
+  email: schema => schema.trim().email(),
+  phone: schema => schema.trim().min(1),
+}).omit({ id: true }).refine(
+  guardian => (guardian.preferredChannel === "sms" ? !!guardian.phone : !!guardian.email),
+  { message: "The preferred channel needs a matching email or phone number", path: ["preferredChannel"] }
+);
+
+// Justification request as submitted; the submitter, dates and review are filled in by the server. Sent as
+// multipart form data alongside the documents, so numbers arrive as strings.
+export const justificationPayloadSchema = z.object({
+  studentId: z.coerce.number().int(),
+  reason: insertJustificationRequestSchema.shape.reason,
+  explanation: z.string().trim().min(1),
+  absenceIds: z.preprocess(
+    value => (Array.isArray(value) ? value : [value]),
+    z.array(z.coerce.number().int()).min(1)
+  ),
+});
+
+export const justificationReviewSchema = z.object({
+  decision: z.enum(["approved", "rejected"]),
+  comment: z.string().trim().optional(),
+});
+
+// A course's escalation levels, replaced as a whole along with the unit they are measured in and the rule
+// turning late arrivals into absences. Each level appears once and the later levels need more absences than
+// the earlier ones.
+export const thresholdLevelsPayloadSchema = z.object({
+  unit: z.enum(THRESHOLD_UNITS).default("count"),
+  latesPerAbsence: z.number().int().min(1).nullable().default(null),
+  lateAbsentAfterMinutes: z.number().int().min(1).nullable().default(null),
+  levels: z.array(z.object({
+    level: insertThresholdLevelSchema.shape.level,
+    threshold: z.number().int().min(0),
+  })),
+}).refine(
+  ({ levels }) => new Set(levels.map(level => level.level)).size === levels.length,
+  { message: "Each escalation level can only be set once", path: ["levels"] }
+).refine(
+  ({ levels }) => {
+    const sorted = [...levels].sort((a, b) => ESCALATION_LEVELS.indexOf(a.level) - ESCALATION_LEVELS.indexOf(b.level));
+    return sorted.every((level, index) => index === 0 || level.threshold > sorted[index - 1].threshold);
+  },
+  { message: "Each escalation level needs more absences than the one before", path: ["levels"] }
+);
+
+export const absenceAlertClosingSchema = z.object({
+  status: z.enum(["dismissed", "resolved"]),
+  note: z.string().trim().optional(),
+});
+
+// A user's own notification settings: the phone number SMS go to, and the channels of each event. Events left
+// out keep their current channels.
+export const notificationSettingsSchema = z.object({
+  phone: z.string().trim().nullable().optional().transform(phone => phone || null),
+  preferences: z.array(z.object({
+    event: z.enum(NOTIFICATION_EVENTS),
+    channels: z.array(z.enum(NOTIFICATION_CHANNELS)).transform(channels => Array.from(new Set(channels))),
+  })).refine(
+    preferences => new Set(preferences.map(preference => preference.event)).size === preferences.length,
+    { message: "Each event can only be set once" }
+  ),
+});
+
+// User payload accepted from administrators: two-factor secrets are only set through enrollment
+export const userPayloadSchema = insertUserSchema.omit({
+  totpSecret: true,
+  totpRecoveryCodes: true,
+  totpLastUsedStep: true,
+});
+
+// Session payload as sent over JSON, where the date arrives as an ISO string. The teacher defaults to the
+// logged-in user; only the timetable plans sessions from a slot.
+export const sessionPayloadSchema = insertSessionSchema.omit({ slotId: true }).extend({
+  date: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  teacherId: z.number().int().optional(),
+});
+
+// Payload for recording a session together with its attendance in a single request
+export const recordAttendanceSchema = z.object({
+  session: sessionPayloadSchema,
+  absences: z.array(insertAbsenceSchema.omit({ sessionId: true })),
+});
+
+// Attendance of a session that already exists, such as one planned from the timetable
+export const sessionAttendanceSchema = recordAttendanceSchema.pick({ absences: true });
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected a time as HH:MM");
+
+export const timetableSlotPayloadSchema = insertTimetableSlotSchema.extend({
+  weekday: z.number().int().min(1).max(7),
+  startTime: timeOfDay,
+  endTime: timeOfDay,
+});
+
+export const roomPayloadSchema = insertRoomSchema.extend({
+  name: z.string().trim().min(1).max(50),
+  building: z.string().trim().min(1).max(100),
+  capacity: z.number().int().min(1),
+});
 
 // Define types for insert and select operations
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -144,5 +563,80 @@ export type StudentGroupAssignment = typeof studentGroupAssignments.$inferSelect
 export type InsertSession = z.infer<typeof insertSessionSchema>;
 export type Session = typeof sessions.$inferSelect;
 
+export type InsertRoom = z.infer<typeof insertRoomSchema>;
+export type Room = typeof rooms.$inferSelect;
+export type RoomType = typeof ROOM_TYPES[number];
+
+export type InsertTimetableSlot = z.infer<typeof insertTimetableSlotSchema>;
+export type TimetableSlot = typeof timetableSlots.$inferSelect;
+
+export type InsertAttendanceReminder = z.infer<typeof insertAttendanceReminderSchema>;
+export type AttendanceReminder = typeof attendanceReminders.$inferSelect;
+
 export type InsertAbsence = z.infer<typeof insertAbsenceSchema>;
 export type Absence = typeof absences.$inferSelect;
+
+export type InsertAcademicYear = z.infer<typeof insertAcademicYearSchema>;
+export type AcademicYear = typeof academicYears.$inferSelect;
+
+export type InsertSemester = z.infer<typeof insertSemesterSchema>;
+export type Semester = typeof semesters.$inferSelect;
+
+export type InsertEnrollment = z.infer<typeof insertEnrollmentSchema>;
+export type Enrollment = typeof enrollments.$inferSelect;
+
+export type Setting = typeof settings.$inferSelect;
+
+export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+
+export type InsertUserSession = z.infer<typeof insertUserSessionSchema>;
+export type UserSession = typeof userSessions.$inferSelect;
+
+export type InsertOwnershipOverride = z.infer<typeof insertOwnershipOverrideSchema>;
+export type OwnershipOverride = typeof ownershipOverrides.$inferSelect;
+
+export type InsertAuditEntry = z.infer<typeof insertAuditEntrySchema>;
+export type AuditEntry = typeof auditLog.$inferSelect;
+
+export type InsertJustificationRequest = z.infer<typeof insertJustificationRequestSchema>;
+export type JustificationRequest = typeof justificationRequests.$inferSelect;
+
+export type InsertJustificationRequestAbsence = z.infer<typeof insertJustificationRequestAbsenceSchema>;
+export type JustificationRequestAbsence = typeof justificationRequestAbsences.$inferSelect;
+
+export type InsertJustificationDocument = z.infer<typeof insertJustificationDocumentSchema>;
+export type JustificationDocument = typeof justificationDocuments.$inferSelect;
+
+export type InsertMagicLinkToken = z.infer<typeof insertMagicLinkTokenSchema>;
+export type MagicLinkToken = typeof magicLinkTokens.$inferSelect;
+
+export type InsertGuardian = z.infer<typeof insertGuardianSchema>;
+export type Guardian = typeof guardians.$inferSelect;
+
+export type InsertThresholdLevel = z.infer<typeof insertThresholdLevelSchema>;
+export type ThresholdLevel = typeof thresholdLevels.$inferSelect;
+
+export type InsertAbsenceAlert = z.infer<typeof insertAbsenceAlertSchema>;
+export type AbsenceAlert = typeof absenceAlerts.$inferSelect;
+
+export type InsertNotificationPreference = z.infer<typeof insertNotificationPreferenceSchema>;
+export type NotificationPreference = typeof notificationPreferences.$inferSelect;
+
+export type InsertOutboxMessage = z.infer<typeof insertOutboxMessageSchema>;
+export type OutboxMessage = typeof notificationOutbox.$inferSelect;
+
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type Notification = typeof notifications.$inferSelect;
+
+export type NotificationEvent = typeof NOTIFICATION_EVENTS[number];
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+export type ThresholdUnit = typeof THRESHOLD_UNITS[number];
+
+export type NotificationSettings = z.infer<typeof notificationSettingsSchema>;
+
+export type ThresholdLevelsPayload = z.infer<typeof thresholdLevelsPayloadSchema>;
+
+export type JustificationPayload = z.infer<typeof justificationPayloadSchema>;
+
+export type RecordAttendance = z.infer<typeof recordAttendanceSchema>;
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { UNTIMED_SESSION_HOURS, roundHours, sessionHours } from "./session-hours";
+
+describe("sessionHours", () => {
+  it("measures a session from its start to its end", () => {
+    expect(sessionHours({ date: "2026-10-12T08:00:00Z", endsAt: "2026-10-12T09:30:00Z" })).toBe(1.5);
+    expect(sessionHours({ date: new Date("2026-10-12T14:00:00Z"), endsAt: new Date("2026-10-12T18:00:00Z") })).toBe(4);
+  });
+
+  it("counts sessions without an end time for the default length", () => {
+    expect(sessionHours({ date: "2026-10-12T08:00:00Z", endsAt: null })).toBe(UNTIMED_SESSION_HOURS);
+  });
+
+  it("never counts negative hours", () => {
+    expect(sessionHours({ date: "2026-10-12T10:00:00Z", endsAt: "2026-10-12T08:00:00Z" })).toBe(0);
+  });
+});
+
+describe("roundHours", () => {
+  it("rounds to the quarter hour", () => {
+    expect(roundHours(1 + 1 / 3)).toBe(1.25);
+    expect(roundHours(2.9)).toBe(3);
+    expect(roundHours(0.1)).toBe(0);
+  });
+});
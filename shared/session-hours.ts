@@ -0,0 +1,20 @@
+// Length of sessions, shared by the API, which measures absences in hours, and the client, which charts them
+
+// Sessions recorded before sessions had an end time count for this long
+export const UNTIMED_SESSION_HOURS = 2;
+
+export interface TimedSession {
+  date: Date | string;
+  endsAt: Date | string | null;
+}
+
+export function sessionHours(session: TimedSession): number {
+  if (session.endsAt === null) return UNTIMED_SESSION_HOURS;
+  const milliseconds = new Date(session.endsAt).getTime() - new Date(session.date).getTime();
+  return Math.max(0, milliseconds / (60 * 60 * 1000));
+}
+
+// Hours rounded to the quarter, as they are shown
+export function roundHours(hours: number): number {
+  return Math.round(hours * 4) / 4;
+}